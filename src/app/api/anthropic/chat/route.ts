@@ -1,14 +1,21 @@
-import { anthropic } from "@ai-sdk/anthropic";
 import { convertToCoreMessages, streamText } from "ai";
+import { getLanguageModel } from "@/lib/llm/providers";
 
 export const runtime = "edge";
 
 export async function POST(req: Request) {
   const { messages } = await req.json();
+  // Defaults to Claude; LLM_CHAT_* settings still apply
+  const { model, config } = getLanguageModel("chat", {
+    provider: "anthropic",
+    model: "claude-3-5-sonnet-20240620",
+  });
   const result = await streamText({
-    model: anthropic("claude-3-5-sonnet-20240620"),
+    model,
     messages: convertToCoreMessages(messages),
     system: "You are a helpful AI assistant",
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
   });
 
   return result.toDataStreamResponse();
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { GET, POST } from './route';
+import { publishPlanEvent } from '@/lib/jobs/events';
+import { issueStreamToken } from '@/lib/jobs/leases';
+import { savePlanState } from '@/lib/plan/state';
+import { testPlanState } from '@/test/fixtures';
+
+function streamEvents(requestId: string, lastEventId?: string, streamToken?: string) {
+  const cursor = lastEventId === undefined ? '' : `&lastEventId=${lastEventId}`;
+  const token = streamToken === undefined ? '' : `&streamToken=${streamToken}`;
+  return GET(new Request(`http://localhost/api/generate-plan/events?requestId=${requestId}${cursor}${token}`));
+}
+
+describe('GET /api/generate-plan/events', () => {
+  it('starts a first connection from the first event', async () => {
+    await savePlanState('events-first', testPlanState());
+    await publishPlanEvent('events-first', { type: 'week-started', weekNumber: 1 });
+    await publishPlanEvent('events-first', { type: 'plan-completed' });
+
+    const body = await (await streamEvents('events-first')).text();
+
+    expect(body).toContain('id: 0\nevent: week-started');
+    expect(body).toContain('id: 1\nevent: plan-completed');
+  });
+
+  it('resumes after the last event the client saw', async () => {
+    await savePlanState('events-resume', testPlanState());
+    await publishPlanEvent('events-resume', { type: 'week-started', weekNumber: 1 });
+    await publishPlanEvent('events-resume', { type: 'plan-completed' });
+
+    const body = await (await streamEvents('events-resume', '0')).text();
+
+    expect(body).not.toContain('event: week-started');
+    expect(body).toContain('id: 1\nevent: plan-completed');
+  });
+
+  it('opens an owned plan with a stream token issued for it', async () => {
+    await savePlanState('events-owned', testPlanState({ ownerId: 'runner' }));
+    await savePlanState('events-other', testPlanState({ ownerId: 'runner' }));
+    await publishPlanEvent('events-owned', { type: 'plan-completed' });
+
+    expect((await streamEvents('events-owned')).status).toBe(403);
+    expect((await streamEvents('events-owned', undefined, 'made-up')).status).toBe(403);
+    expect((await streamEvents('events-owned', undefined, await issueStreamToken('events-other'))).status).toBe(403);
+
+    const response = await streamEvents('events-owned', undefined, await issueStreamToken('events-owned'));
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('event: plan-completed');
+  });
+
+  it('only issues stream tokens to the owner', async () => {
+    await savePlanState('events-token', testPlanState({ ownerId: 'runner' }));
+
+    const response = await POST(new Request('http://localhost/api/generate-plan/events', {
+      method: 'POST',
+      body: JSON.stringify({ requestId: 'events-token' })
+    }));
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { getPlanEventLog, isFinalEvent, LoggedPlanEvent, PlanEvent } from '@/lib/jobs/events';
+import { issueStreamToken, redeemStreamToken } from '@/lib/jobs/leases';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const POLL_INTERVAL_MS = 500;
+const KEEPALIVE_MS = 15000;
+// Close before the platform limit; EventSource reconnects with Last-Event-ID
+const STREAM_DURATION_MS = 50000;
+
+function formatEvent({ id, event }: LoggedPlanEvent): string {
+  return `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// POST /api/generate-plan/events { requestId }
+// EventSource cannot send an Authorization header, so the owner asks here for a
+// token that only opens this plan's stream and puts that in the stream URL
+export async function POST(req: Request) {
+  const { requestId } = await req.json().catch(() => ({}));
+  if (typeof requestId !== 'string' || !requestId) {
+    return NextResponse.json(
+      { error: 'No requestId provided' },
+      { status: 400 }
+    );
+  }
+
+  const { state, allowed } = await loadPlanForRequest(req, requestId);
+  if (!state) {
+    return NextResponse.json(
+      { error: 'Request not found' },
+      { status: 404 }
+    );
+  }
+  if (!allowed) {
+    return NextResponse.json(
+      { error: 'This plan belongs to another account' },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.json({ streamToken: await issueStreamToken(requestId) });
+}
+
+// GET /api/generate-plan/events?requestId=...&streamToken=...
+// Server-Sent Events stream of generation progress, replayed from Last-Event-ID
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const requestId = url.searchParams.get('requestId');
+  if (!requestId) {
+    return NextResponse.json(
+      { error: 'No requestId provided' },
+      { status: 400 }
+    );
+  }
+
+  const { state, allowed } = await loadPlanForRequest(req, requestId);
+  if (!state) {
+    return NextResponse.json(
+      { error: 'Request not found' },
+      { status: 404 }
+    );
+  }
+  const streamToken = url.searchParams.get('streamToken');
+  if (!allowed && !(streamToken && await redeemStreamToken(requestId, streamToken))) {
+    return NextResponse.json(
+      { error: 'This plan belongs to another account' },
+      { status: 403 }
+    );
+  }
+
+  // A finished plan has nothing more to stream; once its log has expired the
+  // final event is sent again so the client stops reconnecting
+  const finalEvent: PlanEvent | null = state.status === 'completed'
+    ? { type: 'plan-completed' }
+    : state.status === 'error'
+      ? { type: 'plan-failed', error: state.error || 'Failed to generate plan' }
+      : null;
+
+  // Without a cursor the stream starts from the first event
+  const cursor = req.headers.get('last-event-id') ?? url.searchParams.get('lastEventId');
+  const lastEventId = cursor ? Number(cursor) : -1;
+  let nextId = Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId + 1 : 0;
+  const log = await getPlanEventLog();
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const closeAt = Date.now() + STREAM_DURATION_MS;
+      let lastWrite = Date.now();
+      controller.enqueue(encoder.encode(`retry: 1000\n\n`));
+
+      try {
+        while (!req.signal.aborted && Date.now() < closeAt) {
+          const events = await log.read(requestId, nextId);
+          for (const logged of events) {
+            controller.enqueue(encoder.encode(formatEvent(logged)));
+            nextId = logged.id + 1;
+            lastWrite = Date.now();
+          }
+          if (events.some(({ event }) => isFinalEvent(event))) {
+            break;
+          }
+          if (finalEvent) {
+            controller.enqueue(encoder.encode(`event: ${finalEvent.type}\ndata: ${JSON.stringify(finalEvent)}\n\n`));
+            break;
+          }
+
+          if (Date.now() - lastWrite >= KEEPALIVE_MS) {
+            controller.enqueue(encoder.encode(`: keepalive\n\n`));
+            lastWrite = Date.now();
+          }
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error('Error streaming plan events:', error);
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
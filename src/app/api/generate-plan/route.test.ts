@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST, PUT } from './route';
+import { generateWeek } from '@/lib/plan/generator';
+import { sendPlanEmail } from '@/lib/plan/email';
+import { loadPlanState, savePlanState } from '@/lib/plan/state';
+import { acquireWeekLease, recordGeneratedWeek } from '@/lib/jobs/worker';
+import { acquireLease, releaseLease, weekLeaseKey } from '@/lib/jobs/leases';
+import { testGeneratedWeek, testPlanState } from '@/test/fixtures';
+
+vi.mock('@/lib/plan/generator', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/plan/generator')>()),
+  generateWeek: vi.fn(async (_state: unknown, weekNumber: number) => testGeneratedWeek(weekNumber))
+}));
+vi.mock('@/lib/plan/email', () => ({ sendPlanEmail: vi.fn(async () => true) }));
+
+function putWeek(requestId: string, weekNumber: number, idempotencyKey?: string) {
+  return PUT(new Request('http://localhost/api/generate-plan', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+    },
+    body: JSON.stringify({ requestId, weekNumber })
+  }));
+}
+
+// Duplicate and out-of-order PUTs must never generate a week twice or write it twice
+describe('PUT /api/generate-plan', () => {
+  beforeEach(() => {
+    vi.mocked(generateWeek).mockClear();
+    vi.mocked(sendPlanEmail).mockClear();
+  });
+
+  it('answers a repeated idempotency key from the stored response', async () => {
+    await savePlanState('put-idempotent', testPlanState());
+
+    const first = await putWeek('put-idempotent', 1, 'key-1');
+    const second = await putWeek('put-idempotent', 1, 'key-1');
+
+    expect(first.status).toBe(200);
+    expect(await second.json()).toEqual(await first.json());
+    expect(generateWeek).toHaveBeenCalledTimes(1);
+    expect((await loadPlanState('put-idempotent'))?.version).toBe(1);
+  });
+
+  it('answers a repeat without a key from the stored week', async () => {
+    await savePlanState('put-repeat', testPlanState());
+
+    await putWeek('put-repeat', 1);
+    const repeat = await putWeek('put-repeat', 1);
+
+    expect((await repeat.json()).weekPlan.weekNumber).toBe(1);
+    expect(generateWeek).toHaveBeenCalledTimes(1);
+    expect((await loadPlanState('put-repeat'))?.version).toBe(1);
+  });
+
+  it('refuses a plan claimed by another account', async () => {
+    await savePlanState('put-owned', testPlanState({ ownerId: 'someone-else' }));
+
+    const response = await putWeek('put-owned', 1, 'key-owned');
+
+    expect(response.status).toBe(403);
+    expect(generateWeek).not.toHaveBeenCalled();
+    expect((await loadPlanState('put-owned'))?.version).toBe(0);
+  });
+
+  it('refuses a week someone else holds the lease for', async () => {
+    await savePlanState('put-leased', testPlanState());
+    const lease = await acquireWeekLease('put-leased', 1);
+
+    const response = await putWeek('put-leased', 1);
+
+    expect(response.status).toBe(409);
+    expect(generateWeek).not.toHaveBeenCalled();
+    expect((await loadPlanState('put-leased'))?.version).toBe(0);
+    await releaseLease(lease!);
+  });
+
+  it('drops the week a stale lease holder finishes late', async () => {
+    await savePlanState('put-stale', testPlanState());
+    const stale = await acquireLease(weekLeaseKey('put-stale', 1), 1);
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    // Once the lease has expired and been taken over, the stale holder cannot release it
+    const current = await acquireWeekLease('put-stale', 1);
+    expect(current).not.toBeNull();
+    await releaseLease(stale!);
+    expect(await acquireWeekLease('put-stale', 1)).toBeNull();
+    await releaseLease(current!);
+
+    const response = await putWeek('put-stale', 1);
+    const { recorded } = await recordGeneratedWeek('put-stale', 1, testGeneratedWeek(1, { tips: 'late' }));
+
+    expect(response.status).toBe(200);
+    expect(recorded).toBe(false);
+    const state = await loadPlanState('put-stale');
+    expect(state?.weeks[1].tips).toBe('Week 1');
+    expect(state?.version).toBe(1);
+  });
+
+  it('completes the plan once however the weeks arrive', async () => {
+    await savePlanState('put-order', testPlanState());
+
+    await putWeek('put-order', 3);
+    expect((await loadPlanState('put-order'))?.status).toBe('in_progress');
+    await putWeek('put-order', 1);
+    await putWeek('put-order', 3);
+    await putWeek('put-order', 2);
+
+    const state = await loadPlanState('put-order');
+    expect(state?.status).toBe('completed');
+    expect(Object.keys(state?.weeks ?? {})).toEqual(['1', '2', '3']);
+    expect(generateWeek).toHaveBeenCalledTimes(3);
+    expect(sendPlanEmail).toHaveBeenCalledTimes(1);
+    // Three weeks and the completion email claim, each written once
+    expect(state?.version).toBe(4);
+  });
+});
+
+describe('POST /api/generate-plan', () => {
+  it('refuses a race date that is not a real date', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fake');
+
+    const response = await POST(new Request('http://localhost/api/generate-plan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        raceDate: '2027-02-30',
+        raceDistance: 'marathon',
+        goalTime: { hours: '3', minutes: '45', seconds: '0' },
+        currentMileage: '25',
+        email: 'runner@example.com'
+      })
+    }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Race date must be in YYYY-MM-DD format');
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses a goal time too slow to calculate paces for', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fake');
+
+    const response = await POST(new Request('http://localhost/api/generate-plan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        raceDate: '2027-03-07',
+        raceDistance: 'marathon',
+        goalTime: { hours: '30', minutes: '0', seconds: '0' },
+        currentMileage: '25',
+        email: 'runner@example.com'
+      })
+    }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/that slow/);
+    vi.unstubAllEnvs();
+  });
+});
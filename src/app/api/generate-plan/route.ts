@@ -1,143 +1,240 @@
-import { OpenAI } from 'openai';
 import { NextResponse } from 'next/server';
-import { differenceInDays, addDays, format } from 'date-fns';
-import { Redis } from '@upstash/redis';
-import { Resend } from 'resend';
-
-// Configure runtime
-export const runtime = 'edge';
+import { isValid, parseISO } from 'date-fns';
+import { PlanState } from '@/lib/plan/types';
+import { WeekValidationError } from '@/lib/plan/schema';
+import { renderWeekMarkdown } from '@/lib/plan/render';
+import { isDistanceUnit, toMiles } from '@/lib/plan/units';
+import { buildPlanSkeleton } from '@/lib/plan/periodization';
+import { calculatePaceZones, GoalPaceError, METERS_PER_MILE } from '@/lib/plan/paces';
+import { RaceDistanceError, resolveRaceDistance } from '@/lib/plan/distances';
+import { goalTimeToSeconds } from '@/lib/plan/time';
+import { EMPTY_RUNNER_PROFILE, RunnerProfile, validateRunnerProfile } from '@/lib/plan/profile';
+import { EMPTY_PLAN_CONSTRAINTS, PlanConstraints, validatePlanConstraints } from '@/lib/plan/constraints';
+import { calculateTotalWeeks, generateWeek, scheduleSeasonRaces } from '@/lib/plan/generator';
+import { ScheduledRace } from '@/lib/plan/season';
+import { assessGoal } from '@/lib/plan/prediction';
+import { savePlanState, updatePlanState } from '@/lib/plan/state';
+import { indexNewPlan, loadPlanForRequest } from '@/lib/plan/owners';
+import { getRequestUser } from '@/lib/firebase/verifyIdToken';
+import {
+  acquireWeekLease,
+  enqueueWeek,
+  recordGeneratedWeek,
+  sendCompletionEmail,
+  triggerWorker
+} from '@/lib/jobs/worker';
+import { getStoredResponse, releaseLease, storeResponse } from '@/lib/jobs/leases';
+import { getLanguageModel } from '@/lib/llm/providers';
+
+// Finishing a plan sends the completion email, whose jsPDF attachment needs
+// the Node.js runtime, so this route is not on the edge
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
-// Version check - v1.3.3 (Resend Email Integration)
-console.log('Running Edge Runtime version - v1.3.3');
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
-// Validate environment variables
-const requiredEnvVars = {
-  OPENAI_API_KEY: process.env.OPENAI_API_KEY,
-  UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL,
-  UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN,
-  VERCEL_URL: process.env.VERCEL_URL,
-  RESEND_API_KEY: process.env.RESEND_API_KEY
-};
+// Version check - v1.4.0 (Background generation jobs)
+console.log('Running Node.js Runtime version - v1.4.0');
 
 console.log('Environment Variables Status:', {
+  LLM_PROVIDER: process.env.LLM_PLAN_PROVIDER || process.env.LLM_PROVIDER || 'openai',
   OPENAI_API_KEY: !!process.env.OPENAI_API_KEY ? 'Set' : 'Missing',
+  PLAN_STORE: process.env.PLAN_STORE || 'default',
   UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL ? 'Set' : 'Missing',
   UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN ? 'Set' : 'Missing',
   VERCEL_URL: process.env.VERCEL_URL ? 'Set' : 'Missing',
   RESEND_API_KEY: process.env.RESEND_API_KEY ? 'Set' : 'Missing'
 });
 
-// Define types
-interface PlanState {
-  status: 'initialized' | 'in_progress' | 'completed' | 'error';
-  email: string;
-  raceDate: string;
-  goalTime: {
-    hours: string;
-    minutes: string;
-    seconds: string;
-  };
-  currentMileage: string;
-  totalWeeks: number;
-  currentWeek: number;
-  weeks: Record<string, string>;
-  error: string | null;
-  startTime: string;
-}
+// Validate the inputs, store the plan skeleton and queue week 1. The worker
+// generates the remaining weeks and emails the plan, so the browser only has
+// to poll GET for progress and can be closed at any time.
+export async function POST(req: Request) {
+  try {
+    // Fail fast if the configured LLM provider is missing credentials
+    getLanguageModel('plan');
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
+    const { raceDate, raceDistance: raceDistanceId, customDistance, goalTime, currentMileage, units = 'mi', email, profile, constraints, races, confirmGoal = false } = await req.json();
 
-// Initialize Redis client with explicit error handling
-function initializeRedis() {
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+    // Signed-in runners own the plan; a stale token is an error rather than an anonymous plan
+    const user = await getRequestUser(req);
+    if (req.headers.has('authorization') && !user) {
+      return NextResponse.json(
+        { error: 'Your sign-in has expired, please sign in again' },
+        { status: 401 }
+      );
+    }
 
-  if (!url || !token) {
-    console.error('Redis credentials missing:', {
-      hasUrl: !!url,
-      hasToken: !!token
-    });
-    throw new Error('Redis credentials not configured');
-  }
+    // Everything below counts weeks from the race date, so a bad one is refused first
+    if (typeof raceDate !== 'string' || !DATE_PATTERN.test(raceDate) || !isValid(parseISO(raceDate))) {
+      return NextResponse.json(
+        { error: 'Race date must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
 
-  console.log('Initializing Redis with URL:', url.substring(0, 20) + '...');
-  
-  return new Redis({
-    url,
-    token,
-    automaticDeserialization: false  // Handle JSON manually for better error control
-  });
-}
+    if (!isDistanceUnit(units)) {
+      return NextResponse.json(
+        { error: 'Units must be "mi" or "km"' },
+        { status: 400 }
+      );
+    }
 
-const redis = initializeRedis();
+    // Distances arrive in the runner's unit but are planned and stored in miles
+    const currentMiles = toMiles(Number(currentMileage) || 0, units);
 
-// Calculate total weeks between dates
-function calculateTotalWeeks(startDate: Date, raceDate: Date): number {
-  const totalDays = differenceInDays(raceDate, startDate);
-  return Math.ceil(totalDays / 7);
-}
+    let raceDistance;
+    try {
+      raceDistance = resolveRaceDistance(raceDistanceId, toMiles(Number(customDistance), units) * METERS_PER_MILE);
+    } catch (error) {
+      if (error instanceof RaceDistanceError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
 
-// Add validation function
-function isValidPlanState(state: any): state is PlanState {
-  return (
-    state &&
-    typeof state === 'object' &&
-    typeof state.status === 'string' &&
-    ['initialized', 'in_progress', 'completed', 'error'].includes(state.status) &&
-    typeof state.email === 'string' &&
-    typeof state.raceDate === 'string' &&
-    state.goalTime &&
-    typeof state.goalTime === 'object' &&
-    typeof state.goalTime.hours === 'string' &&
-    typeof state.goalTime.minutes === 'string' &&
-    typeof state.goalTime.seconds === 'string' &&
-    typeof state.currentMileage === 'string' &&
-    typeof state.totalWeeks === 'number' &&
-    typeof state.currentWeek === 'number' &&
-    typeof state.weeks === 'object' &&
-    (state.error === null || typeof state.error === 'string') &&
-    typeof state.startTime === 'string'
-  );
-}
+    // The profile is optional, and so is every field in it
+    let runnerProfile: RunnerProfile | null = null;
+    if (profile !== undefined && profile !== null) {
+      runnerProfile = typeof profile === 'object' ? { ...EMPTY_RUNNER_PROFILE, ...profile } : null;
+      const issues = runnerProfile ? validateRunnerProfile(runnerProfile) : ['profile must be an object'];
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid runner profile', issues },
+          { status: 400 }
+        );
+      }
+    }
 
-export async function POST(req: Request) {
-  try {
-    // Validate OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key is not configured');
+    // Blackout dates, travel and commitments are optional too
+    let planConstraints: PlanConstraints = EMPTY_PLAN_CONSTRAINTS;
+    if (constraints !== undefined && constraints !== null) {
+      planConstraints = typeof constraints === 'object' ? { ...EMPTY_PLAN_CONSTRAINTS, ...constraints } : EMPTY_PLAN_CONSTRAINTS;
+      const issues = typeof constraints === 'object' ? validatePlanConstraints(planConstraints) : ['constraints must be an object'];
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid calendar constraints', issues },
+          { status: 400 }
+        );
+      }
+    }
+
+    const goalTimeSeconds = goalTimeToSeconds(goalTime);
+    if (goalTimeSeconds <= 0) {
+      return NextResponse.json(
+        { error: 'A goal time is required' },
+        { status: 400 }
+      );
+    }
+
+    let paceZones;
+    try {
+      paceZones = calculatePaceZones(goalTimeSeconds, raceDistance);
+    } catch (error) {
+      if (error instanceof GoalPaceError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
     }
 
-    const { raceDate, goalTime, currentMileage, email } = await req.json();
     const requestId = crypto.randomUUID();
-    const today = new Date();
-    const raceDateObj = new Date(raceDate);
-    const totalWeeks = calculateTotalWeeks(today, raceDateObj);
+    const startTime = new Date();
+    const totalWeeks = calculateTotalWeeks(startTime, raceDate);
+    if (totalWeeks < 1) {
+      return NextResponse.json(
+        { error: 'Race date must be after the start of next week' },
+        { status: 400 }
+      );
+    }
+
+    // Goals that look out of reach are sent back with alternatives; the runner
+    // has to confirm them before anything is generated
+    const feasibility = assessGoal({
+      raceDistance,
+      currentMileage: currentMiles,
+      weeks: totalWeeks,
+      profile: runnerProfile,
+      units,
+      goalSeconds: goalTimeSeconds,
+      raceDate
+    });
+    if (feasibility.verdict !== 'realistic' && confirmGoal !== true) {
+      return NextResponse.json(
+        { error: feasibility.message, feasibility },
+        { status: 409 }
+      );
+    }
+
+    // Races before the goal race are optional; each needs a week of its own
+    let seasonRaces: ScheduledRace[] = [];
+    if (races !== undefined && races !== null) {
+      const { races: scheduled, issues } = scheduleSeasonRaces({ raceDate, startTime: startTime.toISOString(), totalWeeks }, races);
+      seasonRaces = scheduled;
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid races', issues },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Build the whole macrocycle up front so each week is generated against the same targets
+    const skeleton = buildPlanSkeleton({
+      currentMileage: currentMiles,
+      totalWeeks,
+      goalTimeSeconds,
+      raceDistance,
+      longestRecentRun: runnerProfile?.longestRecentRun,
+      races: seasonRaces
+    });
 
     const initialState: PlanState = {
       status: 'initialized',
       email,
+      ownerId: user?.uid ?? null,
+      calendarKey: crypto.randomUUID(),
       raceDate,
+      raceDistance,
       goalTime,
-      currentMileage,
+      currentMileage: String(currentMiles),
+      profile: runnerProfile,
+      constraints: planConstraints,
+      races: seasonRaces,
+      units,
       totalWeeks,
       currentWeek: 0,
+      skeleton,
+      paceZones,
       weeks: {},
+      markdown: {},
+      validation: {},
+      weekHistory: {},
+      adaptations: [],
+      shareLinks: [],
+      pendingChange: { source: 'generation', actor: 'system', reason: 'Plan generated' },
+      restorePoint: null,
+      completedAt: null,
       error: null,
-      startTime: new Date().toISOString()
+      startTime: startTime.toISOString(),
+      emailSentAt: null,
+      version: 1
     };
 
-    // Initialize request in Redis
-    await redis.set(`request:${requestId}`, JSON.stringify(initialState), { ex: 3600 }); // Expire in 1 hour
+    await savePlanState(requestId, initialState);
+    await indexNewPlan(requestId, initialState);
+    await enqueueWeek(requestId, 1);
+    await triggerWorker(new URL(req.url).origin);
 
     return NextResponse.json({
-      message: "Training plan generation initialized",
+      message: "Training plan generation queued",
       requestId,
-      totalWeeks
+      totalWeeks,
+      raceDistance,
+      currentMileage: initialState.currentMileage,
+      units,
+      paceZones,
+      calendarKey: initialState.calendarKey,
+      feasibility
     });
 
   } catch (error) {
@@ -149,253 +246,97 @@ export async function POST(req: Request) {
   }
 }
 
-// Update PUT handler
+// Generate a single week immediately, bypassing the queue. The week's lease
+// keeps this from racing the worker, a week that already exists is returned
+// as is, and an Idempotency-Key header makes retried requests replay the
+// first response instead of doing the work again.
 export async function PUT(req: Request) {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 25000); // 25 second timeout
-
   try {
     const { requestId, weekNumber } = await req.json();
     console.log('Generating week', weekNumber, 'for request', requestId);
-    
-    const stateStr = await redis.get<string>(`request:${requestId}`);
-    if (!stateStr) {
+
+    const { state, allowed } = await loadPlanForRequest(req, requestId);
+    if (!state) {
       throw new Error('Request not found');
     }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
 
-    const state = JSON.parse(stateStr);
-    if (!isValidPlanState(state)) {
-      throw new Error('Invalid state data structure');
+    const idempotencyKey = req.headers.get('idempotency-key');
+    if (idempotencyKey) {
+      const stored = await getStoredResponse(requestId, idempotencyKey);
+      if (stored) {
+        return NextResponse.json(stored.body, { status: stored.status });
+      }
     }
 
-    // Update status to show which week is being generated
-    state.status = 'in_progress';
-    state.currentWeek = weekNumber;
-    await redis.set(`request:${requestId}`, JSON.stringify(state), { ex: 3600 });
-
-    // Calculate dates
-    const today = new Date();
-    const raceDate = new Date(state.raceDate);
-    // Find next Monday
-    const daysUntilNextMonday = (8 - today.getDay()) % 7 || 7; // If today is Monday, go to next Monday
-    const firstMonday = addDays(today, daysUntilNextMonday);
-
-    let currentWeekStartDate;
-    let currentWeekEndDate;
-
-    // All weeks start on Monday, but final week ends on race day
-    currentWeekStartDate = addDays(firstMonday, (weekNumber - 1) * 7);
-    currentWeekEndDate = weekNumber === state.totalWeeks ? 
-      raceDate : // Final week ends on race day
-      addDays(currentWeekStartDate, 6); // Other weeks end on Sunday
-
-    // Log date calculations for debugging
-    console.log('Date calculations:', {
-      today: today.toISOString(),
-      nextMonday: firstMonday.toISOString(),
-      weekNumber,
-      currentWeekStartDate: currentWeekStartDate.toISOString(),
-      currentWeekEndDate: currentWeekEndDate.toISOString(),
-      raceDate: raceDate.toISOString(),
-      isFinalWeek: weekNumber === state.totalWeeks
+    const respond = async (body: unknown, status = 200) => {
+      if (idempotencyKey) {
+        await storeResponse(requestId, idempotencyKey, { status, body });
+      }
+      return NextResponse.json(body, { status });
+    };
+
+    const weekResponse = (current: PlanState) => ({
+      status: current.status,
+      weekPlan: current.weeks[weekNumber],
+      weekMarkdown: current.markdown[weekNumber],
+      validation: current.validation[weekNumber],
+      currentWeek: weekNumber,
+      totalWeeks: current.totalWeeks
     });
 
-    // Validate dates
-    if (currentWeekStartDate > raceDate) {
-      throw new Error('Week starts after race date');
+    // Duplicate requests for a finished week are answered from the plan
+    if (state.weeks[weekNumber]) {
+      return respond(weekResponse(state));
     }
 
-    // For the last week, adjust the end date to match race date if needed
-    if (weekNumber === state.totalWeeks && currentWeekEndDate.getTime() !== raceDate.getTime()) {
-      currentWeekEndDate = raceDate;
+    const lease = await acquireWeekLease(requestId, weekNumber);
+    if (!lease) {
+      return NextResponse.json(
+        { error: `Week ${weekNumber} is already being generated` },
+        { status: 409 }
+      );
     }
 
-    // Enhanced prompt with date continuity
-    const prompt = `You are a marathon training plan generator. Your task is to create a complete and detailed weekly training plan for Week ${weekNumber} of ${state.totalWeeks} total weeks.
-
-Inputs:
-1. Race Date: ${format(raceDate, 'MMMM d, yyyy')}
-2. Goal Time: ${state.goalTime.hours}h${state.goalTime.minutes}m${state.goalTime.seconds}s
-3. Current Weekly Mileage: ${state.currentMileage} miles
-4. Training Phase: ${
-  weekNumber <= 2 ? 'Rest Phase - Focus on easy runs, building consistency' :
-  weekNumber <= 5 ? 'Mileage Build Phase - Gradual increase, max 10% per week' :
-  weekNumber > state.totalWeeks - 3 ? 'Taper Phase - Reducing volume while maintaining fitness' :
-  'Peak Training Phase - Higher mileage and quality workouts'
-}
-
-Weekly Structure Guidelines:
-- Long Run: 60-90 seconds slower than goal marathon pace
-- Tempo Runs: Near goal marathon pace (85-90% effort)
-- Easy Runs: 2 minutes slower than goal marathon pace
-- Recovery Runs: Very easy pace, focus on form
-- Rest/Cross-Training: ${Number(state.currentMileage) < 20 ? '2-3' : '1-2'} days per week
-
-Current Runner Level: ${
-  Number(state.currentMileage) < 20 ? 'Beginner - Focus on building base safely, mandatory 2 rest days, limit increases to 10% per week' :
-  Number(state.currentMileage) < 40 ? 'Intermediate - Balance mileage with quality workouts, 1-2 rest days' :
-  'Advanced - Higher mileage and challenging workouts, recovery as needed'
-}
-
-Additional Instructions:
-1. Generate a detailed plan for Week ${weekNumber}${weekNumber === 1 ? ' (Partial week starting tomorrow)' : ''}, using these exact dates:
-   ${Array.from({ length: Math.ceil((currentWeekEndDate.getTime() - currentWeekStartDate.getTime()) / (1000 * 60 * 60 * 24)) + 1 }).map((_, index) => {
-     const date = addDays(currentWeekStartDate, index);
-     return `\n   - ${format(date, 'EEEE')}: ${format(date, 'MMMM d')}${date.getTime() === raceDate.getTime() ? ' (Race Day!)' : ''}`;
-   }).join('')}
-
-2. Begin with a weekly mileage summary showing the total planned miles for the week
-3. Ensure week headers are clearly visible (e.g., "### Week ${weekNumber} ###")
-4. Include safety checks:
-   - Beginners: Max 10% weekly mileage increase, 2+ rest days
-   - All levels: Progressive loading, recovery after hard efforts
-5. Add a motivational message at the end of the week's plan${weekNumber === state.totalWeeks ? '\n6. End the plan with race day instructions and final preparation tips' : ''}
-
-Format the plan as follows:
-
-### Week ${weekNumber} ###
-
-Weekly Summary:
-Total Mileage: [Sum of all running miles for the week]
-
-[Day, Date]: [Workout Type]
-- Distance and pace guidance
-- Detailed workout description
-- Recovery and form tips
-
-Example:
-${format(currentWeekStartDate, 'EEEE, MMMM d')}: Recovery Day
-- Rest or light cross-training (yoga, swimming, or cycling)
-- Focus on stretching and mobility work
-- Include foam rolling and proper hydration
-
-End the week's plan with:
-"Week ${weekNumber} Complete! Remember to: [specific tips for this phase of training]"${weekNumber === state.totalWeeks ? '\nRace Day Tips: [Include specific race day preparation and strategy tips]' : ''}`;
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a marathon coach. Create specific daily workouts that build progressively.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 500, // Reduced from 1000
-      temperature: 0.3, // Reduced from 0.5 for more consistent responses
-    }, { signal: controller.signal });
-
-    clearTimeout(timeout);
-
-    const weekPlan = response.choices[0]?.message?.content || '';
-    
-    // Update state with new week
-    state.weeks[weekNumber] = weekPlan;
-    state.status = weekNumber === state.totalWeeks ? 'completed' : 'in_progress';
-    
-    if (state.status === 'completed') {
-      const fullPlan = Object.entries(state.weeks)
-        .sort(([a], [b]) => parseInt(a) - parseInt(b))
-        .map(([_, plan]) => plan)
-        .join('\n\n');
-
-      console.log('Email sending process started...', {
-        recipientEmail: state.email,
-        planLength: fullPlan.length,
-        raceDate: format(new Date(state.raceDate), 'MMMM d, yyyy'),
-        resendApiKeySet: !!process.env.RESEND_API_KEY
+    try {
+      const generated = await generateWeek(state, weekNumber, {
+        signal: AbortSignal.timeout(25000)
       });
-
-      try {
-        if (!process.env.RESEND_API_KEY) {
-          throw new Error('RESEND_API_KEY is not configured');
-        }
-
-        // Send email directly using Resend
-        const resend = new Resend(process.env.RESEND_API_KEY);
-        console.log('Initializing email send to:', state.email);
-
-        // Check if we're in test mode (free tier)
-        const isTestMode = !process.env.RESEND_DOMAIN;
-        const allowedTestEmail = 'blake.fenwick1@gmail.com';
-
-        if (isTestMode && state.email !== allowedTestEmail) {
-          console.log('Test mode: Forwarding plan to verified email...', {
-            originalRecipient: state.email,
-            forwardingTo: allowedTestEmail
-          });
-        }
-
-        const emailData = {
-          from: 'Marathon Training Plan <onboarding@resend.dev>',
-          to: isTestMode ? allowedTestEmail : state.email,
-          subject: 'Your Marathon Training Plan is Ready! 🏃‍♂️',
-          html: `
-            <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
-              <h1 style="color: #2563eb;">Your Marathon Training Plan</h1>
-              ${isTestMode && state.email !== allowedTestEmail ? 
-                `<p><strong>Note:</strong> This plan was requested by ${state.email}.</p>` : ''}
-              <p>Here's your personalized training plan for your marathon on ${format(new Date(state.raceDate), 'MMMM d, yyyy')}.</p>
-              <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; white-space: pre-wrap; font-family: monospace;">
-                ${fullPlan}
-              </div>
-              <p style="margin-top: 20px; color: #4b5563;">
-                Good luck with your training! Remember to listen to your body and adjust the plan as needed.
-              </p>
-            </div>
-          `
-        };
-
-        console.log('Sending email with data:', {
-          to: emailData.to,
-          from: emailData.from,
-          subject: emailData.subject,
-          isTestMode,
-          originalRecipient: state.email
-        });
-
-        const data = await resend.emails.send(emailData);
-
-        console.log('Email sent successfully:', {
-          data,
-          recipientEmail: emailData.to,
-          originalRecipient: state.email,
-          isTestMode
-        });
-      } catch (emailError) {
-        console.error('Error in email sending process:', {
-          error: emailError instanceof Error ? emailError.message : 'Unknown error',
-          stack: emailError instanceof Error ? emailError.stack : undefined,
-          recipientEmail: state.email,
-          errorType: emailError instanceof Error ? emailError.constructor.name : typeof emailError
-        });
+      const { state: updated } = await recordGeneratedWeek(requestId, weekNumber, generated);
+      if (!updated) {
+        throw new Error('Request not found');
+      }
+      if (updated.status === 'completed') {
+        await sendCompletionEmail(requestId);
       }
+      return respond(weekResponse(updated));
+    } finally {
+      await releaseLease(lease);
     }
 
-    await redis.set(`request:${requestId}`, JSON.stringify(state), { ex: 3600 });
-
-    return NextResponse.json({
-      status: state.status,
-      weekPlan,
-      currentWeek: weekNumber,
-      totalWeeks: state.totalWeeks
-    });
-
   } catch (error) {
-    clearTimeout(timeout);
     console.error('Error generating week:', error);
-    
+
     // Type guard for AbortError
-    if (error && typeof error === 'object' && 'name' in error && error.name === 'AbortError') {
+    if (error && typeof error === 'object' && 'name' in error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
       return NextResponse.json(
         { error: 'Generation timeout - please try again' },
         { status: 408 }
       );
     }
 
+    if (error instanceof WeekValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 502 }
+      );
+    }
+
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to generate week' },
       { status: 500 }
@@ -403,98 +344,65 @@ End the week's plan with:
   }
 }
 
-// Update connection check
-async function checkRedisConnection() {
+// Switch units on an existing plan without regenerating it. Weeks are stored in
+// miles, so only the rendered markdown has to be refreshed.
+export async function PATCH(req: Request) {
   try {
-    console.log('Testing Redis connection...');
-    
-    // Test 1: Basic set/get
-    const testKey = `test-connection-${Date.now()}`;
-    const testValue = `test-value-${Date.now()}`;
-    
-    console.log('Test 1: Setting test value...');
-    await redis.set(testKey, testValue, { ex: 60 });
-    
-    console.log('Test 1: Getting test value...');
-    const retrievedValue = await redis.get(testKey);
-    
-    console.log('Test 1: Cleaning up...');
-    await redis.del(testKey);
-    
-    if (retrievedValue !== testValue) {
-      console.error('Redis value mismatch:', {
-        expected: testValue,
-        received: retrievedValue
-      });
-      return false;
-    }
+    const { requestId, units } = await req.json();
 
-    // Test 2: JSON handling
-    const jsonKey = `test-json-${Date.now()}`;
-    const jsonValue = {
-      test: true,
-      timestamp: Date.now()
-    };
-
-    console.log('Test 2: Setting JSON value...');
-    await redis.set(jsonKey, JSON.stringify(jsonValue), { ex: 60 });
-
-    console.log('Test 2: Getting JSON value...');
-    const retrievedJson = await redis.get(jsonKey);
-
-    console.log('Test 2: Cleaning up...');
-    await redis.del(jsonKey);
+    if (!isDistanceUnit(units)) {
+      return NextResponse.json(
+        { error: 'Units must be "mi" or "km"' },
+        { status: 400 }
+      );
+    }
 
-    if (!retrievedJson || typeof retrievedJson !== 'string') {
-      console.error('Redis JSON test failed:', {
-        received: retrievedJson,
-        type: typeof retrievedJson
-      });
-      return false;
+    const { state: existing, allowed } = await loadPlanForRequest(req, requestId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Request not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
     }
 
-    try {
-      JSON.parse(retrievedJson);
-    } catch (e) {
-      console.error('Failed to parse JSON from Redis:', e);
-      return false;
+    const state = await updatePlanState(requestId, current => {
+      current.units = units;
+      current.markdown = Object.fromEntries(
+        Object.entries(current.weeks).map(([weekNumber, week]) => [weekNumber, renderWeekMarkdown(week, units)])
+      );
+    });
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Request not found' },
+        { status: 404 }
+      );
     }
 
-    console.log('All Redis tests passed successfully');
-    return true;
+    return NextResponse.json({
+      units: state.units,
+      markdown: state.markdown
+    });
   } catch (error) {
-    console.error('Redis connection test failed with error:', error);
-    return false;
+    console.error('Error in PATCH handler:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update units' },
+      { status: 500 }
+    );
   }
 }
 
-// Update GET handler
+// Status snapshot, used by the form when Server-Sent Events are unavailable
 export async function GET(req: Request) {
   try {
     const url = new URL(req.url);
     const requestId = url.searchParams.get('requestId');
 
-    // Log Redis configuration
-    console.log('Redis Configuration:', {
-      hasUrl: !!process.env.UPSTASH_REDIS_REST_URL,
-      hasToken: !!process.env.UPSTASH_REDIS_REST_TOKEN,
-      url: process.env.UPSTASH_REDIS_REST_URL?.substring(0, 20) + '...',
-    });
-
-    // Test Redis connection
-    const isConnected = await checkRedisConnection();
-    console.log('Redis connection test:', isConnected ? 'Success' : 'Failed');
-
-    if (!isConnected) {
-      return NextResponse.json(
-        { 
-          error: 'Database connection failed',
-          details: 'Unable to connect to Redis'
-        },
-        { status: 500 }
-      );
-    }
-
     if (!requestId) {
       console.error('Status check failed: No requestId provided');
       return NextResponse.json(
@@ -503,93 +411,43 @@ export async function GET(req: Request) {
       );
     }
 
-    console.log('Checking status for requestId:', requestId);
-
-    try {
-      // Try to get the data
-      const data = await redis.get<string>(`request:${requestId}`);
-      
-      // Log the raw response
-      console.log('Raw Redis response type:', typeof data);
-      console.log('Raw Redis response:', data);
-      
-      if (!data) {
-        console.error('Status check failed: Request not found for ID:', requestId);
-        return NextResponse.json(
-          { error: 'Request not found' },
-          { status: 404 }
-        );
-      }
-
-      try {
-        // Try to parse the data
-        const parsedData = JSON.parse(data);
-        console.log('Successfully parsed data type:', typeof parsedData);
-        console.log('Parsed data structure:', {
-          hasStatus: typeof parsedData?.status === 'string',
-          statusValue: parsedData?.status,
-          hasEmail: typeof parsedData?.email === 'string',
-          hasRaceDate: typeof parsedData?.raceDate === 'string',
-          hasGoalTime: typeof parsedData?.goalTime === 'object',
-          hasMileage: typeof parsedData?.currentMileage === 'string',
-          hasWeeks: typeof parsedData?.weeks === 'object',
-          keys: Object.keys(parsedData || {})
-        });
-
-        if (!isValidPlanState(parsedData)) {
-          console.error('Invalid state structure:', parsedData);
-          return NextResponse.json(
-            { 
-              error: 'Invalid state data structure',
-              details: {
-                hasStatus: typeof parsedData?.status === 'string',
-                statusValue: parsedData?.status,
-                hasEmail: typeof parsedData?.email === 'string',
-                hasRaceDate: typeof parsedData?.raceDate === 'string',
-                hasGoalTime: typeof parsedData?.goalTime === 'object',
-                hasMileage: typeof parsedData?.currentMileage === 'string',
-                hasWeeks: typeof parsedData?.weeks === 'object',
-                actualKeys: Object.keys(parsedData || {})
-              }
-            },
-            { status: 500 }
-          );
-        }
-
-        const state = parsedData;
-        return NextResponse.json({
-          status: state.status,
-          currentWeek: state.currentWeek,
-          totalWeeks: state.totalWeeks,
-          weeks: state.weeks,
-          startTime: state.startTime
-        });
-      } catch (parseError) {
-        console.error('Failed to parse state data:', parseError);
-        console.error('Raw data that failed to parse:', data);
-        return NextResponse.json(
-          { 
-            error: 'Invalid state data',
-            details: {
-              parseError: parseError instanceof Error ? parseError.message : 'Unknown parse error',
-              rawDataLength: data.length,
-              rawDataPreview: data.slice(0, 100) + '...',
-              rawDataType: typeof data
-            }
-          },
-          { status: 500 }
-        );
-      }
-    } catch (redisError) {
-      console.error('Redis error:', redisError);
+    const { state, allowed } = await loadPlanForRequest(req, requestId);
+    if (!state) {
+      console.error('Status check failed: Request not found for ID:', requestId);
       return NextResponse.json(
-        { 
-          error: 'Database error',
-          details: redisError instanceof Error ? redisError.message : 'Unknown Redis error'
-        },
-        { status: 500 }
+        { error: 'Request not found' },
+        { status: 404 }
       );
     }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      status: state.status,
+      currentWeek: state.currentWeek,
+      totalWeeks: state.totalWeeks,
+      skeleton: state.skeleton,
+      raceDate: state.raceDate,
+      raceDistance: state.raceDistance,
+      goalTime: state.goalTime,
+      units: state.units,
+      constraints: state.constraints,
+      races: state.races,
+      calendarKey: state.calendarKey,
+      paceZones: state.paceZones,
+      weeks: state.weeks,
+      markdown: state.markdown,
+      validation: state.validation,
+      revisions: Object.fromEntries(
+        Object.entries(state.weekHistory).map(([weekNumber, history]) => [weekNumber, history.length])
+      ),
+      error: state.error,
+      startTime: state.startTime
+    });
   } catch (error) {
     console.error('Error in GET handler:', error);
     return NextResponse.json(
@@ -600,4 +458,4 @@ export async function GET(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { runWorker } from '@/lib/jobs/worker';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120;
+
+// Leave headroom under maxDuration for the response
+const WORKER_BUDGET_MS = 100000;
+
+// Vercel cron sends the secret as a bearer token; manual triggers from
+// generate-plan send the same header
+function isAuthorized(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !secret || req.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+// Drain due generation jobs. Called every minute by the cron in vercel.json and
+// right after a plan is queued, so jobs also resume after a failed trigger.
+async function handler(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runWorker({ deadline: Date.now() + WORKER_BUDGET_MS });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error running generation jobs:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -1,14 +1,17 @@
-import { openai } from "@ai-sdk/openai";
 import { convertToCoreMessages, streamText } from "ai";
+import { getLanguageModel } from "@/lib/llm/providers";
 
 export const runtime = "edge";
 
 export async function POST(req: Request) {
   const { messages } = await req.json();
+  const { model, config } = getLanguageModel("chat");
   const result = await streamText({
-    model: openai("gpt-4o"),
+    model,
     messages: convertToCoreMessages(messages),
     system: "You are a helpful AI assistant",
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
   });
 
   return result.toDataStreamResponse();
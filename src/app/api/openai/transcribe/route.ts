@@ -1,8 +1,5 @@
 import { NextResponse } from "next/server";
-import fs from "fs";
-import OpenAI from "openai";
-
-const openai = new OpenAI();
+import { transcribeAudio } from "@/lib/llm/providers";
 
 export async function POST(req: Request) {
   const body = await req.json();
@@ -12,25 +9,11 @@ export async function POST(req: Request) {
   // Convert the base64 audio data to a Buffer
   const audio = Buffer.from(base64Audio, "base64");
 
-  // Define the file path for storing the temporary WAV file
-  const filePath = "tmp/input.wav";
-
   try {
-    // Write the audio data to a temporary WAV file synchronously
-    fs.writeFileSync(filePath, audio);
-
-    // Create a readable stream from the temporary WAV file
-    const readStream = fs.createReadStream(filePath);
-
-    const data = await openai.audio.transcriptions.create({
-      file: readStream,
-      model: "whisper-1",
-    });
-
-    // Remove the temporary file after successful processing
-    fs.unlinkSync(filePath);
+    // Sent straight from memory, so no temporary file is needed
+    const text = await transcribeAudio(audio, { filename: "input.wav" });
 
-    return NextResponse.json(data);
+    return NextResponse.json({ text });
   } catch (error) {
     console.error("Error processing audio:", error);
     return NextResponse.error();
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { calculatePaceZones, GoalPaceError, METERS_PER_MILE } from '@/lib/plan/paces';
+import { RaceDistanceError, resolveRaceDistance } from '@/lib/plan/distances';
+import { goalTimeToSeconds } from '@/lib/plan/time';
+
+export const runtime = 'edge';
+
+// GET /api/paces?hours=3&minutes=30&seconds=0&distance=marathon
+// Custom races pass distance=custom&customDistance=<miles>
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const goalTimeSeconds = goalTimeToSeconds({
+    hours: url.searchParams.get('hours') || '0',
+    minutes: url.searchParams.get('minutes') || '0',
+    seconds: url.searchParams.get('seconds') || '0'
+  });
+
+  if (goalTimeSeconds <= 0) {
+    return NextResponse.json(
+      { error: 'A goal time is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const raceDistance = resolveRaceDistance(
+      url.searchParams.get('distance') ?? undefined,
+      Number(url.searchParams.get('customDistance')) * METERS_PER_MILE
+    );
+    return NextResponse.json(calculatePaceZones(goalTimeSeconds, raceDistance));
+  } catch (error) {
+    if (error instanceof RaceDistanceError || error instanceof GoalPaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { toPlan } from '@/lib/plan/types';
+import { MAX_ACTIVITY_FILE_BYTES, parseActivity } from '@/lib/activities/parse';
+import { matchActivity } from '@/lib/activities/match';
+import { ActivityParseError } from '@/lib/activities/types';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+const MAX_FILES = 20;
+
+// POST /api/plans/<requestId>/activities (multipart: file[], timezoneOffset)
+// Parse uploaded GPX, TCX and FIT files and match each activity to the planned
+// day it was run on. Parsing is done here without any outside service; the
+// browser saves the matched results to the runner's workout log.
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const form = await req.formData();
+    const files = form.getAll('file').filter((value): value is File => typeof value !== 'string');
+    const timezoneOffset = Number(form.get('timezoneOffset') ?? 0);
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'No activity files uploaded' },
+        { status: 400 }
+      );
+    }
+    if (files.length > MAX_FILES) {
+      return NextResponse.json(
+        { error: `Upload at most ${MAX_FILES} files at a time` },
+        { status: 400 }
+      );
+    }
+    if (!Number.isFinite(timezoneOffset) || Math.abs(timezoneOffset) > 14 * 60) {
+      return NextResponse.json(
+        { error: 'timezoneOffset must be minutes from UTC' },
+        { status: 400 }
+      );
+    }
+
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+    const { weeks, units } = toPlan(state);
+
+    const results = await Promise.all(files.map(async file => {
+      if (file.size > MAX_ACTIVITY_FILE_BYTES) {
+        return { filename: file.name, error: 'File is too large' };
+      }
+      try {
+        const activity = parseActivity(file.name, await file.arrayBuffer(), units);
+        return { filename: file.name, activity, match: matchActivity(activity, weeks, timezoneOffset) };
+      } catch (error) {
+        if (error instanceof ActivityParseError) {
+          return { filename: file.name, error: error.message };
+        }
+        throw error;
+      }
+    }));
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error importing activities:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import activities' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+import { toPlan } from '@/lib/plan/types';
+import { renderPlanCalendar } from '@/lib/plan/ical';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+const REGENERATING_RETRY_SECONDS = 120;
+
+// GET /api/plans/<requestId>/calendar[?download=1][&key=<calendarKey>]
+// The plan as an iCalendar feed. Calendar apps subscribe to this URL and pick
+// up regenerated weeks on their next refresh; with download=1 it is served as
+// a file to import once.
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const url = new URL(req.url);
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    // Calendar apps cannot sign in, so they present the plan's calendar key instead
+    const key = url.searchParams.get('key');
+    if (!allowed && !(key && key === state.calendarKey)) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    // Weeks being regenerated are missing until the worker is done; a calendar
+    // app keeps its copy through a 503 rather than dropping their events
+    if (state.completedAt && state.status === 'in_progress') {
+      return NextResponse.json(
+        { error: 'The plan is being updated - try again shortly' },
+        { status: 503, headers: { 'Retry-After': String(REGENERATING_RETRY_SECONDS) } }
+      );
+    }
+
+    const calendar = renderPlanCalendar(toPlan(state), {
+      planId: params.id,
+      sequence: state.version,
+      domain: url.hostname
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'no-cache'
+    };
+    if (url.searchParams.get('download')) {
+      headers['Content-Disposition'] = `attachment; filename="training-plan.ics"`;
+    }
+    return new Response(calendar, { headers });
+  } catch (error) {
+    console.error('Error rendering calendar:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to render calendar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { EMPTY_PLAN_CONSTRAINTS, PlanConstraints, validatePlanConstraints } from '@/lib/plan/constraints';
+import { applyConstraints } from '@/lib/plan/replan';
+import { enqueueWeek, triggerWorker } from '@/lib/jobs/worker';
+import { getPlanEventLog } from '@/lib/jobs/events';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+// The in-process worker this starts in development can send the completion
+// email, whose jsPDF attachment needs Node, so this route is not on the edge
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/plans/<requestId>/constraints
+// The blackout dates, travel and commitments the plan is fitted around.
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ constraints: state.constraints });
+  } catch (error) {
+    console.error('Error loading constraints:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load constraints' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/plans/<requestId>/constraints { constraints, today? }
+// Replace the plan's calendar constraints. On a finished plan, weeks that have
+// not started and no longer fit are regenerated in the background; the response
+// lists them and which event id to follow progress from. Refused while an
+// earlier change to the finished plan is still being regenerated.
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { constraints, today = format(new Date(), 'yyyy-MM-dd') } = await req.json();
+
+    if (!constraints || typeof constraints !== 'object') {
+      return NextResponse.json(
+        { error: 'constraints must be an object' },
+        { status: 400 }
+      );
+    }
+    if (typeof today !== 'string' || !DATE_PATTERN.test(today)) {
+      return NextResponse.json(
+        { error: 'today must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+    const planConstraints: PlanConstraints = { ...EMPTY_PLAN_CONSTRAINTS, ...constraints };
+    const issues = validatePlanConstraints(planConstraints);
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid calendar constraints', issues },
+        { status: 400 }
+      );
+    }
+
+    const { state: existing, allowed } = await loadPlanForRequest(req, params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+    if (existing.status !== 'completed' && existing.restorePoint) {
+      return NextResponse.json(
+        { error: 'Wait for the plan to finish updating before changing your calendar' },
+        { status: 409 }
+      );
+    }
+
+    // Progress for the regenerated weeks is appended after the events logged so far
+    const lastEventId = (await (await getPlanEventLog()).size(params.id)) - 1;
+    const { state, affected, saved } = await applyConstraints(params.id, planConstraints, today);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Wait for the plan to finish updating before changing your calendar' },
+        { status: 409 }
+      );
+    }
+    if (affected.length === 0) {
+      return NextResponse.json({ constraints: state.constraints, affected });
+    }
+
+    await enqueueWeek(params.id, affected[0]);
+    await triggerWorker(new URL(req.url).origin);
+
+    return NextResponse.json({ constraints: state.constraints, affected, lastEventId });
+  } catch (error) {
+    console.error('Error saving constraints:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save constraints' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { toPlan } from '@/lib/plan/types';
+import { renderPlanPdfBytes } from '@/lib/plan/pdf';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+// jsPDF's Node build needs the Node.js runtime, so this route is not on the edge
+export const dynamic = 'force-dynamic';
+
+// GET /api/plans/<requestId>/pdf
+// The saved plan as a printable PDF, rendered from the stored weeks rather
+// than whatever is currently in the form.
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    const pdf = renderPlanPdfBytes(toPlan(state));
+    return new Response(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="training-plan.pdf"`,
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    console.error('Error rendering PDF:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to render PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { scheduleSeasonRaces } from '@/lib/plan/generator';
+import { applySeasonRaces } from '@/lib/plan/replan';
+import { enqueueWeek, triggerWorker } from '@/lib/jobs/worker';
+import { getPlanEventLog } from '@/lib/jobs/events';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+// The in-process worker this starts in development can send the completion
+// email, whose jsPDF attachment needs Node, so this route is not on the edge
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/plans/<requestId>/races
+// The A, B and C races before the plan's final race, with the week each falls in.
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ races: state.races });
+  } catch (error) {
+    console.error('Error loading races:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load races' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/plans/<requestId>/races { races, today? }
+// Replace the races before the final one. The plan is rebuilt around them and
+// weeks that have not started and changed are regenerated in the background;
+// the response lists them and which event id to follow progress from.
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { races, today = format(new Date(), 'yyyy-MM-dd') } = await req.json();
+
+    if (!Array.isArray(races)) {
+      return NextResponse.json(
+        { error: 'races must be an array' },
+        { status: 400 }
+      );
+    }
+    if (typeof today !== 'string' || !DATE_PATTERN.test(today)) {
+      return NextResponse.json(
+        { error: 'today must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    const { state: existing, allowed } = await loadPlanForRequest(req, params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+    if (existing.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Wait for the plan to finish generating before changing races' },
+        { status: 409 }
+      );
+    }
+
+    const { races: scheduled, issues } = scheduleSeasonRaces(existing, races);
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid races', issues },
+        { status: 400 }
+      );
+    }
+
+    // Progress for the regenerated weeks is appended after the events logged so far
+    const lastEventId = (await (await getPlanEventLog()).size(params.id)) - 1;
+    const { state, applied, affected } = await applySeasonRaces(params.id, scheduled, today);
+    if (!state || !applied) {
+      return NextResponse.json(
+        { error: 'The plan changed while updating races - please try again' },
+        { status: 409 }
+      );
+    }
+    if (affected.length === 0) {
+      return NextResponse.json({ races: state.races, affected });
+    }
+
+    await enqueueWeek(params.id, affected[0]);
+    await triggerWorker(new URL(req.url).origin);
+
+    return NextResponse.json({ races: state.races, affected, lastEventId });
+  } catch (error) {
+    console.error('Error saving races:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save races' },
+      { status: 500 }
+    );
+  }
+}
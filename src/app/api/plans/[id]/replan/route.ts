@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { validateWorkoutLogEntry, WorkoutLogEntry } from '@/lib/plan/log';
+import { applyAdaptation, planAdaptation } from '@/lib/plan/replan';
+import { enqueueWeek, triggerWorker } from '@/lib/jobs/worker';
+import { getPlanEventLog } from '@/lib/jobs/events';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+// The in-process worker this starts in development can send the completion
+// email, whose jsPDF attachment needs Node, so this route is not on the edge
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// POST /api/plans/<requestId>/replan { entries, today? }
+// Re-plan the weeks that have not started yet from the runner's workout log.
+// The log lives in the runner's own Firestore collection, so the browser sends
+// it along. Adjusted weeks are regenerated in the background; the response says
+// what changed and which event id to follow progress from.
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { entries, today = format(new Date(), 'yyyy-MM-dd') } = await req.json();
+
+    if (!Array.isArray(entries)) {
+      return NextResponse.json(
+        { error: 'entries must be an array of workout log entries' },
+        { status: 400 }
+      );
+    }
+    if (typeof today !== 'string' || !DATE_PATTERN.test(today)) {
+      return NextResponse.json(
+        { error: 'today must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+    const issues = (entries as WorkoutLogEntry[]).flatMap(entry =>
+      entry && typeof entry === 'object' ? validateWorkoutLogEntry(entry) : ['Each entry must be an object']
+    );
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid workout log entries', issues },
+        { status: 400 }
+      );
+    }
+
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+    if (state.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Wait for the plan to finish generating before re-planning' },
+        { status: 409 }
+      );
+    }
+
+    const log = Object.fromEntries(
+      (entries as WorkoutLogEntry[])
+        .filter(entry => entry.planId === params.id)
+        .map(entry => [entry.date, entry])
+    );
+    const result = planAdaptation(state, log, today);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Every week of the plan has already started, so there is nothing left to re-plan' },
+        { status: 409 }
+      );
+    }
+
+    const { adaptation, paceZones } = result;
+    if (adaptation.adjustments.length === 0) {
+      return NextResponse.json({ applied: false, adaptation });
+    }
+
+    // Progress for the regenerated weeks is appended after the events logged so far
+    const lastEventId = (await (await getPlanEventLog()).size(params.id)) - 1;
+    const { applied } = await applyAdaptation(params.id, adaptation, paceZones);
+    if (!applied) {
+      return NextResponse.json(
+        { error: 'The plan changed while re-planning - please try again' },
+        { status: 409 }
+      );
+    }
+
+    await enqueueWeek(params.id, adaptation.adjustments[0].weekNumber);
+    await triggerWorker(new URL(req.url).origin);
+
+    return NextResponse.json({ applied: true, adaptation, paceZones, lastEventId });
+  } catch (error) {
+    console.error('Error re-planning:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to re-plan' },
+      { status: 500 }
+    );
+  }
+}
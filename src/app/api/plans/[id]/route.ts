@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { toPlan } from '@/lib/plan/types';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// GET /api/plans/<requestId>
+// A saved plan by id. Finished plans are kept permanently, so this keeps
+// working long after generation is over.
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      id: params.id,
+      status: state.status,
+      createdAt: state.startTime,
+      plan: toPlan(state)
+    });
+  } catch (error) {
+    console.error('Error loading plan:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { revokeShareLink, ShareSettings, updateShareLink } from '@/lib/plan/shares';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// PATCH /api/plans/<requestId>/shares/<slug> { showEmail?, showGoalTime? }
+// Change what the public page shows
+export async function PATCH(req: Request, { params }: { params: { id: string; slug: string } }) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const settings: Partial<ShareSettings> = {};
+    for (const key of ['showEmail', 'showGoalTime'] as const) {
+      if (body[key] === undefined) continue;
+      if (typeof body[key] !== 'boolean') {
+        return NextResponse.json(
+          { error: `${key} must be true or false` },
+          { status: 400 }
+        );
+      }
+      settings[key] = body[key];
+    }
+
+    const { state: existing, allowed } = await loadPlanForRequest(req, params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    const { state, link } = await updateShareLink(params.id, params.slug, settings);
+    if (!state || !link) {
+      return NextResponse.json(
+        { error: state ? 'Share link not found' : 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ link });
+  } catch (error) {
+    console.error('Error updating share link:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update share link' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/plans/<requestId>/shares/<slug>
+// Revoke the link; the public page stops working immediately
+export async function DELETE(req: Request, { params }: { params: { id: string; slug: string } }) {
+  try {
+    const { state: existing, allowed } = await loadPlanForRequest(req, params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    const { state, revoked } = await revokeShareLink(params.id, params.slug);
+    if (!state || !revoked) {
+      return NextResponse.json(
+        { error: state ? 'Share link not found' : 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ revoked: true });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
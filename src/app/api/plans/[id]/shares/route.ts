@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { createShareLink, MAX_SHARE_LINKS } from '@/lib/plan/shares';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// GET /api/plans/<requestId>/shares
+// The plan's public read-only links
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+    return NextResponse.json({ links: state.shareLinks });
+  } catch (error) {
+    console.error('Error loading share links:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load share links' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/plans/<requestId>/shares { showEmail?, showGoalTime? }
+// Create a new link; email and goal time are hidden unless asked for
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { showEmail = false, showGoalTime = false } = await req.json().catch(() => ({}));
+    if (typeof showEmail !== 'boolean' || typeof showGoalTime !== 'boolean') {
+      return NextResponse.json(
+        { error: 'showEmail and showGoalTime must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const { state: existing, allowed } = await loadPlanForRequest(req, params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    const { state, link } = await createShareLink(params.id, { showEmail, showGoalTime });
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!link) {
+      return NextResponse.json(
+        { error: state.status === 'completed'
+          ? `A plan can have at most ${MAX_SHARE_LINKS} share links`
+          : 'Only a finished plan can be shared' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { rollbackToVersion } from '@/lib/plan/revisions';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// POST /api/plans/<requestId>/versions/<number>/rollback
+// Restore the plan as it was at an earlier version. The rollback is itself
+// recorded as a new version, so it can be undone the same way.
+export async function POST(req: Request, { params }: { params: { id: string; number: string } }) {
+  try {
+    const { state: existing, allowed } = await loadPlanForRequest(req, params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    const { state, rolledBack } = await rollbackToVersion(params.id, Number(params.number));
+
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!rolledBack) {
+      return NextResponse.json(
+        state.status === 'completed'
+          ? { error: `Version ${params.number} not found` }
+          : { error: 'Wait for the plan to finish generating before rolling back' },
+        { status: state.status === 'completed' ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({
+      weeks: state.weeks,
+      paceZones: state.paceZones,
+      revisions: Object.fromEntries(
+        Object.entries(state.weekHistory).map(([weekNumber, history]) => [weekNumber, history.length])
+      )
+    });
+  } catch (error) {
+    console.error('Error rolling back plan:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to roll back plan' },
+      { status: 500 }
+    );
+  }
+}
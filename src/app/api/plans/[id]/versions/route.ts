@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { diffVersions, listPlanVersions } from '@/lib/plan/versions';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// GET /api/plans/<requestId>/versions
+// The plan's history, newest first: who made each change and why, and how
+// each week differs from the version before
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    const versions = await listPlanVersions(params.id);
+    const history = versions.map((version, index) => ({
+      number: version.number,
+      createdAt: version.createdAt,
+      source: version.source,
+      actor: version.actor,
+      reason: version.reason,
+      totalMileage: Object.values(version.weeks).reduce((total, week) => total + week.totalMileage, 0),
+      // The first version has nothing to compare against
+      diff: index > 0 ? diffVersions(versions[index - 1], version) : null
+    }));
+
+    return NextResponse.json({ units: state.units, versions: history.reverse() });
+  } catch (error) {
+    console.error('Error listing versions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list versions' },
+      { status: 500 }
+    );
+  }
+}
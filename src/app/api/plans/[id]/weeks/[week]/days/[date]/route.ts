@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { parseEditedDay, WeekValidationError } from '@/lib/plan/schema';
+import { editDay } from '@/lib/plan/revisions';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+const MAX_REASON_LENGTH = 500;
+
+// PUT /api/plans/<requestId>/weeks/<weekNumber>/days/<yyyy-MM-dd> { day, reason? }
+// Replace one day's workout by hand. The day is written in the runner's unit,
+// in the same shape the model writes; the version it replaces is kept in the
+// week's history and the change is recorded in the plan's version history.
+export async function PUT(req: Request, { params }: { params: { id: string; week: string; date: string } }) {
+  try {
+    const weekNumber = Number(params.week);
+    if (!Number.isInteger(weekNumber) || weekNumber < 1) {
+      return NextResponse.json(
+        { error: 'Week must be a whole number from 1' },
+        { status: 400 }
+      );
+    }
+    const { day, reason = '' } = await req.json();
+
+    if (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+    if (state.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Wait for the plan to finish generating before changing a week' },
+        { status: 409 }
+      );
+    }
+
+    let parsed;
+    try {
+      parsed = parseEditedDay({ ...day, date: params.date }, state.units);
+    } catch (error) {
+      if (error instanceof WeekValidationError) {
+        return NextResponse.json(
+          { error: 'Invalid workout', issues: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const { state: updated, edited } = await editDay(
+      params.id,
+      weekNumber,
+      parsed,
+      reason.trim() || `changed to ${parsed.workout.title}`
+    );
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!edited) {
+      return NextResponse.json(
+        { error: `Week ${params.week} has no day ${params.date}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      week: updated.weeks[weekNumber],
+      markdown: updated.markdown[weekNumber],
+      validation: updated.validation[weekNumber],
+      revisions: updated.weekHistory[weekNumber]?.length ?? 0
+    });
+  } catch (error) {
+    console.error('Error editing day:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to edit day' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { revertWeek } from '@/lib/plan/revisions';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// POST /api/plans/<requestId>/weeks/<weekNumber>/revert
+// Put back the version of the week that the last regeneration replaced
+export async function POST(req: Request, { params }: { params: { id: string; week: string } }) {
+  try {
+    const weekNumber = Number(params.week);
+    if (!Number.isInteger(weekNumber) || weekNumber < 1) {
+      return NextResponse.json(
+        { error: 'Week must be a whole number from 1' },
+        { status: 400 }
+      );
+    }
+    const { state: existing, allowed } = await loadPlanForRequest(req, params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+    if (existing.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Wait for the plan to finish generating before changing a week' },
+        { status: 409 }
+      );
+    }
+
+    const { state, reverted } = await revertWeek(params.id, weekNumber);
+
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!reverted) {
+      return NextResponse.json(
+        { error: `Week ${params.week} has no earlier version to revert to` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      week: state.weeks[weekNumber],
+      markdown: state.markdown[weekNumber],
+      validation: state.validation[weekNumber],
+      revisions: state.weekHistory[weekNumber]?.length ?? 0
+    });
+  } catch (error) {
+    console.error('Error reverting week:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revert week' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server';
+import { generateWeek } from '@/lib/plan/generator';
+import { WeekValidationError } from '@/lib/plan/schema';
+import { replaceWeek } from '@/lib/plan/revisions';
+import { acquireWeekLease } from '@/lib/jobs/worker';
+import { releaseLease } from '@/lib/jobs/leases';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const MAX_FEEDBACK_LENGTH = 500;
+
+// POST /api/plans/<requestId>/weeks/<weekNumber> { feedback }
+// Rewrite one generated week around the runner's feedback. The version it
+// replaces is kept in the plan's week history so it can be restored.
+export async function POST(req: Request, { params }: { params: { id: string; week: string } }) {
+  try {
+    const weekNumber = Number(params.week);
+    if (!Number.isInteger(weekNumber) || weekNumber < 1) {
+      return NextResponse.json(
+        { error: 'Week must be a whole number from 1' },
+        { status: 400 }
+      );
+    }
+    const { feedback } = await req.json();
+
+    if (typeof feedback !== 'string' || !feedback.trim()) {
+      return NextResponse.json(
+        { error: 'Feedback is required to regenerate a week' },
+        { status: 400 }
+      );
+    }
+    if (feedback.length > MAX_FEEDBACK_LENGTH) {
+      return NextResponse.json(
+        { error: `Feedback must be at most ${MAX_FEEDBACK_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+    if (state.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Wait for the plan to finish generating before changing a week' },
+        { status: 409 }
+      );
+    }
+    if (!state.weeks[weekNumber]) {
+      return NextResponse.json(
+        { error: `Week ${params.week} has not been generated yet` },
+        { status: 404 }
+      );
+    }
+
+    const lease = await acquireWeekLease(params.id, weekNumber);
+    if (!lease) {
+      return NextResponse.json(
+        { error: `Week ${weekNumber} is already being generated` },
+        { status: 409 }
+      );
+    }
+
+    try {
+      const generated = await generateWeek(state, weekNumber, {
+        feedback: feedback.trim(),
+        signal: AbortSignal.timeout(45000)
+      });
+      const { state: updated, replaced } = await replaceWeek(params.id, weekNumber, generated, feedback.trim());
+      if (!updated) {
+        throw new Error('Plan not found');
+      }
+      // The plan started changing while the week was being written
+      if (!replaced) {
+        return NextResponse.json(
+          { error: 'The plan changed while the week was being regenerated - try again once it finishes' },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({
+        week: updated.weeks[weekNumber],
+        markdown: updated.markdown[weekNumber],
+        validation: updated.validation[weekNumber],
+        revisions: updated.weekHistory[weekNumber]?.length ?? 0
+      });
+    } finally {
+      await releaseLease(lease);
+    }
+  } catch (error) {
+    console.error('Error regenerating week:', error);
+
+    if (error && typeof error === 'object' && 'name' in error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+      return NextResponse.json(
+        { error: 'Generation timeout - please try again' },
+        { status: 408 }
+      );
+    }
+
+    if (error instanceof WeekValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to regenerate week' },
+      { status: 500 }
+    );
+  }
+}
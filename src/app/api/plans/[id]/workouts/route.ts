@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { exportDay, exportWeek, WORKOUT_CONTENT_TYPES } from '@/lib/workouts/export';
+import { TargetPreference, WORKOUT_FILE_FORMATS, WorkoutFileFormat } from '@/lib/workouts/types';
+import { loadPlanForRequest } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+const MIN_MAX_HEART_RATE = 120;
+const MAX_MAX_HEART_RATE = 230;
+
+// GET /api/plans/<requestId>/workouts?format=fit|tcx&(week=<n>|date=<yyyy-MM-dd>)[&target=heart_rate&maxHr=<bpm>]
+// Structured workouts for loading onto a watch: one file for a date, or a zip
+// of every session in a week. Targets are paces unless heart rate is asked for.
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const url = new URL(req.url);
+    const format = url.searchParams.get('format') as WorkoutFileFormat;
+    const weekNumber = Number(url.searchParams.get('week'));
+    const date = url.searchParams.get('date');
+
+    if (!WORKOUT_FILE_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: 'format must be fit or tcx' },
+        { status: 400 }
+      );
+    }
+    if (!date && !(Number.isInteger(weekNumber) && weekNumber >= 1)) {
+      return NextResponse.json(
+        { error: 'A week number or date is required' },
+        { status: 400 }
+      );
+    }
+
+    let preference: TargetPreference = { type: 'pace' };
+    if (url.searchParams.get('target') === 'heart_rate') {
+      const maxHeartRate = Number(url.searchParams.get('maxHr'));
+      if (!(maxHeartRate >= MIN_MAX_HEART_RATE && maxHeartRate <= MAX_MAX_HEART_RATE)) {
+        return NextResponse.json(
+          { error: `Heart-rate targets need a max heart rate between ${MIN_MAX_HEART_RATE} and ${MAX_MAX_HEART_RATE} bpm` },
+          { status: 400 }
+        );
+      }
+      preference = { type: 'heart_rate', maxHeartRate };
+    }
+
+    const { state, allowed } = await loadPlanForRequest(req, params.id);
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'This plan belongs to another account' },
+        { status: 403 }
+      );
+    }
+
+    if (date) {
+      const day = Object.values(state.weeks).flatMap(week => week.days).find(candidate => candidate.date === date);
+      const file = day ? exportDay(day, state.paceZones, format, preference) : null;
+      if (!file) {
+        return NextResponse.json(
+          { error: day ? 'There is no workout to export on that day' : 'That date is not in the plan' },
+          { status: 404 }
+        );
+      }
+      return new Response(file.data, {
+        headers: {
+          'Content-Type': WORKOUT_CONTENT_TYPES[format],
+          'Content-Disposition': `attachment; filename="${file.filename}"`
+        }
+      });
+    }
+
+    const week = state.weeks[weekNumber];
+    const zip = week ? exportWeek(week, state.paceZones, format, preference) : null;
+    if (!zip) {
+      return NextResponse.json(
+        { error: week ? 'That week has no workouts to export' : 'Week not found' },
+        { status: 404 }
+      );
+    }
+    return new Response(zip, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="week-${weekNumber}-${format}-workouts.zip"`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting workouts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export workouts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/firebase/verifyIdToken';
+import { claimPlans } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// POST /api/plans/claim { requestIds? } (Authorization: Bearer <Firebase ID token>)
+// Take ownership of anonymous plans requested with the runner's email. Only a
+// verified email counts, so nobody can claim plans by typing someone else's.
+export async function POST(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Sign in to claim plans' },
+        { status: 401 }
+      );
+    }
+    if (!user.email || !user.emailVerified) {
+      return NextResponse.json(
+        { error: 'Your account needs a verified email to claim plans' },
+        { status: 403 }
+      );
+    }
+
+    const { requestIds } = await req.json().catch(() => ({}));
+    if (requestIds !== undefined && !(Array.isArray(requestIds) && requestIds.every(id => typeof id === 'string'))) {
+      return NextResponse.json(
+        { error: 'requestIds must be a list of plan ids' },
+        { status: 400 }
+      );
+    }
+
+    const claimed = await claimPlans(user.uid, user.email, requestIds);
+    return NextResponse.json({ claimed });
+  } catch (error) {
+    console.error('Error claiming plans:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to claim plans' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/firebase/verifyIdToken';
+import { listClaimablePlans, listOwnedPlans } from '@/lib/plan/owners';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// GET /api/plans (Authorization: Bearer <Firebase ID token>)
+// The signed-in runner's plans, plus anonymous plans requested with their
+// verified email that they can claim
+export async function GET(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Sign in to see your plans' },
+        { status: 401 }
+      );
+    }
+
+    const [plans, claimable] = await Promise.all([
+      listOwnedPlans(user.uid),
+      user.email && user.emailVerified ? listClaimablePlans(user.email) : Promise.resolve([])
+    ]);
+    return NextResponse.json({ plans, claimable });
+  } catch (error) {
+    console.error('Error listing plans:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list plans' },
+      { status: 500 }
+    );
+  }
+}
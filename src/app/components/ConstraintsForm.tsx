@@ -0,0 +1,174 @@
+'use client';
+
+import { format } from 'date-fns';
+import {
+  Blackout,
+  Commitment,
+  DAY_PERIOD_LABELS,
+  DAY_PERIODS,
+  DayPeriod,
+  MAX_CONSTRAINTS,
+  PlanConstraints,
+  TravelPeriod
+} from '@/lib/plan/constraints';
+import { Weekday, WEEKDAY_LABELS, WEEKDAYS } from '@/lib/plan/profile';
+
+interface ConstraintsFormProps {
+  constraints: PlanConstraints;
+  onChange: (constraints: PlanConstraints) => void;
+  // Set once the plan exists, so changes are saved and the affected weeks refitted
+  onSave?: () => void;
+  isSaving?: boolean;
+}
+
+const inputClass = 'block w-full rounded-md border-gray-300 text-black bg-white p-2';
+
+function today(): string {
+  return format(new Date(), 'yyyy-MM-dd');
+}
+
+// Dates and weekly commitments the plan has to work around
+export default function ConstraintsForm({ constraints, onChange, onSave, isSaving = false }: ConstraintsFormProps) {
+  const update = (changes: Partial<PlanConstraints>) => onChange({ ...constraints, ...changes });
+
+  const updateBlackout = (index: number, changes: Partial<Blackout>) => {
+    update({ blackouts: constraints.blackouts.map((blackout, i) => i === index ? { ...blackout, ...changes } : blackout) });
+  };
+  const updateTravel = (index: number, changes: Partial<TravelPeriod>) => {
+    update({ travel: constraints.travel.map((travel, i) => i === index ? { ...travel, ...changes } : travel) });
+  };
+  const updateCommitment = (index: number, changes: Partial<Commitment>) => {
+    update({ commitments: constraints.commitments.map((commitment, i) => i === index ? { ...commitment, ...changes } : commitment) });
+  };
+
+  const removeButton = (onClick: () => void) => (
+    <button type="button" onClick={onClick} className="text-sm text-red-300 hover:underline">
+      Remove
+    </button>
+  );
+
+  return (
+    <details className="space-y-4 rounded-md border border-gray-600 p-4">
+      <summary className="cursor-pointer text-sm font-medium text-white">
+        Calendar (optional) - days off, travel and regular commitments
+      </summary>
+
+      <div className="space-y-2 pt-4">
+        <p className="text-sm text-white">Dates you cannot run at all</p>
+        {constraints.blackouts.map((blackout, index) => (
+          <div key={index} className="grid grid-cols-2 md:grid-cols-4 gap-2 items-center">
+            <input type="date" value={blackout.startDate} onChange={(e) => updateBlackout(index, { startDate: e.target.value })} className={inputClass} />
+            <input type="date" value={blackout.endDate} onChange={(e) => updateBlackout(index, { endDate: e.target.value })} className={inputClass} />
+            <input
+              value={blackout.reason}
+              onChange={(e) => updateBlackout(index, { reason: e.target.value })}
+              placeholder="e.g. Wedding"
+              maxLength={200}
+              className={inputClass}
+            />
+            {removeButton(() => update({ blackouts: constraints.blackouts.filter((_, i) => i !== index) }))}
+          </div>
+        ))}
+        {constraints.blackouts.length < MAX_CONSTRAINTS && (
+          <button
+            type="button"
+            onClick={() => update({ blackouts: [...constraints.blackouts, { startDate: today(), endDate: today(), reason: '' }] })}
+            className="text-sm text-blue-200 hover:underline"
+          >
+            Add unavailable dates
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-white">Travel, with the most minutes you will have for a run each day</p>
+        {constraints.travel.map((travel, index) => (
+          <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center">
+            <input type="date" value={travel.startDate} onChange={(e) => updateTravel(index, { startDate: e.target.value })} className={inputClass} />
+            <input type="date" value={travel.endDate} onChange={(e) => updateTravel(index, { endDate: e.target.value })} className={inputClass} />
+            <input
+              type="number"
+              min="10"
+              max="600"
+              placeholder="Max min"
+              value={travel.maxMinutes ?? ''}
+              onChange={(e) => updateTravel(index, { maxMinutes: e.target.value === '' ? null : Number(e.target.value) })}
+              className={inputClass}
+            />
+            <input
+              value={travel.note}
+              onChange={(e) => updateTravel(index, { note: e.target.value })}
+              placeholder="e.g. Hotel treadmill only"
+              maxLength={200}
+              className={inputClass}
+            />
+            {removeButton(() => update({ travel: constraints.travel.filter((_, i) => i !== index) }))}
+          </div>
+        ))}
+        {constraints.travel.length < MAX_CONSTRAINTS && (
+          <button
+            type="button"
+            onClick={() => update({ travel: [...constraints.travel, { startDate: today(), endDate: today(), maxMinutes: null, note: '' }] })}
+            className="text-sm text-blue-200 hover:underline"
+          >
+            Add a trip
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-white">Every week, no runs on</p>
+        {constraints.commitments.map((commitment, index) => (
+          <div key={index} className="grid grid-cols-2 md:grid-cols-4 gap-2 items-center">
+            <select
+              value={commitment.weekday}
+              onChange={(e) => updateCommitment(index, { weekday: e.target.value as Weekday })}
+              className={inputClass}
+            >
+              {WEEKDAYS.map((day) => (
+                <option key={day} value={day}>{WEEKDAY_LABELS[day]}</option>
+              ))}
+            </select>
+            <select
+              value={commitment.period}
+              onChange={(e) => updateCommitment(index, { period: e.target.value as DayPeriod })}
+              className={inputClass}
+            >
+              {DAY_PERIODS.map((period) => (
+                <option key={period} value={period}>{DAY_PERIOD_LABELS[period]}</option>
+              ))}
+            </select>
+            <input
+              value={commitment.description}
+              onChange={(e) => updateCommitment(index, { description: e.target.value })}
+              placeholder="e.g. Choir practice"
+              maxLength={200}
+              className={inputClass}
+            />
+            {removeButton(() => update({ commitments: constraints.commitments.filter((_, i) => i !== index) }))}
+          </div>
+        ))}
+        {constraints.commitments.length < MAX_CONSTRAINTS && (
+          <button
+            type="button"
+            onClick={() => update({ commitments: [...constraints.commitments, { weekday: 'wednesday', period: 'evening', description: '' }] })}
+            className="text-sm text-blue-200 hover:underline"
+          >
+            Add a commitment
+          </button>
+        )}
+      </div>
+
+      {onSave && (
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={isSaving}
+          className="w-full bg-purple-600 text-white py-2 px-4 rounded-md hover:bg-purple-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Refitting Plan...' : 'Save Calendar and Refit Plan'}
+        </button>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { Day, Week } from '@/lib/plan/types';
+import { WORKOUT_TYPES } from '@/lib/plan/schema';
+import { formatDayDate, WORKOUT_LABELS } from '@/lib/plan/render';
+import { formatDuration } from '@/lib/plan/time';
+import { DistanceUnit, paceInUnit, toUnit } from '@/lib/plan/units';
+import { getAuthHeaders } from '@/lib/firebase/firebaseUtils';
+
+interface DayEditorProps {
+  requestId: string;
+  week: Week;
+  units: DistanceUnit;
+  onChange: (week: Week, revisions: number) => void;
+  onClose: () => void;
+}
+
+// The form starts from the day's current workout, in the runner's unit
+function toDraft(day: Day, units: DistanceUnit) {
+  const pace = day.workout.pace ? paceInUnit(day.workout.pace, units) : null;
+  return {
+    type: day.workout.type,
+    title: day.workout.title,
+    distance: day.workout.distance === null ? '' : String(toUnit(day.workout.distance, units, 2)),
+    paceFast: pace ? formatDuration(pace.fast) : '',
+    paceSlow: pace ? formatDuration(pace.slow) : '',
+    description: day.workout.description
+  };
+}
+
+// Change one day's workout by hand
+export default function DayEditor({ requestId, week, units, onChange, onClose }: DayEditorProps) {
+  const [date, setDate] = useState(week.days[0].date);
+  const [draft, setDraft] = useState(() => toDraft(week.days[0], units));
+  const [reason, setReason] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const day = week.days.find(candidate => candidate.date === date) ?? week.days[0];
+
+  const handleDateChange = (value: string) => {
+    setDate(value);
+    const selected = week.days.find(candidate => candidate.date === value);
+    if (selected) setDraft(toDraft(selected, units));
+  };
+
+  const handleSave = async () => {
+    setIsWorking(true);
+    setError('');
+    try {
+      // Interval sets cannot be edited here, so they are kept as they were while the day stays an interval session
+      const intervals = draft.type === 'intervals' && day.workout.intervals
+        ? day.workout.intervals.map(interval => ({
+          ...interval,
+          distance: toUnit(interval.distance, units, 2),
+          pace: interval.pace && paceInUnit(interval.pace, units)
+        }))
+        : null;
+      const response = await fetch(`/api/plans/${requestId}/weeks/${week.weekNumber}/days/${date}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          reason,
+          day: {
+            type: draft.type,
+            title: draft.title,
+            distance: draft.distance === '' ? null : Number(draft.distance),
+            pace: draft.paceFast && draft.paceSlow ? { fast: draft.paceFast, slow: draft.paceSlow } : null,
+            durationMinutes: day.workout.durationMinutes,
+            intervals,
+            description: draft.description,
+            notes: day.workout.notes
+          }
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.issues ? data.issues.join('; ') : data.error || 'Failed to save day');
+      }
+      onChange(data.week, data.revisions);
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save day');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputClass = 'block w-full rounded-md border border-gray-300 text-black bg-white p-2';
+
+  return (
+    <div className="space-y-2 text-sm text-black">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <label className="block">
+          Day
+          <select value={date} onChange={(e) => handleDateChange(e.target.value)} className={inputClass}>
+            {week.days.map((candidate) => (
+              <option key={candidate.date} value={candidate.date}>
+                {formatDayDate(candidate.date)}: {candidate.workout.title}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          Workout type
+          <select
+            value={draft.type}
+            onChange={(e) => setDraft({ ...draft, type: e.target.value as Day['workout']['type'] })}
+            className={inputClass}
+          >
+            {WORKOUT_TYPES.map((type) => (
+              <option key={type} value={type}>{WORKOUT_LABELS[type]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          Title
+          <input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} className={inputClass} />
+        </label>
+        <label className="block">
+          Distance ({units})
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={draft.distance}
+            onChange={(e) => setDraft({ ...draft, distance: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          Pace from (m:ss/{units})
+          <input value={draft.paceFast} onChange={(e) => setDraft({ ...draft, paceFast: e.target.value })} placeholder="8:30" className={inputClass} />
+        </label>
+        <label className="block">
+          Pace to (m:ss/{units})
+          <input value={draft.paceSlow} onChange={(e) => setDraft({ ...draft, paceSlow: e.target.value })} placeholder="9:00" className={inputClass} />
+        </label>
+      </div>
+      <label className="block">
+        Description
+        <textarea
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          rows={2}
+          className={inputClass}
+        />
+      </label>
+      <label className="block">
+        Why the change? (optional)
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Group run moved to Thursday"
+          maxLength={500}
+          className={inputClass}
+        />
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isWorking || !draft.title.trim()}
+          className="bg-blue-600 text-white py-1 px-3 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isWorking ? 'Saving...' : 'Save Day'}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isWorking}
+          className="py-1 px-3 rounded-md text-gray-700 border border-gray-300 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { Feasibility, FeasibilityVerdict, GoalAlternative } from '@/lib/plan/prediction';
+import { formatDayDate } from '@/lib/plan/render';
+import { formatDuration } from '@/lib/plan/time';
+
+interface FeasibilityPanelProps {
+  feasibility: Feasibility;
+  // Set while the plan waits for the runner to keep their goal or pick another
+  onConfirm?: () => void;
+  onUseAlternative?: (alternative: GoalAlternative) => void;
+  isWorking?: boolean;
+}
+
+const VERDICT_STYLES: Record<FeasibilityVerdict, { title: string; className: string }> = {
+  realistic: { title: 'Realistic goal', className: 'border-green-500 bg-green-50' },
+  ambitious: { title: 'Ambitious goal', className: 'border-yellow-500 bg-yellow-50' },
+  unrealistic: { title: 'Unrealistic goal', className: 'border-red-500 bg-red-50' }
+};
+
+// The goal checked against a predicted finish time, with goals that fit better
+export default function FeasibilityPanel({ feasibility, onConfirm, onUseAlternative, isWorking = false }: FeasibilityPanelProps) {
+  const { verdict, message, prediction, alternatives } = feasibility;
+  const style = VERDICT_STYLES[verdict];
+
+  return (
+    <div className={`p-4 rounded-lg border-l-4 ${style.className} text-black space-y-2`}>
+      <h3 className="text-lg font-semibold">{style.title}</h3>
+      <p>{message}</p>
+      <p className="text-sm text-gray-700">
+        Likely finish: {formatDuration(prediction.fastest)} - {formatDuration(prediction.slowest)} (VDOT {prediction.vdot})
+        {prediction.basis === 'mileage' && ' - add a recent race result under "About you" for a sharper prediction'}
+      </p>
+      <ul className="list-disc pl-5 text-sm text-gray-700">
+        {prediction.factors.map((factor) => <li key={factor}>{factor}</li>)}
+      </ul>
+
+      {alternatives.length > 0 && onUseAlternative && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Other goals to consider</p>
+          {alternatives.map((alternative) => (
+            <div key={alternative.label} className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                <strong>{alternative.label}:</strong> {alternative.description} ({alternative.raceDistance.label}, {formatDayDate(alternative.raceDate, 'MMM d, yyyy')})
+              </span>
+              <button
+                type="button"
+                onClick={() => onUseAlternative(alternative)}
+                disabled={isWorking}
+                className="shrink-0 py-1 px-3 rounded-md border border-blue-300 text-blue-700 bg-white hover:bg-blue-50 disabled:opacity-50"
+              >
+                Use this goal
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {onConfirm && (
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={isWorking}
+          className="bg-gray-700 text-white py-1 px-3 rounded-md hover:bg-gray-800 disabled:opacity-50"
+        >
+          Keep My Goal and Generate
+        </button>
+      )}
+    </div>
+  );
+}
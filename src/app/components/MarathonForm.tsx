@@ -4,211 +4,602 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import TrainingPlan from './TrainingPlan';
-import { jsPDF } from 'jspdf';
+import PaceChart from './PaceChart';
+import WeekActions from './WeekActions';
+import WorkoutLog from './WorkoutLog';
+import WorkoutExport from './WorkoutExport';
+import ShareLinks from './ShareLinks';
+import PlanHistory from './PlanHistory';
+import RunnerProfileForm from './RunnerProfileForm';
+import ConstraintsForm from './ConstraintsForm';
+import SeasonRacesForm from './SeasonRacesForm';
+import FeasibilityPanel from './FeasibilityPanel';
+import SignInWithGoogle from '@/components/SignInWithGoogle';
+import ActivityUpload from '@/components/ActivityUpload';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { useIdToken } from '@/lib/hooks/useIdToken';
+import { WorkoutLogEntry } from '@/lib/plan/log';
+import { getWorkoutLogs, saveWorkoutLog } from '@/lib/plan/logStore';
+import { getRunnerProfile, saveRunnerProfile } from '@/lib/plan/profileStore';
+import { EMPTY_RUNNER_PROFILE, RunnerProfile } from '@/lib/plan/profile';
+import { EMPTY_PLAN_CONSTRAINTS, PlanConstraints } from '@/lib/plan/constraints';
+import { SeasonRace } from '@/lib/plan/season';
+import { Feasibility, GoalAlternative } from '@/lib/plan/prediction';
+import { getAuthHeaders } from '@/lib/firebase/firebaseUtils';
+import { toWorkoutLogEntry } from '@/lib/activities/match';
+import { format } from 'date-fns';
+import { Adaptation, Week } from '@/lib/plan/types';
+import { PaceZones } from '@/lib/plan/paces';
+import { RaceDistanceId, STANDARD_DISTANCES } from '@/lib/plan/distances';
+import { formatDayDate } from '@/lib/plan/render';
+import { DISTANCE_UNITS, DistanceUnit, UNIT_NAMES } from '@/lib/plan/units';
 
 export default function MarathonForm() {
   const router = useRouter();
   const [formData, setFormData] = useState({
     email: '',
     raceDate: '',
+    raceDistance: 'marathon' as RaceDistanceId,
+    customDistance: '',
     goalTime: {
       hours: '',
       minutes: '',
       seconds: ''
     },
-    currentMileage: ''
+    currentMileage: '',
+    units: 'mi' as DistanceUnit
   });
+  // Optional details about the runner, remembered for signed-in runners
+  const [profile, setProfile] = useState<RunnerProfile>(EMPTY_RUNNER_PROFILE);
+  // Dates and commitments this plan is fitted around
+  const [constraints, setConstraints] = useState<PlanConstraints>(EMPTY_PLAN_CONSTRAINTS);
+  const [isSavingConstraints, setIsSavingConstraints] = useState(false);
+  // Tune-ups and earlier goal races before the final race
+  const [races, setRaces] = useState<SeasonRace[]>([]);
+  const [isSavingRaces, setIsSavingRaces] = useState(false);
+  // Goal check from the last submit; confirmation is needed before an out-of-reach goal is planned
+  const [feasibility, setFeasibility] = useState<Feasibility | null>(null);
+  const [needsGoalConfirmation, setNeedsGoalConfirmation] = useState(false);
   
   const [requestId, setRequestId] = useState<string | null>(null);
   const [status, setStatus] = useState<'initialized' | 'in_progress' | 'completed' | 'error'>('initialized');
-  const [currentWeek, setCurrentWeek] = useState(0);
   const [totalWeeks, setTotalWeeks] = useState(0);
-  const [weeks, setWeeks] = useState<Record<string, string>>({});
+  const [weeks, setWeeks] = useState<Record<string, Week>>({});
+  // Streamed model output for weeks still being written
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  // Number of earlier versions kept for each regenerated week
+  const [revisions, setRevisions] = useState<Record<string, number>>({});
+  // What the signed-in runner actually ran, keyed by date
+  const [workoutLogs, setWorkoutLogs] = useState<Record<string, WorkoutLogEntry>>({});
+  const { user, loading: authLoading } = useAuth();
+  const idToken = useIdToken();
+  // Explanation of the latest re-plan from the workout log
+  const [adaptation, setAdaptation] = useState<Adaptation | null>(null);
+  const [isReplanning, setIsReplanning] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [calendarCopied, setCalendarCopied] = useState(false);
+  // Lets calendar apps, which cannot sign in, subscribe to a plan that has an owner
+  const [calendarKey, setCalendarKey] = useState<string | null>(null);
+  // Watch workout files use pace targets unless the runner gives a max heart rate
+  const [watchTarget, setWatchTarget] = useState<'pace' | 'heart_rate'>('pace');
+  const [maxHeartRate, setMaxHeartRate] = useState('');
+  // One line per uploaded activity file saying where it ended up
+  const [importResults, setImportResults] = useState<string[]>([]);
+  // Last event already applied, so following a re-plan skips the earlier generation's events
+  const [eventCursor, setEventCursor] = useState<number | null>(null);
+  const [paceZones, setPaceZones] = useState<PaceZones | null>(null);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
-  // Poll for status updates and generate weeks
+  // Open a saved plan from the My Plans dashboard (/?plan=<requestId>), once
+  // the runner's sign-in is known so plans they own can be read
   useEffect(() => {
-    if (!requestId) return;
+    if (authLoading) return;
+    const planId = new URLSearchParams(window.location.search).get('plan');
+    if (!planId) return;
 
-    const pollInterval = setInterval(async () => {
-      try {
-        // Check current status
-        const response = await fetch(`/api/generate-plan?requestId=${requestId}`);
+    getAuthHeaders()
+      .then(headers => fetch(`/api/generate-plan?requestId=${encodeURIComponent(planId)}`, { headers }))
+      .then(async (response) => {
+        const data = await response.json();
         if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to check status');
+          throw new Error(data.error || 'Failed to load plan');
         }
-        
-        const data = await response.json();
+        setFormData(prev => ({
+          ...prev,
+          raceDate: data.raceDate,
+          raceDistance: data.raceDistance.id,
+          goalTime: data.goalTime,
+          units: data.units
+        }));
+        setConstraints(data.constraints);
+        setRaces(data.races);
         setStatus(data.status);
-        setCurrentWeek(data.currentWeek);
         setTotalWeeks(data.totalWeeks);
         setWeeks(data.weeks || {});
+        setRevisions(data.revisions || {});
+        setPaceZones(data.paceZones);
+        setIsLoading(data.status === 'initialized' || data.status === 'in_progress');
+        setCalendarKey(data.calendarKey);
+        setRequestId(planId);
+      })
+      .catch((error) => {
+        console.error('Error loading plan:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load plan');
+      });
+  }, [authLoading]);
 
-        // If we're in progress and not currently generating a week, start the next one
-        if (data.status === 'in_progress' && data.currentWeek < data.totalWeeks) {
-          const nextWeek = data.currentWeek + 1;
-          console.log('Starting week', nextWeek, 'generation...');
-          try {
-            const weekResponse = await fetch('/api/generate-plan', {
-              method: 'PUT',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ requestId, weekNumber: nextWeek })
-            });
-
-            if (!weekResponse.ok) {
-              const weekErrorData = await weekResponse.json();
-              throw new Error(weekErrorData.error || 'Failed to generate week');
-            }
+  // Follow generation progress from the server-side worker. Events stream over
+  // SSE as they happen; polling is only used when EventSource is unavailable.
+  // A plan loaded after it finished has nothing to follow.
+  useEffect(() => {
+    if (!requestId || !isLoading) return;
 
-            const weekData = await weekResponse.json();
-            setWeeks(prev => ({
-              ...prev,
-              [nextWeek]: weekData.weekPlan
-            }));
-          } catch (weekError) {
-            console.error('Error generating week:', weekError);
+    let pollInterval: ReturnType<typeof setInterval> | undefined;
+    let source: EventSource | undefined;
+
+    const startPolling = () => {
+      pollInterval = setInterval(async () => {
+        try {
+          // Check current status
+          const response = await fetch(`/api/generate-plan?requestId=${requestId}`, {
+            headers: await getAuthHeaders()
+          });
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to check status');
+          }
+
+          const data = await response.json();
+          setStatus(data.status);
+          setTotalWeeks(data.totalWeeks);
+          setWeeks(data.weeks || {});
+          setRevisions(data.revisions || {});
+          if (data.paceZones) {
+            setPaceZones(data.paceZones);
           }
-        }
 
-        // If completed or error, stop polling
-        if (data.status === 'completed' || data.status === 'error') {
+          // If completed or error, stop polling
+          if (data.status === 'completed' || data.status === 'error') {
+            clearInterval(pollInterval);
+            setIsLoading(false);
+            if (data.status === 'error') {
+              setError(data.error || 'Failed to generate plan');
+            }
+          }
+        } catch (error) {
+          console.error('Error checking status:', error);
+          setError(error instanceof Error ? error.message : 'Failed to check status');
           clearInterval(pollInterval);
           setIsLoading(false);
         }
-      } catch (error) {
-        console.error('Error checking status:', error);
-        setError(error instanceof Error ? error.message : 'Failed to check status');
-        clearInterval(pollInterval);
+      }, 5000); // Poll every 5 seconds
+    };
+
+    const followEvents = (streamToken: string) => {
+      let opened = false;
+      const cursor = eventCursor === null ? '' : `&lastEventId=${eventCursor}`;
+      source = new EventSource(`/api/generate-plan/events?requestId=${requestId}${cursor}&streamToken=${streamToken}`);
+      source.onopen = () => {
+        opened = true;
+      };
+      // Once connected, EventSource reconnects by itself; only give up on SSE if it never connected
+      source.onerror = () => {
+        if (!opened) {
+          source?.close();
+          startPolling();
+        }
+      };
+
+      source.addEventListener('week-started', (e) => {
+        const { weekNumber } = JSON.parse((e as MessageEvent).data);
+        setStatus('in_progress');
+        setDrafts(prev => ({ ...prev, [weekNumber]: '' }));
+      });
+      source.addEventListener('week-token', (e) => {
+        const { weekNumber, text } = JSON.parse((e as MessageEvent).data);
+        setDrafts(prev => ({ ...prev, [weekNumber]: (prev[weekNumber] ?? '') + text }));
+      });
+      source.addEventListener('week-completed', (e) => {
+        const { weekNumber, week } = JSON.parse((e as MessageEvent).data);
+        setWeeks(prev => ({ ...prev, [weekNumber]: week }));
+        setDrafts(prev => {
+          const { [weekNumber]: _finished, ...rest } = prev;
+          return rest;
+        });
+      });
+      // The model starts the week over when asked to fix it
+      source.addEventListener('week-repairing', (e) => {
+        const { weekNumber } = JSON.parse((e as MessageEvent).data);
+        setDrafts(prev => ({ ...prev, [weekNumber]: '' }));
+      });
+      source.addEventListener('week-failed', (e) => {
+        const { weekNumber, willRetry } = JSON.parse((e as MessageEvent).data);
+        // A retried week starts over, so drop the partial output
+        if (willRetry) {
+          setDrafts(prev => ({ ...prev, [weekNumber]: '' }));
+        }
+      });
+      source.addEventListener('plan-completed', () => {
+        source?.close();
+        setStatus('completed');
+        setDrafts({});
         setIsLoading(false);
-      }
-    }, 5000); // Poll every 5 seconds
+      });
+      source.addEventListener('plan-failed', (e) => {
+        const { error } = JSON.parse((e as MessageEvent).data);
+        source?.close();
+        setStatus('error');
+        setDrafts({});
+        setError(error || 'Failed to generate plan');
+        setIsLoading(false);
+      });
+    };
+
+    // EventSource cannot send headers, so the stream is opened with a token
+    // that only covers this plan rather than the runner's ID token
+    let cancelled = false;
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      (async () => {
+        const response = await fetch('/api/generate-plan/events', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+          body: JSON.stringify({ requestId })
+        });
+        if (!response.ok) throw new Error('Failed to open the progress stream');
+        const { streamToken } = await response.json();
+        if (!cancelled) followEvents(streamToken);
+      })().catch(error => {
+        console.error('Error following plan events:', error);
+        if (!cancelled) startPolling();
+      });
+    }
+
+    return () => {
+      cancelled = true;
+      clearInterval(pollInterval);
+      source?.close();
+    };
+  }, [requestId, eventCursor, isLoading]);
+
+  // Fill in the profile a signed-in runner saved last time
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    getRunnerProfile(user.uid)
+      .then(saved => {
+        if (!cancelled && saved) setProfile(saved);
+      })
+      .catch(error => console.error('Failed to load runner profile:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Load the runner's log for this plan once they are signed in
+  useEffect(() => {
+    if (!user || !requestId) {
+      setWorkoutLogs({});
+      return;
+    }
 
-    return () => clearInterval(pollInterval);
-  }, [requestId]);
+    let cancelled = false;
+    getWorkoutLogs(user.uid, requestId)
+      .then(entries => {
+        if (!cancelled) setWorkoutLogs(entries);
+      })
+      .catch(error => console.error('Failed to load workout log:', error));
 
-  const handleSubmit = async (e: React.FormEvent) => {
+    return () => {
+      cancelled = true;
+    };
+  }, [user, requestId]);
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    submitPlan(false);
+  };
+
+  // Goals that look out of reach come back with a feasibility check first;
+  // confirmGoal generates the plan for the goal as entered
+  const submitPlan = async (confirmGoal: boolean) => {
     setIsLoading(true);
     setError('');
+    setFeasibility(null);
+    setNeedsGoalConfirmation(false);
     setWeeks({});
+    setDrafts({});
+    setRevisions({});
+    setAdaptation(null);
+    setEventCursor(null);
+    setPaceZones(null);
     setRequestId(null);
-    setCurrentWeek(0);
     setTotalWeeks(0);
     
     try {
-      // Subscribe to Klaviyo
-      console.log('Subscribing to Klaviyo...');
-      const klaviyoResponse = await fetch('/api/klaviyo', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email: formData.email }),
-      });
-
-      if (!klaviyoResponse.ok) {
-        const klaviyoError = await klaviyoResponse.json();
-        console.error('Klaviyo subscription error:', klaviyoError);
-        // Continue with plan generation even if Klaviyo fails
-      } else {
-        console.log('Successfully subscribed to Klaviyo');
-      }
-
       // Initialize plan
+      // Signed-in runners own the plan and find it again under My Plans
       const response = await fetch('/api/generate-plan', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, profile, constraints, races, confirmGoal }),
       });
       
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to generate plan');
+        if (response.status === 409 && errorData.feasibility) {
+          setFeasibility(errorData.feasibility);
+          setNeedsGoalConfirmation(true);
+          setIsLoading(false);
+          return;
+        }
+        throw new Error(errorData.issues ? errorData.issues.join('. ') : errorData.error || 'Failed to generate plan');
+      }
+
+      // Subscribe to Klaviyo only once a plan is actually on its way, not for a goal
+      // sent back to confirm. The plan is generated even if Klaviyo fails.
+      try {
+        console.log('Subscribing to Klaviyo...');
+        const klaviyoResponse = await fetch('/api/klaviyo', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ email: formData.email }),
+        });
+
+        if (!klaviyoResponse.ok) {
+          const klaviyoError = await klaviyoResponse.json();
+          console.error('Klaviyo subscription error:', klaviyoError);
+        } else {
+          console.log('Successfully subscribed to Klaviyo');
+        }
+      } catch (error) {
+        console.error('Klaviyo subscription error:', error);
+      }
+
+      if (user) {
+        saveRunnerProfile(user.uid, profile).catch(error => console.error('Failed to save runner profile:', error));
       }
       
       const data = await response.json();
       setRequestId(data.requestId);
+      setCalendarKey(data.calendarKey);
       setTotalWeeks(data.totalWeeks);
+      setPaceZones(data.paceZones);
+      setFeasibility(data.feasibility ?? null);
       setStatus('initialized');
+      
+    } catch (error) {
+      console.error('Form submission error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to generate plan. Please try again.');
+      setIsLoading(false);
+    }
+  };
 
-      // Immediately start generating the first week
-      console.log('Starting week 1 generation...');
-      const weekResponse = await fetch('/api/generate-plan', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          requestId: data.requestId, 
-          weekNumber: 1 
+  // A suggested goal replaces the form's race and goal; the runner submits again to check it
+  const handleUseAlternative = (alternative: GoalAlternative) => {
+    setFormData({
+      ...formData,
+      raceDate: alternative.raceDate,
+      raceDistance: alternative.raceDistance.id,
+      goalTime: alternative.goalTime
+    });
+    setFeasibility(null);
+    setNeedsGoalConfirmation(false);
+  };
+
+  // Switching units only changes how the plan is shown; an existing plan is updated in place
+  const handleUnitsChange = async (units: DistanceUnit) => {
+    setFormData({ ...formData, units });
+    if (!requestId) return;
+
+    try {
+      const response = await fetch('/api/generate-plan', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ requestId, units })
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update units');
+      }
+    } catch (error) {
+      console.error('Error updating units:', error);
+    }
+  };
+
+  // Parse activity files on the server, then log each one against the day it matched
+  const handleActivityFiles = async (files: File[]) => {
+    if (!requestId || !user) return;
+    setIsImporting(true);
+    setImportResults([]);
+
+    try {
+      const body = new FormData();
+      files.forEach(file => body.append('file', file));
+      body.append('timezoneOffset', String(new Date().getTimezoneOffset()));
+
+      const response = await fetch(`/api/plans/${requestId}/activities`, {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import activities');
+      }
+
+      const messages: string[] = [];
+      for (const result of data.results) {
+        if (result.error) {
+          messages.push(`${result.filename}: ${result.error}`);
+        } else if (!result.match) {
+          messages.push(`${result.filename}: no planned day on ${result.activity.startTime.slice(0, 10)}`);
+        } else {
+          const entry = toWorkoutLogEntry(requestId, result.activity, result.match);
+          await saveWorkoutLog(user.uid, entry);
+          setWorkoutLogs(prev => ({ ...prev, [entry.date]: entry }));
+          messages.push(`${result.filename}: logged as week ${entry.weekNumber}, ${formatDayDate(entry.date, 'EEE, MMM d')} (${result.match.title})`);
+        }
+      }
+      setImportResults(messages);
+    } catch (error) {
+      console.error('Error importing activities:', error);
+      setImportResults([error instanceof Error ? error.message : 'Failed to import activities']);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Google Calendar subscribes by pasting the feed's https URL
+  const handleCopyCalendarUrl = async () => {
+    if (!requestId) return;
+    await navigator.clipboard.writeText(`${window.location.origin}${calendarPath}`);
+    setCalendarCopied(true);
+    setTimeout(() => setCalendarCopied(false), 2000);
+  };
+
+  // Links cannot send headers, so plans with an owner are opened with the runner's
+  // token and calendar apps, which cannot sign in, use the plan's calendar key
+  const authQuery = idToken ? `idToken=${encodeURIComponent(idToken)}` : '';
+  const calendarPath = `/api/plans/${requestId}/calendar${calendarKey ? `?key=${calendarKey}` : ''}`;
+
+  const watchTargetQuery = (watchTarget === 'heart_rate' && maxHeartRate
+    ? `&target=heart_rate&maxHr=${encodeURIComponent(maxHeartRate)}`
+    : '') + (authQuery && `&${authQuery}`);
+
+  // Weeks cleared on the server are regenerated by the worker; follow along like a fresh generation
+  const followRegeneration = (affected: number[], lastEventId: number) => {
+    setWeeks(prev => Object.fromEntries(Object.entries(prev).filter(([weekNumber]) => !affected.includes(Number(weekNumber)))));
+    setRevisions(prev => ({
+      ...prev,
+      ...Object.fromEntries(affected.map(weekNumber => [weekNumber, (prev[weekNumber] ?? 0) + 1]))
+    }));
+    setStatus('in_progress');
+    setIsLoading(true);
+    setEventCursor(lastEventId);
+  };
+
+  // Re-plan the weeks that have not started from what the runner has logged
+  const handleReplan = async () => {
+    if (!requestId) return;
+    setIsReplanning(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/plans/${requestId}/replan`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          entries: Object.values(workoutLogs),
+          today: format(new Date(), 'yyyy-MM-dd')
         })
       });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to adjust plan');
+      }
+
+      setAdaptation(data.adaptation);
+      if (data.applied) {
+        const adjusted: number[] = data.adaptation.adjustments.map((adjustment: { weekNumber: number }) => adjustment.weekNumber);
+        setPaceZones(data.paceZones);
+        followRegeneration(adjusted, data.lastEventId);
+      }
+    } catch (error) {
+      console.error('Error adjusting plan:', error);
+      setError(error instanceof Error ? error.message : 'Failed to adjust plan');
+    } finally {
+      setIsReplanning(false);
+    }
+  };
 
-      if (!weekResponse.ok) {
-        const weekErrorData = await weekResponse.json();
-        throw new Error(weekErrorData.error || 'Failed to generate first week');
+  // Save new calendar constraints; weeks that no longer fit are regenerated like a re-plan
+  const handleSaveConstraints = async () => {
+    if (!requestId) return;
+    setIsSavingConstraints(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/plans/${requestId}/constraints`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ constraints, today: format(new Date(), 'yyyy-MM-dd') })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.issues ? data.issues.join('. ') : data.error || 'Failed to save calendar');
       }
 
-      const weekData = await weekResponse.json();
-      setWeeks({ 1: weekData.weekPlan });
-      setCurrentWeek(1);
-      
+      if (data.affected.length > 0) {
+        followRegeneration(data.affected, data.lastEventId);
+      }
     } catch (error) {
-      console.error('Form submission error:', error);
-      setError(error instanceof Error ? error.message : 'Failed to generate plan. Please try again.');
-      setIsLoading(false);
+      console.error('Error saving calendar:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save calendar');
+    } finally {
+      setIsSavingConstraints(false);
     }
   };
 
-  const handleDownloadPDF = () => {
-    const doc = new jsPDF();
-    
-    // Add title
-    doc.setFontSize(20);
-    doc.text('Marathon Training Plan', 20, 20);
-    
-    // Add race details
-    doc.setFontSize(12);
-    doc.text(`Race Date: ${formData.raceDate}`, 20, 35);
-    doc.text(`Goal Time: ${formData.goalTime.hours}h ${formData.goalTime.minutes}m ${formData.goalTime.seconds}s`, 20, 45);
-    doc.text(`Starting Weekly Mileage: ${formData.currentMileage} miles`, 20, 55);
-    
-    let yPosition = 70;
-    
-    // Add each week's plan
-    Object.entries(weeks)
-      .sort(([a], [b]) => parseInt(a) - parseInt(b))
-      .forEach(([week, plan]) => {
-        // Add page break if content will overflow
-        if (yPosition > 250) {
-          doc.addPage();
-          yPosition = 20;
-        }
-        
-        const lines = plan.split('\n');
-        lines.forEach(line => {
-          if (yPosition > 280) {
-            doc.addPage();
-            yPosition = 20;
-          }
-          doc.text(line, 20, yPosition);
-          yPosition += 7;
-        });
-        yPosition += 10;
+  // Save the season's other races; the plan is rebuilt around them and changed weeks regenerated
+  const handleSaveRaces = async () => {
+    if (!requestId) return;
+    setIsSavingRaces(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/plans/${requestId}/races`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ races, today: format(new Date(), 'yyyy-MM-dd') })
       });
-    
-    // Save the PDF
-    doc.save('marathon-training-plan.pdf');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.issues ? data.issues.join('. ') : data.error || 'Failed to save races');
+      }
+
+      setRaces(data.races);
+      if (data.affected.length > 0) {
+        followRegeneration(data.affected, data.lastEventId);
+      }
+    } catch (error) {
+      console.error('Error saving races:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save races');
+    } finally {
+      setIsSavingRaces(false);
+    }
   };
 
   // Calculate progress percentage
-  const progress = totalWeeks > 0 ? (currentWeek / totalWeeks) * 100 : 0;
+  const completedWeeks = Object.keys(weeks).length;
+  const progress = totalWeeks > 0 ? (completedWeeks / totalWeeks) * 100 : 0;
 
   return (
     <div className="space-y-6">
       <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-sm text-gray-300">Units</span>
+          {DISTANCE_UNITS.map((unit) => (
+            <button
+              key={unit}
+              type="button"
+              onClick={() => handleUnitsChange(unit)}
+              className={`px-3 py-1 rounded text-sm ${formData.units === unit ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-100'}`}
+            >
+              {unit === 'km' ? 'Kilometers' : 'Miles'}
+            </button>
+          ))}
+        </div>
+
         <div>
           <label htmlFor="email" className="block text-sm font-medium text-white mb-2">
             Email Address
@@ -226,6 +617,37 @@ export default function MarathonForm() {
           </p>
         </div>
 
+        <div className="space-y-2">
+          <label htmlFor="raceDistance" className="block text-sm font-medium text-white">
+            What distance are you training for?
+          </label>
+          <select
+            id="raceDistance"
+            value={formData.raceDistance}
+            onChange={(e) => setFormData({ ...formData, raceDistance: e.target.value as RaceDistanceId })}
+            className="block w-full rounded-md border-gray-300 text-black bg-white p-2"
+          >
+            {STANDARD_DISTANCES.map((distance) => (
+              <option key={distance.id} value={distance.id}>{distance.label}</option>
+            ))}
+            <option value="custom">Custom distance</option>
+          </select>
+          {formData.raceDistance === 'custom' && (
+            <input
+              type="number"
+              id="customDistance"
+              placeholder={`Distance in ${UNIT_NAMES[formData.units].plural}`}
+              min="0.1"
+              max="100"
+              step="0.1"
+              value={formData.customDistance}
+              onChange={(e) => setFormData({ ...formData, customDistance: e.target.value })}
+              className="block w-full rounded-md border-gray-300 text-black bg-white p-2"
+              required
+            />
+          )}
+        </div>
+
         <div className="space-y-2">
           <label htmlFor="raceDate" className="block text-sm font-medium text-white">
             When is your race?
@@ -295,7 +717,7 @@ export default function MarathonForm() {
 
         <div className="space-y-2">
           <label htmlFor="currentMileage" className="block text-sm font-medium text-white">
-            How many miles per week are you currently running?
+            How many {UNIT_NAMES[formData.units].plural} per week are you currently running?
           </label>
           <input
             type="number"
@@ -309,6 +731,22 @@ export default function MarathonForm() {
           />
         </div>
 
+        <RunnerProfileForm profile={profile} units={formData.units} onChange={setProfile} />
+
+        <ConstraintsForm
+          constraints={constraints}
+          onChange={setConstraints}
+          onSave={status === 'completed' && requestId ? handleSaveConstraints : undefined}
+          isSaving={isSavingConstraints}
+        />
+
+        <SeasonRacesForm
+          races={races}
+          onChange={setRaces}
+          onSave={status === 'completed' && requestId ? handleSaveRaces : undefined}
+          isSaving={isSavingRaces}
+        />
+
         <button
           type="submit"
           className="w-full bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 disabled:opacity-50"
@@ -317,27 +755,199 @@ export default function MarathonForm() {
           {isLoading ? 'Generating Plan...' : 'Generate Plan'}
         </button>
 
-        {status === 'completed' && (
+        {feasibility && (
+          <FeasibilityPanel
+            feasibility={feasibility}
+            onConfirm={needsGoalConfirmation ? () => submitPlan(true) : undefined}
+            onUseAlternative={needsGoalConfirmation ? handleUseAlternative : undefined}
+            isWorking={isLoading}
+          />
+        )}
+
+        {status === 'completed' && requestId && (
           <div className="mt-4">
+            <a
+              href={`/api/plans/${requestId}/pdf${authQuery && `?${authQuery}`}`}
+              className="block w-full text-center bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
+            >
+              Download Training Plan (PDF)
+            </a>
+          </div>
+        )}
+
+        {status === 'completed' && requestId && (
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-2">
+            <a
+              href={`${calendarPath}${calendarKey ? '&' : '?'}download=1`}
+              className="text-center bg-white text-blue-700 py-2 px-4 rounded-md border border-blue-300 hover:bg-blue-50"
+            >
+              Download Calendar (.ics)
+            </a>
+            <a
+              href={`webcal://${typeof window === 'undefined' ? '' : window.location.host}${calendarPath}`}
+              className="text-center bg-white text-blue-700 py-2 px-4 rounded-md border border-blue-300 hover:bg-blue-50"
+            >
+              Subscribe in Calendar App
+            </a>
             <button
               type="button"
-              onClick={handleDownloadPDF}
-              className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
+              onClick={handleCopyCalendarUrl}
+              className="bg-white text-blue-700 py-2 px-4 rounded-md border border-blue-300 hover:bg-blue-50"
             >
-              Download Training Plan (PDF)
+              {calendarCopied ? 'Copied!' : 'Copy Calendar URL'}
+            </button>
+          </div>
+        )}
+
+        {status === 'completed' && requestId && (
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <label htmlFor="watchTarget" className="block text-sm font-medium text-white">
+                Watch workout targets
+              </label>
+              <select
+                id="watchTarget"
+                value={watchTarget}
+                onChange={(e) => setWatchTarget(e.target.value as 'pace' | 'heart_rate')}
+                className="block w-full rounded-md border-gray-300 text-black bg-white p-2"
+              >
+                <option value="pace">Pace</option>
+                <option value="heart_rate">Heart rate</option>
+              </select>
+            </div>
+            {watchTarget === 'heart_rate' && (
+              <div className="space-y-2">
+                <label htmlFor="maxHeartRate" className="block text-sm font-medium text-white">
+                  Max heart rate (bpm)
+                </label>
+                <input
+                  type="number"
+                  id="maxHeartRate"
+                  min="120"
+                  max="230"
+                  value={maxHeartRate}
+                  onChange={(e) => setMaxHeartRate(e.target.value)}
+                  className="block w-full rounded-md border-gray-300 text-black bg-white p-2"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {status === 'completed' && user && Object.keys(workoutLogs).length > 0 && (
+          <div className="mt-4">
+            <button
+              type="button"
+              onClick={handleReplan}
+              disabled={isReplanning}
+              className="w-full bg-purple-600 text-white py-2 px-4 rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isReplanning ? 'Adjusting Plan...' : 'Adjust Remaining Weeks From My Log'}
             </button>
           </div>
         )}
       </form>
 
-      {Object.entries(weeks).length > 0 && (
+      {adaptation && (
+        <div className="mt-4 p-4 bg-white rounded-lg">
+          <h3 className="text-lg font-semibold text-black mb-2">Plan Adjustments</h3>
+          <ul className="list-disc pl-5 space-y-1 text-black text-sm">
+            {adaptation.explanations.map((explanation) => (
+              <li key={explanation}>{explanation}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {status === 'completed' && requestId && (
+        <div className="mt-4">
+          <ShareLinks requestId={requestId} />
+        </div>
+      )}
+
+      {status === 'completed' && requestId && (
+        <div className="mt-4">
+          <PlanHistory
+            requestId={requestId}
+            units={formData.units}
+            refreshKey={weeks}
+            onRollback={(plan) => {
+              setWeeks(plan.weeks);
+              setRevisions(plan.revisions);
+              setPaceZones(plan.paceZones);
+            }}
+          />
+        </div>
+      )}
+
+      {paceZones && <PaceChart paceZones={paceZones} units={formData.units} />}
+
+      {Object.keys(weeks).length + Object.keys(drafts).length > 0 && (
         <div className="space-y-4">
-          {Object.entries(weeks)
-            .sort(([a], [b]) => parseInt(a) - parseInt(b))
-            .map(([week, plan]) => (
-              <div key={week} className="bg-white rounded-lg p-4">
-                <h3 className="text-lg font-semibold mb-2">Week {week}</h3>
-                <TrainingPlan plan={plan} />
+          {!user && Object.keys(weeks).length > 0 && (
+            <div className="flex items-center justify-between gap-4 bg-white rounded-lg p-4">
+              <p className="text-black">Sign in to log your workouts and track planned vs actual.</p>
+              <SignInWithGoogle />
+            </div>
+          )}
+          {user && requestId && Object.keys(weeks).length > 0 && (
+            <div className="bg-white rounded-lg p-4">
+              <ActivityUpload onFilesChange={handleActivityFiles} isUploading={isImporting} />
+              {importResults.length > 0 && (
+                <ul className="mt-2 text-sm text-black space-y-1">
+                  {importResults.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          {Array.from(new Set([...Object.keys(weeks), ...Object.keys(drafts)]))
+            .map(Number)
+            .sort((a, b) => a - b)
+            .map((weekNumber) => (
+              <div key={weekNumber} className="bg-white rounded-lg p-4">
+                <TrainingPlan
+                  weekNumber={weekNumber}
+                  week={weeks[weekNumber] ?? null}
+                  draft={drafts[weekNumber]}
+                  units={formData.units}
+                />
+                {requestId && weeks[weekNumber] && (
+                  <WeekActions
+                    requestId={requestId}
+                    weekNumber={weekNumber}
+                    week={weeks[weekNumber]}
+                    units={formData.units}
+                    revisions={revisions[weekNumber] ?? 0}
+                    onChange={(week, count) => {
+                      setWeeks(prev => ({ ...prev, [weekNumber]: week }));
+                      setRevisions(prev => ({ ...prev, [weekNumber]: count }));
+                    }}
+                  />
+                )}
+                {status === 'completed' && requestId && weeks[weekNumber] && (
+                  <WorkoutExport
+                    requestId={requestId}
+                    week={weeks[weekNumber]}
+                    targetQuery={watchTargetQuery}
+                  />
+                )}
+                {user && requestId && weeks[weekNumber] && (
+                  <WorkoutLog
+                    userId={user.uid}
+                    planId={requestId}
+                    week={weeks[weekNumber]}
+                    units={formData.units}
+                    entries={workoutLogs}
+                    onChange={(date, entry) => {
+                      setWorkoutLogs(prev => {
+                        const { [date]: _previous, ...rest } = prev;
+                        return entry ? { ...rest, [date]: entry } : rest;
+                      });
+                    }}
+                  />
+                )}
               </div>
             ))}
         </div>
@@ -373,8 +983,13 @@ export default function MarathonForm() {
             <p className="text-center text-sm text-gray-300">
               {status === 'completed'
                 ? 'Plan generation complete!'
-                : `Generating Week ${currentWeek + 1} of ${totalWeeks}`}
+                : `Generating Week ${Math.min(completedWeeks + 1, totalWeeks)} of ${totalWeeks}`}
             </p>
+            {status !== 'completed' && (
+              <p className="text-center text-xs text-gray-400 mt-1">
+                You can close this page - the full plan will be emailed to you when it is ready.
+              </p>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { getAuthHeaders } from '@/lib/firebase/firebaseUtils';
+import SignInWithGoogle from '@/components/SignInWithGoogle';
+import type { PlanSummary } from '@/lib/plan/owners';
+import { formatDayDate } from '@/lib/plan/render';
+
+const STATUS_LABELS: Record<PlanSummary['status'], string> = {
+  initialized: 'Queued',
+  in_progress: 'Generating',
+  completed: 'Ready',
+  error: 'Failed'
+};
+
+function PlanCard({ plan }: { plan: PlanSummary }) {
+  const progress = plan.totalWeeks > 0 ? (plan.completedWeeks / plan.totalWeeks) * 100 : 0;
+  return (
+    <Link href={`/?plan=${plan.requestId}`} className="block bg-white rounded-lg p-4 text-black hover:bg-blue-50">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">{plan.raceDistance.label}</h3>
+        <span className="text-xs font-semibold uppercase rounded-full px-2 py-1 text-blue-600 bg-blue-100">
+          {STATUS_LABELS[plan.status]}
+        </span>
+      </div>
+      <p className="text-sm text-gray-600">Race day {formatDayDate(plan.raceDate, 'EEEE, MMMM d, yyyy')}</p>
+      <div className="mt-2 overflow-hidden h-2 rounded bg-blue-100">
+        <div style={{ width: `${progress}%` }} className="h-2 bg-blue-500" />
+      </div>
+      <p className="mt-1 text-xs text-gray-600">{plan.completedWeeks} of {plan.totalWeeks} weeks written</p>
+    </Link>
+  );
+}
+
+// The signed-in runner's plans, with anonymous plans under their email offered for claiming
+export default function MyPlans() {
+  const { user, loading } = useAuth();
+  const [plans, setPlans] = useState<PlanSummary[]>([]);
+  const [claimable, setClaimable] = useState<PlanSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPlans = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/plans', { headers: await getAuthHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load plans');
+      }
+      setPlans(data.plans);
+      setClaimable(data.claimable);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load plans');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) loadPlans();
+  }, [user, loadPlans]);
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    setError('');
+    try {
+      const response = await fetch('/api/plans/claim', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ requestIds: claimable.map(plan => plan.requestId) })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to claim plans');
+      }
+      await loadPlans();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to claim plans');
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  if (loading) return null;
+  if (!user) {
+    return (
+      <div className="flex items-center justify-between gap-4 bg-white rounded-lg p-4">
+        <p className="text-black">Sign in to see the plans you have made.</p>
+        <SignInWithGoogle />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {claimable.length > 0 && (
+        <div className="bg-white rounded-lg p-4 text-black space-y-2">
+          <p>
+            {claimable.length === 1 ? 'A plan was' : `${claimable.length} plans were`} requested with {user.email} before you signed in.
+          </p>
+          <button
+            type="button"
+            onClick={handleClaim}
+            disabled={isClaiming}
+            className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isClaiming ? 'Adding...' : 'Add to My Plans'}
+          </button>
+        </div>
+      )}
+
+      {isLoading && plans.length === 0 && <p className="text-gray-300">Loading your plans...</p>}
+      {!isLoading && plans.length === 0 && (
+        <p className="text-gray-300">
+          You have no plans yet. <Link href="/" className="text-blue-200 hover:underline">Make one</Link>.
+        </p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {plans.map((plan) => (
+          <PlanCard key={plan.requestId} plan={plan} />
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-100 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
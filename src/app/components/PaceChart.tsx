@@ -0,0 +1,47 @@
+'use client';
+
+import { PaceZones } from '@/lib/plan/paces';
+import { formatPaceRange } from '@/lib/plan/render';
+import { DistanceUnit } from '@/lib/plan/units';
+
+interface PaceChartProps {
+  paceZones: PaceZones;
+  units: DistanceUnit;
+}
+
+export default function PaceChart({ paceZones, units }: PaceChartProps) {
+  // Show the runner's preferred unit first
+  const columns: DistanceUnit[] = units === 'km' ? ['km', 'mi'] : ['mi', 'km'];
+
+  return (
+    <div className="bg-white rounded-lg p-4">
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-lg font-semibold text-black">Your Training Paces</h3>
+        <span className="text-sm text-gray-600">VDOT {paceZones.vdot}</span>
+      </div>
+      <table className="w-full text-sm text-black">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-gray-600">
+            <th className="py-2 pr-2 font-medium">Zone</th>
+            {columns.map((unit) => (
+              <th key={unit} className="py-2 pr-2 font-medium">Per {unit === 'km' ? 'Km' : 'Mile'}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {paceZones.zones.map((zone) => (
+            <tr key={zone.name} className="border-b border-gray-100 last:border-0">
+              <td className="py-2 pr-2">
+                <span className="font-semibold">{zone.label}</span>
+                <span className="block text-xs text-gray-500">{zone.description}</span>
+              </td>
+              {columns.map((unit) => (
+                <td key={unit} className="py-2 pr-2 whitespace-nowrap">{formatPaceRange(zone.perMile, unit)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
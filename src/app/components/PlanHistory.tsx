@@ -0,0 +1,191 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { VersionChange, VersionSource, Week } from '@/lib/plan/types';
+import { PaceZones } from '@/lib/plan/paces';
+import type { WeekDiff, WorkoutSummary } from '@/lib/plan/versions';
+import { formatDayDate, formatPaceRange, formatWeeklyVolume } from '@/lib/plan/render';
+import { DistanceUnit, formatDistance, toUnit } from '@/lib/plan/units';
+import { getAuthHeaders } from '@/lib/firebase/firebaseUtils';
+
+interface VersionEntry extends VersionChange {
+  number: number;
+  createdAt: string;
+  totalMileage: number;
+  diff: WeekDiff[] | null;
+}
+
+export interface RolledBackPlan {
+  weeks: Record<string, Week>;
+  paceZones: PaceZones;
+  revisions: Record<string, number>;
+}
+
+interface PlanHistoryProps {
+  requestId: string;
+  units: DistanceUnit;
+  // The history is reloaded whenever this changes, e.g. after a week is edited
+  refreshKey: unknown;
+  onRollback: (plan: RolledBackPlan) => void;
+}
+
+const SOURCE_LABELS: Record<VersionSource, string> = {
+  generation: 'Plan generated',
+  week_regeneration: 'Week regenerated',
+  week_revert: 'Week reverted',
+  replan: 'Re-planned from log',
+  manual_edit: 'Edited by hand',
+  rollback: 'Rolled back',
+  constraints: 'Calendar changed',
+  races: 'Races changed'
+};
+
+function describeWorkout(workout: WorkoutSummary, units: DistanceUnit): string {
+  const distance = workout.distance ? ` (${formatDistance(workout.distance, units)})` : '';
+  return `${formatDayDate(workout.date, 'EEE, MMM d')}: ${workout.title}${distance}`;
+}
+
+function WeekChanges({ diff, units }: { diff: WeekDiff; units: DistanceUnit }) {
+  const delta = toUnit(diff.mileageDelta, units);
+  return (
+    <li className="border-l-2 border-blue-200 pl-2">
+      <p className="font-medium">
+        Week {diff.weekNumber}
+        {delta !== 0 && (
+          <span className={delta > 0 ? 'text-green-700' : 'text-red-700'}>
+            {' '}{delta > 0 ? '+' : ''}{delta} {units}
+            {diff.previousMileage !== null && diff.mileage !== null && (
+              <> ({formatWeeklyVolume(diff.previousMileage, units)} to {formatWeeklyVolume(diff.mileage, units)})</>
+            )}
+          </span>
+        )}
+      </p>
+      <ul className="space-y-0.5">
+        {diff.added.map((workout) => (
+          <li key={`added-${workout.date}`} className="text-green-700">+ {describeWorkout(workout, units)}</li>
+        ))}
+        {diff.removed.map((workout) => (
+          <li key={`removed-${workout.date}`} className="text-red-700">- {describeWorkout(workout, units)}</li>
+        ))}
+        {diff.paceChanges.map((change) => (
+          <li key={`pace-${change.date}`}>
+            {formatDayDate(change.date, 'EEE, MMM d')}: {change.title} pace{' '}
+            {change.previous ? formatPaceRange(change.previous, units) : 'none'} to{' '}
+            {change.current ? formatPaceRange(change.current, units) : 'none'}
+          </li>
+        ))}
+        {diff.textChanged && diff.added.length + diff.removed.length + diff.paceChanges.length === 0 && (
+          <li className="text-gray-600">Descriptions or tips reworded</li>
+        )}
+      </ul>
+    </li>
+  );
+}
+
+// Every version of the plan with what changed in each week, and rollback to any earlier one
+export default function PlanHistory({ requestId, units, refreshKey, onRollback }: PlanHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<VersionEntry[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getAuthHeaders()
+      .then(headers => fetch(`/api/plans/${requestId}/versions`, { headers }))
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load history');
+        }
+        setVersions(data.versions);
+      })
+      .catch((error) => setError(error instanceof Error ? error.message : 'Failed to load history'));
+  }, [requestId, isOpen, refreshKey]);
+
+  const handleRollback = async (number: number) => {
+    setIsWorking(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/plans/${requestId}/versions/${number}/rollback`, {
+        method: 'POST',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to roll back');
+      }
+      onRollback(data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to roll back');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 text-black space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Plan History</h3>
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="py-1 px-3 rounded-md text-sm text-blue-700 border border-blue-300 hover:bg-blue-50"
+        >
+          {isOpen ? 'Hide History' : 'Show History'}
+        </button>
+      </div>
+
+      {isOpen && versions.length === 0 && !error && (
+        <p className="text-sm text-gray-600">No changes have been recorded for this plan yet.</p>
+      )}
+      {isOpen && versions.length > 0 && (
+        <ol className="space-y-2 text-sm">
+          {versions.map((version, index) => (
+            <li key={version.number} className="border border-gray-200 rounded-md p-2 space-y-1">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <button
+                  type="button"
+                  onClick={() => setExpanded(expanded === version.number ? null : version.number)}
+                  className="text-left"
+                >
+                  <span className="font-semibold">Version {version.number}</span>
+                  {' · '}{SOURCE_LABELS[version.source]} by {version.actor === 'runner' ? 'you' : 'the planner'}
+                  {' · '}{formatDayDate(version.createdAt, 'MMM d, h:mm a')}
+                  {index === 0 && <span className="ml-2 text-xs text-blue-600">(current)</span>}
+                </button>
+                {index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleRollback(version.number)}
+                    disabled={isWorking}
+                    className="text-blue-700 hover:underline disabled:opacity-50"
+                  >
+                    Roll Back to This Version
+                  </button>
+                )}
+              </div>
+              <p className="text-gray-600">{version.reason}</p>
+              {expanded === version.number && (
+                !version.diff ? (
+                  <p className="text-gray-600">First recorded version of the plan.</p>
+                ) : version.diff.length > 0 ? (
+                  <ul className="space-y-2">
+                    {version.diff.map((diff) => (
+                      <WeekChanges key={diff.weekNumber} diff={diff} units={units} />
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-gray-600">No weeks changed.</p>
+                )
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { format } from 'date-fns';
+import { getStandardDistance, RaceDistanceId, STANDARD_DISTANCES } from '@/lib/plan/distances';
+import { MAX_INJURY_HISTORY_LENGTH, MAX_RECENT_RACES, RaceResult, RunnerProfile, Weekday, WEEKDAY_LABELS, WEEKDAYS } from '@/lib/plan/profile';
+import { DistanceUnit, toMiles, toUnit, UNIT_NAMES } from '@/lib/plan/units';
+
+interface RunnerProfileFormProps {
+  profile: RunnerProfile;
+  units: DistanceUnit;
+  onChange: (profile: RunnerProfile) => void;
+}
+
+const inputClass = 'block w-full rounded-md border-gray-300 text-black bg-white p-2';
+
+function optionalNumber(value: string): number | null {
+  return value === '' ? null : Number(value);
+}
+
+// The optional "about you" part of the form; distances are shown in the runner's unit and kept in miles
+export default function RunnerProfileForm({ profile, units, onChange }: RunnerProfileFormProps) {
+  const update = (changes: Partial<RunnerProfile>) => onChange({ ...profile, ...changes });
+
+  const toggleDay = (day: Weekday) => {
+    const availableDays = profile.availableDays.includes(day)
+      ? profile.availableDays.filter(candidate => candidate !== day)
+      : [...profile.availableDays, day];
+    update({
+      availableDays,
+      longRunDay: profile.longRunDay && availableDays.length > 0 && !availableDays.includes(profile.longRunDay) ? null : profile.longRunDay
+    });
+  };
+
+  const setMaxMinutes = (day: Weekday, value: string) => {
+    const { [day]: _previous, ...rest } = profile.maxMinutes;
+    update({ maxMinutes: value === '' ? rest : { ...rest, [day]: Number(value) } });
+  };
+
+  const updateRace = (index: number, changes: Partial<RaceResult>) => {
+    update({ recentRaces: profile.recentRaces.map((race, i) => i === index ? { ...race, ...changes } : race) });
+  };
+
+  const addRace = () => {
+    update({
+      recentRaces: [
+        ...profile.recentRaces,
+        { distance: getStandardDistance('10k'), time: { hours: '', minutes: '', seconds: '' }, date: format(new Date(), 'yyyy-MM-dd') }
+      ]
+    });
+  };
+
+  return (
+    <details className="space-y-4 rounded-md border border-gray-600 p-4">
+      <summary className="cursor-pointer text-sm font-medium text-white">
+        About you (optional) - helps fit the plan to your schedule and history
+      </summary>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 pt-4">
+        <label className="block text-sm text-white">
+          Age
+          <input
+            type="number"
+            min="10"
+            max="100"
+            value={profile.age ?? ''}
+            onChange={(e) => update({ age: optionalNumber(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block text-sm text-white">
+          Years running
+          <input
+            type="number"
+            min="0"
+            max="80"
+            step="0.5"
+            value={profile.yearsRunning ?? ''}
+            onChange={(e) => update({ yearsRunning: optionalNumber(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block text-sm text-white">
+          Longest recent run ({UNIT_NAMES[units].plural})
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={profile.longestRecentRun === null ? '' : toUnit(profile.longestRecentRun, units)}
+            onChange={(e) => update({ longestRecentRun: e.target.value === '' ? null : toMiles(Number(e.target.value), units) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-sm text-white">Which days can you run, which is your long run day, and how long do you have? Leave days unticked to allow any day.</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+          {WEEKDAYS.map((day) => (
+            <div key={day} className="flex items-center gap-2 text-sm text-white">
+              <label className="flex items-center gap-1 w-28">
+                <input type="checkbox" checked={profile.availableDays.includes(day)} onChange={() => toggleDay(day)} />
+                {WEEKDAY_LABELS[day]}
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="longRunDay"
+                  checked={profile.longRunDay === day}
+                  disabled={profile.availableDays.length > 0 && !profile.availableDays.includes(day)}
+                  onChange={() => update({ longRunDay: day })}
+                />
+                Long run
+              </label>
+              <input
+                type="number"
+                min="15"
+                max="600"
+                placeholder="Max min"
+                value={profile.maxMinutes[day] ?? ''}
+                onChange={(e) => setMaxMinutes(day, e.target.value)}
+                className="w-24 rounded-md border-gray-300 text-black bg-white p-1"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-white">Recent races</p>
+        {profile.recentRaces.map((race, index) => (
+          <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+            <select
+              value={race.distance.id}
+              onChange={(e) => updateRace(index, { distance: getStandardDistance(e.target.value as Exclude<RaceDistanceId, 'custom'>) })}
+              className={inputClass}
+            >
+              {STANDARD_DISTANCES.map((distance) => (
+                <option key={distance.id} value={distance.id}>{distance.label}</option>
+              ))}
+            </select>
+            {(['hours', 'minutes', 'seconds'] as const).map((part) => (
+              <input
+                key={part}
+                type="number"
+                min="0"
+                max={part === 'hours' ? '23' : '59'}
+                placeholder={part[0].toUpperCase() + part.slice(1)}
+                value={race.time[part]}
+                onChange={(e) => updateRace(index, { time: { ...race.time, [part]: e.target.value } })}
+                className={inputClass}
+              />
+            ))}
+            <input
+              type="date"
+              value={race.date}
+              onChange={(e) => updateRace(index, { date: e.target.value })}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={() => update({ recentRaces: profile.recentRaces.filter((_, i) => i !== index) })}
+              className="text-sm text-red-300 hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {profile.recentRaces.length < MAX_RECENT_RACES && (
+          <button type="button" onClick={addRace} className="text-sm text-blue-200 hover:underline">
+            Add a race result
+          </button>
+        )}
+      </div>
+
+      <label className="block text-sm text-white">
+        Injury history
+        <textarea
+          value={profile.injuryHistory}
+          onChange={(e) => update({ injuryHistory: e.target.value })}
+          maxLength={MAX_INJURY_HISTORY_LENGTH}
+          rows={2}
+          placeholder="e.g. Achilles tendinopathy last spring, fine now"
+          className={inputClass}
+        />
+      </label>
+
+      <div className="flex gap-4 text-sm text-white">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={profile.hasTrack} onChange={(e) => update({ hasTrack: e.target.checked })} />
+          I can use a track
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={profile.hasTreadmill} onChange={(e) => update({ hasTreadmill: e.target.checked })} />
+          I can use a treadmill
+        </label>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { getStandardDistance, RaceDistanceId, STANDARD_DISTANCES } from '@/lib/plan/distances';
+import { MAX_SEASON_RACES, RACE_PRIORITIES, RACE_PRIORITY_LABELS, RacePriority, SeasonRace } from '@/lib/plan/season';
+
+interface SeasonRacesFormProps {
+  races: SeasonRace[];
+  onChange: (races: SeasonRace[]) => void;
+  // Set once the plan exists, so changes are saved and the plan rebuilt around them
+  onSave?: () => void;
+  isSaving?: boolean;
+}
+
+const inputClass = 'block w-full rounded-md border-gray-300 text-black bg-white p-2';
+
+// Tune-up races and earlier goal races before the plan's final race
+export default function SeasonRacesForm({ races, onChange, onSave, isSaving = false }: SeasonRacesFormProps) {
+  const updateRace = (index: number, changes: Partial<SeasonRace>) => {
+    onChange(races.map((race, i) => i === index ? { ...race, ...changes } : race));
+  };
+
+  const setGoalPart = (index: number, part: 'hours' | 'minutes' | 'seconds', value: string) => {
+    const goalTime = { hours: '', minutes: '', seconds: '', ...races[index].goalTime, [part]: value };
+    updateRace(index, { goalTime: goalTime.hours || goalTime.minutes || goalTime.seconds ? goalTime : null });
+  };
+
+  return (
+    <details className="space-y-4 rounded-md border border-gray-600 p-4">
+      <summary className="cursor-pointer text-sm font-medium text-white">
+        Other races (optional) - tune-ups and earlier goal races this season
+      </summary>
+
+      <p className="pt-4 text-sm text-gray-300">
+        A races get a full taper and recovery block, B races a mini-taper, and C races are trained through.
+        Log your result and adjust the plan from your log to update your paces.
+      </p>
+
+      {races.map((race, index) => (
+        <div key={index} className="space-y-2 border-t border-gray-600 pt-2">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-center">
+            <input
+              value={race.name}
+              onChange={(e) => updateRace(index, { name: e.target.value })}
+              placeholder="Race name"
+              maxLength={100}
+              className={inputClass}
+            />
+            <select
+              value={race.distance.id}
+              onChange={(e) => updateRace(index, { distance: getStandardDistance(e.target.value as Exclude<RaceDistanceId, 'custom'>) })}
+              className={inputClass}
+            >
+              {STANDARD_DISTANCES.map((distance) => (
+                <option key={distance.id} value={distance.id}>{distance.label}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={race.date}
+              onChange={(e) => updateRace(index, { date: e.target.value })}
+              className={inputClass}
+            />
+            <select
+              value={race.priority}
+              onChange={(e) => updateRace(index, { priority: e.target.value as RacePriority })}
+              className={inputClass}
+            >
+              {RACE_PRIORITIES.map((priority) => (
+                <option key={priority} value={priority}>{RACE_PRIORITY_LABELS[priority]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-center">
+            {(['hours', 'minutes', 'seconds'] as const).map((part) => (
+              <input
+                key={part}
+                type="number"
+                min="0"
+                max={part === 'hours' ? '23' : '59'}
+                placeholder={`Goal ${part}`}
+                value={race.goalTime?.[part] ?? ''}
+                onChange={(e) => setGoalPart(index, part, e.target.value)}
+                className={inputClass}
+              />
+            ))}
+            <button
+              type="button"
+              onClick={() => onChange(races.filter((_, i) => i !== index))}
+              className="text-sm text-red-300 hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {races.length < MAX_SEASON_RACES && (
+        <button
+          type="button"
+          onClick={() => onChange([...races, { date: '', distance: getStandardDistance('half'), name: '', priority: 'B', goalTime: null }])}
+          className="text-sm text-blue-200 hover:underline"
+        >
+          Add a race
+        </button>
+      )}
+
+      {onSave && (
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={isSaving}
+          className="w-full bg-purple-600 text-white py-2 px-4 rounded-md hover:bg-purple-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Rebuilding Plan...' : 'Save Races and Rebuild Plan'}
+        </button>
+      )}
+    </details>
+  );
+}
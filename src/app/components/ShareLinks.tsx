@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ShareLink } from '@/lib/plan/types';
+import { getAuthHeaders } from '@/lib/firebase/firebaseUtils';
+
+interface ShareLinksProps {
+  requestId: string;
+}
+
+// Create, adjust and revoke the plan's public read-only links
+export default function ShareLinks({ requestId }: ShareLinksProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [showEmail, setShowEmail] = useState(false);
+  const [showGoalTime, setShowGoalTime] = useState(true);
+  const [copiedSlug, setCopiedSlug] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getAuthHeaders()
+      .then(headers => fetch(`/api/plans/${requestId}/shares`, { headers }))
+      .then(response => response.ok ? response.json() : { links: [] })
+      .then(data => setLinks(data.links))
+      .catch(error => console.error('Error loading share links:', error));
+  }, [requestId]);
+
+  const send = async (path: string, method: string, body?: object) => {
+    setIsWorking(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/plans/${requestId}/shares${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update share link');
+      }
+      return data;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update share link');
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const data = await send('', 'POST', { showEmail, showGoalTime });
+    if (data) setLinks(prev => [...prev, data.link]);
+  };
+
+  const handleToggle = async (link: ShareLink, key: 'showEmail' | 'showGoalTime') => {
+    const data = await send(`/${link.slug}`, 'PATCH', { [key]: !link[key] });
+    if (data) setLinks(prev => prev.map(candidate => candidate.slug === link.slug ? data.link : candidate));
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    const data = await send(`/${link.slug}`, 'DELETE');
+    if (data) setLinks(prev => prev.filter(candidate => candidate.slug !== link.slug));
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/plan/${link.slug}`);
+    setCopiedSlug(link.slug);
+    setTimeout(() => setCopiedSlug(null), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 text-black space-y-3">
+      <h3 className="text-lg font-semibold">Share This Plan</h3>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showGoalTime} onChange={(e) => setShowGoalTime(e.target.checked)} />
+          Show goal time
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showEmail} onChange={(e) => setShowEmail(e.target.checked)} />
+          Show my email
+        </label>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={isWorking}
+          className="bg-blue-600 text-white py-1 px-3 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Create Read-Only Link
+        </button>
+      </div>
+
+      {links.length > 0 && (
+        <ul className="space-y-2 text-sm">
+          {links.map((link) => (
+            <li key={link.slug} className="border border-gray-200 rounded-md p-2 space-y-1">
+              <a href={`/plan/${link.slug}`} target="_blank" rel="noreferrer" className="text-blue-700 hover:underline break-all">
+                /plan/{link.slug}
+              </a>
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={link.showGoalTime} disabled={isWorking} onChange={() => handleToggle(link, 'showGoalTime')} />
+                  Goal time
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={link.showEmail} disabled={isWorking} onChange={() => handleToggle(link, 'showEmail')} />
+                  Email
+                </label>
+                <button type="button" onClick={() => handleCopy(link)} className="text-blue-700 hover:underline">
+                  {copiedSlug === link.slug ? 'Copied!' : 'Copy Link'}
+                </button>
+                <button type="button" onClick={() => handleRevoke(link)} disabled={isWorking} className="text-red-600 hover:underline">
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,71 +1,78 @@
 'use client';
 
-import ReactMarkdown from 'react-markdown';
+import { Week } from '@/lib/plan/types';
+import { formatDayDate, formatWeeklyVolume, summarizeWorkout } from '@/lib/plan/render';
+import { extractDraftDays } from '@/lib/plan/schema';
+import { DistanceUnit } from '@/lib/plan/units';
 
 interface TrainingPlanProps {
-  plan: string;
+  weekNumber: number;
+  // Null while the week is still being written
+  week: Week | null;
+  // Model output streamed so far for a week in progress
+  draft?: string;
+  units: DistanceUnit;
 }
 
-export default function TrainingPlan({ plan }: TrainingPlanProps) {
+export default function TrainingPlan({ weekNumber, week, draft = '', units }: TrainingPlanProps) {
+  if (!week) {
+    const draftDays = extractDraftDays(draft);
+    return (
+      <div className="max-w-4xl mx-auto mt-8 p-8 bg-white rounded-lg shadow-lg">
+        <h2 className="text-3xl font-bold mb-2 text-black text-center">Week {weekNumber}</h2>
+        <p className="mb-8 text-center text-gray-600 animate-pulse">Writing this week&apos;s workouts...</p>
+        <div className="max-w-none text-black">
+          {draftDays.map((day) => (
+            <strong
+              key={day.date}
+              className="block text-lg font-semibold mt-4 text-black bg-blue-50 p-3 rounded-lg border-l-4 border-blue-300"
+            >
+              {formatDayDate(day.date)}: {day.title}
+            </strong>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto mt-8 p-8 bg-white rounded-lg shadow-lg">
-      <h2 className="text-3xl font-bold mb-8 text-black text-center">Your Marathon Training Plan</h2>
-      <div className="prose prose-lg max-w-none text-black">
-        <ReactMarkdown
-          components={{
-            h1: ({ children }) => (
-              <h1 className="text-2xl font-bold mt-8 mb-6 text-black bg-yellow-50 p-4 rounded-lg border-l-4 border-yellow-500">
-                {children}
-              </h1>
-            ),
-            h2: ({ children }) => (
-              <h2 className="text-xl font-bold mt-8 mb-4 text-black bg-blue-50 p-3 rounded-lg border-l-4 border-blue-500">
-                {children}
-              </h2>
-            ),
-            blockquote: ({ children }) => (
-              <div className="mt-2 mb-4 pl-4 py-2 border-l-4 border-green-500 bg-green-50 rounded-r-lg">
-                {children}
-              </div>
-            ),
-            strong: ({ children }) => {
-              const text = children?.toString() || '';
-              // If it's a date (contains a comma), use a different style
-              if (text.includes(',')) {
-                return (
-                  <strong className="block text-lg font-semibold mt-8 mb-3 text-black bg-blue-50 p-3 rounded-lg border-l-4 border-blue-500">
-                    {children}
-                  </strong>
-                );
-              }
-              return <strong className="font-semibold text-black">{children}</strong>;
-            },
-            p: ({ children }) => {
-              const text = children?.toString() || '';
-              if (text.startsWith('Run:')) {
-                return <p className="mb-1 text-black font-medium pl-4">{children}</p>;
-              }
-              if (text.startsWith('Pace:')) {
-                return <p className="mb-1 text-black text-sm pl-4">{children}</p>;
-              }
-              if (text.startsWith('Notes:')) {
-                return <p className="mb-6 text-gray-600 text-sm italic pl-4">{children}</p>;
-              }
-              return <p className="mb-4 text-black">{children}</p>;
-            },
-            ul: ({ children }) => (
-              <ul className="list-disc pl-6 mb-4 space-y-2 text-black">
-                {children}
-              </ul>
-            ),
-            li: ({ children }) => (
-              <li className="text-black leading-relaxed">{children}</li>
-            ),
-          }}
-        >
-          {plan}
-        </ReactMarkdown>
+      <h2 className="text-3xl font-bold mb-2 text-black text-center">Week {week.weekNumber}</h2>
+      <p className="mb-8 text-center text-gray-600">
+        {formatDayDate(week.startDate, 'MMM d')} - {formatDayDate(week.endDate, 'MMM d')} &middot; {formatWeeklyVolume(week.totalMileage, units)}
+      </p>
+      <div className="max-w-none text-black">
+        {week.days.map((day) => {
+          const summary = summarizeWorkout(day.workout, units);
+          return (
+            <div key={day.date}>
+              <strong className="block text-lg font-semibold mt-8 mb-3 text-black bg-blue-50 p-3 rounded-lg border-l-4 border-blue-500">
+                {formatDayDate(day.date)}: {day.workout.title}
+              </strong>
+              {summary && <p className="mb-1 text-black font-medium pl-4">{summary}</p>}
+              {day.workout.description && <p className="mb-1 text-black text-sm pl-4">{day.workout.description}</p>}
+              {day.workout.notes && <p className="mb-6 text-gray-600 text-sm italic pl-4">{day.workout.notes}</p>}
+            </div>
+          );
+        })}
+        {week.compromises && week.compromises.length > 0 && (
+          <div className="mt-8 p-4 rounded-lg border-l-4 border-yellow-500 bg-yellow-50">
+            <p className="font-semibold text-black">Fitted around your calendar</p>
+            <ul className="list-disc pl-5 text-black text-sm">
+              {week.compromises.map((compromise) => <li key={compromise}>{compromise}</li>)}
+            </ul>
+          </div>
+        )}
+        <div className="mt-8 pl-4 py-2 border-l-4 border-green-500 bg-green-50 rounded-r-lg">
+          <p className="text-black">{week.tips}</p>
+        </div>
+        {week.raceDayTips && (
+          <div className="mt-4 p-4 rounded-lg border-l-4 border-yellow-500 bg-yellow-50">
+            <p className="font-semibold text-black">Race Day Tips</p>
+            <p className="text-black">{week.raceDayTips}</p>
+          </div>
+        )}
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
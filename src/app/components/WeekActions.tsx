@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { Week } from '@/lib/plan/types';
+import { DistanceUnit } from '@/lib/plan/units';
+import { getAuthHeaders } from '@/lib/firebase/firebaseUtils';
+import DayEditor from './DayEditor';
+
+interface WeekActionsProps {
+  requestId: string;
+  weekNumber: number;
+  week: Week;
+  units: DistanceUnit;
+  // Earlier versions that can be restored
+  revisions: number;
+  onChange: (week: Week, revisions: number) => void;
+}
+
+// Regenerate a single week with feedback, edit one of its days by hand, or
+// revert to the version it replaced
+export default function WeekActions({ requestId, weekNumber, week, units, revisions, onChange }: WeekActionsProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isEditingDay, setIsEditingDay] = useState(false);
+  const [feedback, setFeedback] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const send = async (path: string, body?: object) => {
+    setIsWorking(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/plans/${requestId}/weeks/${weekNumber}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify(body ?? {})
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update week');
+      }
+      onChange(data.week, data.revisions);
+      setIsEditing(false);
+      setFeedback('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update week');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-4 px-8 space-y-2">
+      {isEditingDay ? (
+        <DayEditor
+          requestId={requestId}
+          week={week}
+          units={units}
+          onChange={onChange}
+          onClose={() => setIsEditingDay(false)}
+        />
+      ) : isEditing ? (
+        <div className="space-y-2">
+          <label htmlFor={`feedback-${weekNumber}`} className="block text-sm font-medium text-black">
+            What should change about week {weekNumber}?
+          </label>
+          <textarea
+            id={`feedback-${weekNumber}`}
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            placeholder="e.g. I can't run Tuesdays, or too much speedwork"
+            maxLength={500}
+            rows={2}
+            className="block w-full rounded-md border border-gray-300 text-black bg-white p-2"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => send('', { feedback })}
+              disabled={isWorking || !feedback.trim()}
+              className="bg-blue-600 text-white py-1 px-3 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isWorking ? 'Regenerating...' : 'Regenerate Week'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              disabled={isWorking}
+              className="py-1 px-3 rounded-md text-sm text-gray-700 border border-gray-300 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2 justify-end">
+          <button
+            type="button"
+            onClick={() => setIsEditing(true)}
+            className="py-1 px-3 rounded-md text-sm text-blue-700 border border-blue-300 hover:bg-blue-50"
+          >
+            Change This Week
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsEditingDay(true)}
+            className="py-1 px-3 rounded-md text-sm text-blue-700 border border-blue-300 hover:bg-blue-50"
+          >
+            Edit a Day
+          </button>
+          {revisions > 0 && (
+            <button
+              type="button"
+              onClick={() => send('/revert')}
+              disabled={isWorking}
+              className="py-1 px-3 rounded-md text-sm text-gray-700 border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+            >
+              {isWorking ? 'Reverting...' : 'Revert to Previous Version'}
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { Week } from '@/lib/plan/types';
+import { formatDayDate } from '@/lib/plan/render';
+import { isExportable } from '@/lib/workouts/steps';
+
+interface WorkoutExportProps {
+  requestId: string;
+  week: Week;
+  // Extra query parameters choosing pace or heart-rate targets, and the runner's token for plans they own
+  targetQuery: string;
+}
+
+// Download links for loading a week's sessions onto a watch, zipped or one at a time
+export default function WorkoutExport({ requestId, week, targetQuery }: WorkoutExportProps) {
+  const sessions = week.days.filter(day => isExportable(day.workout));
+  if (sessions.length === 0) return null;
+
+  const base = `/api/plans/${requestId}/workouts`;
+  const linkClass = 'text-blue-700 hover:underline';
+
+  return (
+    <details className="max-w-4xl mx-auto mt-4 px-8 text-sm text-black">
+      <summary className="cursor-pointer font-medium">Send Week {week.weekNumber} to a Watch</summary>
+      <div className="mt-2 space-y-1">
+        <p>
+          All sessions:{' '}
+          <a href={`${base}?format=fit&week=${week.weekNumber}${targetQuery}`} className={linkClass}>FIT (.zip)</a>
+          {' · '}
+          <a href={`${base}?format=tcx&week=${week.weekNumber}${targetQuery}`} className={linkClass}>TCX (.zip)</a>
+        </p>
+        <ul className="space-y-1">
+          {sessions.map((day) => (
+            <li key={day.date}>
+              {formatDayDate(day.date, 'EEE, MMM d')}: {day.workout.title}{' '}
+              <a href={`${base}?format=fit&date=${day.date}${targetQuery}`} className={linkClass}>FIT</a>
+              {' · '}
+              <a href={`${base}?format=tcx&date=${day.date}${targetQuery}`} className={linkClass}>TCX</a>
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs text-gray-600">
+          Copy FIT files to the watch&apos;s NewFiles folder over USB, or import TCX files into your watch&apos;s desktop app.
+        </p>
+      </div>
+    </details>
+  );
+}
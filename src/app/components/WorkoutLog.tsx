@@ -0,0 +1,307 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Day, Week } from '@/lib/plan/types';
+import {
+  MAX_LOG_NOTES_LENGTH,
+  summarizeWeekLog,
+  WORKOUT_LOG_STATUS_LABELS,
+  WORKOUT_LOG_STATUSES,
+  WorkoutLogEntry,
+  WorkoutLogStatus
+} from '@/lib/plan/log';
+import { deleteWorkoutLog, saveWorkoutLog } from '@/lib/plan/logStore';
+import { formatDayDate, formatWeeklyVolume, summarizeWorkout } from '@/lib/plan/render';
+import { formatDuration, parseDuration } from '@/lib/plan/time';
+import { DistanceUnit, formatDistance, formatElevation, toMiles, toUnit } from '@/lib/plan/units';
+
+interface WorkoutLogProps {
+  userId: string;
+  planId: string;
+  week: Week;
+  units: DistanceUnit;
+  // Logged entries for the whole plan, keyed by date
+  entries: Record<string, WorkoutLogEntry>;
+  onChange: (date: string, entry: WorkoutLogEntry | null) => void;
+}
+
+interface LogFormData {
+  status: WorkoutLogStatus;
+  distance: string;
+  time: string;
+  averageHeartRate: string;
+  rpe: string;
+  notes: string;
+}
+
+const STATUS_STYLES: Record<WorkoutLogStatus, string> = {
+  done: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  skipped: 'bg-red-100 text-red-800'
+};
+
+function toFormData(day: Day, entry: WorkoutLogEntry | undefined, units: DistanceUnit): LogFormData {
+  if (entry) {
+    return {
+      status: entry.status,
+      distance: entry.distance === null ? '' : String(toUnit(entry.distance, units, 2)),
+      time: entry.durationSeconds === null ? '' : formatDuration(entry.durationSeconds),
+      averageHeartRate: entry.averageHeartRate === null ? '' : String(entry.averageHeartRate),
+      rpe: entry.rpe === null ? '' : String(entry.rpe),
+      notes: entry.notes
+    };
+  }
+  // Start from the planned distance so a run done as written is one click
+  return {
+    status: 'done',
+    distance: day.workout.distance === null ? '' : String(toUnit(day.workout.distance, units, 2)),
+    time: '',
+    averageHeartRate: '',
+    rpe: '',
+    notes: ''
+  };
+}
+
+function describeActual(entry: WorkoutLogEntry, units: DistanceUnit): string {
+  const parts: string[] = [];
+  if (entry.distance !== null) parts.push(formatDistance(entry.distance, units));
+  if (entry.durationSeconds !== null) parts.push(formatDuration(entry.durationSeconds));
+  if (entry.averageHeartRate !== null) parts.push(`${entry.averageHeartRate} bpm`);
+  if (entry.rpe !== null) parts.push(`RPE ${entry.rpe}`);
+  if (entry.activity?.elevationGain) parts.push(`${formatElevation(entry.activity.elevationGain, units)} gain`);
+  return parts.join(', ');
+}
+
+// Pace of each split from an imported activity, e.g. "8:32, 8:20, 8:41"
+function describeSplits(entry: WorkoutLogEntry, units: DistanceUnit): string {
+  return (entry.activity?.splits ?? [])
+    .filter(split => split.distance > 0)
+    .map(split => formatDuration(split.durationSeconds / toUnit(split.distance, units, 3)))
+    .join(', ');
+}
+
+// Planned vs actual for one week, with a form to log each day
+export default function WorkoutLog({ userId, planId, week, units, entries, onChange }: WorkoutLogProps) {
+  const [editingDate, setEditingDate] = useState<string | null>(null);
+  const [formData, setFormData] = useState<LogFormData | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const summary = summarizeWeekLog(week, entries, today);
+
+  const startEditing = (day: Day) => {
+    setEditingDate(day.date);
+    setFormData(toFormData(day, entries[day.date], units));
+    setError('');
+  };
+
+  const handleSave = async () => {
+    if (!editingDate || !formData) return;
+
+    const durationSeconds = formData.time.trim() ? parseDuration(formData.time) : null;
+    if (formData.time.trim() && durationSeconds === null) {
+      setError('Enter time as h:mm:ss, m:ss or minutes');
+      return;
+    }
+    const skipped = formData.status === 'skipped';
+    const entry: WorkoutLogEntry = {
+      planId,
+      weekNumber: week.weekNumber,
+      date: editingDate,
+      status: formData.status,
+      distance: skipped || !formData.distance ? null : toMiles(Number(formData.distance), units),
+      durationSeconds: skipped ? null : durationSeconds,
+      averageHeartRate: skipped || !formData.averageHeartRate ? null : Number(formData.averageHeartRate),
+      rpe: skipped || !formData.rpe ? null : Number(formData.rpe),
+      notes: formData.notes.trim(),
+      loggedAt: new Date().toISOString(),
+      // Keep the imported file's detail when the runner edits the entry
+      ...(entries[editingDate]?.activity && !skipped ? { activity: entries[editingDate].activity } : {})
+    };
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await saveWorkoutLog(userId, entry);
+      onChange(editingDate, entry);
+      setEditingDate(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save workout');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async (date: string) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await deleteWorkoutLog(userId, planId, date);
+      onChange(date, null);
+      setEditingDate(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to clear workout');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'block w-full rounded-md border border-gray-300 text-black bg-white p-2 text-sm';
+
+  return (
+    <div className="max-w-4xl mx-auto mt-6 px-8">
+      <h3 className="text-xl font-semibold text-black mb-1">Planned vs Actual</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        {formatWeeklyVolume(summary.actualMileage, units)} of {formatWeeklyVolume(summary.plannedMileage, units)} &middot;{' '}
+        {summary.done} done, {summary.partial} partial, {summary.skipped} skipped
+        {summary.unlogged > 0 && `, ${summary.unlogged} not logged`}
+      </p>
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {week.days.map((day) => {
+          const entry = entries[day.date];
+          return (
+            <div key={day.date} className="p-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="text-sm text-black">
+                  <p className="font-semibold">{formatDayDate(day.date, 'EEE, MMM d')}: {day.workout.title}</p>
+                  <p className="text-gray-600">Planned: {summarizeWorkout(day.workout, units) || '-'}</p>
+                  {entry && (
+                    <p className="text-gray-800">
+                      Actual: {describeActual(entry, units) || '-'}
+                      {entry.notes && <span className="italic text-gray-600"> &middot; {entry.notes}</span>}
+                    </p>
+                  )}
+                  {entry?.activity && entry.activity.splits.length > 1 && (
+                    <p className="text-gray-600 text-xs">Splits (/{units}): {describeSplits(entry, units)}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {entry && (
+                    <span className={`text-xs font-semibold px-2 py-1 rounded ${STATUS_STYLES[entry.status]}`}>
+                      {WORKOUT_LOG_STATUS_LABELS[entry.status]}
+                    </span>
+                  )}
+                  {day.workout.type !== 'rest' && editingDate !== day.date && (
+                    <button
+                      type="button"
+                      onClick={() => startEditing(day)}
+                      className="py-1 px-3 rounded-md text-sm text-blue-700 border border-blue-300 hover:bg-blue-50"
+                    >
+                      {entry ? 'Edit' : 'Log'}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {editingDate === day.date && formData && (
+                <div className="mt-3 grid grid-cols-2 md:grid-cols-3 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700">Status</label>
+                    <select
+                      value={formData.status}
+                      onChange={(e) => setFormData({ ...formData, status: e.target.value as WorkoutLogStatus })}
+                      className={inputClass}
+                    >
+                      {WORKOUT_LOG_STATUSES.map((status) => (
+                        <option key={status} value={status}>{WORKOUT_LOG_STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {formData.status !== 'skipped' && (
+                    <>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700">Distance ({units})</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.distance}
+                          onChange={(e) => setFormData({ ...formData, distance: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700">Time (h:mm:ss)</label>
+                        <input
+                          type="text"
+                          placeholder="0:45:00"
+                          value={formData.time}
+                          onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700">Avg Heart Rate</label>
+                        <input
+                          type="number"
+                          min="30"
+                          max="250"
+                          value={formData.averageHeartRate}
+                          onChange={(e) => setFormData({ ...formData, averageHeartRate: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700">RPE (1-10)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          max="10"
+                          value={formData.rpe}
+                          onChange={(e) => setFormData({ ...formData, rpe: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                    </>
+                  )}
+                  <div className="col-span-2 md:col-span-3">
+                    <label className="block text-xs font-medium text-gray-700">Notes</label>
+                    <textarea
+                      rows={2}
+                      maxLength={MAX_LOG_NOTES_LENGTH}
+                      value={formData.notes}
+                      onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="col-span-2 md:col-span-3 flex gap-2">
+                    <button
+                      type="button"
+                      onClick={handleSave}
+                      disabled={isSaving}
+                      className="bg-blue-600 text-white py-1 px-3 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                    {entry && (
+                      <button
+                        type="button"
+                        onClick={() => handleClear(day.date)}
+                        disabled={isSaving}
+                        className="py-1 px-3 rounded-md text-sm text-red-700 border border-red-300 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Clear
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setEditingDate(null)}
+                      disabled={isSaving}
+                      className="py-1 px-3 rounded-md text-sm text-gray-700 border border-gray-300 hover:bg-gray-100"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
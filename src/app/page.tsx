@@ -1,3 +1,4 @@
+import Link from 'next/link';
 import MarathonForm from './components/MarathonForm';
 
 // Version 1.8.2 - Restore original styling
@@ -5,8 +6,11 @@ export default function Home() {
   return (
     <main className="min-h-screen bg-blue-900 p-8">
       <div className="max-w-2xl mx-auto">
-        <h1 className="text-4xl font-bold mb-4 text-white">Marathon Training Plan Generator</h1>
-        <p className="text-xl mb-8 text-gray-300">Generate a personalized training plan for your next marathon</p>
+        <h1 className="text-4xl font-bold mb-4 text-white">Race Training Plan Generator</h1>
+        <p className="text-xl mb-4 text-gray-300">Generate a personalized training plan for your next race, from 5K to ultra</p>
+        <p className="mb-8">
+          <Link href="/plans" className="text-blue-200 hover:underline">My Plans</Link>
+        </p>
         <MarathonForm />
       </div>
     </main>
@@ -0,0 +1,57 @@
+import { ImageResponse } from 'next/og';
+import { format, parseISO } from 'date-fns';
+import { loadSharedPlan } from '@/lib/plan/shares';
+import { formatWeeklyVolume } from '@/lib/plan/render';
+import { formatDuration, goalTimeToSeconds } from '@/lib/plan/time';
+
+export const runtime = 'edge';
+export const alt = 'Training plan summary';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+// Preview card shown when a shared link is posted in chat or social apps
+export default async function Image({ params }: { params: { slug: string } }) {
+  const plan = await loadSharedPlan(params.slug);
+  const peak = plan ? Math.max(...plan.weeks.map(week => week.totalMileage), 0) : 0;
+  const facts = plan
+    ? [
+        `${plan.totalWeeks} weeks`,
+        `Race day ${format(parseISO(plan.raceDate), 'MMM d, yyyy')}`,
+        `Peak ${formatWeeklyVolume(peak, plan.units)}`,
+        ...(plan.goalTime ? [`Goal ${formatDuration(goalTimeToSeconds(plan.goalTime))}`] : [])
+      ]
+    : [];
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'center',
+          padding: 80,
+          background: '#1e3a8a',
+          color: 'white'
+        }}
+      >
+        <div style={{ fontSize: 72, fontWeight: 700 }}>
+          {plan ? `${plan.raceDistance.label} Training Plan` : 'Training Plan'}
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', marginTop: 40 }}>
+          {facts.map((fact) => (
+            <div
+              key={fact}
+              style={{ fontSize: 36, background: '#2563eb', borderRadius: 16, padding: '12px 28px', marginRight: 20, marginBottom: 20 }}
+            >
+              {fact}
+            </div>
+          ))}
+        </div>
+        <div style={{ fontSize: 28, color: '#bfdbfe', marginTop: 20 }}>Race Training Plan Generator</div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,69 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import TrainingPlan from '../../components/TrainingPlan';
+import { loadSharedPlan, SharedPlan } from '@/lib/plan/shares';
+import { formatWeeklyVolume } from '@/lib/plan/render';
+import { formatDuration, goalTimeToSeconds } from '@/lib/plan/time';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+interface SharedPlanPageProps {
+  params: { slug: string };
+}
+
+function describePlan(plan: SharedPlan): string {
+  const goal = plan.goalTime ? ` targeting ${formatDuration(goalTimeToSeconds(plan.goalTime))}` : '';
+  return `A ${plan.totalWeeks}-week plan for a ${plan.raceDistance.label} on ${format(parseISO(plan.raceDate), 'MMMM d, yyyy')}${goal}.`;
+}
+
+export async function generateMetadata({ params }: SharedPlanPageProps): Promise<Metadata> {
+  const plan = await loadSharedPlan(params.slug);
+  if (!plan) {
+    return { title: 'Training Plan Not Found' };
+  }
+  const title = `${plan.raceDistance.label} Training Plan`;
+  const description = describePlan(plan);
+  return {
+    title,
+    description,
+    // Shared links are for the people they are sent to, not search engines
+    robots: { index: false, follow: false },
+    openGraph: { title, description, type: 'website' },
+    twitter: { card: 'summary_large_image', title, description }
+  };
+}
+
+// Public read-only view of a plan someone shared. No controls, and the email
+// and goal time only appear if the owner chose to show them.
+export default async function SharedPlanPage({ params }: SharedPlanPageProps) {
+  const plan = await loadSharedPlan(params.slug);
+  if (!plan) {
+    notFound();
+  }
+
+  const peak = Math.max(...plan.weeks.map(week => week.totalMileage), 0);
+
+  return (
+    <main className="min-h-screen bg-blue-900 p-8">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-4xl font-bold mb-4 text-white">{plan.raceDistance.label} Training Plan</h1>
+        <p className="text-xl mb-2 text-gray-300">{describePlan(plan)}</p>
+        <p className="mb-2 text-gray-300">Peak week: {formatWeeklyVolume(peak, plan.units)}</p>
+        {plan.email && <p className="mb-2 text-gray-300">Shared by {plan.email}</p>}
+        <Link href="/" className="text-blue-200 hover:underline">Make your own plan</Link>
+
+        {plan.weeks.map((week) => (
+          <TrainingPlan
+            key={week.weekNumber}
+            weekNumber={week.weekNumber}
+            week={week}
+            units={plan.units}
+          />
+        ))}
+      </div>
+    </main>
+  );
+}
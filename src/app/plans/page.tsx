@@ -0,0 +1,16 @@
+import Link from 'next/link';
+import MyPlans from '../components/MyPlans';
+
+export default function MyPlansPage() {
+  return (
+    <main className="min-h-screen bg-blue-900 p-8">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-4xl font-bold mb-4 text-white">My Plans</h1>
+        <p className="mb-8">
+          <Link href="/" className="text-blue-200 hover:underline">Make a new plan</Link>
+        </p>
+        <MyPlans />
+      </div>
+    </main>
+  );
+}
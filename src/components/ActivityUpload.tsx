@@ -0,0 +1,55 @@
+import React, { useRef } from "react";
+import { Upload } from "lucide-react";
+
+interface ActivityUploadProps {
+  onFilesChange: (files: File[]) => void;
+  isUploading?: boolean;
+}
+
+export default function ActivityUpload({ onFilesChange, isUploading = false }: ActivityUploadProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      onFilesChange(files);
+    }
+    // Allow the same file to be picked again after a failed import
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center w-full">
+      <label
+        htmlFor="activity-files"
+        className={`flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg bg-gray-50 ${isUploading ? "opacity-50 cursor-wait" : "cursor-pointer hover:bg-gray-100"}`}
+      >
+        <div className="flex flex-col items-center justify-center pt-5 pb-6">
+          <Upload className="w-8 h-8 mb-2 text-gray-400" />
+          <p className="mb-2 text-sm text-gray-500">
+            {isUploading ? (
+              <span className="font-semibold">Importing activities...</span>
+            ) : (
+              <>
+                <span className="font-semibold">Click to upload</span> your runs
+              </>
+            )}
+          </p>
+          <p className="text-xs text-gray-500">GPX, TCX or FIT files from your watch or app</p>
+        </div>
+      </label>
+      <input
+        type="file"
+        id="activity-files"
+        accept=".gpx,.tcx,.fit"
+        multiple
+        disabled={isUploading}
+        onChange={handleFilesChange}
+        className="hidden"
+        ref={fileInputRef}
+      />
+    </div>
+  );
+}
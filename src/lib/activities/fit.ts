@@ -0,0 +1,220 @@
+import { ActivityParseError, ParsedActivity, TrackPoint } from './types';
+
+// Decoder for the binary FIT format written by Garmin, Wahoo, COROS and most
+// other watches. Only record (per-second samples) and session (totals)
+// messages are read; everything else is skipped using its definition.
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31);
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const MESSAGE_SESSION = 18;
+const MESSAGE_RECORD = 20;
+const FIELD_TIMESTAMP = 253;
+
+// Record fields
+const RECORD_LATITUDE = 0;
+const RECORD_LONGITUDE = 1;
+const RECORD_ALTITUDE = 2;
+const RECORD_HEART_RATE = 3;
+const RECORD_DISTANCE = 5;
+const RECORD_ENHANCED_ALTITUDE = 78;
+
+// Session fields
+const SESSION_START_TIME = 2;
+const SESSION_ELAPSED_TIME = 7;
+const SESSION_TIMER_TIME = 8;
+const SESSION_DISTANCE = 9;
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  // Bytes of developer fields to skip after the regular fields
+  developerSize: number;
+}
+
+// Read a single integer or float field, returning null for the type's "invalid" value
+function readValue(view: DataView, offset: number, { size, baseType }: FieldDefinition, littleEndian: boolean): number | null {
+  const type = baseType & 0x1f;
+  switch (type) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0a: // uint8z
+    case 0x0d: { // byte
+      if (size !== 1) return null;
+      const value = view.getUint8(offset);
+      return value === (type === 0x0a ? 0 : 0xff) ? null : value;
+    }
+    case 0x01: {
+      if (size !== 1) return null;
+      const value = view.getInt8(offset);
+      return value === 0x7f ? null : value;
+    }
+    case 0x03: {
+      if (size !== 2) return null;
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? null : value;
+    }
+    case 0x04:
+    case 0x0b: {
+      if (size !== 2) return null;
+      const value = view.getUint16(offset, littleEndian);
+      return value === (type === 0x0b ? 0 : 0xffff) ? null : value;
+    }
+    case 0x05: {
+      if (size !== 4) return null;
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? null : value;
+    }
+    case 0x06:
+    case 0x0c: {
+      if (size !== 4) return null;
+      const value = view.getUint32(offset, littleEndian);
+      return value === (type === 0x0c ? 0 : 0xffffffff) ? null : value;
+    }
+    case 0x08: {
+      if (size !== 4) return null;
+      const value = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 0x09: {
+      if (size !== 8) return null;
+      const value = view.getFloat64(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function scaled(value: number | undefined | null, scale: number, offset = 0): number | null {
+  return value === undefined || value === null ? null : value / scale - offset;
+}
+
+function fitTime(value: number | undefined | null): number | null {
+  return value === undefined || value === null ? null : FIT_EPOCH_MS + value * 1000;
+}
+
+export function parseFit(data: ArrayBuffer): ParsedActivity {
+  const view = new DataView(data);
+  if (data.byteLength < 12) {
+    throw new ActivityParseError('The FIT file is too short');
+  }
+  const headerSize = view.getUint8(0);
+  const signature = String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11));
+  if ((headerSize !== 12 && headerSize !== 14) || signature !== '.FIT') {
+    throw new ActivityParseError('Not a FIT file');
+  }
+  const end = Math.min(headerSize + view.getUint32(4, true), data.byteLength);
+
+  const definitions = new Map<number, MessageDefinition>();
+  const points: TrackPoint[] = [];
+  const sessions: Map<number, number>[] = [];
+  let lastTimestamp: number | null = null;
+  let offset = headerSize;
+
+  try {
+    while (offset < end) {
+      const header = view.getUint8(offset++);
+
+      if ((header & 0x40) && !(header & 0x80)) {
+        // Definition message
+        const local = header & 0x0f;
+        const littleEndian = view.getUint8(offset + 1) === 0;
+        const globalNumber = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = view.getUint8(offset + 4);
+        offset += 5;
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({ number: view.getUint8(offset), size: view.getUint8(offset + 1), baseType: view.getUint8(offset + 2) });
+          offset += 3;
+        }
+        let developerSize = 0;
+        if (header & 0x20) {
+          const developerCount = view.getUint8(offset++);
+          for (let i = 0; i < developerCount; i++) {
+            developerSize += view.getUint8(offset + 1);
+            offset += 3;
+          }
+        }
+        definitions.set(local, { globalNumber, littleEndian, fields, developerSize });
+        continue;
+      }
+
+      // Data message, possibly with a compressed timestamp in the header
+      const compressed = (header & 0x80) !== 0;
+      const local = compressed ? (header >> 5) & 0x03 : header & 0x0f;
+      const definition = definitions.get(local);
+      if (!definition) {
+        throw new ActivityParseError(`FIT data message uses undefined local type ${local}`);
+      }
+
+      const values = new Map<number, number>();
+      for (const field of definition.fields) {
+        const value = readValue(view, offset, field, definition.littleEndian);
+        if (value !== null) values.set(field.number, value);
+        offset += field.size;
+      }
+      offset += definition.developerSize;
+
+      if (values.has(FIELD_TIMESTAMP)) {
+        lastTimestamp = values.get(FIELD_TIMESTAMP) as number;
+      } else if (compressed && lastTimestamp !== null) {
+        const timeOffset = header & 0x1f;
+        let timestamp: number = (lastTimestamp & ~0x1f) + timeOffset;
+        if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+        lastTimestamp = timestamp;
+        values.set(FIELD_TIMESTAMP, timestamp);
+      }
+
+      if (definition.globalNumber === MESSAGE_RECORD) {
+        const latitude = values.get(RECORD_LATITUDE);
+        const longitude = values.get(RECORD_LONGITUDE);
+        points.push({
+          time: fitTime(values.get(FIELD_TIMESTAMP)),
+          latitude: latitude === undefined ? null : latitude * SEMICIRCLES_TO_DEGREES,
+          longitude: longitude === undefined ? null : longitude * SEMICIRCLES_TO_DEGREES,
+          elevation: scaled(values.get(RECORD_ENHANCED_ALTITUDE) ?? values.get(RECORD_ALTITUDE), 5, 500),
+          heartRate: values.get(RECORD_HEART_RATE) ?? null,
+          distance: scaled(values.get(RECORD_DISTANCE), 100)
+        });
+      } else if (definition.globalNumber === MESSAGE_SESSION) {
+        sessions.push(values);
+      }
+    }
+  } catch (error) {
+    if (error instanceof ActivityParseError) throw error;
+    // DataView throws a RangeError when a message runs past the end of the file
+    throw new ActivityParseError('The FIT file is truncated or corrupt');
+  }
+
+  if (points.length === 0 && sessions.length === 0) {
+    throw new ActivityParseError('The FIT file has no activity records');
+  }
+
+  // Multisport files have several sessions; their totals add up
+  const total = (field: number, scale: number) => {
+    const values = sessions.map(session => scaled(session.get(field), scale));
+    return values.length === 0 || values.some(value => value === null)
+      ? null
+      : values.reduce<number>((sum, value) => sum + (value as number), 0);
+  };
+
+  return {
+    format: 'fit',
+    points,
+    totals: {
+      distance: total(SESSION_DISTANCE, 100),
+      timerSeconds: total(SESSION_TIMER_TIME, 1000),
+      elapsedSeconds: total(SESSION_ELAPSED_TIME, 1000)
+    },
+    startTime: fitTime(sessions[0]?.get(SESSION_START_TIME)) ?? points.find(point => point.time !== null)?.time ?? null
+  };
+}
@@ -0,0 +1,30 @@
+import { ActivityParseError, ParsedActivity, TrackPoint } from './types';
+import { attributeNumber, childNumber, childText, findElements, parseTime } from './xml';
+
+// GPX 1.1 tracks. Heart rate comes from the Garmin TrackPointExtension, which
+// most watches and apps write.
+export function parseGpx(xml: string): ParsedActivity {
+  if (!/<(?:[\w.-]+:)?gpx[\s>]/.test(xml)) {
+    throw new ActivityParseError('Not a GPX file');
+  }
+
+  const points: TrackPoint[] = findElements(xml, 'trkpt').map(point => ({
+    time: parseTime(childText(point.content, 'time')),
+    latitude: attributeNumber(point, 'lat'),
+    longitude: attributeNumber(point, 'lon'),
+    elevation: childNumber(point.content, 'ele'),
+    heartRate: childNumber(point.content, 'hr'),
+    distance: null
+  }));
+  if (points.length === 0) {
+    throw new ActivityParseError('The GPX file has no track points');
+  }
+
+  const metadataTime = parseTime(childText(findElements(xml, 'metadata')[0]?.content ?? '', 'time'));
+  return {
+    format: 'gpx',
+    points,
+    totals: { distance: null, timerSeconds: null, elapsedSeconds: null },
+    startTime: points.find(point => point.time !== null)?.time ?? metadataTime
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { localActivityDate, matchActivity, toWorkoutLogEntry } from './match';
+import { Activity } from './types';
+import { Day } from '../plan/types';
+import { testWeek } from '@/test/fixtures';
+
+function activity(startTime: string, distance = 5): Activity {
+  return {
+    format: 'gpx',
+    startTime,
+    distance,
+    movingSeconds: 2700,
+    elapsedSeconds: 2800,
+    elevationGain: null,
+    elevationLoss: null,
+    averageHeartRate: 145,
+    maxHeartRate: 160,
+    splits: []
+  };
+}
+
+function day(date: string, title: string, distance: number | null): Day {
+  return {
+    date,
+    workout: { type: 'easy', title, distance, pace: null, durationMinutes: null, intervals: null, description: '', notes: null }
+  };
+}
+
+const weeks = [
+  testWeek(1, { days: [day('2026-11-02', 'Easy Run', 4), day('2026-11-03', 'Tempo Run', 6)] }),
+  testWeek(2, { days: [day('2026-11-09', 'Cross Training', null)] })
+];
+
+describe('matchActivity', () => {
+  it('matches the planned day in the runner time zone', () => {
+    // 02:30 UTC is still the evening before in New York (300 minutes behind UTC)
+    const evening = activity('2026-11-04T02:30:00.000Z');
+    expect(localActivityDate(evening, 300)).toBe('2026-11-03');
+    expect(matchActivity(evening, weeks, 300)).toEqual({ weekNumber: 1, date: '2026-11-03', title: 'Tempo Run', plannedDistance: 6 });
+    // In UTC it falls on the rest day after
+    expect(localActivityDate(evening, 0)).toBe('2026-11-04');
+    expect(matchActivity(evening, weeks, 0)).toBeNull();
+  });
+
+  it('finds days in later weeks and nothing outside the plan', () => {
+    expect(matchActivity(activity('2026-11-09T12:00:00.000Z'), weeks, 0)?.weekNumber).toBe(2);
+    expect(matchActivity(activity('2026-11-20T12:00:00.000Z'), weeks, 0)).toBeNull();
+  });
+
+  it('logs runs close to the planned distance as done and shorter ones as partial', () => {
+    const match = matchActivity(activity('2026-11-03T12:00:00.000Z'), weeks, 0)!;
+    expect(toWorkoutLogEntry('plan-1', activity('2026-11-03T12:00:00.000Z', 5.5), match).status).toBe('done');
+    expect(toWorkoutLogEntry('plan-1', activity('2026-11-03T12:00:00.000Z', 4), match)).toMatchObject({
+      planId: 'plan-1',
+      weekNumber: 1,
+      date: '2026-11-03',
+      status: 'partial',
+      distance: 4,
+      durationSeconds: 2700
+    });
+
+    const crossTraining = matchActivity(activity('2026-11-09T12:00:00.000Z'), weeks, 0)!;
+    expect(toWorkoutLogEntry('plan-1', activity('2026-11-09T12:00:00.000Z', 1), crossTraining).status).toBe('done');
+  });
+});
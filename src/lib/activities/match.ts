@@ -0,0 +1,49 @@
+import { WorkoutLogEntry } from '../plan/log';
+import { Day, Week } from '../plan/types';
+import { Activity } from './types';
+
+// Match imported activities to planned days by the date the runner ran them,
+// in the runner's own time zone.
+
+// Runs within this fraction of the planned distance count as done
+const DONE_FRACTION = 0.9;
+
+export interface ActivityMatch {
+  weekNumber: number;
+  date: string;
+  title: string;
+  plannedDistance: number | null;
+}
+
+// `timezoneOffset` is minutes behind UTC, as returned by Date#getTimezoneOffset in the browser
+export function localActivityDate(activity: Activity, timezoneOffset: number): string {
+  return new Date(Date.parse(activity.startTime) - timezoneOffset * 60000).toISOString().slice(0, 10);
+}
+
+export function matchActivity(activity: Activity, weeks: Week[], timezoneOffset: number): ActivityMatch | null {
+  const date = localActivityDate(activity, timezoneOffset);
+  for (const week of weeks) {
+    const day: Day | undefined = week.days.find(candidate => candidate.date === date);
+    if (day) {
+      return { weekNumber: week.weekNumber, date, title: day.workout.title, plannedDistance: day.workout.distance };
+    }
+  }
+  return null;
+}
+
+export function toWorkoutLogEntry(planId: string, activity: Activity, match: ActivityMatch): WorkoutLogEntry {
+  const done = match.plannedDistance === null || activity.distance >= match.plannedDistance * DONE_FRACTION;
+  return {
+    planId,
+    weekNumber: match.weekNumber,
+    date: match.date,
+    status: done ? 'done' : 'partial',
+    distance: activity.distance,
+    durationSeconds: activity.movingSeconds,
+    averageHeartRate: activity.averageHeartRate,
+    rpe: null,
+    notes: '',
+    loggedAt: new Date().toISOString(),
+    activity
+  };
+}
@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseActivity, parseActivityFile } from './parse';
+import { ActivityParseError } from './types';
+
+function fixture(name: string): ArrayBuffer {
+  const bytes = readFileSync(path.join(__dirname, '__fixtures__', name));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+function text(content: string): ArrayBuffer {
+  return new TextEncoder().encode(content).buffer as ArrayBuffer;
+}
+
+// Every fixture is the same easy run on 2026-11-03 with five track points
+describe('parseActivity', () => {
+  it('summarizes a GPX track from its positions', () => {
+    const activity = parseActivity('run.gpx', fixture('run.gpx'));
+    expect(activity).toMatchObject({
+      format: 'gpx',
+      startTime: '2026-11-03T07:00:00.000Z',
+      distance: 1.24,
+      movingSeconds: 600,
+      elapsedSeconds: 600,
+      elevationGain: 8,
+      elevationLoss: 8,
+      averageHeartRate: 140,
+      maxHeartRate: 155
+    });
+    expect(activity.splits).toHaveLength(1);
+  });
+
+  it('prefers the lap totals a TCX file records', () => {
+    const activity = parseActivity('run.tcx', fixture('run.tcx'));
+    expect(activity).toMatchObject({ format: 'tcx', distance: 2, movingSeconds: 1200, elapsedSeconds: 1200 });
+    expect(activity.splits.map(split => [split.distance, split.durationSeconds])).toEqual([[1, 600], [1, 600]]);
+  });
+
+  it('decodes FIT records, compressed timestamps and session totals', () => {
+    const parsed = parseActivityFile('run.fit', fixture('run.fit'));
+    expect(parsed.points).toHaveLength(5);
+    expect(parsed.points[4].time).toBe(Date.parse('2026-11-03T07:07:50Z'));
+    expect(parsed.points[0].latitude).toBeCloseTo(40, 5);
+    expect(parsed.points[2].elevation).toBe(108);
+    expect(parsed.totals).toEqual({ distance: 2000, timerSeconds: 600, elapsedSeconds: 620 });
+
+    expect(parseActivity('run.fit', fixture('run.fit'))).toMatchObject({
+      format: 'fit',
+      startTime: '2026-11-03T07:00:00.000Z',
+      distance: 1.24,
+      movingSeconds: 600,
+      elapsedSeconds: 620,
+      averageHeartRate: 140
+    });
+  });
+
+  it('splits by kilometre for runners who use them', () => {
+    const activity = parseActivity('run.gpx', fixture('run.gpx'), 'km');
+    expect(activity.splits.map(split => split.durationSeconds)).toEqual([300, 300]);
+    expect(activity.splits.map(split => split.averageHeartRate)).toEqual([132, 149]);
+  });
+
+  it('detects the format from the content when the extension does not say', () => {
+    expect(parseActivityFile('export', fixture('run.fit')).format).toBe('fit');
+    expect(parseActivityFile('export.xml', fixture('run.tcx')).format).toBe('tcx');
+    expect(parseActivityFile('export.xml', fixture('run.gpx')).format).toBe('gpx');
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseActivity('notes.txt', text('just some notes'))).toThrow(ActivityParseError);
+    expect(() => parseActivity('run.gpx', text('<html></html>'))).toThrow('Not a GPX file');
+    expect(() => parseActivity('run.gpx', text('<gpx version="1.1"><trk></trk></gpx>'))).toThrow('no track points');
+    expect(() => parseActivity('run.tcx', text('<TrainingCenterDatabase></TrainingCenterDatabase>'))).toThrow('no laps or track points');
+    expect(() => parseActivity('run.fit', text('short'))).toThrow('too short');
+    expect(() => parseActivity('run.fit', fixture('run.gpx'))).toThrow('Not a FIT file');
+  });
+
+  it('rejects a truncated FIT file', () => {
+    const full = new Uint8Array(fixture('run.fit'));
+    const truncated = full.slice(0, 60);
+    // Keep the header's data size, so the decoder runs off the end of the file
+    expect(() => parseActivity('run.fit', truncated.buffer)).toThrow('truncated or corrupt');
+  });
+
+  it('rejects an activity without any times', () => {
+    const untimed = '<gpx version="1.1"><trk><trkseg><trkpt lat="40" lon="-74"></trkpt></trkseg></trk></gpx>';
+    expect(() => parseActivity('run.gpx', text(untimed))).toThrow('no start time');
+  });
+});
@@ -0,0 +1,40 @@
+import { DistanceUnit } from '../plan/units';
+import { parseFit } from './fit';
+import { parseGpx } from './gpx';
+import { parseTcx } from './tcx';
+import { summarizeActivity } from './summary';
+import { Activity, ACTIVITY_FORMATS, ActivityFormat, ActivityParseError, ParsedActivity } from './types';
+
+// Largest activity file accepted; a multi-hour run at one-second recording is a few MB
+export const MAX_ACTIVITY_FILE_BYTES = 20 * 1024 * 1024;
+
+// Work out the format from the file name, falling back to the content
+function detectFormat(filename: string, data: ArrayBuffer): ActivityFormat {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (ACTIVITY_FORMATS.includes(extension as ActivityFormat)) {
+    return extension as ActivityFormat;
+  }
+
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 512));
+  if (bytes.length >= 12 && String.fromCharCode(...Array.from(bytes.slice(8, 12))) === '.FIT') {
+    return 'fit';
+  }
+  const head = new TextDecoder().decode(bytes);
+  if (head.includes('<TrainingCenterDatabase')) return 'tcx';
+  if (/<(?:[\w.-]+:)?gpx[\s>]/.test(head)) return 'gpx';
+  throw new ActivityParseError('Unsupported file type - upload a GPX, TCX or FIT file');
+}
+
+export function parseActivityFile(filename: string, data: ArrayBuffer): ParsedActivity {
+  const format = detectFormat(filename, data);
+  if (format === 'fit') {
+    return parseFit(data);
+  }
+  const xml = new TextDecoder().decode(data);
+  return format === 'gpx' ? parseGpx(xml) : parseTcx(xml);
+}
+
+// Parse a GPX, TCX or FIT file into a summary with splits in the runner's unit
+export function parseActivity(filename: string, data: ArrayBuffer, unit: DistanceUnit = 'mi'): Activity {
+  return summarizeActivity(parseActivityFile(filename, data), unit);
+}
@@ -0,0 +1,145 @@
+import { METERS_PER_MILE } from '../plan/paces';
+import { DistanceUnit } from '../plan/units';
+import { Activity, ActivityParseError, ActivitySplit, ParsedActivity, TrackPoint } from './types';
+
+// Turns parsed track points into distance, moving time, splits, elevation and
+// heart rate. Device-recorded distances and totals win over recomputed ones.
+
+const EARTH_RADIUS_METERS = 6371008.8;
+// Slower than this between two points counts as stopped
+const MOVING_SPEED = 0.5; // m/s
+// Elevation changes smaller than this are GPS noise
+const ELEVATION_THRESHOLD = 3; // metres
+
+function haversine(a: TrackPoint, b: TrackPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const lat1 = toRadians(a.latitude as number);
+  const lat2 = toRadians(b.latitude as number);
+  const dLat = lat2 - lat1;
+  const dLon = toRadians((b.longitude as number) - (a.longitude as number));
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function hasPosition(point: TrackPoint): boolean {
+  return point.latitude !== null && point.longitude !== null;
+}
+
+// Cumulative metres at each point, from the device where it recorded them
+function cumulativeDistances(points: TrackPoint[]): number[] {
+  const fromDevice = points.filter(point => point.distance !== null).length >= points.length / 2;
+  let total = 0;
+  let previous: TrackPoint | null = null;
+
+  return points.map(point => {
+    if (fromDevice) {
+      total = Math.max(total, point.distance ?? total);
+    } else if (hasPosition(point)) {
+      if (previous) total += haversine(previous, point);
+      previous = point;
+    }
+    return total;
+  });
+}
+
+function elevationChanges(points: TrackPoint[]): { gain: number; loss: number } | null {
+  const elevations = points.map(point => point.elevation).filter((elevation): elevation is number => elevation !== null);
+  if (elevations.length < 2) return null;
+
+  let gain = 0;
+  let loss = 0;
+  let reference = elevations[0];
+  for (const elevation of elevations) {
+    const change = elevation - reference;
+    if (Math.abs(change) >= ELEVATION_THRESHOLD) {
+      if (change > 0) gain += change;
+      else loss -= change;
+      reference = elevation;
+    }
+  }
+  return { gain: Math.round(gain), loss: Math.round(loss) };
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+// One split per mile or kilometre, depending on the runner's unit
+function buildSplits(points: TrackPoint[], distances: number[], unit: DistanceUnit): ActivitySplit[] {
+  const splitMeters = unit === 'km' ? 1000 : METERS_PER_MILE;
+  const splits: ActivitySplit[] = [];
+  let startIndex = points.findIndex(point => point.time !== null);
+  if (startIndex < 0) return splits;
+
+  const closeSplit = (endIndex: number) => {
+    const slice = points.slice(startIndex, endIndex + 1);
+    const start = slice[0];
+    const end = slice[slice.length - 1];
+    const meters = distances[endIndex] - distances[startIndex];
+    if (meters <= 0 || start.time === null || end.time === null) return;
+    const elevations = slice.map(point => point.elevation).filter((elevation): elevation is number => elevation !== null);
+    splits.push({
+      distance: Math.round(meters / METERS_PER_MILE * 100) / 100,
+      durationSeconds: Math.round((end.time - start.time) / 1000),
+      averageHeartRate: average(slice.map(point => point.heartRate).filter((rate): rate is number => rate !== null)),
+      elevationChange: elevations.length >= 2 ? Math.round(elevations[elevations.length - 1] - elevations[0]) : null
+    });
+    startIndex = endIndex;
+  };
+
+  for (let index = startIndex + 1; index < points.length; index++) {
+    if (points[index].time !== null && distances[index] - distances[startIndex] >= splitMeters) {
+      closeSplit(index);
+    }
+  }
+  if (startIndex < points.length - 1) {
+    closeSplit(points.length - 1);
+  }
+  return splits;
+}
+
+export function summarizeActivity(parsed: ParsedActivity, unit: DistanceUnit = 'mi'): Activity {
+  const { points, totals } = parsed;
+  const distances = cumulativeDistances(points);
+  const trackMeters = distances.length > 0 ? distances[distances.length - 1] : 0;
+  const meters = totals.distance ?? trackMeters;
+  if (parsed.startTime === null) {
+    throw new ActivityParseError('The activity has no start time, so it cannot be matched to a plan day');
+  }
+
+  const timed = points.filter(point => point.time !== null);
+  let movingSeconds: number | null = null;
+  if (timed.length >= 2) {
+    movingSeconds = 0;
+    for (let index = 1; index < points.length; index++) {
+      const previous = points[index - 1];
+      const point = points[index];
+      if (previous.time === null || point.time === null) continue;
+      const seconds = (point.time - previous.time) / 1000;
+      if (seconds > 0 && (distances[index] - distances[index - 1]) / seconds >= MOVING_SPEED) {
+        movingSeconds += seconds;
+      }
+    }
+    movingSeconds = Math.round(movingSeconds);
+  }
+  const elapsedSeconds = totals.elapsedSeconds ?? (timed.length >= 2
+    ? Math.round(((timed[timed.length - 1].time as number) - (timed[0].time as number)) / 1000)
+    : null);
+
+  const heartRates = points.map(point => point.heartRate).filter((rate): rate is number => rate !== null && rate > 0);
+  const elevation = elevationChanges(points);
+
+  return {
+    format: parsed.format,
+    startTime: new Date(parsed.startTime).toISOString(),
+    distance: Math.round(meters / METERS_PER_MILE * 100) / 100,
+    // The device's timer excludes auto-pauses, so it is the better moving time when present
+    movingSeconds: totals.timerSeconds !== null ? Math.round(totals.timerSeconds) : movingSeconds,
+    elapsedSeconds,
+    elevationGain: elevation?.gain ?? null,
+    elevationLoss: elevation?.loss ?? null,
+    averageHeartRate: average(heartRates),
+    maxHeartRate: heartRates.length > 0 ? heartRates.reduce((max, rate) => Math.max(max, rate)) : null,
+    splits: buildSplits(points, distances, unit)
+  };
+}
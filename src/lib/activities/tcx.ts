@@ -0,0 +1,36 @@
+import { ActivityParseError, ParsedActivity, TrackPoint } from './types';
+import { childNumber, childText, findElements, parseTime } from './xml';
+
+// Garmin Training Center XML. Laps carry the device's own totals, which are
+// preferred over anything recomputed from the track.
+export function parseTcx(xml: string): ParsedActivity {
+  if (!/<(?:[\w.-]+:)?TrainingCenterDatabase[\s>]/.test(xml)) {
+    throw new ActivityParseError('Not a TCX file');
+  }
+
+  const laps = findElements(xml, 'Lap');
+  const points: TrackPoint[] = findElements(xml, 'Trackpoint').map(({ content }) => ({
+    time: parseTime(childText(content, 'Time')),
+    latitude: childNumber(content, 'LatitudeDegrees'),
+    longitude: childNumber(content, 'LongitudeDegrees'),
+    elevation: childNumber(content, 'AltitudeMeters'),
+    heartRate: childNumber(childText(content, 'HeartRateBpm') ?? '', 'Value'),
+    distance: childNumber(content, 'DistanceMeters')
+  }));
+  if (points.length === 0 && laps.length === 0) {
+    throw new ActivityParseError('The TCX file has no laps or track points');
+  }
+
+  const sum = (name: string) => {
+    const values = laps.map(({ content }) => childNumber(content, name));
+    return values.some(value => value === null) ? null : values.reduce<number>((total, value) => total + (value as number), 0);
+  };
+  const lapStart = (attributes: string) => parseTime(attributes.match(/StartTime\s*=\s*["']([^"']*)["']/)?.[1] ?? null);
+
+  return {
+    format: 'tcx',
+    points,
+    totals: { distance: sum('DistanceMeters'), timerSeconds: sum('TotalTimeSeconds'), elapsedSeconds: null },
+    startTime: (laps[0] && lapStart(laps[0].attributes)) ?? points.find(point => point.time !== null)?.time ?? null
+  };
+}
@@ -0,0 +1,61 @@
+// Activities imported from GPS watch exports. Parsers turn each file format
+// into track points; summarize() turns those into the numbers the log needs.
+
+export type ActivityFormat = 'gpx' | 'tcx' | 'fit';
+
+export const ACTIVITY_FORMATS: ActivityFormat[] = ['gpx', 'tcx', 'fit'];
+
+export interface TrackPoint {
+  // Milliseconds since the epoch
+  time: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  // Metres above sea level
+  elevation: number | null;
+  heartRate: number | null;
+  // Cumulative metres as recorded by the device, when it records them
+  distance: number | null;
+}
+
+// Totals some formats record alongside the track, used when the track lacks them
+export interface ActivityTotals {
+  distance: number | null; // metres
+  timerSeconds: number | null;
+  elapsedSeconds: number | null;
+}
+
+export interface ParsedActivity {
+  format: ActivityFormat;
+  points: TrackPoint[];
+  totals: ActivityTotals;
+  startTime: number | null;
+}
+
+export interface ActivitySplit {
+  // Distance of this split in miles; the last split is usually shorter
+  distance: number;
+  durationSeconds: number;
+  averageHeartRate: number | null;
+  elevationChange: number | null; // metres
+}
+
+// Distances in miles like the rest of the plan; elevation in metres
+export interface Activity {
+  format: ActivityFormat;
+  startTime: string;
+  distance: number;
+  movingSeconds: number | null;
+  elapsedSeconds: number | null;
+  elevationGain: number | null;
+  elevationLoss: number | null;
+  averageHeartRate: number | null;
+  maxHeartRate: number | null;
+  splits: ActivitySplit[];
+}
+
+export class ActivityParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActivityParseError';
+  }
+}
@@ -0,0 +1,42 @@
+// Just enough XML reading for GPX and TCX exports, which are flat, well-formed
+// and only need a handful of elements. Element names match with or without a
+// namespace prefix (e.g. <hr> and <gpxtpx:hr>).
+
+export interface XmlElement {
+  attributes: string;
+  content: string;
+}
+
+function elementPattern(name: string): RegExp {
+  return new RegExp(
+    `<(?:[\\w.-]+:)?${name}(?=[\\s/>])([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}\\s*>)`,
+    'g'
+  );
+}
+
+// Every element with this name; same-named elements must not nest
+export function findElements(xml: string, name: string): XmlElement[] {
+  return Array.from(xml.matchAll(elementPattern(name)), ([, attributes, content = '']) => ({ attributes, content }));
+}
+
+export function childText(xml: string, name: string): string | null {
+  const [element] = findElements(xml, name);
+  return element ? element.content.trim() : null;
+}
+
+export function childNumber(xml: string, name: string): number | null {
+  const text = childText(xml, name);
+  const value = text === null || text === '' ? NaN : Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function attributeNumber(element: XmlElement, name: string): number | null {
+  const match = element.attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  const value = match ? Number(match[1]) : NaN;
+  return Number.isFinite(value) ? value : null;
+}
+
+export function parseTime(text: string | null): number | null {
+  const time = text ? Date.parse(text) : NaN;
+  return Number.isFinite(time) ? time : null;
+}
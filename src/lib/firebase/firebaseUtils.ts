@@ -8,7 +8,11 @@ import {
   collection,
   addDoc,
   getDocs,
+  getDoc,
+  query,
+  where,
   doc,
+  setDoc,
   updateDoc,
   deleteDoc,
 } from "firebase/firestore";
@@ -28,6 +32,12 @@ export const signInWithGoogle = async () => {
   }
 };
 
+// Header that identifies the signed-in user to our API routes
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const token = await auth.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
 // Firestore functions
 export const addDocument = (collectionName: string, data: any) =>
   addDoc(collection(db, collectionName), data);
@@ -40,6 +50,24 @@ export const getDocuments = async (collectionName: string) => {
   }));
 };
 
+// Documents whose `field` equals `value`
+export const getDocumentsWhere = async (collectionName: string, field: string, value: unknown) => {
+  const querySnapshot = await getDocs(query(collection(db, collectionName), where(field, "==", value)));
+  return querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  }));
+};
+
+export const getDocument = async (collectionName: string, id: string) => {
+  const snapshot = await getDoc(doc(db, collectionName, id));
+  return snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } : null;
+};
+
+// Create or replace a document with a known id
+export const setDocument = (collectionName: string, id: string, data: any) =>
+  setDoc(doc(db, collectionName, id), data);
+
 export const updateDocument = (collectionName: string, id: string, data: any) =>
   updateDoc(doc(db, collectionName, id), data);
 
@@ -0,0 +1,238 @@
+// Firestore for API routes, through the REST API with a service account rather
+// than the browser SDK, so the security rules can keep every server-owned
+// collection closed to clients. Signs its own OAuth token with Web Crypto like
+// verifyIdToken does, so it runs on the edge runtime without the Admin SDK.
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const DATASTORE_SCOPE = 'https://www.googleapis.com/auth/datastore';
+// Requested token lifetime, and how long before it runs out a new one is fetched
+const TOKEN_LIFETIME_SECONDS = 3600;
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+const PAGE_SIZE = 300;
+
+type FirestoreValue =
+  | { nullValue: null }
+  | { booleanValue: boolean }
+  | { integerValue: string }
+  | { doubleValue: number }
+  | { stringValue: string }
+  | { timestampValue: string }
+  | { arrayValue: { values?: FirestoreValue[] } }
+  | { mapValue: { fields?: Record<string, FirestoreValue> } };
+
+interface FirestoreDocument {
+  name: string;
+  fields?: Record<string, FirestoreValue>;
+  updateTime: string;
+}
+
+type DocumentData = Record<string, unknown>;
+
+let tokenCache: { token: string; expiresAt: number } | null = null;
+
+function credentials() {
+  const projectId = process.env.FIREBASE_PROJECT_ID ?? process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  // Environment variables usually hold the key's newlines as \n
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n');
+  if (!projectId || !clientEmail || !privateKey) {
+    throw new Error('FIREBASE_CLIENT_EMAIL, FIREBASE_PRIVATE_KEY and a Firebase project id must be configured');
+  }
+  return { projectId, clientEmail, privateKey };
+}
+
+function encodeBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function importPrivateKey(pem: string): Promise<CryptoKey> {
+  const base64 = pem.replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '').replace(/\s+/g, '');
+  const der = Uint8Array.from(atob(base64), character => character.charCodeAt(0));
+  return crypto.subtle.importKey('pkcs8', der, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+}
+
+// OAuth access token for the service account, from a self-signed JWT
+async function accessToken(): Promise<string> {
+  if (tokenCache && tokenCache.expiresAt > Date.now()) {
+    return tokenCache.token;
+  }
+
+  const { clientEmail, privateKey } = credentials();
+  const now = Math.floor(Date.now() / 1000);
+  const encoder = new TextEncoder();
+  const segments = [
+    { alg: 'RS256', typ: 'JWT' },
+    { iss: clientEmail, scope: DATASTORE_SCOPE, aud: TOKEN_URL, iat: now, exp: now + TOKEN_LIFETIME_SECONDS }
+  ].map(segment => encodeBase64Url(encoder.encode(JSON.stringify(segment))));
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    await importPrivateKey(privateKey),
+    encoder.encode(segments.join('.'))
+  );
+
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${segments.join('.')}.${encodeBase64Url(new Uint8Array(signature))}`
+    })
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to get a Firestore access token: ${response.status}`);
+  }
+  const { access_token, expires_in } = await response.json() as { access_token: string; expires_in: number };
+  tokenCache = { token: access_token, expiresAt: Date.now() + expires_in * 1000 - TOKEN_REFRESH_MARGIN_MS };
+  return access_token;
+}
+
+function documentsUrl(path = ''): string {
+  const { projectId } = credentials();
+  return `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents${path ? `/${path}` : ''}`;
+}
+
+async function request(url: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(url, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${await accessToken()}`, 'Content-Type': 'application/json' }
+  });
+}
+
+async function failure(response: Response, action: string): Promise<Error> {
+  const body = await response.json().catch(() => null) as { error?: { message?: string } } | null;
+  return new Error(`Firestore ${action} failed: ${response.status} ${body?.error?.message ?? response.statusText}`);
+}
+
+function encodeValue(value: unknown): FirestoreValue {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (typeof value === 'string') return { stringValue: value };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(encodeValue) } };
+  return { mapValue: { fields: encodeFields(value) } };
+}
+
+// Fields that are undefined are left out, as JSON.stringify would
+function encodeFields(data: object): Record<string, FirestoreValue> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined).map(([key, value]) => [key, encodeValue(value)])
+  );
+}
+
+function decodeValue(value: FirestoreValue): unknown {
+  if ('nullValue' in value) return null;
+  if ('booleanValue' in value) return value.booleanValue;
+  if ('integerValue' in value) return Number(value.integerValue);
+  if ('doubleValue' in value) return value.doubleValue;
+  if ('stringValue' in value) return value.stringValue;
+  if ('timestampValue' in value) return value.timestampValue;
+  if ('arrayValue' in value) return (value.arrayValue.values ?? []).map(decodeValue);
+  return decodeFields(value.mapValue.fields ?? {});
+}
+
+function decodeFields(fields: Record<string, FirestoreValue>): DocumentData {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, decodeValue(value)]));
+}
+
+function toData(document: FirestoreDocument): { id: string } & DocumentData {
+  return { id: document.name.slice(document.name.lastIndexOf('/') + 1), ...decodeFields(document.fields ?? {}) };
+}
+
+async function readDocument(collectionName: string, id: string): Promise<FirestoreDocument | null> {
+  const response = await request(documentsUrl(`${collectionName}/${encodeURIComponent(id)}`));
+  if (response.status === 404) return null;
+  if (!response.ok) throw await failure(response, `read of ${collectionName}/${id}`);
+  return response.json();
+}
+
+export async function getDocument(collectionName: string, id: string) {
+  const document = await readDocument(collectionName, id);
+  return document ? toData(document) : null;
+}
+
+// Every document in a collection, following pages
+export async function getDocuments(collectionName: string) {
+  const documents: FirestoreDocument[] = [];
+  let pageToken: string | undefined;
+  do {
+    const params = new URLSearchParams({ pageSize: String(PAGE_SIZE), ...(pageToken ? { pageToken } : {}) });
+    const response = await request(`${documentsUrl(collectionName)}?${params}`);
+    if (!response.ok) throw await failure(response, `list of ${collectionName}`);
+    const page = await response.json() as { documents?: FirestoreDocument[]; nextPageToken?: string };
+    documents.push(...(page.documents ?? []));
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return documents.map(toData);
+}
+
+// Documents whose `field` equals `value`
+export async function getDocumentsWhere(collectionName: string, field: string, value: unknown) {
+  const separator = collectionName.lastIndexOf('/');
+  const parent = separator === -1 ? '' : collectionName.slice(0, separator);
+  const response = await request(`${documentsUrl(parent)}:runQuery`, {
+    method: 'POST',
+    body: JSON.stringify({
+      structuredQuery: {
+        from: [{ collectionId: collectionName.slice(separator + 1) }],
+        where: { fieldFilter: { field: { fieldPath: field }, op: 'EQUAL', value: encodeValue(value) } }
+      }
+    })
+  });
+  if (!response.ok) throw await failure(response, `query of ${collectionName}`);
+  const results = await response.json() as { document?: FirestoreDocument }[];
+  return results.flatMap(result => (result.document ? [toData(result.document)] : []));
+}
+
+async function writeDocument(collectionName: string, id: string, data: object, precondition?: string): Promise<Response> {
+  const query = precondition ? `?${precondition}` : '';
+  return request(`${documentsUrl(`${collectionName}/${encodeURIComponent(id)}`)}${query}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ fields: encodeFields(data) })
+  });
+}
+
+// Create or replace a document with a known id
+export async function setDocument(collectionName: string, id: string, data: object): Promise<void> {
+  const response = await writeDocument(collectionName, id, data);
+  if (!response.ok) throw await failure(response, `write of ${collectionName}/${id}`);
+}
+
+// Write a document only if `condition` holds for its current data. The write
+// is conditional on the document being unchanged since it was read, so a
+// concurrent writer makes this return false rather than being overwritten.
+export async function setDocumentIf(
+  collectionName: string,
+  id: string,
+  data: object,
+  condition: (current: DocumentData | null) => boolean
+): Promise<boolean> {
+  const current = await readDocument(collectionName, id);
+  if (!condition(current ? decodeFields(current.fields ?? {}) : null)) {
+    return false;
+  }
+
+  const precondition = current
+    ? `currentDocument.updateTime=${encodeURIComponent(current.updateTime)}`
+    : 'currentDocument.exists=false';
+  const response = await writeDocument(collectionName, id, data, precondition);
+  if (response.ok) return true;
+
+  const { error } = await response.clone().json().catch(() => ({})) as { error?: { status?: string } };
+  if (error?.status === 'FAILED_PRECONDITION' || error?.status === 'ALREADY_EXISTS' || error?.status === 'NOT_FOUND') {
+    return false;
+  }
+  throw await failure(response, `write of ${collectionName}/${id}`);
+}
+
+export async function deleteDocument(collectionName: string, id: string): Promise<void> {
+  const response = await request(documentsUrl(`${collectionName}/${encodeURIComponent(id)}`), { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    throw await failure(response, `delete of ${collectionName}/${id}`);
+  }
+}
@@ -0,0 +1,122 @@
+// Verifies Firebase Auth ID tokens on the server without the Admin SDK, so it
+// runs on the edge runtime: the token is an RS256 JWT signed with Google's
+// securetoken keys, which are fetched and cached per their Cache-Control.
+
+const JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+// Tolerated difference between our clock and Google's
+const CLOCK_SKEW_SECONDS = 300;
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  emailVerified: boolean;
+}
+
+interface TokenHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface TokenPayload {
+  aud?: string;
+  iss?: string;
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  email?: string;
+  email_verified?: boolean;
+}
+
+let keyCache: { keys: Map<string, CryptoKey>; expiresAt: number } | null = null;
+
+function decodeBytes(segment: string): Uint8Array {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return Uint8Array.from(binary, character => character.charCodeAt(0));
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(decodeBytes(segment)));
+}
+
+async function signingKeys(): Promise<Map<string, CryptoKey>> {
+  if (keyCache && keyCache.expiresAt > Date.now()) {
+    return keyCache.keys;
+  }
+
+  const response = await fetch(JWKS_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Firebase signing keys: ${response.status}`);
+  }
+  const { keys } = await response.json() as { keys: (JsonWebKey & { kid: string })[] };
+  const imported = new Map<string, CryptoKey>();
+  for (const jwk of keys) {
+    imported.set(jwk.kid, await crypto.subtle.importKey(
+      'jwk',
+      jwk,
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    ));
+  }
+
+  const maxAge = Number(response.headers.get('cache-control')?.match(/max-age=(\d+)/)?.[1] ?? 3600);
+  keyCache = { keys: imported, expiresAt: Date.now() + maxAge * 1000 };
+  return imported;
+}
+
+// The signed-in user, or null if the token is malformed, expired or not for this project
+export async function verifyIdToken(token: string): Promise<AuthUser | null> {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error('NEXT_PUBLIC_FIREBASE_PROJECT_ID is not configured');
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  let header: TokenHeader;
+  let payload: TokenPayload;
+  try {
+    header = decodeSegment<TokenHeader>(parts[0]);
+    payload = decodeSegment<TokenPayload>(parts[1]);
+  } catch {
+    return null;
+  }
+  if (header.alg !== 'RS256' || !header.kid) return null;
+
+  const key = (await signingKeys()).get(header.kid);
+  if (!key) return null;
+  const valid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    decodeBytes(parts[2]),
+    new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+  );
+  if (!valid) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    payload.aud !== projectId ||
+    payload.iss !== `https://securetoken.google.com/${projectId}` ||
+    !payload.sub ||
+    typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now ||
+    typeof payload.iat !== 'number' || payload.iat - CLOCK_SKEW_SECONDS > now
+  ) {
+    return null;
+  }
+
+  return {
+    uid: payload.sub,
+    email: payload.email ?? null,
+    emailVerified: payload.email_verified === true
+  };
+}
+
+// The user behind a request's "Authorization: Bearer <ID token>" header, if any.
+// Download links cannot send headers, so they pass ?idToken= instead.
+export async function getRequestUser(req: Request): Promise<AuthUser | null> {
+  const match = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  const token = match?.[1] ?? new URL(req.url).searchParams.get('idToken');
+  return token ? verifyIdToken(token) : null;
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import { onIdTokenChanged } from "firebase/auth";
+import { auth } from "../firebase/firebase";
+
+// The signed-in user's current ID token, kept fresh as Firebase refreshes it.
+// Download links carry it as ?idToken= since a plain link cannot send headers.
+export const useIdToken = () => {
+  const [idToken, setIdToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onIdTokenChanged(auth, async (user) => {
+      setIdToken(user ? await user.getIdToken() : null);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  return idToken;
+};
@@ -0,0 +1,135 @@
+import type { Redis } from '@upstash/redis';
+import { getRedis, isRedisConfigured } from '../redis';
+import { Week } from '../plan/types';
+import { PLAN_TTL_SECONDS } from '../plan/state';
+
+// Append-only log of generation progress for each plan. The worker appends as
+// it goes and the events route replays the log from the client's last event
+// id, so a reconnecting browser never misses a week.
+
+export type PlanEvent =
+  | { type: 'week-started'; weekNumber: number }
+  // Model output received since the previous token event
+  | { type: 'week-token'; weekNumber: number; text: string }
+  // The model is rewriting the week to fix failed checks
+  | { type: 'week-repairing'; weekNumber: number; attempt: number; violations: string[] }
+  | { type: 'week-completed'; weekNumber: number; week: Week }
+  | { type: 'week-failed'; weekNumber: number; attempt: number; error: string; willRetry: boolean }
+  | { type: 'plan-completed' }
+  | { type: 'plan-failed'; error: string };
+
+export interface LoggedPlanEvent {
+  id: number;
+  event: PlanEvent;
+}
+
+export interface PlanEventLog {
+  append(requestId: string, event: PlanEvent): Promise<void>;
+  // Events with an id greater than or equal to `fromId`, oldest first
+  read(requestId: string, fromId: number): Promise<LoggedPlanEvent[]>;
+  // Number of events logged so far, i.e. the id the next event will get
+  size(requestId: string): Promise<number>;
+}
+
+// Token events are batched so a week costs a few dozen writes rather than one per token
+const TOKEN_FLUSH_MS = 250;
+
+function eventsKey(requestId: string): string {
+  return `events:${requestId}`;
+}
+
+export function isFinalEvent(event: PlanEvent): boolean {
+  return event.type === 'plan-completed' || event.type === 'plan-failed';
+}
+
+class RedisPlanEventLog implements PlanEventLog {
+  constructor(private readonly redis: Redis) {}
+
+  async append(requestId: string, event: PlanEvent) {
+    await this.redis.rpush(eventsKey(requestId), JSON.stringify(event));
+    await this.redis.expire(eventsKey(requestId), PLAN_TTL_SECONDS);
+  }
+
+  async read(requestId: string, fromId: number) {
+    const entries = await this.redis.lrange<string>(eventsKey(requestId), fromId, -1);
+    return entries.map((entry, index) => ({ id: fromId + index, event: JSON.parse(entry) as PlanEvent }));
+  }
+
+  async size(requestId: string) {
+    return this.redis.llen(eventsKey(requestId));
+  }
+}
+
+// Local stand-in used alongside the memory job queue
+class MemoryPlanEventLog implements PlanEventLog {
+  private readonly logs = new Map<string, PlanEvent[]>();
+
+  async append(requestId: string, event: PlanEvent) {
+    const log = this.logs.get(requestId) ?? [];
+    log.push(event);
+    this.logs.set(requestId, log);
+  }
+
+  async read(requestId: string, fromId: number) {
+    return (this.logs.get(requestId) ?? [])
+      .slice(fromId)
+      .map((event, index) => ({ id: fromId + index, event }));
+  }
+
+  async size(requestId: string) {
+    return this.logs.get(requestId)?.length ?? 0;
+  }
+}
+
+const globalForEvents = globalThis as unknown as { memoryPlanEventLog?: MemoryPlanEventLog };
+
+export async function getPlanEventLog(): Promise<PlanEventLog> {
+  if (isRedisConfigured()) {
+    return new RedisPlanEventLog(getRedis());
+  }
+  globalForEvents.memoryPlanEventLog ??= new MemoryPlanEventLog();
+  return globalForEvents.memoryPlanEventLog;
+}
+
+// Progress events are best effort: a failed write must never fail generation
+export async function publishPlanEvent(requestId: string, event: PlanEvent): Promise<void> {
+  try {
+    const log = await getPlanEventLog();
+    await log.append(requestId, event);
+  } catch (error) {
+    console.error('Failed to publish plan event:', { requestId, type: event.type, error });
+  }
+}
+
+// Collects streamed model output for one week and publishes it in batches
+export function createTokenPublisher(requestId: string, weekNumber: number) {
+  let buffer = '';
+  let lastFlush = Date.now();
+  let pending = Promise.resolve();
+
+  const flush = () => {
+    if (buffer) {
+      const text = buffer;
+      buffer = '';
+      lastFlush = Date.now();
+      pending = pending.then(() => publishPlanEvent(requestId, { type: 'week-token', weekNumber, text }));
+    }
+    return pending;
+  };
+
+  return {
+    push(text: string) {
+      buffer += text;
+      if (Date.now() - lastFlush >= TOKEN_FLUSH_MS) {
+        void flush();
+      }
+    },
+    flush,
+    // Publish another event in order after the tokens received so far
+    publish(event: PlanEvent) {
+      void flush();
+      pending = pending.then(() => publishPlanEvent(requestId, event));
+      return pending;
+    }
+  };
+}
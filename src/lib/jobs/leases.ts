@@ -0,0 +1,149 @@
+import type { Redis } from '@upstash/redis';
+import { getRedis, isRedisConfigured } from '../redis';
+
+// Short-lived leases that stop two workers (or a worker and a PUT) generating
+// the same week at once, stored responses for idempotent PUT retries, and
+// tokens that let an EventSource follow one plan without an ID token in its URL.
+
+interface LeaseBackend {
+  // Set the key only if it is absent; true when this call created it
+  setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+  // Delete the key only while it still holds `value`
+  deleteIfEquals(key: string, value: string): Promise<void>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+}
+
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+class RedisLeaseBackend implements LeaseBackend {
+  constructor(private readonly redis: Redis) {}
+
+  async setIfAbsent(key: string, value: string, ttlMs: number) {
+    return (await this.redis.set(key, value, { nx: true, px: ttlMs })) === 'OK';
+  }
+
+  async deleteIfEquals(key: string, value: string) {
+    await this.redis.eval(RELEASE_SCRIPT, [key], [value]);
+  }
+
+  async get(key: string) {
+    return this.redis.get<string>(key);
+  }
+
+  async set(key: string, value: string, ttlMs: number) {
+    await this.redis.set(key, value, { px: ttlMs });
+  }
+}
+
+class MemoryLeaseBackend implements LeaseBackend {
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+  private live(key: string) {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs: number) {
+    if (this.live(key)) return false;
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async deleteIfEquals(key: string, value: string) {
+    if (this.live(key)?.value === value) {
+      this.entries.delete(key);
+    }
+  }
+
+  async get(key: string) {
+    return this.live(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, ttlMs: number) {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+}
+
+const globalForLeases = globalThis as unknown as { memoryLeaseBackend?: MemoryLeaseBackend };
+
+function getBackend(): LeaseBackend {
+  if (isRedisConfigured()) {
+    return new RedisLeaseBackend(getRedis());
+  }
+  globalForLeases.memoryLeaseBackend ??= new MemoryLeaseBackend();
+  return globalForLeases.memoryLeaseBackend;
+}
+
+export interface Lease {
+  key: string;
+  token: string;
+}
+
+export function weekLeaseKey(requestId: string, weekNumber: number): string {
+  return `lease:${requestId}:${weekNumber}`;
+}
+
+// Null when someone else holds the lease. It expires by itself after `ttlMs`
+// so a crashed holder cannot block the week forever.
+export async function acquireLease(key: string, ttlMs: number): Promise<Lease | null> {
+  const token = crypto.randomUUID();
+  return (await getBackend().setIfAbsent(key, token, ttlMs)) ? { key, token } : null;
+}
+
+// Only the holder can release, so a lease that expired and was taken over is left alone
+export async function releaseLease(lease: Lease): Promise<void> {
+  await getBackend().deleteIfEquals(lease.key, lease.token);
+}
+
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+function idempotencyKey(scope: string, key: string): string {
+  return `idempotency:${scope}:${key}`;
+}
+
+export async function getStoredResponse(scope: string, key: string): Promise<StoredResponse | null> {
+  const stored = await getBackend().get(idempotencyKey(scope, key));
+  return stored ? (JSON.parse(stored) as StoredResponse) : null;
+}
+
+export async function storeResponse(scope: string, key: string, response: StoredResponse): Promise<void> {
+  await getBackend().set(idempotencyKey(scope, key), JSON.stringify(response), IDEMPOTENCY_TTL_MS);
+}
+
+// Each connection pushes the expiry back, so a token lasts while its stream
+// keeps reconnecting and lapses soon after the page closes
+const STREAM_TOKEN_TTL_MS = 2 * 60 * 1000;
+
+function streamTokenKey(token: string): string {
+  return `stream:${token}`;
+}
+
+export async function issueStreamToken(requestId: string): Promise<string> {
+  const token = crypto.randomUUID();
+  await getBackend().set(streamTokenKey(token), requestId, STREAM_TOKEN_TTL_MS);
+  return token;
+}
+
+// True when the token was issued for this plan and has not expired
+export async function redeemStreamToken(requestId: string, token: string): Promise<boolean> {
+  const backend = getBackend();
+  const key = streamTokenKey(token);
+  if ((await backend.get(key)) !== requestId) return false;
+  await backend.set(key, requestId, STREAM_TOKEN_TTL_MS);
+  return true;
+}
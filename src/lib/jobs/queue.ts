@@ -0,0 +1,125 @@
+import type { Redis } from '@upstash/redis';
+import { getRedis, isRedisConfigured } from '../redis';
+
+// Delayed job queue for background plan generation. Jobs live in a sorted set
+// scored by the time they become runnable; claiming a job pushes its score out
+// by a lease so a worker that dies mid-job lets another worker pick it up.
+
+export interface GenerationJob {
+  id: string;
+  requestId: string;
+  weekNumber: number;
+  attempt: number;
+  lastError: string | null;
+}
+
+export interface JobQueue {
+  enqueue(job: GenerationJob, runAt?: number): Promise<void>;
+  // Claim the next due job, hiding it from other workers until `leaseMs` has passed
+  claim(now: number, leaseMs: number): Promise<GenerationJob | null>;
+  complete(job: GenerationJob): Promise<void>;
+  // Put a job back with updated attempt information, runnable again at `runAt`
+  retry(job: GenerationJob, runAt: number): Promise<void>;
+  // When the earliest queued job becomes runnable, or null if the queue is empty
+  nextRunAt(): Promise<number | null>;
+  // True when the queue lives in this process and needs an in-process worker
+  readonly isLocal: boolean;
+}
+
+const SCHEDULE_KEY = 'jobs:schedule';
+const DATA_KEY = 'jobs:data';
+
+// Atomically pick the earliest due job and move it out of reach for the lease
+const CLAIM_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)
+if #ids == 0 then return false end
+redis.call('ZADD', KEYS[1], ARGV[2], ids[1])
+return redis.call('HGET', KEYS[2], ids[1])
+`;
+
+export function createJob(requestId: string, weekNumber: number): GenerationJob {
+  return {
+    id: `${requestId}:${weekNumber}`,
+    requestId,
+    weekNumber,
+    attempt: 0,
+    lastError: null
+  };
+}
+
+class RedisJobQueue implements JobQueue {
+  readonly isLocal = false;
+
+  constructor(private readonly redis: Redis) {}
+
+  async enqueue(job: GenerationJob, runAt = Date.now()) {
+    await this.redis.hset(DATA_KEY, { [job.id]: JSON.stringify(job) });
+    await this.redis.zadd(SCHEDULE_KEY, { score: runAt, member: job.id });
+  }
+
+  async claim(now: number, leaseMs: number) {
+    const data = await this.redis.eval<string[], string | null>(
+      CLAIM_SCRIPT,
+      [SCHEDULE_KEY, DATA_KEY],
+      [String(now), String(now + leaseMs)]
+    );
+    return data ? (JSON.parse(data) as GenerationJob) : null;
+  }
+
+  async complete(job: GenerationJob) {
+    await this.redis.zrem(SCHEDULE_KEY, job.id);
+    await this.redis.hdel(DATA_KEY, job.id);
+  }
+
+  async retry(job: GenerationJob, runAt: number) {
+    await this.enqueue(job, runAt);
+  }
+
+  async nextRunAt() {
+    const [, score] = await this.redis.zrange<string[]>(SCHEDULE_KEY, 0, 0, { withScores: true });
+    return score === undefined ? null : Number(score);
+  }
+}
+
+// Local stand-in used when Redis is not configured, e.g. during development
+class MemoryJobQueue implements JobQueue {
+  readonly isLocal = true;
+  private readonly jobs = new Map<string, { job: GenerationJob; runAt: number }>();
+
+  async enqueue(job: GenerationJob, runAt = Date.now()) {
+    this.jobs.set(job.id, { job, runAt });
+  }
+
+  async claim(now: number, leaseMs: number) {
+    const due = Array.from(this.jobs.values())
+      .filter(entry => entry.runAt <= now)
+      .sort((a, b) => a.runAt - b.runAt)[0];
+    if (!due) return null;
+    due.runAt = now + leaseMs;
+    return due.job;
+  }
+
+  async complete(job: GenerationJob) {
+    this.jobs.delete(job.id);
+  }
+
+  async retry(job: GenerationJob, runAt: number) {
+    this.jobs.set(job.id, { job, runAt });
+  }
+
+  async nextRunAt() {
+    const times = Array.from(this.jobs.values()).map(entry => entry.runAt);
+    return times.length > 0 ? Math.min(...times) : null;
+  }
+}
+
+// Keep one memory queue per process, surviving Next.js dev hot reloads
+const globalForQueue = globalThis as unknown as { memoryJobQueue?: MemoryJobQueue };
+
+export async function getJobQueue(): Promise<JobQueue> {
+  if (isRedisConfigured()) {
+    return new RedisJobQueue(getRedis());
+  }
+  globalForQueue.memoryJobQueue ??= new MemoryJobQueue();
+  return globalForQueue.memoryJobQueue;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { enqueueWeek, runWorker } from './worker';
+import { loadPlanState, savePlanState } from '@/lib/plan/state';
+import { testGeneratedWeek, testPlanState } from '@/test/fixtures';
+
+vi.mock('@/lib/plan/generator', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/plan/generator')>()),
+  generateWeek: vi.fn(async (_state: unknown, weekNumber: number) => testGeneratedWeek(weekNumber))
+}));
+vi.mock('@/lib/plan/email', () => ({ sendPlanEmail: vi.fn(async () => true) }));
+
+describe('runWorker', () => {
+  it('claims jobs with a budget shorter than the lease', async () => {
+    await savePlanState('worker-budget', testPlanState());
+    await enqueueWeek('worker-budget', 1);
+
+    const { processed } = await runWorker({ deadline: Date.now() + 60000 });
+
+    expect(processed).toBe(3);
+    expect((await loadPlanState('worker-budget'))?.status).toBe('completed');
+  });
+
+  it('claims nothing without time to generate a week', async () => {
+    await savePlanState('worker-late', testPlanState());
+    await enqueueWeek('worker-late', 1);
+
+    const { processed } = await runWorker({ deadline: Date.now() + 30000 });
+
+    expect(processed).toBe(0);
+  });
+});
@@ -0,0 +1,275 @@
+import { generateWeek, GeneratedWeek } from '../plan/generator';
+import { sendPlanEmail } from '../plan/email';
+import { loadPlanState, updatePlanState } from '../plan/state';
+import { isPlanComplete, PlanState, VersionChange } from '../plan/types';
+import { recordPlanVersion } from '../plan/versions';
+import { restorePlan } from '../plan/revisions';
+import { createJob, GenerationJob, getJobQueue, JobQueue } from './queue';
+import { createTokenPublisher, publishPlanEvent } from './events';
+import { acquireLease, Lease, releaseLease, weekLeaseKey } from './leases';
+
+// Background worker that owns week-by-week generation once POST has returned.
+// Each job generates one week and enqueues the next, so progress survives the
+// browser going away; the last job sends the completion email.
+
+export const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 5000;
+const WEEK_TIMEOUT_MS = 45000;
+// Longer than a single generation call so a healthy worker never loses its job
+const LEASE_MS = WEEK_TIMEOUT_MS + 30000;
+// How long to wait before checking again when another writer holds the week
+const LEASE_RETRY_MS = 10000;
+
+export type JobOutcome = 'completed' | 'skipped' | 'deferred' | 'retrying' | 'failed';
+
+// 5s, 10s, 20s, 40s...
+export function backoffDelay(attempt: number): number {
+  return BASE_BACKOFF_MS * 2 ** (attempt - 1);
+}
+
+export async function enqueueWeek(requestId: string, weekNumber: number, runAt?: number): Promise<void> {
+  const queue = await getJobQueue();
+  await queue.enqueue(createJob(requestId, weekNumber), runAt);
+}
+
+async function enqueueNextWeek(queue: JobQueue, requestId: string, weekNumber: number, totalWeeks: number) {
+  if (weekNumber < totalWeeks) {
+    await queue.enqueue(createJob(requestId, weekNumber + 1));
+  }
+}
+
+// Hold the week's lease while generating it, so the worker and PUT never
+// generate the same week at the same time
+export async function acquireWeekLease(requestId: string, weekNumber: number): Promise<Lease | null> {
+  return acquireLease(weekLeaseKey(requestId, weekNumber), LEASE_MS);
+}
+
+// Store a generated week unless another writer already stored one; the first
+// week written wins so duplicates never overwrite each other. Publishes the
+// progress events when this call's week is the one kept.
+export async function recordGeneratedWeek(
+  requestId: string,
+  weekNumber: number,
+  { week, markdown, validation }: GeneratedWeek
+): Promise<{ state: PlanState | null; recorded: boolean }> {
+  let recorded = false;
+  let completedChange: VersionChange | null = null;
+  const state = await updatePlanState(requestId, current => {
+    recorded = false;
+    completedChange = null;
+    if (current.weeks[weekNumber]) return false;
+    current.weeks[weekNumber] = week;
+    current.markdown[weekNumber] = markdown;
+    current.validation[weekNumber] = validation;
+    current.status = isPlanComplete(current) ? 'completed' : 'in_progress';
+    if (current.status === 'completed') {
+      // Only the writer that completes the plan records the change as a version
+      completedChange = current.pendingChange;
+      current.pendingChange = null;
+      current.restorePoint = null;
+      current.completedAt ??= new Date().toISOString();
+    }
+    recorded = true;
+  });
+
+  if (state && recorded) {
+    await publishPlanEvent(requestId, { type: 'week-completed', weekNumber, week });
+    if (state.status === 'completed') {
+      if (completedChange) {
+        await recordPlanVersion(requestId, state, completedChange);
+      }
+      await publishPlanEvent(requestId, { type: 'plan-completed' });
+    }
+  }
+  return { state, recorded };
+}
+
+// Claim the email by setting emailSentAt before sending, so only one writer
+// ever sends it; the claim is undone if sending fails
+export async function sendCompletionEmail(requestId: string): Promise<void> {
+  const claimedAt = new Date().toISOString();
+  let claimed = false;
+  const state = await updatePlanState(requestId, current => {
+    claimed = false;
+    if (current.status !== 'completed' || current.emailSentAt) return false;
+    current.emailSentAt = claimedAt;
+    claimed = true;
+  });
+
+  if (state && claimed && !(await sendPlanEmail(state))) {
+    await updatePlanState(requestId, current => {
+      if (current.emailSentAt !== claimedAt) return false;
+      current.emailSentAt = null;
+    });
+  }
+}
+
+export async function processJob(queue: JobQueue, job: GenerationJob): Promise<JobOutcome> {
+  const existing = await loadPlanState(job.requestId);
+  if (!existing || existing.status === 'error') {
+    // Plan expired or was abandoned; nothing left to do
+    await queue.complete(job);
+    return 'skipped';
+  }
+
+  if (existing.weeks[job.weekNumber]) {
+    // Already generated (e.g. through PUT); just keep the chain moving
+    await queue.complete(job);
+    await enqueueNextWeek(queue, job.requestId, job.weekNumber, existing.totalWeeks);
+    return 'skipped';
+  }
+
+  const lease = await acquireWeekLease(job.requestId, job.weekNumber);
+  if (!lease) {
+    // Someone else is generating this week; look again once they should be done
+    await queue.retry(job, Date.now() + LEASE_RETRY_MS);
+    return 'deferred';
+  }
+
+  try {
+    return await generateJobWeek(queue, job);
+  } finally {
+    await releaseLease(lease);
+  }
+}
+
+async function generateJobWeek(queue: JobQueue, job: GenerationJob): Promise<JobOutcome> {
+  const state = await updatePlanState(job.requestId, current => {
+    if (current.weeks[job.weekNumber]) return false;
+    current.status = 'in_progress';
+    current.currentWeek = job.weekNumber;
+  });
+  if (!state || state.weeks[job.weekNumber]) {
+    await queue.complete(job);
+    if (state) {
+      await enqueueNextWeek(queue, job.requestId, job.weekNumber, state.totalWeeks);
+    }
+    return 'skipped';
+  }
+
+  await publishPlanEvent(job.requestId, { type: 'week-started', weekNumber: job.weekNumber });
+  const tokens = createTokenPublisher(job.requestId, job.weekNumber);
+
+  try {
+    const generated = await generateWeek(state, job.weekNumber, {
+      signal: AbortSignal.timeout(WEEK_TIMEOUT_MS),
+      onToken: tokens.push,
+      onRepair: (attempt, violations) => {
+        void tokens.publish({ type: 'week-repairing', weekNumber: job.weekNumber, attempt, violations });
+      }
+    });
+    await tokens.flush();
+
+    const { state: updated } = await recordGeneratedWeek(job.requestId, job.weekNumber, generated);
+    await queue.complete(job);
+
+    if (updated?.status === 'completed') {
+      await sendCompletionEmail(job.requestId);
+    } else if (updated) {
+      await enqueueNextWeek(queue, job.requestId, job.weekNumber, updated.totalWeeks);
+    }
+    return 'completed';
+  } catch (error) {
+    await tokens.flush();
+    const message = error instanceof Error ? error.message : 'Failed to generate week';
+    const attempt = job.attempt + 1;
+    const willRetry = attempt < MAX_ATTEMPTS;
+    console.error('Week generation failed:', {
+      requestId: job.requestId,
+      weekNumber: job.weekNumber,
+      attempt,
+      error: message
+    });
+    await publishPlanEvent(job.requestId, {
+      type: 'week-failed',
+      weekNumber: job.weekNumber,
+      attempt,
+      error: message,
+      willRetry
+    });
+
+    if (!willRetry) {
+      const planError = `Week ${job.weekNumber} failed after ${attempt} attempts: ${message}`;
+      // A change to a finished plan is undone rather than leaving the plan without its weeks
+      let restored = false;
+      await updatePlanState(job.requestId, current => {
+        restored = restorePlan(current, planError);
+        if (!restored) {
+          current.status = 'error';
+          current.error = planError;
+        }
+      });
+      await queue.complete(job);
+      await publishPlanEvent(job.requestId, {
+        type: 'plan-failed',
+        error: restored ? `${planError}. Your plan was put back as it was before the change.` : planError
+      });
+      return 'failed';
+    }
+
+    await queue.retry({ ...job, attempt, lastError: message }, Date.now() + backoffDelay(attempt));
+    return 'retrying';
+  }
+}
+
+// Process jobs until the queue is empty or the time budget runs out. A job is
+// only claimed while there is time left to generate its week. When
+// `waitForDelayed` is set the worker also sleeps through retry backoffs.
+export async function runWorker({
+  deadline,
+  waitForDelayed = false
+}: {
+  deadline: number;
+  waitForDelayed?: boolean;
+}): Promise<{ processed: number }> {
+  const queue = await getJobQueue();
+  let processed = 0;
+
+  while (Date.now() + WEEK_TIMEOUT_MS < deadline) {
+    const job = await queue.claim(Date.now(), LEASE_MS);
+    if (job) {
+      await processJob(queue, job);
+      processed++;
+      continue;
+    }
+
+    const nextRunAt = waitForDelayed ? await queue.nextRunAt() : null;
+    if (nextRunAt === null || nextRunAt + WEEK_TIMEOUT_MS >= deadline) {
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, nextRunAt - Date.now())));
+  }
+
+  return { processed };
+}
+
+const globalForWorker = globalThis as unknown as { localWorker?: Promise<unknown> };
+
+// Kick the worker after enqueueing. The local queue is drained in this process;
+// with Redis the jobs route is called and the cron in vercel.json picks up
+// anything a dropped trigger leaves behind.
+export async function triggerWorker(origin: string): Promise<void> {
+  const queue = await getJobQueue();
+
+  if (queue.isLocal) {
+    globalForWorker.localWorker ??= runWorker({ deadline: Infinity, waitForDelayed: true })
+      .catch(error => console.error('Local worker failed:', error))
+      .finally(() => {
+        globalForWorker.localWorker = undefined;
+      });
+    return;
+  }
+
+  try {
+    await fetch(`${origin}/api/jobs/run`, {
+      method: 'POST',
+      headers: process.env.CRON_SECRET ? { Authorization: `Bearer ${process.env.CRON_SECRET}` } : {},
+      // Only wait long enough for the request to be dispatched
+      signal: AbortSignal.timeout(1000)
+    });
+  } catch (error) {
+    if (!(error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError'))) {
+      console.error('Failed to trigger worker:', error);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+// Which provider and model each AI task uses. Defaults match what the app
+// shipped with; any of them can be overridden from the environment:
+//
+//   LLM_PROVIDER                  provider for every task
+//   LLM_<TASK>_PROVIDER           provider for one task (PLAN, CHAT, TRANSCRIPTION)
+//   LLM_<TASK>_MODEL              model id for one task
+//   LLM_<TASK>_TEMPERATURE        sampling temperature
+//   LLM_<TASK>_MAX_TOKENS         output token limit
+//   LLM_BASE_URL, LLM_API_KEY     server for the openai-compatible provider
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'openai-compatible' | 'fake';
+
+export const LLM_PROVIDERS: LlmProviderName[] = ['openai', 'anthropic', 'openai-compatible', 'fake'];
+
+export type LlmTask = 'plan' | 'chat' | 'transcription';
+
+export interface ModelConfig {
+  provider: LlmProviderName;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export const DEFAULT_MODELS: Record<LlmTask, ModelConfig> = {
+  // JSON for a full week needs room; a low temperature keeps weeks consistent
+  plan: { provider: 'openai', model: 'gpt-3.5-turbo', temperature: 0.3, maxTokens: 1500 },
+  chat: { provider: 'openai', model: 'gpt-4o' },
+  transcription: { provider: 'openai', model: 'whisper-1' }
+};
+
+export class LlmConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmConfigError';
+  }
+}
+
+function isProviderName(value: unknown): value is LlmProviderName {
+  return LLM_PROVIDERS.includes(value as LlmProviderName);
+}
+
+function numberSetting(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new LlmConfigError(`${name} must be a number`);
+  }
+  return number;
+}
+
+// Resolve the model for a task. `defaults` lets a route keep its own choice
+// (e.g. the Anthropic chat route) while still honouring environment overrides.
+export function getModelConfig(task: LlmTask, defaults: ModelConfig = DEFAULT_MODELS[task]): ModelConfig {
+  const prefix = `LLM_${task.toUpperCase()}`;
+  const provider = process.env[`${prefix}_PROVIDER`] || process.env.LLM_PROVIDER || defaults.provider;
+  if (!isProviderName(provider)) {
+    throw new LlmConfigError(`Unknown LLM provider "${provider}", expected one of ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  // A model id only makes sense for the provider it was chosen for
+  const model = process.env[`${prefix}_MODEL`] || (provider === defaults.provider ? defaults.model : undefined);
+  if (!model && provider !== 'fake') {
+    throw new LlmConfigError(`${prefix}_MODEL must be set when using the ${provider} provider`);
+  }
+
+  return {
+    provider,
+    model: model || 'fake',
+    temperature: numberSetting(`${prefix}_TEMPERATURE`) ?? defaults.temperature,
+    maxTokens: numberSetting(`${prefix}_MAX_TOKENS`) ?? defaults.maxTokens
+  };
+}
@@ -0,0 +1,114 @@
+import type { LanguageModel } from 'ai';
+
+// Deterministic stand-in for a real model, used for tests and fully offline
+// runs. Week prompts get a valid week built from the dates and target volume
+// in the prompt; anything else is echoed back.
+
+type CallOptions = Parameters<LanguageModel['doGenerate']>[0];
+
+const ISO_DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b/g;
+const TARGET_VOLUME_PATTERN = /Target Weekly Volume: ([\d.]+)/;
+const CHUNK_SIZE = 16;
+
+function messageText(message: CallOptions['prompt'][number]): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('');
+}
+
+// Rounding down keeps the week at or under its target volume
+function roundDownHalf(value: number): number {
+  return Math.floor(value * 2) / 2;
+}
+
+const REST_WEEKDAYS = [1, 5]; // Monday and Friday
+
+// Rest on Mondays and Fridays, a long run on the last day and easy running in between
+function fakeWeek(prompt: string): string {
+  // The example day repeats the first date, so keep each date once
+  const dates = Array.from(new Set(prompt.match(ISO_DATE_PATTERN) ?? [])).sort();
+  const target = Number(prompt.match(TARGET_VOLUME_PATTERN)?.[1] ?? 20);
+  const raceDay = prompt.includes('(Race Day!)') ? dates[dates.length - 1] : null;
+
+  const longRun = roundDownHalf(target * 0.3);
+  const easyDates = dates.slice(0, -1).filter(date => !REST_WEEKDAYS.includes(new Date(`${date}T00:00:00Z`).getUTCDay()));
+  const easyRun = easyDates.length > 0 ? roundDownHalf((target - longRun) / easyDates.length) : 0;
+
+  const days = dates.map((date, index) => {
+    const isLast = index === dates.length - 1;
+    if (!isLast && !easyDates.includes(date)) {
+      return { date, type: 'rest', title: 'Rest Day', distance: null, pace: null, durationMinutes: null, intervals: null, description: 'Full rest', notes: null };
+    }
+    const type = isLast ? (date === raceDay ? 'race' : 'long') : 'easy';
+    return {
+      date,
+      type,
+      title: type === 'race' ? 'Race Day' : type === 'long' ? 'Long Run' : 'Easy Run',
+      distance: isLast ? longRun : easyRun,
+      pace: null,
+      durationMinutes: null,
+      intervals: null,
+      description: type === 'easy' ? 'Relaxed, conversational effort' : 'Steady effort',
+      notes: null
+    };
+  });
+
+  const totalMileage = days.reduce((sum, day) => sum + (day.distance ?? 0), 0);
+  return JSON.stringify({
+    totalMileage,
+    days,
+    tips: 'Stay consistent and keep the easy days easy.',
+    raceDayTips: raceDay ? 'Start conservatively and fuel early.' : null
+  });
+}
+
+function respond(options: CallOptions): string {
+  const text = options.prompt.map(messageText).join('\n');
+  if (text.includes('"days"')) {
+    return fakeWeek(text);
+  }
+  const lastUser = [...options.prompt].reverse().find(message => message.role === 'user');
+  return `Fake response to: ${lastUser ? messageText(lastUser) : ''}`;
+}
+
+export function createFakeLanguageModel(modelId = 'fake'): LanguageModel {
+  return {
+    specificationVersion: 'v1',
+    provider: 'fake',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+
+    async doGenerate(options) {
+      const text = respond(options);
+      return {
+        text,
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: Math.ceil(text.length / 4) },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    },
+
+    async doStream(options) {
+      const text = respond(options);
+      const stream = new ReadableStream({
+        start(controller) {
+          for (let offset = 0; offset < text.length; offset += CHUNK_SIZE) {
+            controller.enqueue({ type: 'text-delta', textDelta: text.slice(offset, offset + CHUNK_SIZE) });
+          }
+          controller.enqueue({
+            type: 'finish',
+            finishReason: 'stop',
+            usage: { promptTokens: 0, completionTokens: Math.ceil(text.length / 4) }
+          });
+          controller.close();
+        }
+      });
+      return { stream, rawCall: { rawPrompt: options.prompt, rawSettings: {} } };
+    }
+  };
+}
+
+export async function fakeTranscribe(audio: Uint8Array): Promise<string> {
+  return `Fake transcription of ${audio.byteLength} bytes of audio`;
+}
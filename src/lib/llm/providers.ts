@@ -0,0 +1,98 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import type { LanguageModel } from 'ai';
+import OpenAI, { toFile } from 'openai';
+import { getModelConfig, LlmConfigError, LlmProviderName, LlmTask, ModelConfig } from './config';
+import { createFakeLanguageModel, fakeTranscribe } from './fake';
+
+// One adapter per backend. Text generation goes through the AI SDK's
+// LanguageModel interface so routes can use generateText/streamText with any
+// of them; transcription is only offered where the backend has it.
+
+export interface TranscribeOptions {
+  filename: string;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  languageModel(modelId: string): LanguageModel;
+  transcribe?(audio: Uint8Array, modelId: string, options: TranscribeOptions): Promise<string>;
+}
+
+function requireEnv(name: string, provider: LlmProviderName): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new LlmConfigError(`${name} is required for the ${provider} provider`);
+  }
+  return value;
+}
+
+// Whisper-style endpoint, shared by OpenAI and compatible local servers
+function openAiTranscriber(client: OpenAI): NonNullable<LlmProvider['transcribe']> {
+  return async (audio, modelId, { filename, signal }) => {
+    const result = await client.audio.transcriptions.create({
+      file: await toFile(audio, filename),
+      model: modelId
+    }, { signal });
+    return result.text;
+  };
+}
+
+const PROVIDERS: Record<LlmProviderName, () => LlmProvider> = {
+  openai: () => {
+    const apiKey = requireEnv('OPENAI_API_KEY', 'openai');
+    const openai = createOpenAI({ apiKey, compatibility: 'strict' });
+    return {
+      languageModel: modelId => openai(modelId),
+      transcribe: openAiTranscriber(new OpenAI({ apiKey }))
+    };
+  },
+  anthropic: () => {
+    const anthropic = createAnthropic({ apiKey: requireEnv('ANTHROPIC_API_KEY', 'anthropic') });
+    return {
+      languageModel: modelId => anthropic(modelId)
+    };
+  },
+  // Ollama, LM Studio, vLLM, LocalAI and other servers that speak the OpenAI API
+  'openai-compatible': () => {
+    const baseURL = requireEnv('LLM_BASE_URL', 'openai-compatible');
+    // Most local servers ignore the key but the client insists on one
+    const apiKey = process.env.LLM_API_KEY || 'local';
+    const compatible = createOpenAI({ baseURL, apiKey, compatibility: 'compatible' });
+    return {
+      languageModel: modelId => compatible(modelId),
+      transcribe: openAiTranscriber(new OpenAI({ baseURL, apiKey }))
+    };
+  },
+  fake: () => ({
+    languageModel: createFakeLanguageModel,
+    transcribe: fakeTranscribe
+  })
+};
+
+export function getProvider(name: LlmProviderName): LlmProvider {
+  return PROVIDERS[name]();
+}
+
+export interface ResolvedModel {
+  model: LanguageModel;
+  config: ModelConfig;
+}
+
+// The configured model for a task, ready to pass to generateText/streamText
+export function getLanguageModel(task: Exclude<LlmTask, 'transcription'>, defaults?: ModelConfig): ResolvedModel {
+  const config = getModelConfig(task, defaults);
+  return { model: getProvider(config.provider).languageModel(config.model), config };
+}
+
+export async function transcribeAudio(
+  audio: Uint8Array,
+  { filename = 'input.wav', signal }: Partial<TranscribeOptions> = {}
+): Promise<string> {
+  const config = getModelConfig('transcription');
+  const provider = getProvider(config.provider);
+  if (!provider.transcribe) {
+    throw new LlmConfigError(`The ${config.provider} provider does not support transcription`);
+  }
+  return provider.transcribe(audio, config.model, { filename, signal });
+}
@@ -0,0 +1,160 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Weekday, WEEKDAY_LABELS, WEEKDAYS, weekdayOf } from './profile';
+
+// Dates in the runner's calendar that training has to work around: days they
+// cannot run at all, travel with less time than usual, and weekly commitments.
+// Unlike the profile's standing availability, these are specific to one plan.
+
+export type DayPeriod = 'morning' | 'midday' | 'evening' | 'all_day';
+
+export const DAY_PERIODS: DayPeriod[] = ['morning', 'midday', 'evening', 'all_day'];
+
+export const DAY_PERIOD_LABELS: Record<DayPeriod, string> = {
+  morning: 'Morning',
+  midday: 'Midday',
+  evening: 'Evening',
+  all_day: 'All day'
+};
+
+export interface Blackout {
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd, inclusive
+  reason: string;
+}
+
+export interface TravelPeriod {
+  startDate: string;
+  endDate: string;
+  // Most minutes available for a workout on each day away; null when only the location changes
+  maxMinutes: number | null;
+  note: string;
+}
+
+// e.g. "no runs Wednesday evenings"; only an all-day commitment rules the day out
+export interface Commitment {
+  weekday: Weekday;
+  period: DayPeriod;
+  description: string;
+}
+
+export interface PlanConstraints {
+  blackouts: Blackout[];
+  travel: TravelPeriod[];
+  commitments: Commitment[];
+}
+
+// What the constraints mean for one date
+export interface DayConstraint {
+  // Why the runner cannot run at all, or null when they can
+  blocked: string | null;
+  maxMinutes: number | null;
+  notes: string[];
+}
+
+export const EMPTY_PLAN_CONSTRAINTS: PlanConstraints = { blackouts: [], travel: [], commitments: [] };
+
+export const MAX_CONSTRAINTS = 20;
+const MAX_RANGE_DAYS = 366;
+const MAX_TEXT_LENGTH = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function rangeIssue(range: { startDate: unknown; endDate: unknown }, label: string): string | null {
+  if (typeof range.startDate !== 'string' || !DATE_PATTERN.test(range.startDate) ||
+    typeof range.endDate !== 'string' || !DATE_PATTERN.test(range.endDate)) {
+    return `${label} dates must be in YYYY-MM-DD format`;
+  }
+  const days = differenceInCalendarDays(parseISO(range.endDate), parseISO(range.startDate));
+  if (days < 0) return `${label} must not end before it starts`;
+  if (days >= MAX_RANGE_DAYS) return `${label} must be shorter than a year`;
+  return null;
+}
+
+function textIssue(value: unknown, label: string): string | null {
+  return typeof value === 'string' && value.length <= MAX_TEXT_LENGTH
+    ? null
+    : `${label} must be ${MAX_TEXT_LENGTH} characters or fewer`;
+}
+
+// Problems with the constraints before they are saved; empty when they are valid
+export function validatePlanConstraints(constraints: PlanConstraints): string[] {
+  const issues: string[] = [];
+  const lists = [constraints.blackouts, constraints.travel, constraints.commitments];
+  if (!lists.every(Array.isArray)) {
+    return ['Blackouts, travel and commitments must be lists'];
+  }
+  if (lists.some(list => list.length > MAX_CONSTRAINTS)) {
+    issues.push(`Add at most ${MAX_CONSTRAINTS} of each kind of constraint`);
+  }
+
+  constraints.blackouts.forEach((blackout, index) => {
+    const label = `Unavailable dates ${index + 1}`;
+    issues.push(...[rangeIssue(blackout ?? {}, label), textIssue(blackout?.reason, `${label} reason`)].filter((issue): issue is string => !!issue));
+  });
+  constraints.travel.forEach((travel, index) => {
+    const label = `Travel ${index + 1}`;
+    issues.push(...[rangeIssue(travel ?? {}, label), textIssue(travel?.note, `${label} note`)].filter((issue): issue is string => !!issue));
+    const minutes = travel?.maxMinutes;
+    if (minutes !== null && !(typeof minutes === 'number' && minutes >= 10 && minutes <= 600)) {
+      issues.push(`${label} time available must be between 10 and 600 minutes`);
+    }
+  });
+  constraints.commitments.forEach((commitment, index) => {
+    const label = `Commitment ${index + 1}`;
+    if (!WEEKDAYS.includes(commitment?.weekday)) issues.push(`${label} needs a day of the week`);
+    if (!DAY_PERIODS.includes(commitment?.period)) issues.push(`${label} needs a time of day`);
+    const issue = textIssue(commitment?.description, `${label} description`);
+    if (issue) issues.push(issue);
+  });
+  return issues;
+}
+
+function inRange(date: string, { startDate, endDate }: { startDate: string; endDate: string }): boolean {
+  return date >= startDate && date <= endDate;
+}
+
+export function constraintsForDate(constraints: PlanConstraints, date: string): DayConstraint {
+  const weekday = weekdayOf(date);
+  const blackout = constraints.blackouts.find(candidate => inRange(date, candidate));
+  const allDay = constraints.commitments.find(commitment => commitment.weekday === weekday && commitment.period === 'all_day');
+  const travel = constraints.travel.filter(candidate => inRange(date, candidate));
+  const limits = travel.map(candidate => candidate.maxMinutes).filter((minutes): minutes is number => minutes !== null);
+
+  const notes = [
+    ...travel.map(candidate => `travelling${candidate.note ? ` (${candidate.note})` : ''}`),
+    ...constraints.commitments
+      .filter(commitment => commitment.weekday === weekday && commitment.period !== 'all_day')
+      .map(commitment => `no running in the ${commitment.period === 'midday' ? 'middle of the day' : commitment.period}${commitment.description ? ` (${commitment.description})` : ''}`)
+  ];
+
+  return {
+    blocked: blackout ? blackout.reason || 'unavailable' : allDay ? allDay.description || 'unavailable' : null,
+    maxMinutes: limits.length > 0 ? Math.min(...limits) : null,
+    notes
+  };
+}
+
+// How a date is annotated in the week prompt, or null when nothing applies
+export function describeDateConstraint(constraints: PlanConstraints, date: string): string | null {
+  const { blocked, maxMinutes, notes } = constraintsForDate(constraints, date);
+  if (blocked) return `UNAVAILABLE (${blocked}) - rest day`;
+  const parts = [...notes, maxMinutes !== null ? `at most ${maxMinutes} minutes` : null].filter(Boolean);
+  return parts.length > 0 ? parts.join('; ') : null;
+}
+
+// Whether any of the dates from start to end (inclusive) is affected
+export function hasConstraintsBetween(constraints: PlanConstraints, startDate: string, endDate: string): boolean {
+  const days = differenceInCalendarDays(parseISO(endDate), parseISO(startDate));
+  for (let offset = 0; offset <= days; offset++) {
+    if (describeDateConstraint(constraints, format(addDays(parseISO(startDate), offset), 'yyyy-MM-dd'))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function describeCommitment(commitment: Commitment): string {
+  const when = commitment.period === 'all_day'
+    ? `${WEEKDAY_LABELS[commitment.weekday]}s`
+    : `${WEEKDAY_LABELS[commitment.weekday]} ${DAY_PERIOD_LABELS[commitment.period].toLowerCase()}s`;
+  return `No runs ${when}${commitment.description ? ` (${commitment.description})` : ''}`;
+}
@@ -0,0 +1,93 @@
+import { METERS_PER_MILE } from './paces';
+
+// Supported race distances and the training profile each one implies
+
+export type RaceDistanceId = '5k' | '10k' | 'half' | 'marathon' | '50k' | 'custom';
+
+export interface RaceDistance {
+  id: RaceDistanceId;
+  label: string;
+  meters: number;
+}
+
+export interface DistanceProfile {
+  // Fraction of peak volume for each taper week when the plan is long enough for a full
+  // taper; the last entry is race week's running on top of the race itself
+  taperCurve: number[];
+  // Longest long run in miles, outside of race week
+  longRunCap: number;
+  // Peak weekly mileage for a VDOT of 30 and of 70; other runners are interpolated
+  peakMileage: [number, number];
+  // Share of the pre-taper weeks spent in the base and peak blocks
+  baseShare: number;
+  peakShare: number;
+}
+
+export const STANDARD_DISTANCES: RaceDistance[] = [
+  { id: '5k', label: '5K', meters: 5000 },
+  { id: '10k', label: '10K', meters: 10000 },
+  { id: 'half', label: 'Half Marathon', meters: 21097.5 },
+  { id: 'marathon', label: 'Marathon', meters: 42195 },
+  { id: '50k', label: '50K Ultra', meters: 50000 }
+];
+
+const PROFILES: Record<Exclude<RaceDistanceId, 'custom'>, DistanceProfile> = {
+  '5k': { taperCurve: [0.5], longRunCap: 8, peakMileage: [18, 40], baseShare: 0.25, peakShare: 0.35 },
+  '10k': { taperCurve: [0.45], longRunCap: 10, peakMileage: [20, 45], baseShare: 0.25, peakShare: 0.35 },
+  half: { taperCurve: [0.7, 0.3], longRunCap: 13, peakMileage: [25, 55], baseShare: 0.25, peakShare: 0.3 },
+  marathon: { taperCurve: [0.75, 0.6, 0.2], longRunCap: 20, peakMileage: [30, 70], baseShare: 0.25, peakShare: 0.3 },
+  '50k': { taperCurve: [0.75, 0.55, 0.2], longRunCap: 24, peakMileage: [40, 75], baseShare: 0.3, peakShare: 0.3 }
+};
+
+export const MAX_CUSTOM_METERS = 161000;
+
+export class RaceDistanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RaceDistanceError';
+  }
+}
+
+export function getStandardDistance(id: Exclude<RaceDistanceId, 'custom'>): RaceDistance {
+  return STANDARD_DISTANCES.find(distance => distance.id === id) as RaceDistance;
+}
+
+export const MARATHON = getStandardDistance('marathon');
+
+// Turn the form's selection into a RaceDistance, validating custom distances
+export function resolveRaceDistance(id: unknown, customMeters?: unknown): RaceDistance {
+  if (id === 'custom') {
+    const meters = Number(customMeters);
+    if (!Number.isFinite(meters) || meters <= 0) {
+      throw new RaceDistanceError('A custom race distance must be a positive number');
+    }
+    if (meters > MAX_CUSTOM_METERS) {
+      throw new RaceDistanceError('Custom race distances are limited to 100 miles');
+    }
+    return { id: 'custom', label: `${Math.round(meters / METERS_PER_MILE * 10) / 10} Mile Race`, meters };
+  }
+
+  const distance = STANDARD_DISTANCES.find(candidate => candidate.id === (id ?? 'marathon'));
+  if (!distance) {
+    throw new RaceDistanceError(`Unknown race distance: ${String(id)}`);
+  }
+  return distance;
+}
+
+// Custom distances borrow the profile of the closest standard distance
+export function getDistanceProfile(distance: RaceDistance): DistanceProfile {
+  if (distance.id !== 'custom') {
+    return PROFILES[distance.id];
+  }
+
+  const closest = STANDARD_DISTANCES.reduce((best, candidate) =>
+    Math.abs(Math.log(candidate.meters / distance.meters)) < Math.abs(Math.log(best.meters / distance.meters))
+      ? candidate
+      : best
+  );
+  return PROFILES[closest.id as Exclude<RaceDistanceId, 'custom'>];
+}
+
+export function distanceInMiles(distance: RaceDistance): number {
+  return Math.round(distance.meters / METERS_PER_MILE * 10) / 10;
+}
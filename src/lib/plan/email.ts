@@ -0,0 +1,106 @@
+import { format } from 'date-fns';
+import { Resend } from 'resend';
+import { PlanState, toPlan } from './types';
+import { renderPlanHtml } from './render';
+import { renderPlanPdfBytes } from './pdf';
+
+// Resend takes attachments as base64 strings as well as Node Buffers.
+// Converted in chunks so large PDFs don't overflow the argument list.
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+// Completion email for a finished plan. Failures are logged rather than thrown
+// so a missing or misconfigured Resend key never fails plan generation.
+export async function sendPlanEmail(state: PlanState): Promise<boolean> {
+  const plan = toPlan(state);
+  const fullPlan = renderPlanHtml(plan);
+
+  console.log('Email sending process started...', {
+    recipientEmail: state.email,
+    planLength: fullPlan.length,
+    raceDate: format(new Date(state.raceDate), 'MMMM d, yyyy'),
+    resendApiKeySet: !!process.env.RESEND_API_KEY
+  });
+
+  try {
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY is not configured');
+    }
+
+    // Send email directly using Resend
+    const resend = new Resend(process.env.RESEND_API_KEY);
+    console.log('Initializing email send to:', state.email);
+
+    // Check if we're in test mode (free tier)
+    const isTestMode = !process.env.RESEND_DOMAIN;
+    const allowedTestEmail = 'blake.fenwick1@gmail.com';
+
+    if (isTestMode && state.email !== allowedTestEmail) {
+      console.log('Test mode: Forwarding plan to verified email...', {
+        originalRecipient: state.email,
+        forwardingTo: allowedTestEmail
+      });
+    }
+
+    // The PDF is a convenience; the plan is in the email body either way
+    let attachments: { filename: string; content: string }[] = [];
+    try {
+      attachments = [{ filename: 'training-plan.pdf', content: toBase64(new Uint8Array(renderPlanPdfBytes(plan))) }];
+    } catch (pdfError) {
+      console.error('Error rendering plan PDF, sending without attachment:', pdfError);
+    }
+
+    const emailData = {
+      from: 'Training Plan <onboarding@resend.dev>',
+      to: isTestMode ? allowedTestEmail : state.email,
+      subject: `Your ${state.raceDistance.label} Training Plan is Ready! 🏃‍♂️`,
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #2563eb;">Your ${state.raceDistance.label} Training Plan</h1>
+          ${isTestMode && state.email !== allowedTestEmail ? 
+            `<p><strong>Note:</strong> This plan was requested by ${state.email}.</p>` : ''}
+          <p>Here's your personalized training plan for your ${state.raceDistance.label} on ${format(new Date(state.raceDate), 'MMMM d, yyyy')}.</p>
+          <div style="background: #f3f4f6; padding: 20px; border-radius: 8px;">
+            ${fullPlan}
+          </div>
+          <p style="margin-top: 20px; color: #4b5563;">
+            Good luck with your training! Remember to listen to your body and adjust the plan as needed.
+          </p>
+        </div>
+      `,
+      attachments
+    };
+
+    console.log('Sending email with data:', {
+      to: emailData.to,
+      from: emailData.from,
+      subject: emailData.subject,
+      isTestMode,
+      originalRecipient: state.email,
+      attachments: attachments.map(attachment => attachment.filename)
+    });
+
+    const data = await resend.emails.send(emailData);
+
+    console.log('Email sent successfully:', {
+      data,
+      recipientEmail: emailData.to,
+      originalRecipient: state.email,
+      isTestMode
+    });
+    return true;
+  } catch (emailError) {
+    console.error('Error in email sending process:', {
+      error: emailError instanceof Error ? emailError.message : 'Unknown error',
+      stack: emailError instanceof Error ? emailError.stack : undefined,
+      recipientEmail: state.email,
+      errorType: emailError instanceof Error ? emailError.constructor.name : typeof emailError
+    });
+    return false;
+  }
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateWeek, MAX_REPAIR_ATTEMPTS } from './generator';
+import { buildPlanSkeleton } from './periodization';
+import { calculatePaceZones } from './paces';
+import { getStandardDistance } from './distances';
+import { PlanState } from './types';
+import { testPlanState } from '@/test/fixtures';
+
+// Each model call's output can be rewritten before it reaches the generator,
+// so the fake provider can be made to answer badly on chosen attempts
+const script = vi.hoisted(() => ({ edits: [] as ((raw: string) => string)[] }));
+
+vi.mock('@/lib/llm/providers', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/llm/providers')>();
+  const { createFakeLanguageModel } = await import('@/lib/llm/fake');
+  return {
+    ...actual,
+    getLanguageModel: (...args: Parameters<typeof actual.getLanguageModel>) => {
+      const resolved = actual.getLanguageModel(...args);
+      const fake = createFakeLanguageModel();
+      let call = 0;
+      return {
+        ...resolved,
+        model: {
+          ...fake,
+          async doStream(options: Parameters<typeof fake.doStream>[0]) {
+            const { text = '' } = await fake.doGenerate(options);
+            const edit = script.edits[call++] ?? ((raw: string) => raw);
+            const stream = new ReadableStream({
+              start(controller) {
+                controller.enqueue({ type: 'text-delta', textDelta: edit(text) });
+                controller.enqueue({ type: 'finish', finishReason: 'stop', usage: { promptTokens: 0, completionTokens: 0 } });
+                controller.close();
+              }
+            });
+            return { stream, rawCall: { rawPrompt: options.prompt, rawSettings: {} } };
+          }
+        }
+      };
+    }
+  };
+});
+
+function planState(overrides: Partial<PlanState> = {}): PlanState {
+  const raceDistance = getStandardDistance('marathon');
+  return testPlanState({
+    raceDistance,
+    skeleton: buildPlanSkeleton({ currentMileage: 25, totalWeeks: 3, goalTimeSeconds: 3.75 * 3600, raceDistance }),
+    paceZones: calculatePaceZones(3.75 * 3600, raceDistance),
+    ...overrides
+  });
+}
+
+// Tuesday of week 1, which the fake provider always fills with an easy run
+const BLACKOUT = { blackouts: [{ startDate: '2026-11-03', endDate: '2026-11-03', reason: 'Work trip' }], travel: [], commitments: [] };
+
+const overstateTotal = (raw: string) => {
+  const week = JSON.parse(raw);
+  return JSON.stringify({ ...week, totalMileage: week.totalMileage + 5 });
+};
+
+describe('generateWeek', () => {
+  beforeEach(() => {
+    vi.stubEnv('LLM_PROVIDER', 'fake');
+    script.edits = [];
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps a week that passes every check on the first attempt', async () => {
+    const onRepair = vi.fn();
+
+    const { week, validation } = await generateWeek(planState(), 1, { onRepair });
+
+    expect(validation).toMatchObject({ passed: true, attempts: 1 });
+    expect(week.days.map(day => day.date)).toEqual([
+      '2026-11-02', '2026-11-03', '2026-11-04', '2026-11-05', '2026-11-06', '2026-11-07', '2026-11-08'
+    ]);
+    expect(onRepair).not.toHaveBeenCalled();
+  });
+
+  it('sends the violations back and re-prompts until the attempts run out', async () => {
+    const onRepair = vi.fn();
+
+    const { validation } = await generateWeek(planState({ constraints: BLACKOUT }), 1, { onRepair });
+
+    expect(validation).toMatchObject({ passed: false, attempts: MAX_REPAIR_ATTEMPTS + 1 });
+    expect(onRepair).toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS);
+    expect(onRepair).toHaveBeenCalledWith(1, [expect.stringContaining('2026-11-03 is unavailable (Work trip)')]);
+  });
+
+  it('stops re-prompting once a repaired week passes', async () => {
+    script.edits = [overstateTotal];
+    const onRepair = vi.fn();
+
+    const { validation } = await generateWeek(planState(), 1, { onRepair });
+
+    expect(validation).toMatchObject({ passed: true, attempts: 2 });
+    expect(onRepair).toHaveBeenCalledWith(1, expect.arrayContaining([expect.stringContaining('but totalMileage is')]));
+  });
+
+  it('keeps the attempt with the fewest failed checks', async () => {
+    script.edits = [overstateTotal, raw => raw, () => 'not json'];
+
+    const { week, validation } = await generateWeek(planState({ constraints: BLACKOUT }), 1);
+
+    const failed = validation.checks.filter(check => !check.passed).map(check => check.name);
+    expect(failed).toEqual(['constraints']);
+    expect(validation.attempts).toBe(MAX_REPAIR_ATTEMPTS + 1);
+    expect(week.totalMileage).toBe(week.days.reduce((total, day) => total + (day.workout.distance ?? 0), 0));
+  });
+});
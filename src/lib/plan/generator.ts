@@ -0,0 +1,351 @@
+import { CoreMessage, streamText } from 'ai';
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { PlanState, Week } from './types';
+import { parseGeneratedWeek, WEEK_JSON_FORMAT, WeekValidationError } from './schema';
+import { formatPaceRange, formatWeeklyVolume, renderWeekMarkdown, summarizeWorkout } from './render';
+import { formatDistance, UNIT_NAMES } from './units';
+import { PHASE_DESCRIPTIONS } from './periodization';
+import { getPaceZone, METERS_PER_MILE } from './paces';
+import { distanceInMiles } from './distances';
+import { describeRunnerProfile } from './profile';
+import { describeDateConstraint } from './constraints';
+import {
+  describeSeasonRace,
+  raceGoalSeconds,
+  RacePriority,
+  ScheduledRace,
+  SeasonRace,
+  validateRaceSchedule,
+  validateSeasonRaces
+} from './season';
+import { formatDuration } from './time';
+import { findCompromises, getRunnerLevel, listViolations, MIN_REST_DAYS, RunnerLevel, validateWeek, WeekCheckContext, WeekValidation } from './validation';
+import { getLanguageModel } from '../llm/providers';
+
+// Builds the prompt for one week from the plan skeleton and turns the model's
+// answer into a structured week. Shared by the PUT handler and the job worker.
+
+// Follow-up prompts allowed when a week fails parsing or validation
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+const LEVEL_GUIDANCE: Record<RunnerLevel, string> = {
+  beginner: 'Beginner - Focus on building base safely, mandatory 2 rest days, limit increases to 10% per week',
+  intermediate: 'Intermediate - Balance mileage with quality workouts, 1-2 rest days',
+  advanced: 'Advanced - Higher mileage and challenging workouts, recovery as needed'
+};
+
+export interface WeekDates {
+  startDate: Date;
+  endDate: Date;
+  raceDate: Date;
+}
+
+// Training starts on the Monday after the plan is created
+function getFirstMonday(createdAt: Date): Date {
+  const daysUntilNextMonday = (8 - createdAt.getDay()) % 7 || 7; // If created on a Monday, go to next Monday
+  return startOfDay(addDays(createdAt, daysUntilNextMonday));
+}
+
+// Number of Monday-to-Sunday weeks from the first Monday up to and including race week
+export function calculateTotalWeeks(createdAt: Date, raceDate: string): number {
+  const days = differenceInCalendarDays(parseISO(raceDate), getFirstMonday(createdAt));
+  return days < 0 ? 0 : Math.floor(days / 7) + 1;
+}
+
+// All weeks start on Monday, but the final week ends on race day. Dates are
+// anchored to when the plan was created, not when the week happens to be
+// generated, so retries and background jobs produce the same calendar.
+export function getWeekDates(state: Pick<PlanState, 'raceDate' | 'startTime' | 'totalWeeks'>, weekNumber: number): WeekDates {
+  const raceDate = parseISO(state.raceDate);
+  const firstMonday = getFirstMonday(new Date(state.startTime));
+
+  const startDate = addDays(firstMonday, (weekNumber - 1) * 7);
+  const endDate = weekNumber === state.totalWeeks ? raceDate : addDays(startDate, 6);
+
+  if (startDate > raceDate) {
+    throw new Error('Week starts after race date');
+  }
+
+  return { startDate, endDate, raceDate };
+}
+
+// The week a date falls in, counting from the first Monday; 0 before training starts
+export function getWeekNumber(state: Pick<PlanState, 'startTime'>, date: string): number {
+  const days = differenceInCalendarDays(parseISO(date), getFirstMonday(new Date(state.startTime)));
+  return days < 0 ? 0 : Math.floor(days / 7) + 1;
+}
+
+// Check races before the final one and place them in the plan's weeks, in
+// date order; races is empty whenever there are issues
+export function scheduleSeasonRaces(
+  state: Pick<PlanState, 'raceDate' | 'startTime' | 'totalWeeks'>,
+  races: SeasonRace[]
+): { races: ScheduledRace[]; issues: string[] } {
+  const firstDate = format(getWeekDates(state, 1).startDate, 'yyyy-MM-dd');
+  const issues = validateSeasonRaces(races, firstDate, state.raceDate);
+  if (issues.length > 0) return { races: [], issues };
+
+  const scheduled = [...races]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(({ date, distance, name, priority, goalTime }) => ({
+      date,
+      distance,
+      name,
+      priority,
+      goalTime,
+      weekNumber: getWeekNumber(state, date)
+    }));
+  const scheduleIssues = validateRaceSchedule(scheduled, state.totalWeeks);
+  return scheduleIssues.length > 0 ? { races: [], issues: scheduleIssues } : { races: scheduled, issues: [] };
+}
+
+// Asks for a rewrite of an existing week, shown alongside the version being replaced
+function buildFeedbackSection(state: PlanState, weekNumber: number, feedback: string): string {
+  const volume = (miles: number) => formatWeeklyVolume(miles, state.units);
+  const neighbours = [state.weeks[weekNumber - 1], state.weeks[weekNumber + 1]]
+    .filter((week): week is Week => !!week)
+    .map(week => `Week ${week.weekNumber} is ${volume(week.totalMileage)}`);
+  const continuity = neighbours.length > 0 ? ` so it still fits with the surrounding weeks (${neighbours.join('; ')})` : '';
+  const replaced = (state.weeks[weekNumber]?.days ?? []).map(day => {
+    const summary = summarizeWorkout(day.workout, state.units);
+    return `- ${format(parseISO(day.date), 'EEEE')}: ${day.workout.title}${summary ? ` (${summary})` : ''}`;
+  });
+
+  return `
+
+Runner Feedback:
+This week is being rewritten because the runner said: "${feedback}"
+Change the workouts to address the feedback while keeping the weekly total at ${volume(state.skeleton[weekNumber - 1].targetMileage)}${continuity}.${replaced.length > 0 ? `
+The version being replaced was:
+${replaced.join('\n')}` : ''}`;
+}
+
+// Explains a re-plan from the workout log to the model rewriting the week
+function buildAdjustmentSection(state: PlanState, weekNumber: number): string {
+  const latest = state.adaptations[state.adaptations.length - 1];
+  const adjustment = latest?.adjustments.find(candidate => candidate.weekNumber === weekNumber);
+  if (!adjustment) return '';
+
+  return `
+
+Plan Adjustment:
+This week was re-planned from the runner's workout log after ${adjustment.reason}. Keep the workouts achievable for where the runner is now and stick to the target volume and pace zones above.`;
+}
+
+const RACE_GUIDANCE: Record<RacePriority, string> = {
+  A: 'This is a goal race: keep the days before it short and easy, and make the rest of the week rest or easy recovery running',
+  B: 'Mini-taper: make the two days before the race easy or rest, and the day after rest or an easy recovery run',
+  C: 'Train through it: the race replaces this week\'s hard workout, with an easy day before and after'
+};
+
+// How to fit a race before the final one into its week
+function buildRaceSection(state: PlanState, race: ScheduledRace): string {
+  const seconds = raceGoalSeconds(race, state.paceZones.vdot);
+  const pacePerMile = Math.round(seconds / (race.distance.meters / METERS_PER_MILE));
+
+  return `
+
+Race This Week:
+- ${describeSeasonRace(race)} on ${race.date}, a ${race.priority} race: use type "race" for that day with a distance of ${formatDistance(race.distance.meters / METERS_PER_MILE, state.units, 2)} and a goal of ${formatDuration(seconds)} (${formatPaceRange({ fast: pacePerMile, slow: pacePerMile }, state.units)})
+- ${RACE_GUIDANCE[race.priority]}
+- The result is a fitness check for the rest of the plan, so the runner should race it rather than run it as a workout`;
+}
+
+export function buildWeekPrompt(
+  state: PlanState,
+  weekNumber: number,
+  { startDate, endDate, raceDate }: WeekDates,
+  feedback?: string
+): string {
+  const week = state.skeleton[weekNumber - 1];
+  if (!week) {
+    throw new Error(`Week ${weekNumber} is not part of the plan skeleton`);
+  }
+  const previousWeek = state.skeleton[weekNumber - 2];
+  const nextWeek = state.skeleton[weekNumber];
+  const raceLabel = state.raceDistance.label;
+  const raceZone = state.paceZones.zones.find(zone => zone.name === 'race') ?? getPaceZone(state.paceZones, 'marathon');
+  // The model plans in the runner's unit; parseGeneratedWeek converts back to miles
+  const unit = state.units;
+  const volume = (miles: number) => formatWeeklyVolume(miles, unit);
+  const pace = (zoneName: Parameters<typeof getPaceZone>[1]) => formatPaceRange(getPaceZone(state.paceZones, zoneName).perMile, unit);
+  const level = getRunnerLevel(Number(state.currentMileage), state.profile);
+  const profileLines = state.profile ? describeRunnerProfile(state.profile, unit) : [];
+  const dates = Array.from({ length: differenceInCalendarDays(endDate, startDate) + 1 }).map((_, index) => addDays(startDate, index));
+  const constraintFor = (date: Date) => describeDateConstraint(state.constraints, format(date, 'yyyy-MM-dd'));
+  // Race days are fixed, so constraints do not apply to them
+  const isRaceDay = (date: Date) => date.getTime() === raceDate.getTime() || format(date, 'yyyy-MM-dd') === week.race?.date;
+  const isConstrained = dates.some(date => !isRaceDay(date) && constraintFor(date));
+
+  return `You are a ${raceLabel} training plan generator. Your task is to create a complete and detailed weekly training plan for Week ${weekNumber} of ${state.totalWeeks} total weeks.
+
+Inputs:
+1. Race: ${raceLabel} (${volume(state.raceDistance.meters / METERS_PER_MILE)}) on ${format(raceDate, 'MMMM d, yyyy')}
+2. Goal Time: ${state.goalTime.hours}h${state.goalTime.minutes}m${state.goalTime.seconds}s
+3. Current Weekly Volume: ${volume(Number(state.currentMileage))}
+4. Training Phase: ${PHASE_DESCRIPTIONS[week.phase]}${week.isCutback ? ' (Cutback week - reduced volume for recovery)' : ''}
+5. Target Weekly Volume: ${volume(week.targetMileage)}${week.isRaceWeek || week.race ? ' (including the race)' : ''}
+6. Long Run: ${week.isRaceWeek || (week.race && week.longRun === distanceInMiles(week.race.distance)) ? `The race itself (${volume(week.longRun)})` : volume(week.longRun)}
+7. Surrounding Weeks: ${previousWeek ? `Week ${previousWeek.weekNumber} was ${volume(previousWeek.targetMileage)}` : 'This is the first week'}; ${nextWeek ? `Week ${nextWeek.weekNumber} will be ${volume(nextWeek.targetMileage)}` : 'race day ends this week'}
+
+Pace Zones (per ${UNIT_NAMES[unit].singular}, VDOT ${state.paceZones.vdot}) - use these exact ranges for every "pace" field:
+${state.paceZones.zones.map(zone => `- ${zone.label}: ${formatPaceRange(zone.perMile, unit)} (${zone.description})`).join('\n')}
+
+Weekly Structure Guidelines:
+- Long Run: ${pace('long')}
+- Tempo Runs: ${pace('threshold')}, with race pace segments at ${formatPaceRange(raceZone.perMile, unit)}
+- Easy and Recovery Runs: ${pace('easy')}, focus on form
+- Rest/Cross-Training: ${Math.max(1, MIN_REST_DAYS[level])}-${MIN_REST_DAYS[level] + 1} days per week
+
+Current Runner Level: ${LEVEL_GUIDANCE[level]}${profileLines.length > 0 ? `
+
+Runner Profile - plan every workout around these:
+${profileLines.map(line => `- ${line}`).join('\n')}` : ''}
+
+Additional Instructions:
+1. Generate a detailed plan for Week ${weekNumber}${weekNumber === 1 ? ' (Partial week starting tomorrow)' : ''}, using these exact dates:
+   ${dates.map(date => {
+     const constraint = isRaceDay(date) ? null : constraintFor(date);
+     const race = date.getTime() === raceDate.getTime() ? ' (Race Day!)' : week.race && format(date, 'yyyy-MM-dd') === week.race.date ? ` (${week.race.priority} Race: ${describeSeasonRace(week.race)})` : '';
+     return `\n   - ${format(date, 'EEEE')}: ${format(date, 'MMMM d')} (${format(date, 'yyyy-MM-dd')})${race}${constraint ? ` - ${constraint}` : ''}`;
+   }).join('')}
+
+2. The daily distances must add up to exactly ${volume(week.targetMileage)}, and totalMileage must equal that sum
+3. Include safety checks:
+   - Beginners: Max 10% weekly volume increase, 2+ rest days
+   - All levels: Progressive loading, recovery after hard efforts
+4. Return exactly one entry in "days" for every date listed above, using the YYYY-MM-DD form of the date
+5. Use "tips" for a motivational message with specific tips for this phase of training${weekNumber === state.totalWeeks ? '\n6. Use "raceDayTips" for race day instructions and final preparation tips' : ''}${isConstrained ? `
+
+Calendar Constraints:
+- Dates marked UNAVAILABLE must be rest days; move their workouts to other days this week
+- Keep every workout on a travel or limited day within the time available
+- Keep the long run and the weekly total by rearranging the other days; if that is impossible, shorten easy runs first and explain the compromise in "tips"` : ''}${week.race ? buildRaceSection(state, week.race) : ''}${buildAdjustmentSection(state, weekNumber)}${feedback ? buildFeedbackSection(state, weekNumber, feedback) : ''}
+
+Respond with a single JSON object and nothing else, in this format:
+${WEEK_JSON_FORMAT}
+
+Paces are per ${UNIT_NAMES[unit].singular} (m:ss per ${unit}). Distances, including totalMileage, are in ${UNIT_NAMES[unit].plural}. Use null for fields that do not apply (for example distance and pace on a rest day).
+
+Example day:
+{ "date": "${format(startDate, 'yyyy-MM-dd')}", "type": "rest", "title": "Recovery Day", "distance": null, "pace": null, "durationMinutes": null, "intervals": null, "description": "Rest or light cross-training (yoga, swimming, or cycling)", "notes": "Focus on stretching, mobility and hydration" }`;
+}
+
+// Sent after a failed attempt, with the model's previous answer still in the conversation
+export function buildRepairPrompt(violations: string[]): string {
+  return `That week has problems:
+${violations.map(violation => `- ${violation}`).join('\n')}
+
+Fix every problem and respond with the complete corrected week as a single JSON object in the same format, and nothing else.`;
+}
+
+// What a week is checked against, given the weeks around it
+export function checkContext(state: PlanState, weekNumber: number): WeekCheckContext {
+  const previousMileage = state.weeks[weekNumber - 1]?.totalMileage
+    ?? (weekNumber === 1 ? Number(state.currentMileage) : state.skeleton[weekNumber - 2].targetMileage);
+  return {
+    skeleton: state.skeleton[weekNumber - 1],
+    previousMileage,
+    nextMileage: state.weeks[weekNumber + 1]?.totalMileage ?? null,
+    level: getRunnerLevel(Number(state.currentMileage), state.profile),
+    profile: state.profile,
+    constraints: state.constraints,
+    units: state.units
+  };
+}
+
+export interface GeneratedWeek {
+  week: Week;
+  markdown: string;
+  validation: WeekValidation;
+}
+
+export interface GenerateWeekOptions {
+  signal?: AbortSignal;
+  // Called with each chunk of model output as it arrives
+  onToken?: (text: string) => void;
+  // Called before the model is asked to fix its previous answer
+  onRepair?: (attempt: number, violations: string[]) => void;
+  // Runner feedback when rewriting a week that was already generated
+  feedback?: string;
+}
+
+// Generate a week, re-prompting with the specific violations while it fails
+// parsing or validation. If repairs run out the best parseable attempt is kept
+// with its failed checks recorded; a week that never parses is an error.
+export async function generateWeek(
+  state: PlanState,
+  weekNumber: number,
+  { signal, onToken, onRepair, feedback }: GenerateWeekOptions = {}
+): Promise<GeneratedWeek> {
+  const dates = getWeekDates(state, weekNumber);
+  const messages: CoreMessage[] = [{ role: 'user', content: buildWeekPrompt(state, weekNumber, dates, feedback) }];
+  const context = checkContext(state, weekNumber);
+
+  // Model, temperature and token limit come from the LLM config for the plan task
+  const { model, config } = getLanguageModel('plan');
+
+  let best: { week: Week; validation: WeekValidation } | null = null;
+  let lastError: WeekValidationError | null = null;
+  let attempts = 0;
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+    attempts = attempt;
+    const result = await streamText({
+      model,
+      system: `You are a running coach preparing an athlete for a ${state.raceDistance.label}. Create specific daily workouts that build progressively. Always respond with valid JSON.`,
+      messages,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      abortSignal: signal
+    });
+
+    let content = '';
+    for await (const text of result.textStream) {
+      content += text;
+      onToken?.(text);
+    }
+
+    let violations: string[];
+    try {
+      const week = parseGeneratedWeek(content, context.skeleton, {
+        startDate: format(dates.startDate, 'yyyy-MM-dd'),
+        endDate: format(dates.endDate, 'yyyy-MM-dd')
+      }, state.units);
+      const validation = validateWeek(week, context);
+      const failures = (candidate: WeekValidation) => candidate.checks.filter(check => !check.passed).length;
+      if (!best || failures(validation) <= failures(best.validation)) {
+        best = { week, validation };
+      }
+      if (validation.passed) break;
+      violations = listViolations(validation);
+    } catch (error) {
+      if (!(error instanceof WeekValidationError)) throw error;
+      lastError = error;
+      violations = error.issues;
+    }
+
+    if (attempt <= MAX_REPAIR_ATTEMPTS) {
+      onRepair?.(attempt, violations);
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: buildRepairPrompt(violations) }
+      );
+    }
+  }
+
+  if (!best) {
+    throw lastError ?? new WeekValidationError(['no week was generated']);
+  }
+
+  const compromises = findCompromises(best.week, context);
+  if (compromises.length > 0) {
+    best.week.compromises = compromises;
+  }
+
+  return {
+    week: best.week,
+    markdown: renderWeekMarkdown(best.week, state.units),
+    validation: { ...best.validation, attempts }
+  };
+}
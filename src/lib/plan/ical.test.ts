@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { renderPlanCalendar } from './ical';
+import { replaceWeek } from './revisions';
+import { loadPlanState, savePlanState } from './state';
+import { Day, PlanState, toPlan, WorkoutType } from './types';
+import { testGeneratedWeek, testPlanState, testWeek } from '@/test/fixtures';
+
+function day(date: string, type: WorkoutType, distance: number | null = null): Day {
+  return {
+    date,
+    workout: { type, title: type, distance, pace: null, durationMinutes: null, intervals: null, description: '', notes: null }
+  };
+}
+
+function render(state: PlanState) {
+  return renderPlanCalendar(toPlan(state), { planId: 'ical-plan', sequence: state.version, domain: 'example.com' });
+}
+
+function field(calendar: string, name: string): string[] {
+  return calendar.split('\r\n').filter(line => line.startsWith(`${name}:`)).map(line => line.slice(name.length + 1));
+}
+
+describe('renderPlanCalendar', () => {
+  it('keeps event UIDs when a week is regenerated', async () => {
+    await savePlanState('ical-plan', testPlanState({
+      status: 'completed',
+      weeks: {
+        1: testWeek(1, { days: [day('2026-11-02', 'rest'), day('2026-11-03', 'easy', 4), day('2026-11-08', 'long', 8)] })
+      }
+    }));
+    const before = render((await loadPlanState('ical-plan'))!);
+
+    // The new week moves the runs around but covers the same dates
+    const regenerated = testGeneratedWeek(1, {
+      days: [day('2026-11-02', 'easy', 3), day('2026-11-03', 'tempo', 5), day('2026-11-08', 'long', 9)]
+    });
+    const { state, replaced } = await replaceWeek('ical-plan', 1, regenerated, 'More quality');
+    expect(replaced).toBe(true);
+    const after = render(state!);
+
+    expect(field(before, 'UID')).toEqual(['ical-plan-2026-11-03@example.com', 'ical-plan-2026-11-08@example.com']);
+    expect(field(after, 'UID')).toEqual([
+      'ical-plan-2026-11-02@example.com', 'ical-plan-2026-11-03@example.com', 'ical-plan-2026-11-08@example.com'
+    ]);
+    // Clients only replace events whose sequence has gone up
+    expect(Number(field(after, 'SEQUENCE')[0])).toBeGreaterThan(Number(field(before, 'SEQUENCE')[0]));
+    expect(field(after, 'SUMMARY')[1]).toMatch(/^tempo - 5/);
+  });
+});
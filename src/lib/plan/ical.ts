@@ -0,0 +1,115 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { Day, Plan, Week } from './types';
+import { summarizeWorkout, WORKOUT_LABELS } from './render';
+import { formatDistance } from './units';
+
+// iCalendar (RFC 5545) rendering of a plan: one all-day event per workout.
+// UIDs depend only on the plan and the date, so when a week is regenerated a
+// subscribed calendar updates the existing events instead of adding new ones.
+
+const PRODUCT_ID = '-//Race Training Plan Generator//Training Plan//EN';
+// How often subscribed calendars are asked to refresh
+const REFRESH_INTERVAL = 'PT6H';
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarOptions {
+  planId: string;
+  // Increases whenever the plan changes, so clients replace events they already have
+  sequence: number;
+  // Host used in event UIDs
+  domain: string;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const character of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + character).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += character;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function describeDay(day: Day, week: Week, plan: Plan): string {
+  const { workout } = day;
+  const summary = summarizeWorkout(workout, plan.units);
+  return [
+    `Week ${week.weekNumber} of ${plan.totalWeeks} - ${WORKOUT_LABELS[workout.type]}`,
+    summary,
+    workout.description,
+    workout.notes,
+    week.raceDayTips && workout.type === 'race' ? `Race Day Tips: ${week.raceDayTips}` : null
+  ].filter(Boolean).join('\n\n');
+}
+
+function renderEvent(day: Day, week: Week, plan: Plan, { planId, sequence, domain }: CalendarOptions, stamp: string): string[] {
+  const { workout } = day;
+  const title = workout.distance !== null
+    ? `${workout.title} - ${formatDistance(workout.distance, plan.units)}`
+    : workout.title;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${planId}-${day.date}@${domain}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTART;VALUE=DATE:${formatDate(day.date)}`,
+    `DTEND;VALUE=DATE:${format(addDays(parseISO(day.date), 1), 'yyyyMMdd')}`,
+    `SUMMARY:${escapeText(title)}`,
+    `DESCRIPTION:${escapeText(describeDay(day, week, plan))}`,
+    `CATEGORIES:${escapeText(WORKOUT_LABELS[workout.type])}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ];
+}
+
+// Rest days are left out so the calendar only shows days with something to do
+export function renderPlanCalendar(plan: Plan, options: CalendarOptions, now = new Date()): string {
+  const stamp = formatTimestamp(now);
+  const name = `${plan.raceDistance.label} Training Plan`;
+  const events = plan.weeks.flatMap(week =>
+    week.days
+      .filter(day => day.workout.type !== 'rest')
+      .flatMap(day => renderEvent(day, week, plan, options, stamp))
+  );
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-CALDESC:${escapeText(`Race day ${format(parseISO(plan.raceDate), 'MMMM d, yyyy')}`)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events,
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
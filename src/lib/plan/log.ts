@@ -0,0 +1,102 @@
+import { Week } from './types';
+import { Activity } from '../activities/types';
+
+// What a runner actually did on a planned day. Distances are stored in miles
+// like the plan itself; the UI converts from the runner's unit when logging.
+
+export type WorkoutLogStatus = 'done' | 'partial' | 'skipped';
+
+export const WORKOUT_LOG_STATUSES: WorkoutLogStatus[] = ['done', 'partial', 'skipped'];
+
+export const WORKOUT_LOG_STATUS_LABELS: Record<WorkoutLogStatus, string> = {
+  done: 'Done',
+  partial: 'Partial',
+  skipped: 'Skipped'
+};
+
+export interface WorkoutLogEntry {
+  planId: string;
+  weekNumber: number;
+  // The planned day this entry is for, YYYY-MM-DD
+  date: string;
+  status: WorkoutLogStatus;
+  distance: number | null;
+  durationSeconds: number | null;
+  averageHeartRate: number | null;
+  // Rate of perceived exertion, 1-10
+  rpe: number | null;
+  notes: string;
+  loggedAt: string;
+  // Set when the entry was filled in from an imported GPX, TCX or FIT file
+  activity?: Activity;
+}
+
+export interface WeekLogSummary {
+  plannedMileage: number;
+  actualMileage: number;
+  // Planned days with a workout, i.e. not rest days
+  plannedWorkouts: number;
+  done: number;
+  partial: number;
+  skipped: number;
+  // Past workout days with nothing logged
+  unlogged: number;
+}
+
+export const MAX_LOG_NOTES_LENGTH = 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isOptionalNumberInRange(value: unknown, min: number, max: number): boolean {
+  return value === null || (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max);
+}
+
+// Problems with an entry before it is saved; empty when the entry is valid
+export function validateWorkoutLogEntry(entry: WorkoutLogEntry): string[] {
+  const issues: string[] = [];
+  if (!entry.planId) issues.push('A plan is required');
+  if (!Number.isInteger(entry.weekNumber) || entry.weekNumber < 1) issues.push('A week number is required');
+  if (!DATE_PATTERN.test(entry.date)) issues.push('Date must be in YYYY-MM-DD format');
+  if (!WORKOUT_LOG_STATUSES.includes(entry.status)) issues.push('Status must be done, partial or skipped');
+  if (!isOptionalNumberInRange(entry.distance, 0, 200)) issues.push('Distance must be between 0 and 200 miles');
+  if (!isOptionalNumberInRange(entry.durationSeconds, 0, 48 * 3600)) issues.push('Time must be under 48 hours');
+  if (!isOptionalNumberInRange(entry.averageHeartRate, 30, 250)) issues.push('Average heart rate must be between 30 and 250 bpm');
+  if (entry.rpe !== null && !(Number.isInteger(entry.rpe) && entry.rpe >= 1 && entry.rpe <= 10)) {
+    issues.push('RPE must be a whole number from 1 to 10');
+  }
+  if (entry.notes.length > MAX_LOG_NOTES_LENGTH) issues.push(`Notes must be ${MAX_LOG_NOTES_LENGTH} characters or fewer`);
+  return issues;
+}
+
+// Planned vs actual totals for one week; `today` decides which unlogged days count as missed
+export function summarizeWeekLog(
+  week: Week,
+  entries: Record<string, WorkoutLogEntry>,
+  today: string
+): WeekLogSummary {
+  const summary: WeekLogSummary = {
+    plannedMileage: week.totalMileage,
+    actualMileage: 0,
+    plannedWorkouts: 0,
+    done: 0,
+    partial: 0,
+    skipped: 0,
+    unlogged: 0
+  };
+
+  for (const day of week.days) {
+    const entry = entries[day.date];
+    if (day.workout.type !== 'rest') {
+      summary.plannedWorkouts++;
+    }
+    if (entry) {
+      summary[entry.status]++;
+      summary.actualMileage += entry.status === 'skipped' ? 0 : entry.distance ?? 0;
+    } else if (day.workout.type !== 'rest' && day.date < today) {
+      summary.unlogged++;
+    }
+  }
+
+  summary.actualMileage = Math.round(summary.actualMileage * 100) / 100;
+  return summary;
+}
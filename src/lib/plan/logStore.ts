@@ -0,0 +1,37 @@
+import {
+  deleteDocument,
+  getDocumentsWhere,
+  setDocument
+} from '../firebase/firebaseUtils';
+import { validateWorkoutLogEntry, WorkoutLogEntry } from './log';
+
+// Workout log entries live in a per-user Firestore collection, one document per
+// planned day so logging the same day again replaces the earlier entry.
+
+export function workoutLogCollection(userId: string): string {
+  return `users/${userId}/workoutLogs`;
+}
+
+function entryId(planId: string, date: string): string {
+  return `${planId}_${date}`;
+}
+
+export async function saveWorkoutLog(userId: string, entry: WorkoutLogEntry): Promise<void> {
+  const issues = validateWorkoutLogEntry(entry);
+  if (issues.length > 0) {
+    throw new Error(issues.join('. '));
+  }
+  await setDocument(workoutLogCollection(userId), entryId(entry.planId, entry.date), entry);
+}
+
+// Entries for one plan keyed by date
+export async function getWorkoutLogs(userId: string, planId: string): Promise<Record<string, WorkoutLogEntry>> {
+  const documents = await getDocumentsWhere(workoutLogCollection(userId), 'planId', planId);
+  return Object.fromEntries(
+    documents.map(({ id: _id, ...entry }) => [(entry as WorkoutLogEntry).date, entry as WorkoutLogEntry])
+  );
+}
+
+export async function deleteWorkoutLog(userId: string, planId: string, date: string): Promise<void> {
+  await deleteDocument(workoutLogCollection(userId), entryId(planId, date));
+}
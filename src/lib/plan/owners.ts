@@ -0,0 +1,216 @@
+import type { Redis } from '@upstash/redis';
+import { getRedis } from '../redis';
+import { getRequestUser } from '../firebase/verifyIdToken';
+import { configuredStoreName, loadPlanState, updatePlanState } from './state';
+import { GoalTime, PlanState, PlanStatus } from './types';
+import { RaceDistance } from './distances';
+import { DistanceUnit } from './units';
+
+// Which plans belong to which signed-in runner. Plans created while signed in
+// are owned from the start; anonymous plans are indexed by email so they can
+// be claimed later by a runner whose verified email matches.
+
+export interface PlanSummary {
+  requestId: string;
+  status: PlanStatus;
+  raceDistance: RaceDistance;
+  raceDate: string;
+  goalTime: GoalTime;
+  units: DistanceUnit;
+  totalWeeks: number;
+  completedWeeks: number;
+  startTime: string;
+}
+
+interface PlanOwnerIndex {
+  addOwned(uid: string, requestId: string): Promise<void>;
+  listOwned(uid: string): Promise<string[]>;
+  addByEmail(email: string, requestId: string): Promise<void>;
+  listByEmail(email: string): Promise<string[]>;
+}
+
+const PLANS_COLLECTION = 'plans';
+const PLAN_EMAILS_COLLECTION = 'planEmails';
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Redis sets of plan ids. Unfinished plans can expire from under them, so
+// readers skip ids that no longer load.
+class RedisPlanOwnerIndex implements PlanOwnerIndex {
+  constructor(private readonly redis: Redis) {}
+
+  async addOwned(uid: string, requestId: string) {
+    await this.redis.sadd(`user-plans:${uid}`, requestId);
+  }
+
+  async listOwned(uid: string) {
+    return this.redis.smembers(`user-plans:${uid}`);
+  }
+
+  async addByEmail(email: string, requestId: string) {
+    await this.redis.sadd(`email-plans:${normalizeEmail(email)}`, requestId);
+  }
+
+  async listByEmail(email: string) {
+    return this.redis.smembers(`email-plans:${normalizeEmail(email)}`);
+  }
+}
+
+// Owners are queried on the plans collection directly. Emails are kept as
+// typed on the plan, so a normalized copy of each is written to its own
+// collection, keyed by plan id; plans from before it are still found by the
+// email exactly as typed.
+class FirestorePlanOwnerIndex implements PlanOwnerIndex {
+  async addOwned() {}
+
+  async listOwned(uid: string) {
+    const { getDocumentsWhere } = await import('../firebase/serverFirestore');
+    return (await getDocumentsWhere(PLANS_COLLECTION, 'ownerId', uid)).map(document => document.id);
+  }
+
+  async addByEmail(email: string, requestId: string) {
+    const { setDocument } = await import('../firebase/serverFirestore');
+    await setDocument(PLAN_EMAILS_COLLECTION, requestId, { email: normalizeEmail(email) });
+  }
+
+  async listByEmail(email: string) {
+    const { getDocumentsWhere } = await import('../firebase/serverFirestore');
+    const [indexed, typed] = await Promise.all([
+      getDocumentsWhere(PLAN_EMAILS_COLLECTION, 'email', normalizeEmail(email)),
+      getDocumentsWhere(PLANS_COLLECTION, 'email', email.trim())
+    ]);
+    return Array.from(new Set([...indexed, ...typed].map(document => document.id)));
+  }
+}
+
+class MemoryPlanOwnerIndex implements PlanOwnerIndex {
+  private readonly owned = new Map<string, Set<string>>();
+  private readonly byEmail = new Map<string, Set<string>>();
+
+  private add(map: Map<string, Set<string>>, key: string, requestId: string) {
+    map.set(key, (map.get(key) ?? new Set<string>()).add(requestId));
+  }
+
+  async addOwned(uid: string, requestId: string) {
+    this.add(this.owned, uid, requestId);
+  }
+
+  async listOwned(uid: string) {
+    return Array.from(this.owned.get(uid) ?? []);
+  }
+
+  async addByEmail(email: string, requestId: string) {
+    this.add(this.byEmail, normalizeEmail(email), requestId);
+  }
+
+  async listByEmail(email: string) {
+    return Array.from(this.byEmail.get(normalizeEmail(email)) ?? []);
+  }
+}
+
+const globalForOwners = globalThis as unknown as { memoryPlanOwnerIndex?: MemoryPlanOwnerIndex };
+
+function getPlanOwnerIndex(): PlanOwnerIndex {
+  switch (configuredStoreName()) {
+    case 'redis':
+      return new RedisPlanOwnerIndex(getRedis());
+    case 'firestore':
+      return new FirestorePlanOwnerIndex();
+    case 'memory':
+      globalForOwners.memoryPlanOwnerIndex ??= new MemoryPlanOwnerIndex();
+      return globalForOwners.memoryPlanOwnerIndex;
+  }
+}
+
+export function summarizePlan(requestId: string, state: PlanState): PlanSummary {
+  return {
+    requestId,
+    status: state.status,
+    raceDistance: state.raceDistance,
+    raceDate: state.raceDate,
+    goalTime: state.goalTime,
+    units: state.units,
+    totalWeeks: state.totalWeeks,
+    completedWeeks: Object.keys(state.weeks).length,
+    startTime: state.startTime
+  };
+}
+
+// Load a plan for a per-plan route. Claimed plans are only for their owner, so
+// `allowed` is false unless the request is signed in as them; anonymous plans
+// stay open to anyone with the id.
+export async function loadPlanForRequest(
+  req: Request,
+  requestId: string
+): Promise<{ state: PlanState | null; allowed: boolean }> {
+  const state = await loadPlanState(requestId);
+  if (!state || state.ownerId === null) {
+    return { state, allowed: true };
+  }
+  const user = await getRequestUser(req);
+  return { state, allowed: user?.uid === state.ownerId };
+}
+
+// Call once when a plan is created
+export async function indexNewPlan(requestId: string, state: PlanState): Promise<void> {
+  const index = getPlanOwnerIndex();
+  await index.addByEmail(state.email, requestId);
+  if (state.ownerId) {
+    await index.addOwned(state.ownerId, requestId);
+  }
+}
+
+async function loadPlans(requestIds: string[]): Promise<[string, PlanState][]> {
+  const states = await Promise.all(requestIds.map(requestId => loadPlanState(requestId)));
+  return requestIds
+    .map((requestId, i) => [requestId, states[i]] as [string, PlanState | null])
+    .filter((entry): entry is [string, PlanState] => entry[1] !== null);
+}
+
+function isClaimable(state: PlanState, email: string): boolean {
+  return state.ownerId === null && normalizeEmail(state.email) === normalizeEmail(email);
+}
+
+// The runner's plans, latest race first
+export async function listOwnedPlans(uid: string): Promise<PlanSummary[]> {
+  const plans = await loadPlans(await getPlanOwnerIndex().listOwned(uid));
+  return plans
+    .filter(([, state]) => state.ownerId === uid)
+    .map(([requestId, state]) => summarizePlan(requestId, state))
+    .sort((a, b) => b.raceDate.localeCompare(a.raceDate));
+}
+
+// Anonymous plans requested with this email; only pass an email the sign-in provider has verified
+export async function listClaimablePlans(email: string): Promise<PlanSummary[]> {
+  const plans = await loadPlans(await getPlanOwnerIndex().listByEmail(email));
+  return plans
+    .filter(([, state]) => isClaimable(state, email))
+    .map(([requestId, state]) => summarizePlan(requestId, state))
+    .sort((a, b) => b.raceDate.localeCompare(a.raceDate));
+}
+
+// Take ownership of anonymous plans with a matching email; returns the ids claimed
+export async function claimPlans(uid: string, email: string, requestIds?: string[]): Promise<string[]> {
+  const candidates = (await getPlanOwnerIndex().listByEmail(email))
+    .filter(requestId => !requestIds || requestIds.includes(requestId));
+
+  const claimed: string[] = [];
+  for (const requestId of candidates) {
+    let changed = false;
+    await updatePlanState(requestId, state => {
+      changed = false;
+      if (!isClaimable(state, email)) return false;
+      state.ownerId = uid;
+      // Calendar apps cannot sign in, so an owned plan's feed needs its own key
+      state.calendarKey ??= crypto.randomUUID();
+      changed = true;
+    });
+    if (changed) {
+      await getPlanOwnerIndex().addOwned(uid, requestId);
+      claimed.push(requestId);
+    }
+  }
+  return claimed;
+}
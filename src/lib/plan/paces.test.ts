@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePaceZones, GoalPaceError } from './paces';
+import { getStandardDistance } from './distances';
+
+const MARATHON = getStandardDistance('marathon');
+
+describe('calculatePaceZones', () => {
+  it('gives whole-second paces for goals across the supported range', () => {
+    for (const hours of [2.1, 3.5, 6, 10]) {
+      const { zones } = calculatePaceZones(hours * 3600, MARATHON);
+      for (const zone of zones) {
+        expect(Number.isInteger(zone.perMile.fast) && Number.isInteger(zone.perMile.slow)).toBe(true);
+        expect(zone.perMile.fast).toBeLessThanOrEqual(zone.perMile.slow);
+      }
+    }
+  });
+
+  it('refuses goals too slow or too fast to calculate paces for', () => {
+    expect(() => calculatePaceZones(30 * 3600, MARATHON)).toThrow(GoalPaceError);
+    expect(() => calculatePaceZones(90 * 60, MARATHON)).toThrow(GoalPaceError);
+  });
+});
@@ -0,0 +1,152 @@
+import { PaceRange } from './types';
+import { RaceDistance } from './distances';
+
+// VDOT-style pace zones derived from a goal race time, using Jack Daniels'
+// oxygen cost and time-to-exhaustion formulas.
+
+export type PaceZoneName = 'easy' | 'long' | 'marathon' | 'threshold' | 'interval' | 'repetition' | 'race';
+
+export interface PaceZone {
+  name: PaceZoneName;
+  label: string;
+  description: string;
+  perMile: PaceRange;
+  perKm: PaceRange;
+}
+
+export interface PaceZones {
+  vdot: number;
+  zones: PaceZone[];
+}
+
+export const METERS_PER_MILE = 1609.344;
+export const MARATHON_METERS = 42195;
+
+// Intensity of each zone as a fraction of VDOT, slow end first
+const ZONE_INTENSITIES: Record<Exclude<PaceZoneName, 'marathon' | 'race'>, [number, number]> = {
+  easy: [0.62, 0.7],
+  long: [0.65, 0.72],
+  threshold: [0.86, 0.88],
+  interval: [0.97, 1.0],
+  repetition: [1.05, 1.1]
+};
+
+const ZONE_DETAILS: Record<Exclude<PaceZoneName, 'race'>, { label: string; description: string }> = {
+  easy: { label: 'Easy', description: 'Easy and recovery runs, fully conversational' },
+  long: { label: 'Long Run', description: 'Steady aerobic pace for the weekly long run' },
+  marathon: { label: 'Marathon', description: 'Marathon race pace for steady, race-specific segments' },
+  threshold: { label: 'Threshold', description: 'Comfortably hard tempo effort, about one hour race pace' },
+  interval: { label: 'Interval', description: 'Hard 3-5 minute repeats at VO2max effort' },
+  repetition: { label: 'Repetition', description: 'Short, fast repeats with full recovery' }
+};
+
+// Seconds of slack either side of goal race pace
+const RACE_PACE_SPREAD = 5;
+
+// Goals the formulas give sensible paces for: about a 10h45 marathon up to
+// beyond world-record pace. Much slower goals drive the oxygen cost below
+// zero, where no velocity exists.
+export const MIN_VDOT = 10;
+export const MAX_VDOT = 90;
+
+export class GoalPaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GoalPaceError';
+  }
+}
+
+// Oxygen cost (ml/kg/min) of running at a velocity in metres per minute
+function oxygenCost(velocity: number): number {
+  return -4.6 + 0.182258 * velocity + 0.000104 * velocity * velocity;
+}
+
+// Fraction of VO2max that can be sustained for a race lasting the given minutes
+function sustainableFraction(minutes: number): number {
+  return 0.8 + 0.1894393 * Math.exp(-0.012778 * minutes) + 0.2989558 * Math.exp(-0.1932605 * minutes);
+}
+
+// Inverse of oxygenCost: the velocity (m/min) that costs the given VO2
+function velocityForOxygen(vo2: number): number {
+  const a = 0.000104;
+  const b = 0.182258;
+  const c = -4.6 - vo2;
+  return (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+}
+
+export function calculateVdot(raceMeters: number, raceSeconds: number): number {
+  const minutes = raceSeconds / 60;
+  return oxygenCost(raceMeters / minutes) / sustainableFraction(minutes);
+}
+
+// Equivalent race time for a VDOT, found by bisection since VDOT falls as time grows
+export function predictRaceSeconds(vdot: number, raceMeters: number): number {
+  let fast = 60;
+  let slow = 60 * 60 * 24;
+  for (let i = 0; i < 60; i++) {
+    const middle = (fast + slow) / 2;
+    if (calculateVdot(raceMeters, middle) > vdot) {
+      fast = middle;
+    } else {
+      slow = middle;
+    }
+  }
+  return (fast + slow) / 2;
+}
+
+function paceRange(fastSecondsPerMile: number, slowSecondsPerMile: number): Pick<PaceZone, 'perMile' | 'perKm'> {
+  const perKm = (secondsPerMile: number) => Math.round(secondsPerMile * 1000 / METERS_PER_MILE);
+  return {
+    perMile: { fast: Math.round(fastSecondsPerMile), slow: Math.round(slowSecondsPerMile) },
+    perKm: { fast: perKm(fastSecondsPerMile), slow: perKm(slowSecondsPerMile) }
+  };
+}
+
+function secondsPerMileAt(vdot: number, intensity: number): number {
+  return METERS_PER_MILE / velocityForOxygen(vdot * intensity) * 60;
+}
+
+export function calculatePaceZones(goalTimeSeconds: number, raceDistance: RaceDistance): PaceZones {
+  if (!(goalTimeSeconds > 0) || !(raceDistance.meters > 0)) {
+    throw new Error('A goal time and race distance are required to calculate pace zones');
+  }
+
+  const vdot = calculateVdot(raceDistance.meters, goalTimeSeconds);
+  if (!(vdot >= MIN_VDOT)) {
+    throw new GoalPaceError(`A ${raceDistance.label} goal time that slow is outside what training paces can be calculated for`);
+  }
+  if (vdot > MAX_VDOT) {
+    throw new GoalPaceError(`A ${raceDistance.label} goal time that fast is outside what training paces can be calculated for`);
+  }
+  const isMarathon = raceDistance.meters === MARATHON_METERS;
+  const milesPer = (meters: number) => meters / METERS_PER_MILE;
+  const racePace = goalTimeSeconds / milesPer(raceDistance.meters);
+  // For a marathon goal this is the goal pace itself; otherwise the VDOT equivalent
+  const marathonPace = isMarathon ? racePace : predictRaceSeconds(vdot, MARATHON_METERS) / milesPer(MARATHON_METERS);
+
+  const zones = (Object.keys(ZONE_DETAILS) as Exclude<PaceZoneName, 'race'>[]).map((name): PaceZone => {
+    const range = name === 'marathon'
+      ? paceRange(marathonPace - RACE_PACE_SPREAD, marathonPace + RACE_PACE_SPREAD)
+      : paceRange(secondsPerMileAt(vdot, ZONE_INTENSITIES[name][1]), secondsPerMileAt(vdot, ZONE_INTENSITIES[name][0]));
+    return { name, ...ZONE_DETAILS[name], ...range };
+  });
+
+  if (!isMarathon) {
+    zones.push({
+      name: 'race',
+      label: 'Race Pace',
+      description: `Goal pace for your ${raceDistance.label}`,
+      ...paceRange(racePace - RACE_PACE_SPREAD, racePace + RACE_PACE_SPREAD)
+    });
+  }
+
+  return { vdot: Math.round(vdot * 10) / 10, zones };
+}
+
+export function getPaceZone(paceZones: PaceZones, name: PaceZoneName): PaceZone {
+  const zone = paceZones.zones.find(candidate => candidate.name === name);
+  if (!zone) {
+    throw new Error(`Unknown pace zone: ${name}`);
+  }
+  return zone;
+}
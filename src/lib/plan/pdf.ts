@@ -0,0 +1,342 @@
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import { Day, Plan, Week } from './types';
+import { formatDayDate, formatPaceRange, formatWeeklyVolume, WORKOUT_LABELS } from './render';
+import { formatDuration, goalTimeToSeconds } from './time';
+import { DistanceUnit, formatDistance, toUnit, UNIT_NAMES } from './units';
+import { PHASE_DESCRIPTIONS, TrainingPhase } from './periodization';
+import { METERS_PER_MILE } from './paces';
+
+// PDF rendering of a saved plan: a cover page with race details, pace zones and
+// a weekly mileage chart, then one table per week. Used by the download route
+// and attached to the completion email, so it only relies on jsPDF itself.
+
+type Color = [number, number, number];
+
+const PAGE_MARGIN = 15;
+const HEADER_Y = 10;
+const CONTENT_TOP = 20;
+const FOOTER_GAP = 8;
+const LINE_HEIGHT = 4.2;
+const CELL_PADDING = 1.8;
+
+const COLORS = {
+  title: [30, 58, 138] as Color,
+  text: [17, 24, 39] as Color,
+  muted: [75, 85, 99] as Color,
+  rule: [209, 213, 219] as Color,
+  headerFill: [219, 234, 254] as Color,
+  stripe: [243, 244, 246] as Color
+};
+
+const PHASE_COLORS: Record<TrainingPhase, Color> = {
+  base: [96, 165, 250],
+  build: [52, 211, 153],
+  peak: [251, 146, 60],
+  taper: [167, 139, 250],
+  recovery: [148, 163, 184]
+};
+
+// Column widths in mm for the week tables; the workout column takes the rest
+const WEEK_COLUMNS = { day: 26, distance: 22, pace: 34 };
+
+// The built-in fonts only cover Windows-1252, so drop anything else (e.g. emoji)
+function pdfText(value: string): string {
+  return value.replace(/[^\x20-\x7E\xA0-\xFF‘’“”–—•…\n]/g, '').replace(/ {2,}/g, ' ').trim();
+}
+
+function formatGoalTime(plan: Plan): string {
+  return formatDuration(goalTimeToSeconds(plan.goalTime));
+}
+
+function workoutDistance(day: Day, unit: DistanceUnit): string {
+  const { workout } = day;
+  if (workout.distance !== null) return formatDistance(workout.distance, unit);
+  if (workout.durationMinutes !== null) return `${workout.durationMinutes} min`;
+  return '-';
+}
+
+function workoutPace(day: Day, unit: DistanceUnit): string {
+  const { workout } = day;
+  if (workout.intervals && workout.intervals.length > 0) {
+    return workout.intervals
+      .map(interval => `${interval.repeats} x ${formatDistance(interval.distance, unit, 2)}${interval.pace ? ` @ ${formatPaceRange(interval.pace, unit)}` : ''}`)
+      .join('\n');
+  }
+  return workout.pace ? formatPaceRange(workout.pace, unit) : '-';
+}
+
+class PlanDocument {
+  readonly doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  readonly width = this.doc.internal.pageSize.getWidth();
+  readonly height = this.doc.internal.pageSize.getHeight();
+  readonly contentWidth = this.width - PAGE_MARGIN * 2;
+  readonly bottom = this.height - PAGE_MARGIN - FOOTER_GAP;
+  y = CONTENT_TOP;
+
+  constructor(private readonly plan: Plan) {}
+
+  setFont(size: number, style: 'normal' | 'bold' | 'italic' = 'normal', color: Color = COLORS.text) {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = CONTENT_TOP;
+  }
+
+  // Start a new page unless `height` more millimetres fit on this one
+  ensureSpace(height: number) {
+    if (this.y + height > this.bottom) {
+      this.newPage();
+    }
+  }
+
+  lines(text: string, width: number): string[] {
+    return this.doc.splitTextToSize(pdfText(text), width) as string[];
+  }
+
+  paragraph(text: string, size = 10, style: 'normal' | 'bold' | 'italic' = 'normal', color: Color = COLORS.text) {
+    this.setFont(size, style, color);
+    for (const line of this.lines(text, this.contentWidth)) {
+      this.ensureSpace(LINE_HEIGHT);
+      this.doc.text(line, PAGE_MARGIN, this.y + LINE_HEIGHT - 1);
+      this.y += LINE_HEIGHT;
+    }
+  }
+
+  heading(text: string, size = 14) {
+    this.ensureSpace(size * 0.6 + 6);
+    this.y += 3;
+    this.setFont(size, 'bold', COLORS.title);
+    this.doc.text(pdfText(text), PAGE_MARGIN, this.y + size * 0.35);
+    this.y += size * 0.5 + 2;
+  }
+
+  // A table whose rows grow to fit wrapped text; the header repeats after page breaks
+  table(columns: { title: string; width: number }[], rows: string[][], fontSize = 9) {
+    const drawHeader = () => {
+      const height = LINE_HEIGHT + CELL_PADDING * 2;
+      this.doc.setFillColor(...COLORS.headerFill);
+      this.doc.rect(PAGE_MARGIN, this.y, this.contentWidth, height, 'F');
+      this.setFont(fontSize, 'bold');
+      let x = PAGE_MARGIN;
+      for (const column of columns) {
+        this.doc.text(column.title, x + CELL_PADDING, this.y + CELL_PADDING + LINE_HEIGHT - 1);
+        x += column.width;
+      }
+      this.y += height;
+    };
+
+    this.ensureSpace((LINE_HEIGHT + CELL_PADDING * 2) * 2);
+    drawHeader();
+
+    rows.forEach((row, rowIndex) => {
+      this.setFont(fontSize);
+      const cells = row.map((cell, index) => this.lines(cell, columns[index].width - CELL_PADDING * 2));
+      const height = Math.max(...cells.map(cell => cell.length)) * LINE_HEIGHT + CELL_PADDING * 2;
+      if (this.y + height > this.bottom) {
+        this.newPage();
+        drawHeader();
+        this.setFont(fontSize);
+      }
+      if (rowIndex % 2 === 1) {
+        this.doc.setFillColor(...COLORS.stripe);
+        this.doc.rect(PAGE_MARGIN, this.y, this.contentWidth, height, 'F');
+      }
+
+      let x = PAGE_MARGIN;
+      cells.forEach((lines, index) => {
+        // The first column is bold so each day stands out
+        this.setFont(fontSize, index === 0 ? 'bold' : 'normal');
+        lines.forEach((line, lineIndex) => {
+          this.doc.text(line, x + CELL_PADDING, this.y + CELL_PADDING + LINE_HEIGHT * (lineIndex + 1) - 1);
+        });
+        x += columns[index].width;
+      });
+      this.y += height;
+      this.doc.setDrawColor(...COLORS.rule);
+      this.doc.line(PAGE_MARGIN, this.y, PAGE_MARGIN + this.contentWidth, this.y);
+    });
+    this.y += 4;
+  }
+
+  cover() {
+    const { plan } = this;
+    const first = plan.weeks[0];
+    const peak = plan.weeks.reduce<Week | null>((best, week) => (!best || week.totalMileage > best.totalMileage ? week : best), null);
+
+    this.y = 45;
+    this.setFont(26, 'bold', COLORS.title);
+    this.doc.text(pdfText(`${plan.raceDistance.label} Training Plan`), this.width / 2, this.y, { align: 'center' });
+    this.y += 10;
+    this.setFont(13, 'normal', COLORS.muted);
+    this.doc.text(format(parseISO(plan.raceDate), 'EEEE, MMMM d, yyyy'), this.width / 2, this.y, { align: 'center' });
+    this.y += 15;
+
+    const details: [string, string][] = [
+      ['Race', `${plan.raceDistance.label} (${formatDistance(plan.raceDistance.meters / METERS_PER_MILE, plan.units)})`],
+      ['Goal Time', formatGoalTime(plan)],
+      ['Training Weeks', String(plan.totalWeeks)],
+      ['Starts', first ? formatDayDate(first.startDate, 'EEEE, MMMM d, yyyy') : '-'],
+      ['Starting Weekly Volume', formatWeeklyVolume(Number(plan.currentMileage), plan.units)],
+      ['Peak Week', peak ? `Week ${peak.weekNumber} - ${formatWeeklyVolume(peak.totalMileage, plan.units)}` : '-']
+    ];
+    for (const [label, value] of details) {
+      this.setFont(11, 'bold');
+      this.doc.text(label, PAGE_MARGIN + 20, this.y);
+      this.setFont(11);
+      this.doc.text(pdfText(value), PAGE_MARGIN + 75, this.y);
+      this.y += 7;
+    }
+
+    this.y += 6;
+    this.heading(`Training Paces (VDOT ${plan.paceZones.vdot})`);
+    const otherUnit: DistanceUnit = plan.units === 'km' ? 'mi' : 'km';
+    this.table(
+      [
+        { title: 'Zone', width: 32 },
+        { title: 'Purpose', width: this.contentWidth - 32 - 60 },
+        { title: `Per ${UNIT_NAMES[plan.units].singular}`, width: 30 },
+        { title: `Per ${UNIT_NAMES[otherUnit].singular}`, width: 30 }
+      ],
+      plan.paceZones.zones.map(zone => [
+        zone.label,
+        zone.description,
+        formatPaceRange(zone.perMile, plan.units),
+        formatPaceRange(zone.perMile, otherUnit)
+      ])
+    );
+
+    this.mileageChart();
+  }
+
+  // Bar per week, coloured by training phase
+  mileageChart() {
+    const { plan } = this;
+    if (plan.weeks.length === 0) return;
+
+    const chartHeight = 55;
+    this.heading(`Weekly ${plan.units === 'km' ? 'Distance' : 'Mileage'}`);
+    this.ensureSpace(chartHeight + 16);
+
+    const axisWidth = 10;
+    const left = PAGE_MARGIN + axisWidth;
+    const width = this.contentWidth - axisWidth;
+    const top = this.y;
+    const baseline = top + chartHeight;
+    const max = Math.max(...plan.weeks.map(week => toUnit(week.totalMileage, plan.units)), 1);
+    const slot = width / plan.totalWeeks;
+    const barWidth = Math.max(1, slot * 0.7);
+
+    this.doc.setDrawColor(...COLORS.rule);
+    this.doc.line(left, baseline, left + width, baseline);
+    this.setFont(7, 'normal', COLORS.muted);
+    this.doc.text(String(Math.round(max)), left - 1.5, top + 2, { align: 'right' });
+    this.doc.text('0', left - 1.5, baseline, { align: 'right' });
+
+    for (const week of plan.weeks) {
+      const value = toUnit(week.totalMileage, plan.units);
+      const height = value / max * chartHeight;
+      const x = left + (week.weekNumber - 1) * slot + (slot - barWidth) / 2;
+      this.doc.setFillColor(...PHASE_COLORS[week.phase]);
+      this.doc.rect(x, baseline - height, barWidth, height, 'F');
+      if (plan.totalWeeks <= 30 || week.weekNumber % 2 === 1) {
+        this.doc.text(String(week.weekNumber), x + barWidth / 2, baseline + 3.5, { align: 'center' });
+      }
+    }
+
+    // Legend
+    let x = left;
+    const legendY = baseline + 9;
+    for (const phase of Object.keys(PHASE_COLORS) as TrainingPhase[]) {
+      if (!plan.weeks.some(week => week.phase === phase)) continue;
+      this.doc.setFillColor(...PHASE_COLORS[phase]);
+      this.doc.rect(x, legendY - 2.5, 3, 3, 'F');
+      this.setFont(8, 'normal', COLORS.muted);
+      const label = PHASE_DESCRIPTIONS[phase].split(' - ')[0];
+      this.doc.text(label, x + 4.5, legendY);
+      x += this.doc.getTextWidth(label) + 12;
+    }
+    this.y = legendY + 6;
+  }
+
+  week(week: Week) {
+    const { plan } = this;
+    this.heading(`Week ${week.weekNumber} - ${PHASE_DESCRIPTIONS[week.phase].split(' - ')[0]}`, 13);
+    this.paragraph(
+      `${formatDayDate(week.startDate, 'MMM d')} - ${formatDayDate(week.endDate, 'MMM d')} | ${formatWeeklyVolume(week.totalMileage, plan.units)}`,
+      9,
+      'normal',
+      COLORS.muted
+    );
+    this.y += 2;
+
+    const workoutWidth = this.contentWidth - WEEK_COLUMNS.day - WEEK_COLUMNS.distance - WEEK_COLUMNS.pace;
+    this.table(
+      [
+        { title: 'Day', width: WEEK_COLUMNS.day },
+        { title: 'Workout', width: workoutWidth },
+        { title: 'Distance', width: WEEK_COLUMNS.distance },
+        { title: 'Pace', width: WEEK_COLUMNS.pace }
+      ],
+      week.days.map(day => [
+        formatDayDate(day.date, 'EEE, MMM d'),
+        [
+          day.workout.title || WORKOUT_LABELS[day.workout.type],
+          day.workout.description,
+          day.workout.notes
+        ].filter(Boolean).join('\n'),
+        workoutDistance(day, plan.units),
+        workoutPace(day, plan.units)
+      ])
+    );
+
+    if (week.tips) {
+      this.paragraph(week.tips, 9, 'italic', COLORS.muted);
+    }
+    if (week.raceDayTips) {
+      this.y += 2;
+      this.paragraph('Race Day Tips', 10, 'bold');
+      this.paragraph(week.raceDayTips, 9);
+    }
+    this.y += 4;
+  }
+
+  // Running header and page numbers, drawn once every page exists
+  decoratePages() {
+    const { plan } = this;
+    const pages = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.setFont(8, 'normal', COLORS.muted);
+      if (page > 1) {
+        this.doc.text(pdfText(`${plan.raceDistance.label} Training Plan`), PAGE_MARGIN, HEADER_Y);
+        this.doc.text(`Race day ${format(parseISO(plan.raceDate), 'MMMM d, yyyy')}`, this.width - PAGE_MARGIN, HEADER_Y, { align: 'right' });
+        this.doc.setDrawColor(...COLORS.rule);
+        this.doc.line(PAGE_MARGIN, HEADER_Y + 2, this.width - PAGE_MARGIN, HEADER_Y + 2);
+      }
+      this.doc.text(`Page ${page} of ${pages}`, this.width / 2, this.height - PAGE_MARGIN + 5, { align: 'center' });
+    }
+  }
+
+  render(): jsPDF {
+    this.cover();
+    if (this.plan.weeks.length > 0) {
+      this.newPage();
+      this.plan.weeks.forEach(week => this.week(week));
+    }
+    this.decoratePages();
+    return this.doc;
+  }
+}
+
+export function renderPlanPdf(plan: Plan): jsPDF {
+  return new PlanDocument(plan).render();
+}
+
+export function renderPlanPdfBytes(plan: Plan): ArrayBuffer {
+  return renderPlanPdf(plan).output('arraybuffer');
+}
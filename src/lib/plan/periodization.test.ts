@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { getStandardDistance } from './distances';
+import { buildPlanSkeleton, MAX_WEEKLY_INCREASE, WeekSkeleton } from './periodization';
+
+const marathon = getStandardDistance('marathon');
+
+function skeletonFor(totalWeeks: number, currentMileage = 20, raceDistance = marathon): WeekSkeleton[] {
+  return buildPlanSkeleton({ currentMileage, totalWeeks, goalTimeSeconds: 4 * 3600, raceDistance });
+}
+
+describe('buildPlanSkeleton', () => {
+  it('builds one week per plan week, ending in the race week', () => {
+    const skeleton = skeletonFor(18);
+    expect(skeleton.map(week => week.weekNumber)).toEqual(Array.from({ length: 18 }, (_, i) => i + 1));
+    expect(skeleton.filter(week => week.isRaceWeek).map(week => week.weekNumber)).toEqual([18]);
+    expect(skeleton[17].longRun).toBeCloseTo(26.2, 1);
+  });
+
+  it('never raises mileage more than 10% over the last full week', () => {
+    for (const currentMileage of [5, 20, 45]) {
+      let lastFullWeek = 0;
+      for (const week of skeletonFor(20, currentMileage)) {
+        if (week.phase === 'taper' || week.isCutback) continue;
+        if (lastFullWeek > 0) {
+          expect(week.targetMileage).toBeLessThanOrEqual(lastFullWeek * (1 + MAX_WEEKLY_INCREASE));
+        }
+        lastFullWeek = week.targetMileage;
+      }
+    }
+  });
+
+  it('cuts back every fourth week before the taper', () => {
+    const skeleton = skeletonFor(18);
+    expect(skeleton.filter(week => week.isCutback).map(week => week.weekNumber)).toEqual([4, 8, 12]);
+    for (const week of skeleton.filter(week => week.isCutback)) {
+      expect(week.targetMileage).toBeLessThan(skeleton[week.weekNumber - 2].targetMileage);
+    }
+  });
+
+  it('tapers for as long as the distance and plan length allow', () => {
+    const taperWeeks = (skeleton: WeekSkeleton[]) => skeleton.filter(week => week.phase === 'taper').length;
+    expect(taperWeeks(skeletonFor(18))).toBe(3);
+    expect(taperWeeks(skeletonFor(8))).toBe(2);
+    expect(taperWeeks(skeletonFor(16, 20, getStandardDistance('half')))).toBe(2);
+    expect(taperWeeks(skeletonFor(12, 20, getStandardDistance('5k')))).toBe(1);
+
+    const skeleton = skeletonFor(18);
+    const [first, second] = skeleton.slice(-3);
+    expect(second.targetMileage).toBeLessThan(first.targetMileage);
+  });
+
+  it('fits plans shorter than six weeks with a one-week taper and no cutbacks', () => {
+    for (const totalWeeks of [1, 3, 5]) {
+      const skeleton = skeletonFor(totalWeeks);
+      expect(skeleton).toHaveLength(totalWeeks);
+      expect(skeleton.filter(week => week.phase === 'taper')).toHaveLength(1);
+      expect(skeleton.some(week => week.isCutback)).toBe(false);
+      expect(skeleton[totalWeeks - 1].isRaceWeek).toBe(true);
+    }
+    expect(skeletonFor(0)).toEqual([]);
+  });
+});
@@ -0,0 +1,273 @@
+// Deterministic periodization engine. Builds the whole macrocycle (phases,
+// weekly mileage, long runs and taper) before any week is sent to the LLM,
+// so every generated week is filled from the same skeleton.
+
+import { distanceInMiles, DistanceProfile, getDistanceProfile, RaceDistance } from './distances';
+import { calculateVdot } from './paces';
+import { raceGoalSeconds, recoveryWeeks, ScheduledRace } from './season';
+
+export type TrainingPhase = 'base' | 'build' | 'peak' | 'taper' | 'recovery';
+
+export interface WeekSkeleton {
+  weekNumber: number;
+  phase: TrainingPhase;
+  targetMileage: number;
+  longRun: number;
+  isCutback: boolean;
+  isRaceWeek: boolean;
+  // A race before the final one that falls in this week
+  race?: ScheduledRace;
+}
+
+export interface PeriodizationInput {
+  currentMileage: number;
+  totalWeeks: number;
+  goalTimeSeconds: number;
+  raceDistance: RaceDistance;
+  // Longest recent run in miles, when the runner gave one
+  longestRecentRun?: number | null;
+  // Races before the final one, each in its own week
+  races?: ScheduledRace[];
+}
+
+export const PHASE_DESCRIPTIONS: Record<TrainingPhase, string> = {
+  base: 'Base Phase - Focus on easy runs, building consistency',
+  build: 'Mileage Build Phase - Gradual increase, max 10% per week',
+  peak: 'Peak Training Phase - Higher mileage and quality workouts',
+  taper: 'Taper Phase - Reducing volume while maintaining fitness',
+  recovery: 'Recovery Phase - Easy running only while recovering from the last goal race'
+};
+
+export const MAX_WEEKLY_INCREASE = 0.1;
+const CUTBACK_INTERVAL = 4;
+const CUTBACK_FACTOR = 0.8;
+const MIN_START_MILEAGE = 8;
+const MIN_LONG_RUN = 3;
+const VDOT_RANGE: [number, number] = [30, 70];
+// Recovery weeks after an A race rise from the first to the second share of the
+// peak before it, and training resumes at the third
+const RECOVERY_CURVE: [number, number] = [0.5, 0.75];
+const REBUILD_FACTOR = 0.8;
+// Volume of a B race week and the week after it, and of a C race week
+const B_RACE_WEEK = 0.8;
+const B_RECOVERY_WEEK = 0.85;
+const C_RACE_WEEK = 0.9;
+// Races at least this long, in miles, stand in for the week's long run
+const RACE_AS_LONG_RUN = 10;
+
+// Round down to the nearest half mile so rounding never breaks the 10% cap
+function roundDownHalf(value: number): number {
+  return Math.floor(value * 2) / 2;
+}
+
+// Short plans get a shorter taper than the distance would normally call for
+function taperLength(totalWeeks: number, profile: DistanceProfile): number {
+  const available = totalWeeks >= 12 ? 3 : totalWeeks >= 6 ? 2 : 1;
+  return Math.min(profile.taperCurve.length, available);
+}
+
+// Faster runners (higher VDOT) carry more volume; never plan a peak below what the runner already does
+export function recommendedPeakMileage(
+  goalTimeSeconds: number,
+  raceDistance: RaceDistance,
+  currentMileage: number
+): number {
+  const [low, high] = getDistanceProfile(raceDistance).peakMileage;
+  const vdot = goalTimeSeconds > 0 ? calculateVdot(raceDistance.meters, goalTimeSeconds) : VDOT_RANGE[0];
+  const position = Math.min(1, Math.max(0, (vdot - VDOT_RANGE[0]) / (VDOT_RANGE[1] - VDOT_RANGE[0])));
+  return Math.max(roundDownHalf(low + (high - low) * position), currentMileage);
+}
+
+// Roughly 30% of the week plus a mile, which keeps the share higher for low-volume runners
+function longRunFor(weeklyMileage: number, profile: DistanceProfile): number {
+  return Math.min(profile.longRunCap, Math.max(MIN_LONG_RUN, roundDownHalf(weeklyMileage * 0.3 + 1)));
+}
+
+// Long runs grow from the runner's longest recent run by at most a mile a week
+function longRunWithin(longRun: number, longestRecentRun: number | null, weekNumber: number): number {
+  if (longestRecentRun === null) return longRun;
+  return Math.max(MIN_LONG_RUN, Math.min(longRun, roundDownHalf(longestRecentRun + weekNumber)));
+}
+
+// Split the weeks before the taper into base, build and peak blocks
+function assignPhases(totalWeeks: number, profile: DistanceProfile): TrainingPhase[] {
+  const taperWeeks = taperLength(totalWeeks, profile);
+  const trainingWeeks = totalWeeks - taperWeeks;
+  const baseWeeks = trainingWeeks >= 3 ? Math.max(1, Math.round(trainingWeeks * profile.baseShare)) : trainingWeeks;
+  const peakWeeks = trainingWeeks >= 3 ? Math.max(1, Math.round(trainingWeeks * profile.peakShare)) : 0;
+  const buildWeeks = trainingWeeks - baseWeeks - peakWeeks;
+
+  return [
+    ...Array<TrainingPhase>(baseWeeks).fill('base'),
+    ...Array<TrainingPhase>(buildWeeks).fill('build'),
+    ...Array<TrainingPhase>(peakWeeks).fill('peak'),
+    ...Array<TrainingPhase>(taperWeeks).fill('taper')
+  ];
+}
+
+interface TrainingBlock {
+  firstWeek: number;
+  weeks: number;
+  raceDistance: RaceDistance;
+  goalTimeSeconds: number;
+  startMileage: number;
+  // Set for an A race before the final one
+  race?: ScheduledRace;
+}
+
+// Base, build, peak and taper up to one goal race; returns the block's weeks and its peak volume
+function buildBlock(
+  { firstWeek, weeks, raceDistance, goalTimeSeconds, startMileage, race }: TrainingBlock,
+  longestRecentRun: number | null
+): { skeleton: WeekSkeleton[]; peakVolume: number } {
+  const profile = getDistanceProfile(raceDistance);
+  const raceMiles = distanceInMiles(raceDistance);
+  const phases = assignPhases(weeks, profile);
+  const peakTarget = recommendedPeakMileage(goalTimeSeconds, raceDistance, startMileage);
+
+  const skeleton: WeekSkeleton[] = [];
+  // Volume of the last full (non-cutback) week; the 10% cap is measured against it
+  let lastFullWeek = startMileage;
+  let peakVolume = startMileage;
+  let taperIndex = profile.taperCurve.length - phases.filter(phase => phase === 'taper').length;
+
+  phases.forEach((phase, index) => {
+    const weekNumber = firstWeek + index;
+    const isRaceWeek = index === weeks - 1;
+
+    if (phase === 'taper') {
+      const fraction = profile.taperCurve[taperIndex++];
+      const taperMileage = roundDownHalf(peakVolume * fraction);
+      skeleton.push({
+        weekNumber,
+        phase,
+        targetMileage: isRaceWeek ? Math.round((taperMileage + raceMiles) * 10) / 10 : taperMileage,
+        longRun: isRaceWeek ? raceMiles : longRunFor(taperMileage, profile),
+        isCutback: false,
+        isRaceWeek,
+        ...(isRaceWeek && race ? { race } : {})
+      });
+      return;
+    }
+
+    // Every fourth week of the block drops volume so the body can absorb the previous weeks
+    const isCutback = (index + 1) % CUTBACK_INTERVAL === 0 && phases[index + 1] !== 'taper';
+    let targetMileage: number;
+
+    if (isCutback) {
+      targetMileage = roundDownHalf(lastFullWeek * CUTBACK_FACTOR);
+    } else {
+      targetMileage = index === 0
+        ? startMileage
+        : Math.min(peakTarget, roundDownHalf(lastFullWeek * (1 + MAX_WEEKLY_INCREASE)));
+      // Never drop below the previous full week outside of a cutback
+      targetMileage = Math.max(targetMileage, lastFullWeek);
+      lastFullWeek = targetMileage;
+      peakVolume = Math.max(peakVolume, targetMileage);
+    }
+
+    skeleton.push({
+      weekNumber,
+      phase,
+      targetMileage,
+      longRun: longRunWithin(longRunFor(targetMileage, profile), longestRecentRun, weekNumber),
+      isCutback,
+      isRaceWeek
+    });
+  });
+
+  return { skeleton, peakVolume };
+}
+
+// Easy weeks after an A race, rising from half the peak before it
+function recoveryBlock(firstWeek: number, weeks: number, peakVolume: number, profile: DistanceProfile): WeekSkeleton[] {
+  const [start, end] = RECOVERY_CURVE;
+  return Array.from({ length: weeks }, (_, index) => {
+    const targetMileage = Math.max(MIN_START_MILEAGE, roundDownHalf(peakVolume * (start + (end - start) * index / Math.max(1, weeks - 1))));
+    return {
+      weekNumber: firstWeek + index,
+      phase: 'recovery' as const,
+      targetMileage,
+      longRun: longRunFor(targetMileage, profile),
+      isCutback: false,
+      isRaceWeek: false
+    };
+  });
+}
+
+// B races get a lighter week and an easier week after; C races only a slightly
+// lighter week. Long races stand in for the long run. Taper, recovery and
+// cutback weeks are light enough already, so their volume is left alone.
+function fitTuneUpRace(skeleton: WeekSkeleton[], race: ScheduledRace, profile: DistanceProfile): void {
+  const week = skeleton[race.weekNumber - 1];
+  if (!week || week.isRaceWeek) return;
+
+  const raceMiles = distanceInMiles(race.distance);
+  week.race = race;
+  if (week.phase !== 'taper' && week.phase !== 'recovery' && !week.isCutback) {
+    week.targetMileage = roundDownHalf(week.targetMileage * (race.priority === 'B' ? B_RACE_WEEK : C_RACE_WEEK));
+    week.longRun = Math.min(week.longRun, longRunFor(week.targetMileage, profile));
+  }
+  week.targetMileage = Math.max(week.targetMileage, Math.ceil(raceMiles));
+  if (raceMiles >= RACE_AS_LONG_RUN) week.longRun = raceMiles;
+
+  const next = skeleton[race.weekNumber];
+  if (race.priority === 'B' && next && !next.isRaceWeek && !next.race && !next.isCutback && next.phase !== 'taper' && next.phase !== 'recovery') {
+    next.targetMileage = roundDownHalf(next.targetMileage * B_RECOVERY_WEEK);
+    next.longRun = Math.min(next.longRun, longRunFor(next.targetMileage, profile));
+  }
+}
+
+// A plan with earlier A races is built as one block per goal race, each after
+// the first starting with a recovery block; B and C races are fitted in after
+export function buildPlanSkeleton({
+  currentMileage,
+  totalWeeks,
+  goalTimeSeconds,
+  raceDistance,
+  longestRecentRun = null,
+  races = []
+}: PeriodizationInput): WeekSkeleton[] {
+  if (totalWeeks <= 0) {
+    return [];
+  }
+
+  const vdot = goalTimeSeconds > 0 ? calculateVdot(raceDistance.meters, goalTimeSeconds) : VDOT_RANGE[0];
+  const goalRaces = races.filter(race => race.priority === 'A' && race.weekNumber < totalWeeks).sort((a, b) => a.weekNumber - b.weekNumber);
+  const blocks = [
+    ...goalRaces.map(race => ({ lastWeek: race.weekNumber, raceDistance: race.distance, goalTimeSeconds: raceGoalSeconds(race, vdot), race })),
+    { lastWeek: totalWeeks, raceDistance, goalTimeSeconds, race: undefined }
+  ];
+
+  const skeleton: WeekSkeleton[] = [];
+  let startMileage = roundDownHalf(Math.max(currentMileage || 0, MIN_START_MILEAGE));
+  let previous: { race: ScheduledRace; peakVolume: number } | null = null;
+
+  for (const { lastWeek, raceDistance: blockDistance, goalTimeSeconds: blockGoal, race } of blocks) {
+    let firstWeek = skeleton.length + 1;
+    if (previous) {
+      const recovery = Math.min(recoveryWeeks(previous.race.distance), lastWeek - firstWeek);
+      skeleton.push(...recoveryBlock(firstWeek, recovery, previous.peakVolume, getDistanceProfile(previous.race.distance)));
+      startMileage = Math.max(MIN_START_MILEAGE, roundDownHalf(previous.peakVolume * REBUILD_FACTOR));
+      firstWeek += recovery;
+    }
+
+    const block = buildBlock({
+      firstWeek,
+      weeks: lastWeek - firstWeek + 1,
+      raceDistance: blockDistance,
+      goalTimeSeconds: blockGoal,
+      startMileage,
+      race
+    }, longestRecentRun);
+    skeleton.push(...block.skeleton);
+    previous = race ? { race, peakVolume: block.peakVolume } : null;
+  }
+
+  const profile = getDistanceProfile(raceDistance);
+  races
+    .filter(race => race.priority !== 'A')
+    .forEach(race => fitTuneUpRace(skeleton, race, profile));
+
+  return skeleton;
+}
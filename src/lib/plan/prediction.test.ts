@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { assessGoal, predictRaceTime, PredictionInput, riegelSeconds, RIEGEL_EXPONENT } from './prediction';
+import { calculateVdot, predictRaceSeconds } from './paces';
+import { getStandardDistance } from './distances';
+import { EMPTY_RUNNER_PROFILE } from './profile';
+import { formatDuration } from './time';
+
+const fiveK = getStandardDistance('5k');
+const half = getStandardDistance('half');
+const marathon = getStandardDistance('marathon');
+
+function input(overrides: Partial<PredictionInput> = {}): PredictionInput {
+  return { raceDistance: marathon, currentMileage: 40, weeks: 0, profile: null, units: 'mi', ...overrides };
+}
+
+function withRace(meters: typeof half, hours: string, minutes: string) {
+  return { ...EMPTY_RUNNER_PROFILE, recentRaces: [{ distance: meters, time: { hours, minutes, seconds: '0' }, date: '2026-10-01' }] };
+}
+
+describe('riegelSeconds', () => {
+  it('scales time by the distance ratio to the Riegel exponent', () => {
+    expect(riegelSeconds(3600, 10000, 20000)).toBeCloseTo(3600 * Math.pow(2, RIEGEL_EXPONENT), 6);
+    expect(riegelSeconds(3600, 10000, 10000)).toBe(3600);
+  });
+});
+
+describe('predictRaceTime', () => {
+  it('averages the VDOT and Riegel equivalents of a recent race', () => {
+    const prediction = predictRaceTime(input({ profile: withRace(half, '1', '45') }));
+    const vdotEquivalent = predictRaceSeconds(calculateVdot(half.meters, 6300), marathon.meters);
+    const expected = (vdotEquivalent + riegelSeconds(6300, half.meters, marathon.meters)) / 2;
+
+    expect(prediction.basis).toBe('races');
+    expect(Math.abs(prediction.seconds - expected)).toBeLessThanOrEqual(1);
+    expect(prediction.fastest / prediction.seconds).toBeCloseTo(0.97, 3);
+    expect(prediction.slowest / prediction.seconds).toBeCloseTo(1.03, 3);
+  });
+
+  it('uses the best of several recent races', () => {
+    const slow = withRace(half, '2', '0').recentRaces[0];
+    const fast = withRace(half, '1', '45').recentRaces[0];
+    const prediction = predictRaceTime(input({ profile: { ...EMPTY_RUNNER_PROFILE, recentRaces: [slow, fast] } }));
+    expect(prediction.seconds).toBe(predictRaceTime(input({ profile: withRace(half, '1', '45') })).seconds);
+  });
+
+  it.each([
+    [0, 30],
+    [5, 30],
+    [20, 36],
+    [55, 50],
+    [100, 60]
+  ])('estimates from %s miles a week without races as VDOT %s', (currentMileage, vdot) => {
+    const prediction = predictRaceTime(input({ raceDistance: fiveK, currentMileage }));
+    expect(prediction.basis).toBe('mileage');
+    expect(prediction.factors[0]).toContain(`suggests about ${formatDuration(predictRaceSeconds(vdot, fiveK.meters))} today`);
+    expect(prediction.fastest / prediction.seconds).toBeCloseTo(0.92, 3);
+    expect(prediction.slowest / prediction.seconds).toBeCloseTo(1.08, 3);
+  });
+
+  it('adds fitness for up to 16 weeks of training', () => {
+    const seconds = (weeks: number) => predictRaceTime(input({ weeks, profile: withRace(half, '1', '45') })).seconds;
+    expect(seconds(8)).toBeLessThan(seconds(0));
+    expect(seconds(16)).toBeLessThan(seconds(8));
+    expect(seconds(30)).toBe(seconds(16));
+  });
+
+  it('slows the prediction when volume cannot reach what the distance needs', () => {
+    const low = predictRaceTime(input({ currentMileage: 10, weeks: 4, profile: withRace(half, '1', '45') }));
+    const enough = predictRaceTime(input({ currentMileage: 40, weeks: 4, profile: withRace(half, '1', '45') }));
+    expect(low.seconds).toBeGreaterThan(enough.seconds);
+    expect(low.factors.some(factor => factor.includes('short of the 30 mi'))).toBe(true);
+  });
+});
+
+describe('assessGoal', () => {
+  const base = input({ weeks: 12, profile: withRace(half, '1', '45') });
+  const predicted = predictRaceTime(base).seconds;
+  const assess = (goalSeconds: number, overrides: Partial<PredictionInput> = {}) =>
+    assessGoal({ ...base, ...overrides, goalSeconds, raceDate: '2027-03-07' });
+
+  it.each([
+    [0.05, 'realistic'],
+    [-0.019, 'realistic'],
+    [-0.021, 'ambitious'],
+    [-0.069, 'ambitious'],
+    [-0.071, 'unrealistic']
+  ])('calls a goal %s off the prediction %s', (offset, verdict) => {
+    expect(assess(Math.round(predicted * (1 + offset))).verdict).toBe(verdict);
+  });
+
+  it('offers no alternatives for a realistic goal', () => {
+    expect(assess(predicted).alternatives).toEqual([]);
+  });
+
+  it('offers the predicted time for an ambitious goal', () => {
+    const { alternatives } = assess(Math.round(predicted * 0.95));
+    expect(alternatives.map(alternative => alternative.label)).toEqual(['Realistic goal']);
+    expect(alternatives[0].raceDate).toBe('2027-03-07');
+  });
+
+  it('offers a stretch goal, a later race and a shorter distance for an unrealistic goal', () => {
+    // Too little volume for a marathon in 4 weeks; more weeks build it up
+    const early = { currentMileage: 12, weeks: 4 };
+    const goalSeconds = Math.round(predictRaceTime({ ...base, ...early }).seconds * 0.9);
+    const { verdict, alternatives } = assess(goalSeconds, early);
+    expect(verdict).toBe('unrealistic');
+    expect(alternatives.map(alternative => alternative.label)).toEqual(['Realistic goal', 'Stretch goal', 'Later race', 'Run a Half Marathon']);
+    expect(alternatives[3].raceDistance).toEqual(half);
+
+    // The later race is the first week the goal comes within reach
+    const later = alternatives[2];
+    const weeks = early.weeks + differenceInCalendarDays(parseISO(later.raceDate), parseISO('2027-03-07')) / 7;
+    const reach = (candidate: number) => predictRaceTime({ ...base, ...early, weeks: candidate }).seconds * 0.98;
+    expect(reach(weeks)).toBeLessThanOrEqual(goalSeconds);
+    expect(reach(weeks - 1)).toBeGreaterThan(goalSeconds);
+  });
+
+  it('offers no later race when a year of training would not be enough', () => {
+    const labels = assess(Math.round(predicted * 0.6)).alternatives.map(alternative => alternative.label);
+    expect(labels).not.toContain('Later race');
+    expect(labels).toContain('Stretch goal');
+  });
+
+  it('offers no shorter distance below the 5K', () => {
+    const fiveKPrediction = predictRaceTime({ ...base, raceDistance: fiveK }).seconds;
+    const labels = assess(Math.round(fiveKPrediction * 0.85), { raceDistance: fiveK }).alternatives.map(alternative => alternative.label);
+    expect(labels).toContain('Stretch goal');
+    expect(labels.some(label => label.startsWith('Run a'))).toBe(false);
+  });
+});
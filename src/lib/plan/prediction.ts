@@ -0,0 +1,208 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { GoalTime } from './types';
+import { getDistanceProfile, RaceDistance, STANDARD_DISTANCES } from './distances';
+import { calculateVdot, predictRaceSeconds } from './paces';
+import { MAX_WEEKLY_INCREASE } from './periodization';
+import { RunnerProfile } from './profile';
+import { formatDuration, goalTimeToSeconds } from './time';
+import { DistanceUnit, formatDistance } from './units';
+
+// Race-day predictions and goal feasibility, checked before a plan is built.
+// Recent races give the baseline through VDOT and Riegel equivalents; without
+// any, weekly mileage gives a rough one. Training time then adds fitness, and
+// volume too low for the distance takes some away.
+
+export type FeasibilityVerdict = 'realistic' | 'ambitious' | 'unrealistic';
+
+export interface RacePrediction {
+  // Most likely finish time on race day, in seconds
+  seconds: number;
+  // Range the finish is likely to fall in; wider without race results
+  fastest: number;
+  slowest: number;
+  vdot: number;
+  basis: 'races' | 'mileage';
+  // What went into the prediction, one line each
+  factors: string[];
+}
+
+// A goal the runner could switch to; every field is a ready-to-use form value
+export interface GoalAlternative {
+  label: string;
+  description: string;
+  raceDate: string;
+  raceDistance: RaceDistance;
+  goalTime: GoalTime;
+}
+
+export interface Feasibility {
+  verdict: FeasibilityVerdict;
+  message: string;
+  prediction: RacePrediction;
+  alternatives: GoalAlternative[];
+}
+
+export interface PredictionInput {
+  raceDistance: RaceDistance;
+  // Miles per week
+  currentMileage: number;
+  // Weeks of training before race day
+  weeks: number;
+  profile: RunnerProfile | null;
+  // Distances in the factors are written in the runner's unit
+  units: DistanceUnit;
+}
+
+export const RIEGEL_EXPONENT = 1.06;
+// Fitness gained per week of training as a share of VDOT, for at most this many weeks
+const GAIN_PER_WEEK = 0.003;
+const MAX_GAIN_WEEKS = 16;
+// Slowdown for each share of the distance's minimum peak volume the runner cannot reach
+const ENDURANCE_PENALTY = 0.2;
+// Share of weeks that can build volume; the rest are cutbacks and taper
+const BUILD_SHARE = 0.75;
+// Half-width of the likely range around the prediction
+const RACE_RANGE = 0.03;
+const MILEAGE_RANGE = 0.08;
+// Goals at most this much faster than the prediction are realistic, then ambitious
+const REALISTIC_GAP = 0.02;
+const AMBITIOUS_GAP = 0.07;
+const MAX_PLAN_WEEKS = 52;
+const VDOT_RANGE: [number, number] = [30, 60];
+
+// Equivalent time at another distance by Riegel's formula
+export function riegelSeconds(seconds: number, fromMeters: number, toMeters: number): number {
+  return seconds * Math.pow(toMeters / fromMeters, RIEGEL_EXPONENT);
+}
+
+// Rough VDOT from weekly mileage alone: about 30 at 5 miles a week, 50 at 55
+function mileageVdot(currentMileage: number): number {
+  return Math.min(VDOT_RANGE[1], Math.max(VDOT_RANGE[0], 28 + currentMileage * 0.4));
+}
+
+function toGoalTime(seconds: number): GoalTime {
+  const rounded = Math.ceil(seconds / 60) * 60;
+  return {
+    hours: String(Math.floor(rounded / 3600)),
+    minutes: String(Math.floor((rounded % 3600) / 60)),
+    seconds: '0'
+  };
+}
+
+export function predictRaceTime({ raceDistance, currentMileage, weeks, profile, units }: PredictionInput): RacePrediction {
+  const meters = raceDistance.meters;
+  const factors: string[] = [];
+
+  // Each race's VDOT and Riegel equivalents are averaged, and the best race is used
+  const equivalents = (profile?.recentRaces ?? []).map(race => {
+    const raceSeconds = goalTimeToSeconds(race.time);
+    const vdotEquivalent = predictRaceSeconds(calculateVdot(race.distance.meters, raceSeconds), meters);
+    const riegel = riegelSeconds(raceSeconds, race.distance.meters, meters);
+    return { race, raceSeconds, seconds: (vdotEquivalent + riegel) / 2 };
+  }).filter(equivalent => equivalent.raceSeconds > 0);
+  const best = equivalents.sort((a, b) => a.seconds - b.seconds)[0];
+
+  let baseVdot: number;
+  if (best) {
+    baseVdot = calculateVdot(meters, best.seconds);
+    factors.push(`Your ${best.race.distance.label} in ${formatDuration(best.raceSeconds)} is worth about ${formatDuration(best.seconds)} today`);
+  } else {
+    baseVdot = mileageVdot(currentMileage);
+    factors.push(`Without a recent race, ${formatDistance(currentMileage, units)} a week suggests about ${formatDuration(predictRaceSeconds(baseVdot, meters))} today`);
+  }
+
+  const gainWeeks = Math.min(weeks, MAX_GAIN_WEEKS);
+  const vdot = baseVdot * (1 + gainWeeks * GAIN_PER_WEEK);
+  if (gainWeeks > 0) {
+    factors.push(`${weeks} ${weeks === 1 ? 'week' : 'weeks'} of training adds about ${Math.round(gainWeeks * GAIN_PER_WEEK * 1000) / 10}% fitness`);
+  }
+
+  // Volume the runner can build to by race day, against what the distance needs
+  const minimumPeak = getDistanceProfile(raceDistance).peakMileage[0];
+  const reachable = Math.max(currentMileage, 1) * Math.pow(1 + MAX_WEEKLY_INCREASE, Math.floor(weeks * BUILD_SHARE));
+  const shortfall = Math.max(0, 1 - reachable / minimumPeak);
+  if (shortfall > 0) {
+    factors.push(`Building safely from ${formatDistance(currentMileage, units)} a week reaches about ${formatDistance(reachable, units, 0)}, short of the ${formatDistance(minimumPeak, units, 0)} the distance needs`);
+  }
+
+  const seconds = predictRaceSeconds(vdot, meters) * (1 + shortfall * ENDURANCE_PENALTY);
+  const range = best ? RACE_RANGE : MILEAGE_RANGE;
+  return {
+    seconds: Math.round(seconds),
+    fastest: Math.round(seconds * (1 - range)),
+    slowest: Math.round(seconds * (1 + range)),
+    vdot: Math.round(calculateVdot(meters, seconds) * 10) / 10,
+    basis: best ? 'races' : 'mileage',
+    factors
+  };
+}
+
+// Fewest weeks of training that bring the prediction within reach of the goal, or null within a year
+function weeksNeeded(input: PredictionInput, goalSeconds: number): number | null {
+  for (let weeks = input.weeks + 1; weeks <= MAX_PLAN_WEEKS; weeks++) {
+    if (predictRaceTime({ ...input, weeks }).seconds * (1 - REALISTIC_GAP) <= goalSeconds) return weeks;
+  }
+  return null;
+}
+
+// Compare the goal with the prediction and suggest goals that fit better
+export function assessGoal(input: PredictionInput & { goalSeconds: number; raceDate: string }): Feasibility {
+  const { raceDistance, goalSeconds, raceDate, weeks } = input;
+  const prediction = predictRaceTime(input);
+  const gap = (prediction.seconds - goalSeconds) / prediction.seconds;
+  const verdict: FeasibilityVerdict = gap <= REALISTIC_GAP ? 'realistic' : gap <= AMBITIOUS_GAP ? 'ambitious' : 'unrealistic';
+  const predicted = formatDuration(prediction.seconds);
+
+  const message = {
+    realistic: `${formatDuration(goalSeconds)} is within reach: we predict about ${predicted}.`,
+    ambitious: `${formatDuration(goalSeconds)} is ambitious: we predict about ${predicted}, so everything would need to go well.`,
+    unrealistic: `${formatDuration(goalSeconds)} is unlikely in ${weeks} ${weeks === 1 ? 'week' : 'weeks'}: we predict about ${predicted}.`
+  }[verdict];
+
+  const alternatives: GoalAlternative[] = [];
+  if (verdict !== 'realistic') {
+    alternatives.push({
+      label: 'Realistic goal',
+      description: `Aim for ${formatDuration(Math.ceil(prediction.seconds / 60) * 60)} on the same day`,
+      raceDate,
+      raceDistance,
+      goalTime: toGoalTime(prediction.seconds)
+    });
+  }
+  if (verdict === 'unrealistic') {
+    alternatives.push({
+      label: 'Stretch goal',
+      description: `Aim for ${formatDuration(Math.ceil(prediction.fastest / 60) * 60)} if training goes really well`,
+      raceDate,
+      raceDistance,
+      goalTime: toGoalTime(prediction.fastest)
+    });
+
+    const needed = weeksNeeded(input, goalSeconds);
+    if (needed !== null) {
+      const laterDate = format(addDays(parseISO(raceDate), (needed - weeks) * 7), 'yyyy-MM-dd');
+      alternatives.push({
+        label: 'Later race',
+        description: `Keep ${formatDuration(goalSeconds)} for a race around ${format(parseISO(laterDate), 'MMMM d, yyyy')}, after ${needed} weeks of training`,
+        raceDate: laterDate,
+        raceDistance,
+        goalTime: toGoalTime(goalSeconds)
+      });
+    }
+
+    // The next shorter standard distance, at the goal's effort
+    const shorter = STANDARD_DISTANCES.filter(distance => distance.meters < raceDistance.meters).pop();
+    if (shorter) {
+      const shorterPrediction = predictRaceTime({ ...input, raceDistance: shorter });
+      alternatives.push({
+        label: `Run a ${shorter.label}`,
+        description: `A ${shorter.label} on the same day, aiming for ${formatDuration(Math.ceil(shorterPrediction.seconds / 60) * 60)}`,
+        raceDate,
+        raceDistance: shorter,
+        goalTime: toGoalTime(shorterPrediction.seconds)
+      });
+    }
+  }
+
+  return { verdict, message, prediction, alternatives };
+}
@@ -0,0 +1,165 @@
+import { format, parseISO } from 'date-fns';
+import { GoalTime } from './types';
+import { RaceDistance, STANDARD_DISTANCES } from './distances';
+import { calculateVdot } from './paces';
+import { formatDuration, goalTimeToSeconds } from './time';
+import { DistanceUnit, formatDistance } from './units';
+
+// What the runner tells us about themselves beyond the race and their weekly
+// volume. Every field is optional; generation uses whatever is filled in.
+// Distances are stored in miles like the plan itself; the form converts.
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday'
+};
+
+export interface RaceResult {
+  distance: RaceDistance;
+  time: GoalTime;
+  date: string; // yyyy-MM-dd
+}
+
+export interface RunnerProfile {
+  age: number | null;
+  yearsRunning: number | null;
+  recentRaces: RaceResult[];
+  // Longest single run in the last couple of months, in miles
+  longestRecentRun: number | null;
+  // Days the runner can run; empty means any day
+  availableDays: Weekday[];
+  longRunDay: Weekday | null;
+  // Most minutes the runner has for a workout on a given day; days left out are unlimited
+  maxMinutes: Partial<Record<Weekday, number>>;
+  injuryHistory: string;
+  hasTrack: boolean;
+  hasTreadmill: boolean;
+}
+
+export const EMPTY_RUNNER_PROFILE: RunnerProfile = {
+  age: null,
+  yearsRunning: null,
+  recentRaces: [],
+  longestRecentRun: null,
+  availableDays: [],
+  longRunDay: null,
+  maxMinutes: {},
+  injuryHistory: '',
+  hasTrack: false,
+  hasTreadmill: false
+};
+
+export const MAX_RECENT_RACES = 5;
+export const MAX_INJURY_HISTORY_LENGTH = 1000;
+// Fewer days than this cannot hold a training week
+const MIN_AVAILABLE_DAYS = 2;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isWeekday(value: unknown): value is Weekday {
+  return WEEKDAYS.includes(value as Weekday);
+}
+
+function isOptionalNumberInRange(value: unknown, min: number, max: number): boolean {
+  return value === null || (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max);
+}
+
+export function weekdayOf(date: string): Weekday {
+  return format(parseISO(date), 'EEEE').toLowerCase() as Weekday;
+}
+
+// Problems with a profile before it is used or saved; empty when the profile is valid
+export function validateRunnerProfile(profile: RunnerProfile): string[] {
+  const issues: string[] = [];
+  if (!isOptionalNumberInRange(profile.age, 10, 100)) issues.push('Age must be between 10 and 100');
+  if (!isOptionalNumberInRange(profile.yearsRunning, 0, 80)) issues.push('Years running must be between 0 and 80');
+  if (!isOptionalNumberInRange(profile.longestRecentRun, 0, 100)) issues.push('Longest recent run must be between 0 and 100 miles');
+
+  if (!Array.isArray(profile.recentRaces) || profile.recentRaces.length > MAX_RECENT_RACES) {
+    issues.push(`Add at most ${MAX_RECENT_RACES} recent races`);
+  } else {
+    profile.recentRaces.forEach((race, index) => {
+      const label = `Race ${index + 1}`;
+      if (!race || !STANDARD_DISTANCES.some(distance => distance.id === race.distance?.id && distance.meters === race.distance.meters)) {
+        issues.push(`${label} needs a race distance`);
+        return;
+      }
+      if (!race.time || goalTimeToSeconds(race.time) <= 0) issues.push(`${label} needs a finish time`);
+      if (typeof race.date !== 'string' || !DATE_PATTERN.test(race.date)) issues.push(`${label} date must be in YYYY-MM-DD format`);
+    });
+  }
+
+  if (!Array.isArray(profile.availableDays) || !profile.availableDays.every(isWeekday)) {
+    issues.push('Available days must be days of the week');
+  } else if (profile.availableDays.length > 0 && profile.availableDays.length < MIN_AVAILABLE_DAYS) {
+    issues.push(`Choose at least ${MIN_AVAILABLE_DAYS} days you can run`);
+  }
+  if (profile.longRunDay !== null && !isWeekday(profile.longRunDay)) {
+    issues.push('Long run day must be a day of the week');
+  } else if (profile.longRunDay && profile.availableDays.length > 0 && !profile.availableDays.includes(profile.longRunDay)) {
+    issues.push('Long run day must be one of the days you can run');
+  }
+  if (!profile.maxMinutes || typeof profile.maxMinutes !== 'object' ||
+    !Object.entries(profile.maxMinutes).every(([day, minutes]) => isWeekday(day) && minutes !== null && isOptionalNumberInRange(minutes, 15, 600))) {
+    issues.push('Time available each day must be between 15 and 600 minutes');
+  }
+  if (typeof profile.injuryHistory !== 'string' || profile.injuryHistory.length > MAX_INJURY_HISTORY_LENGTH) {
+    issues.push(`Injury history must be ${MAX_INJURY_HISTORY_LENGTH} characters or fewer`);
+  }
+  if (typeof profile.hasTrack !== 'boolean' || typeof profile.hasTreadmill !== 'boolean') {
+    issues.push('Track and treadmill access must be true or false');
+  }
+  return issues;
+}
+
+// The best VDOT among the runner's recent races, or null without any
+export function bestRecentVdot(profile: RunnerProfile): number | null {
+  const vdots = profile.recentRaces.map(race => calculateVdot(race.distance.meters, goalTimeToSeconds(race.time)));
+  return vdots.length > 0 ? Math.round(Math.max(...vdots) * 10) / 10 : null;
+}
+
+// Days the runner can run, in week order; every day when none were chosen
+export function runningDays(profile: RunnerProfile | null): Weekday[] {
+  return profile && profile.availableDays.length > 0
+    ? WEEKDAYS.filter(day => profile.availableDays.includes(day))
+    : WEEKDAYS;
+}
+
+// The profile as prompt lines for the week generator; empty when nothing was filled in
+export function describeRunnerProfile(profile: RunnerProfile, unit: DistanceUnit): string[] {
+  const lines: string[] = [];
+  if (profile.age !== null) lines.push(`Age: ${profile.age}`);
+  if (profile.yearsRunning !== null) lines.push(`Years running: ${profile.yearsRunning}`);
+  if (profile.recentRaces.length > 0) {
+    const races = profile.recentRaces.map(race =>
+      `${race.distance.label} in ${formatDuration(goalTimeToSeconds(race.time))} on ${race.date}`
+    );
+    lines.push(`Recent races: ${races.join('; ')} (best VDOT ${bestRecentVdot(profile)})`);
+  }
+  if (profile.longestRecentRun !== null) {
+    lines.push(`Longest recent run: ${formatDistance(profile.longestRecentRun, unit)} - build long runs up from here`);
+  }
+  if (profile.availableDays.length > 0) {
+    lines.push(`Can run on: ${runningDays(profile).map(day => WEEKDAY_LABELS[day]).join(', ')} - every other day must be rest or optional cross-training`);
+  }
+  if (profile.longRunDay) lines.push(`Long run day: ${WEEKDAY_LABELS[profile.longRunDay]}`);
+  const limits = WEEKDAYS
+    .filter(day => profile.maxMinutes[day] !== undefined)
+    .map(day => `${WEEKDAY_LABELS[day]} ${profile.maxMinutes[day]} min`);
+  if (limits.length > 0) lines.push(`Most time available for a workout: ${limits.join(', ')}`);
+  if (profile.injuryHistory.trim()) {
+    lines.push(`Injury history: ${profile.injuryHistory.trim()} - avoid workouts likely to aggravate it`);
+  }
+  const facilities = [profile.hasTrack && 'a track', profile.hasTreadmill && 'a treadmill'].filter(Boolean);
+  if (facilities.length > 0) lines.push(`Has access to ${facilities.join(' and ')}`);
+  return lines;
+}
@@ -0,0 +1,27 @@
+import { getDocument, setDocument } from '../firebase/firebaseUtils';
+import { EMPTY_RUNNER_PROFILE, RunnerProfile, validateRunnerProfile } from './profile';
+
+// A signed-in runner's profile lives in their own Firestore collection, so the
+// form can be filled in for them when they come back to make another plan.
+
+const PROFILE_ID = 'runner';
+
+export function runnerProfileCollection(userId: string): string {
+  return `users/${userId}/profile`;
+}
+
+export async function saveRunnerProfile(userId: string, profile: RunnerProfile): Promise<void> {
+  const issues = validateRunnerProfile(profile);
+  if (issues.length > 0) {
+    throw new Error(issues.join('. '));
+  }
+  await setDocument(runnerProfileCollection(userId), PROFILE_ID, profile);
+}
+
+// Fields added since the profile was saved are filled in with their defaults
+export async function getRunnerProfile(userId: string): Promise<RunnerProfile | null> {
+  const document = await getDocument(runnerProfileCollection(userId), PROFILE_ID);
+  if (!document) return null;
+  const { id: _id, ...profile } = document;
+  return { ...EMPTY_RUNNER_PROFILE, ...(profile as Partial<RunnerProfile>) };
+}
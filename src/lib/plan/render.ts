@@ -0,0 +1,122 @@
+import { format, parseISO } from 'date-fns';
+import { Day, PaceRange, Plan, Week, Workout, WorkoutType } from './types';
+import { formatDuration } from './time';
+import { DistanceUnit, formatDistance, paceInUnit, toUnit, UNIT_NAMES } from './units';
+
+// Renderers that turn the structured plan into text for the UI, PDF and email.
+// Everything is stored in miles and converted to the runner's unit here.
+
+export const WORKOUT_LABELS: Record<WorkoutType, string> = {
+  rest: 'Rest',
+  cross_training: 'Cross-Training',
+  recovery: 'Recovery Run',
+  easy: 'Easy Run',
+  long: 'Long Run',
+  tempo: 'Tempo Run',
+  intervals: 'Intervals',
+  race: 'Race'
+};
+
+// Takes a pace in seconds per mile and formats it per mile or per km
+export function formatPaceRange(pacePerMile: PaceRange, unit: DistanceUnit = 'mi'): string {
+  const pace = paceInUnit(pacePerMile, unit);
+  return pace.fast === pace.slow
+    ? `${formatDuration(pace.fast)}/${unit}`
+    : `${formatDuration(pace.fast)}-${formatDuration(pace.slow)}/${unit}`;
+}
+
+export function formatDayDate(date: string, pattern = 'EEEE, MMMM d'): string {
+  return format(parseISO(date), pattern);
+}
+
+// One-line summary such as "6 mi @ 8:30-9:00/mi" or "6 x 0.5 mi @ 7:00/mi, 6 mi total"
+export function summarizeWorkout(workout: Workout, unit: DistanceUnit = 'mi'): string {
+  const parts: string[] = [];
+
+  if (workout.intervals && workout.intervals.length > 0) {
+    parts.push(...workout.intervals.map(interval => {
+      const pace = interval.pace ? ` @ ${formatPaceRange(interval.pace, unit)}` : '';
+      const recovery = interval.recovery ? ` (${interval.recovery})` : '';
+      return `${interval.repeats} x ${formatDistance(interval.distance, unit, 2)}${pace}${recovery}`;
+    }));
+    if (workout.distance !== null) {
+      parts.push(`${formatDistance(workout.distance, unit)} total`);
+    }
+  } else if (workout.distance !== null) {
+    parts.push(workout.pace
+      ? `${formatDistance(workout.distance, unit)} @ ${formatPaceRange(workout.pace, unit)}`
+      : formatDistance(workout.distance, unit));
+  }
+  if (workout.durationMinutes !== null) {
+    parts.push(`${workout.durationMinutes} min`);
+  }
+
+  return parts.join(', ');
+}
+
+export function renderDayMarkdown(day: Day, unit: DistanceUnit = 'mi'): string {
+  const { workout } = day;
+  const lines = [`**${formatDayDate(day.date)}: ${workout.title}**`, ''];
+  const summary = summarizeWorkout(workout, unit);
+
+  if (summary) lines.push(`- ${summary}`);
+  if (workout.description) lines.push(`- ${workout.description}`);
+  if (workout.notes) lines.push(`- ${workout.notes}`);
+
+  return lines.join('\n');
+}
+
+export function formatWeeklyVolume(miles: number, unit: DistanceUnit): string {
+  return `${toUnit(miles, unit)} ${UNIT_NAMES[unit].plural}`;
+}
+
+export function renderWeekMarkdown(week: Week, unit: DistanceUnit = 'mi'): string {
+  const sections = [
+    `### Week ${week.weekNumber} ###`,
+    `Weekly Summary:\nTotal ${unit === 'km' ? 'Distance' : 'Mileage'}: ${formatWeeklyVolume(week.totalMileage, unit)}`,
+    ...week.days.map(day => renderDayMarkdown(day, unit)),
+    `Week ${week.weekNumber} Complete! Remember to: ${week.tips}`
+  ];
+
+  if (week.compromises?.length) {
+    sections.push(`Calendar Compromises:\n${week.compromises.map(compromise => `- ${compromise}`).join('\n')}`);
+  }
+
+  if (week.raceDayTips) {
+    sections.push(`Race Day Tips: ${week.raceDayTips}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+export function renderPlanMarkdown(plan: Plan): string {
+  return plan.weeks.map(week => renderWeekMarkdown(week, plan.units)).join('\n\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// HTML tables for the completion email, one per week
+export function renderPlanHtml(plan: Plan): string {
+  return plan.weeks.map(week => `
+    <h2 style="color: #1e3a8a; margin-top: 24px;">Week ${week.weekNumber} &mdash; ${formatWeeklyVolume(week.totalMileage, plan.units)}</h2>
+    <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+      ${week.days.map(day => `
+        <tr style="border-bottom: 1px solid #e5e7eb;">
+          <td style="padding: 6px; white-space: nowrap; vertical-align: top;">${escapeHtml(formatDayDate(day.date, 'EEE, MMM d'))}</td>
+          <td style="padding: 6px; vertical-align: top;">
+            <strong>${escapeHtml(day.workout.title)}</strong>
+            ${summarizeWorkout(day.workout, plan.units) ? `<br />${escapeHtml(summarizeWorkout(day.workout, plan.units))}` : ''}
+            ${day.workout.description ? `<br /><span style="color: #4b5563;">${escapeHtml(day.workout.description)}</span>` : ''}
+          </td>
+        </tr>`).join('')}
+    </table>
+    <p style="color: #4b5563;">${escapeHtml(week.tips)}</p>
+    ${week.raceDayTips ? `<p><strong>Race Day Tips:</strong> ${escapeHtml(week.raceDayTips)}</p>` : ''}
+  `).join('');
+}
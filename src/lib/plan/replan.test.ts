@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, format } from 'date-fns';
+import { applyAdaptation, applyConstraints, planAdaptation } from './replan';
+import { snapshotPlan } from './revisions';
+import { loadPlanState, savePlanState } from './state';
+import { buildPlanSkeleton } from './periodization';
+import { calculatePaceZones } from './paces';
+import { getStandardDistance } from './distances';
+import { WorkoutLogEntry } from './log';
+import { Day, PlanState } from './types';
+import { testPlanState, testWeek } from '@/test/fixtures';
+
+const marathon = getStandardDistance('marathon');
+// Week 3 is under way, so weeks 1 and 2 are finished and 4 to 6 have not started
+const TODAY = '2026-11-20';
+
+function run(date: string, type: 'easy' | 'long', distance: number): Day {
+  return { date, workout: { type, title: type, distance, pace: null, durationMinutes: null, intervals: null, description: '', notes: null } };
+}
+
+// A finished six-week plan starting Monday 2 November 2026, with an easy run
+// on Tuesdays and a long run on Sundays
+function finishedPlan(): PlanState {
+  const skeleton = buildPlanSkeleton({ currentMileage: 25, totalWeeks: 6, goalTimeSeconds: 4 * 3600, raceDistance: marathon });
+  const weeks = Object.fromEntries(skeleton.map(({ weekNumber }) => {
+    const monday = addDays(new Date('2026-11-02T00:00:00'), (weekNumber - 1) * 7);
+    const date = (offset: number) => format(addDays(monday, offset), 'yyyy-MM-dd');
+    return [weekNumber, testWeek(weekNumber, {
+      startDate: date(0),
+      endDate: date(6),
+      totalMileage: 12,
+      days: [run(date(1), 'easy', 4), run(date(6), 'long', 8)]
+    })];
+  }));
+  return testPlanState({
+    status: 'completed',
+    raceDate: '2026-12-13',
+    totalWeeks: 6,
+    currentWeek: 6,
+    skeleton,
+    paceZones: calculatePaceZones(4 * 3600, marathon),
+    weeks
+  });
+}
+
+// Every run of weeks 1 and 2 skipped
+function skippedLog(state: PlanState): Record<string, WorkoutLogEntry> {
+  return Object.fromEntries([1, 2].flatMap(weekNumber => state.weeks[weekNumber].days.map(day => [day.date, {
+    planId: 'replan',
+    weekNumber,
+    date: day.date,
+    status: 'skipped' as const,
+    distance: null,
+    durationSeconds: null,
+    averageHeartRate: null,
+    rpe: null,
+    notes: '',
+    loggedAt: '2026-11-16T00:00:00.000Z'
+  }])));
+}
+
+describe('planAdaptation', () => {
+  it('scales back only the weeks that have not started and says why', () => {
+    const state = finishedPlan();
+
+    const { adaptation } = planAdaptation(state, skippedLog(state), TODAY)!;
+
+    expect(adaptation.fromWeek).toBe(4);
+    expect(adaptation.adjustments.length).toBeGreaterThan(0);
+    expect(adaptation.adjustments.every(adjustment => adjustment.weekNumber >= 4)).toBe(true);
+    expect(adaptation.adjustments[0].targetMileage).toBeLessThan(adaptation.adjustments[0].previousMileage);
+    expect(adaptation.explanations[0]).toMatch(/^Week 4 reduced \d+% \(.+ to .+\) after missing weeks 1 and 2/);
+  });
+
+  it('leaves the weeks alone when nothing has been logged', () => {
+    const { adaptation } = planAdaptation(finishedPlan(), {}, TODAY)!;
+
+    expect(adaptation.adjustments).toEqual([]);
+    expect(adaptation.explanations).toEqual(['No workouts have been logged yet, so the remaining weeks are unchanged']);
+  });
+
+  it('has nothing to change once the last week has started', () => {
+    expect(planAdaptation(finishedPlan(), {}, '2026-12-08')).toBeNull();
+  });
+});
+
+describe('applyAdaptation', () => {
+  it('clears the adjusted weeks for regeneration and keeps the finished ones', async () => {
+    const state = finishedPlan();
+    await savePlanState('replan-apply', state);
+    const { adaptation, paceZones } = planAdaptation(state, skippedLog(state), TODAY)!;
+
+    const { state: updated, applied } = await applyAdaptation('replan-apply', adaptation, paceZones);
+
+    expect(applied).toBe(true);
+    for (const weekNumber of [1, 2, 3]) {
+      expect(updated?.weeks[weekNumber]).toEqual(state.weeks[weekNumber]);
+    }
+    for (const { weekNumber } of adaptation.adjustments) {
+      expect(updated?.weeks[weekNumber]).toBeUndefined();
+      expect(updated?.weekHistory[weekNumber]).toHaveLength(1);
+    }
+    expect(updated?.status).toBe('in_progress');
+    expect(updated?.restorePoint?.weeks).toEqual(state.weeks);
+  });
+});
+
+const BLACKOUT = { blackouts: [{ startDate: '2026-11-03', endDate: '2026-11-04', reason: 'Work trip' }], travel: [], commitments: [] };
+
+describe('applyConstraints', () => {
+  it('refuses a new calendar while an earlier change is being regenerated', async () => {
+    const finished = testPlanState({ status: 'completed', weeks: { 1: testWeek(1) } });
+    await savePlanState('constraints-busy', {
+      ...finished,
+      status: 'in_progress',
+      restorePoint: snapshotPlan(finished)
+    });
+
+    const { saved, affected } = await applyConstraints('constraints-busy', BLACKOUT, '2026-11-01');
+
+    expect(saved).toBe(false);
+    expect(affected).toEqual([]);
+    expect((await loadPlanState('constraints-busy'))?.constraints.blackouts).toEqual([]);
+  });
+
+  it('saves the calendar on a plan still generating for the first time', async () => {
+    await savePlanState('constraints-first', testPlanState());
+
+    const { saved, affected } = await applyConstraints('constraints-first', BLACKOUT, '2026-11-01');
+
+    expect(saved).toBe(true);
+    expect(affected).toEqual([]);
+    expect((await loadPlanState('constraints-first'))?.constraints).toEqual(BLACKOUT);
+  });
+});
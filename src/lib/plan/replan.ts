@@ -0,0 +1,395 @@
+import { format } from 'date-fns';
+import { Adaptation, PlanState, Week, WeekAdjustment } from './types';
+import { WorkoutLogEntry } from './log';
+import { checkContext, getWeekDates } from './generator';
+import { calculatePaceZones, MAX_VDOT, MIN_VDOT, predictRaceSeconds } from './paces';
+import { buildPlanSkeleton, MAX_WEEKLY_INCREASE } from './periodization';
+import { archiveWeek, beginRegeneration, snapshotPlan } from './revisions';
+import { updatePlanState } from './state';
+import { formatDistance } from './units';
+import { hasConstraintsBetween, PlanConstraints } from './constraints';
+import { validateWeek } from './validation';
+import { describeSeasonRace, raceResultVdot, ScheduledRace } from './season';
+import { formatDuration, goalTimeToSeconds } from './time';
+import { distanceInMiles } from './distances';
+
+// Re-planning from the workout log. Recent compliance decides how much the
+// remaining weeks are scaled back, and hard workouts run well off their planned
+// pace move the pace zones. Weeks that have already started are never changed;
+// the re-planned weeks are cleared and regenerated by the job worker.
+
+// Completed weeks looked at when judging recent volume and missed runs
+const RECENT_WEEKS = 2;
+// Completed weeks looked at when comparing actual and planned paces
+const PACE_WEEKS = 4;
+// Each re-planned week gets this much closer to the original volume
+const RECOVERY_PER_WEEK = 0.05;
+// Largest pace zone change from one re-plan, from training runs or from a race result
+const MAX_PACE_CHANGE = 0.05;
+const MAX_RACE_PACE_CHANGE = 0.08;
+// Race results closer than this to the current zones leave them alone
+const MIN_RACE_PACE_CHANGE = 0.01;
+const MIN_PACE_RUNS = 2;
+const MIN_LONG_RUN = 3;
+const ILLNESS_PATTERN = /\b(sick|ill|illness|flu|covid|fever|injury|injured|hurt|pain)\b/i;
+// Workouts with a prescribed pace that reflects fitness rather than restraint
+const PACED_WORKOUTS = ['long', 'tempo', 'race'];
+
+interface VolumeSignal {
+  factor: number;
+  reason: string;
+}
+
+// A signed fraction to move the pace zones by, and why
+interface FitnessSignal {
+  change: number;
+  reason: string;
+}
+
+const NUMBER_WORDS = ['no', 'one', 'two', 'three', 'four', 'five', 'six'];
+
+function countWords(count: number, noun: string): string {
+  return `${NUMBER_WORDS[count] ?? count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function roundDownHalf(value: number): number {
+  return Math.floor(value * 2) / 2;
+}
+
+function sortedWeeks(state: PlanState): Week[] {
+  return Object.values(state.weeks).sort((a, b) => a.weekNumber - b.weekNumber);
+}
+
+// Reasons to cut the remaining volume, from what the last few weeks' log shows
+function volumeSignals(recent: Week[], entries: Record<string, WorkoutLogEntry>): VolumeSignal[] {
+  const signals: VolumeSignal[] = [];
+  const recentEntries = recent.flatMap(week => week.days.map(day => entries[day.date]).filter(Boolean));
+
+  if (recentEntries.some(entry => ILLNESS_PATTERN.test(entry.notes))) {
+    signals.push({ factor: 0.75, reason: 'illness or injury noted in your log' });
+  }
+
+  const missedWeeks = recent.filter(week => !week.days.some(day => {
+    const status = entries[day.date]?.status;
+    return day.workout.type !== 'rest' && (status === 'done' || status === 'partial');
+  }));
+  if (missedWeeks.length > 0) {
+    signals.push({
+      factor: 0.8,
+      reason: `missing week${missedWeeks.length === 1 ? '' : 's'} ${missedWeeks.map(week => week.weekNumber).join(' and ')}`
+    });
+  }
+
+  const missedLongRuns = recent.flatMap(week => week.days).filter(day => {
+    if (day.workout.type !== 'long') return false;
+    const entry = entries[day.date];
+    if (!entry || entry.status === 'skipped') return true;
+    return entry.status === 'partial' && (entry.distance ?? 0) < (day.workout.distance ?? 0) * 0.75;
+  }).length;
+  if (missedLongRuns >= 2) {
+    signals.push({ factor: 0.85, reason: countWords(missedLongRuns, 'missed long run') });
+  }
+
+  const planned = recent.reduce((total, week) => total + week.totalMileage, 0);
+  const actual = recentEntries.reduce((total, entry) => total + (entry.status === 'skipped' ? 0 : entry.distance ?? 0), 0);
+  const compliance = planned > 0 ? actual / planned : 1;
+  if (compliance < 0.85) {
+    signals.push({
+      factor: compliance < 0.7 ? 0.85 : 0.9,
+      reason: `running ${Math.round(compliance * 100)}% of planned mileage over the last ${countWords(recent.length, 'week')}`
+    });
+  }
+
+  return signals.sort((a, b) => a.factor - b.factor);
+}
+
+// Signed fraction by which paced workouts were run faster (positive) or slower
+// (negative) than planned, when the runner's effort says it reflects fitness
+function paceSignal(weeks: Week[], entries: Record<string, WorkoutLogEntry>): { change: number; runs: number; deviation: number } | null {
+  const runs = weeks.flatMap(week => week.days).flatMap(day => {
+    const entry = entries[day.date];
+    const pace = day.workout.pace;
+    if (!pace || !PACED_WORKOUTS.includes(day.workout.type) || entry?.status !== 'done' || !entry.distance || !entry.durationSeconds) {
+      return [];
+    }
+    const actual = entry.durationSeconds / entry.distance;
+    const deviation = actual < pace.fast
+      ? (pace.fast - actual) / pace.fast
+      : actual > pace.slow ? -(actual - pace.slow) / pace.slow : 0;
+    return [{ deviation, rpe: entry.rpe }];
+  });
+  if (runs.length < MIN_PACE_RUNS) return null;
+
+  const deviation = runs.reduce((total, run) => total + run.deviation, 0) / runs.length;
+  const rated = runs.filter(run => run.rpe !== null);
+  const rpe = rated.length > 0 ? rated.reduce((total, run) => total + (run.rpe as number), 0) / rated.length : null;
+
+  // Faster at a comfortable effort means fitter; slower only counts when it felt hard
+  if (deviation >= 0.03 && (rpe === null || rpe <= 7)) {
+    return { change: Math.min(deviation, MAX_PACE_CHANGE), runs: runs.length, deviation };
+  }
+  if (deviation <= -0.05 && rpe !== null && rpe >= 8) {
+    return { change: -Math.min(-deviation, MAX_PACE_CHANGE), runs: runs.length, deviation };
+  }
+  return null;
+}
+
+// The latest race in the given weeks with a logged finish time, as a fitness
+// check. C races are run on tired legs, so they only ever speed the zones up.
+function raceSignal(state: PlanState, weeks: Week[], entries: Record<string, WorkoutLogEntry>): FitnessSignal | null {
+  const result = state.races
+    .filter(race => weeks.some(week => race.date >= week.startDate && race.date <= week.endDate))
+    .map(race => ({ race, entry: entries[race.date] }))
+    .filter(({ entry }) => entry?.status === 'done' && !!entry.durationSeconds)
+    .pop();
+  if (!result) return null;
+
+  const seconds = result.entry.durationSeconds as number;
+  const vdot = raceResultVdot(result.race, seconds);
+  const change = vdot / state.paceZones.vdot - 1;
+  if (Math.abs(change) < MIN_RACE_PACE_CHANGE || (result.race.priority === 'C' && change < 0)) return null;
+  return {
+    change: Math.max(-MAX_RACE_PACE_CHANGE, Math.min(MAX_RACE_PACE_CHANGE, change)),
+    reason: `your ${describeSeasonRace(result.race)} in ${formatDuration(seconds)} is worth a VDOT of ${vdot}`
+  };
+}
+
+// Work out how the remaining weeks should change, or null when every week has already started.
+// `today` is the runner's local date (yyyy-MM-dd).
+export function planAdaptation(
+  state: PlanState,
+  entries: Record<string, WorkoutLogEntry>,
+  today: string
+): { adaptation: Adaptation; paceZones: PlanState['paceZones'] } | null {
+  const weekStart = (weekNumber: number) => format(getWeekDates(state, weekNumber).startDate, 'yyyy-MM-dd');
+  const remaining = state.skeleton.filter(week => weekStart(week.weekNumber) > today);
+  if (remaining.length === 0) return null;
+
+  const completed = sortedWeeks(state).filter(week => week.endDate < today);
+  const hasLog = Object.keys(entries).length > 0;
+  const signals = hasLog ? volumeSignals(completed.slice(-RECENT_WEEKS), entries) : [];
+  const pace = hasLog ? paceSignal(completed.slice(-PACE_WEEKS), entries) : null;
+  const percent = pace ? Math.round(Math.abs(pace.deviation) * 100) : 0;
+  // A race result outweighs how the training runs went
+  const fitness: FitnessSignal | null = (hasLog ? raceSignal(state, completed.slice(-PACE_WEEKS), entries) : null) ?? (pace && {
+    change: pace.change,
+    reason: pace.change > 0
+      ? `${countWords(pace.runs, 'paced run')} averaged ${percent}% faster than planned at a comfortable effort`
+      : `${countWords(pace.runs, 'paced run')} averaged ${percent}% slower than planned at a hard effort`
+  });
+  // Never speed paces up while cutting volume for illness or missed training
+  const paceChange = fitness && !(fitness.change > 0 && signals.length > 0) ? fitness : null;
+
+  let paceZones = state.paceZones;
+  let paceReason: string | null = null;
+  if (paceChange) {
+    const vdot = Math.min(MAX_VDOT, Math.max(MIN_VDOT, state.paceZones.vdot * (1 + paceChange.change)));
+    paceZones = calculatePaceZones(predictRaceSeconds(vdot, state.raceDistance.meters), state.raceDistance);
+    paceReason = paceChange.reason;
+  }
+
+  const factor = signals.length > 0 ? signals[0].factor : 1;
+  const volumeReason = signals.map(signal => signal.reason).join(' and ');
+  const adjustments: WeekAdjustment[] = [];
+  const explanations: string[] = [];
+  // Last adjusted non-cutback week, which the 10% cap is measured against
+  let lastFullWeek: number | null = null;
+
+  remaining.forEach((week, index) => {
+    let targetMileage = week.targetMileage;
+    if (factor < 1 && !week.isRaceWeek && !week.race) {
+      const ratio = Math.min(1, factor + RECOVERY_PER_WEEK * index);
+      targetMileage = Math.min(week.targetMileage, roundDownHalf(week.targetMileage * ratio));
+      if (!week.isCutback && week.phase !== 'taper' && week.phase !== 'recovery') {
+        if (lastFullWeek !== null) {
+          targetMileage = Math.min(targetMileage, roundDownHalf(lastFullWeek * (1 + MAX_WEEKLY_INCREASE)));
+        }
+        lastFullWeek = targetMileage;
+      }
+    }
+
+    const reduced = targetMileage < week.targetMileage;
+    if (!reduced && !paceReason) return;
+
+    const reasons = [reduced ? volumeReason : null, paceReason].filter(Boolean).join('; ');
+    adjustments.push({ weekNumber: week.weekNumber, previousMileage: week.targetMileage, targetMileage, reason: reasons });
+    if (reduced) {
+      const percent = Math.round((1 - targetMileage / week.targetMileage) * 100);
+      explanations.push(
+        `Week ${week.weekNumber} reduced ${percent}% (${formatDistance(week.targetMileage, state.units)} to ${formatDistance(targetMileage, state.units)}) after ${volumeReason}`
+      );
+    }
+  });
+
+  const lastReduced = adjustments.filter(adjustment => adjustment.targetMileage < adjustment.previousMileage).pop();
+  const backOnPlan = lastReduced && remaining.find(week => week.weekNumber > lastReduced.weekNumber && !week.isRaceWeek);
+  if (backOnPlan) {
+    explanations.push(`Back to the original mileage from week ${backOnPlan.weekNumber}`);
+  }
+  if (paceChange && paceReason) {
+    explanations.push(
+      `Pace zones ${paceChange.change > 0 ? 'sped up' : 'slowed down'} (VDOT ${state.paceZones.vdot} to ${paceZones.vdot}) because ${paceReason}`
+    );
+  }
+  if (adjustments.length === 0) {
+    explanations.push(hasLog
+      ? 'Your logged training is on track, so the remaining weeks are unchanged'
+      : 'No workouts have been logged yet, so the remaining weeks are unchanged');
+  }
+
+  return {
+    adaptation: {
+      createdAt: new Date().toISOString(),
+      fromWeek: remaining[0].weekNumber,
+      adjustments,
+      paceChange: paceChange ? { previousVdot: state.paceZones.vdot, vdot: paceZones.vdot, reason: paceReason as string } : null,
+      explanations
+    },
+    paceZones
+  };
+}
+
+// Apply a re-plan to the stored plan: adjusted weeks move to their history and
+// are cleared for the worker to regenerate. Only a finished plan is re-planned,
+// so this never races the initial generation.
+export async function applyAdaptation(
+  requestId: string,
+  adaptation: Adaptation,
+  paceZones: PlanState['paceZones']
+): Promise<{ state: PlanState | null; applied: boolean }> {
+  let applied = false;
+  const state = await updatePlanState(requestId, current => {
+    applied = false;
+    if (current.status !== 'completed') return false;
+
+    const restorePoint = snapshotPlan(current);
+    for (const { weekNumber, previousMileage, targetMileage, reason } of adaptation.adjustments) {
+      const skeleton = current.skeleton[weekNumber - 1];
+      if (!skeleton.isRaceWeek && targetMileage !== previousMileage) {
+        skeleton.targetMileage = targetMileage;
+        // A race standing in for the long run keeps its distance
+        if (!skeleton.race || skeleton.longRun !== distanceInMiles(skeleton.race.distance)) {
+          skeleton.longRun = Math.max(MIN_LONG_RUN, roundDownHalf(skeleton.longRun * targetMileage / previousMileage));
+        }
+      }
+      archiveWeek(current, weekNumber, `Re-planned after ${reason}`, adaptation.createdAt);
+      delete current.weeks[weekNumber];
+      delete current.markdown[weekNumber];
+      delete current.validation[weekNumber];
+    }
+    current.paceZones = paceZones;
+    current.adaptations = [...current.adaptations, adaptation];
+    beginRegeneration(current, adaptation.adjustments[0].weekNumber, {
+      source: 'replan',
+      actor: 'system',
+      reason: adaptation.explanations.join(' ')
+    }, restorePoint);
+    applied = true;
+  });
+  return { state, applied };
+}
+
+// Weeks that have not started by today and no longer fit the runner's
+// calendar: they break the constraint or availability checks, or they were
+// fitted around constraints that have since been removed
+export function weeksAffectedByConstraints(state: PlanState, today: string): number[] {
+  return sortedWeeks(state)
+    .filter(week => week.startDate > today)
+    .filter(week => {
+      const { checks } = validateWeek(week, checkContext(state, week.weekNumber));
+      const broken = checks.some(check => (check.name === 'constraints' || check.name === 'availability') && !check.passed);
+      return broken || (!!week.compromises?.length && !hasConstraintsBetween(state.constraints, week.startDate, week.endDate));
+    })
+    .map(week => week.weekNumber);
+}
+
+// Save new calendar constraints. On a finished plan the weeks they affect are
+// cleared for the job worker to regenerate; a plan still generating for the
+// first time picks them up for the weeks it has left. Affected is empty when
+// nothing needs rewriting. `saved` is false while an earlier change is being
+// regenerated: its weeks are not checked against the new calendar, and a
+// failure would restore the old one.
+export async function applyConstraints(
+  requestId: string,
+  constraints: PlanConstraints,
+  today: string
+): Promise<{ state: PlanState | null; affected: number[]; saved: boolean }> {
+  const changedAt = new Date().toISOString();
+  let affected: number[] = [];
+  let saved = false;
+  const state = await updatePlanState(requestId, current => {
+    affected = [];
+    saved = false;
+    if (current.status !== 'completed' && current.restorePoint) return false;
+
+    saved = true;
+    const restorePoint = snapshotPlan(current);
+    current.constraints = constraints;
+    affected = current.status === 'completed' ? weeksAffectedByConstraints(current, today) : [];
+    if (affected.length === 0) return;
+
+    for (const weekNumber of affected) {
+      archiveWeek(current, weekNumber, 'Calendar constraints changed', changedAt);
+      delete current.weeks[weekNumber];
+      delete current.markdown[weekNumber];
+      delete current.validation[weekNumber];
+    }
+    beginRegeneration(current, affected[0], {
+      source: 'constraints',
+      actor: 'runner',
+      reason: `Calendar changed; rewrote ${affected.length === 1 ? 'week' : 'weeks'} ${affected.join(', ')}`
+    }, restorePoint);
+  });
+  return { state, affected, saved };
+}
+
+// Replace the races before the final one on a finished plan. The skeleton is
+// rebuilt from the plan's inputs and the new races; weeks that have not started
+// by today and whose targets changed are cleared for the job worker to
+// regenerate, so any re-planned volume in them gives way to the new skeleton.
+export async function applySeasonRaces(
+  requestId: string,
+  races: ScheduledRace[],
+  today: string
+): Promise<{ state: PlanState | null; applied: boolean; affected: number[] }> {
+  const changedAt = new Date().toISOString();
+  let applied = false;
+  let affected: number[] = [];
+  const state = await updatePlanState(requestId, current => {
+    applied = false;
+    affected = [];
+    if (current.status !== 'completed') return false;
+
+    const restorePoint = snapshotPlan(current);
+    const rebuilt = buildPlanSkeleton({
+      currentMileage: Number(current.currentMileage),
+      totalWeeks: current.totalWeeks,
+      goalTimeSeconds: goalTimeToSeconds(current.goalTime),
+      raceDistance: current.raceDistance,
+      longestRecentRun: current.profile?.longestRecentRun,
+      races
+    });
+    const started = (weekNumber: number) => format(getWeekDates(current, weekNumber).startDate, 'yyyy-MM-dd') <= today;
+    affected = rebuilt
+      .filter(week => !started(week.weekNumber) && JSON.stringify(week) !== JSON.stringify(current.skeleton[week.weekNumber - 1]))
+      .map(week => week.weekNumber);
+
+    current.skeleton = rebuilt.map(week => started(week.weekNumber) ? current.skeleton[week.weekNumber - 1] : week);
+    current.races = races;
+    applied = true;
+    if (affected.length === 0) return;
+
+    for (const weekNumber of affected) {
+      archiveWeek(current, weekNumber, 'Races changed', changedAt);
+      delete current.weeks[weekNumber];
+      delete current.markdown[weekNumber];
+      delete current.validation[weekNumber];
+    }
+    beginRegeneration(current, affected[0], {
+      source: 'races',
+      actor: 'runner',
+      reason: `Races changed; rewrote ${affected.length === 1 ? 'week' : 'weeks'} ${affected.join(', ')}`
+    }, restorePoint);
+  });
+  return { state, applied, affected };
+}
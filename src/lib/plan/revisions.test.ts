@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { replaceWeek, revertWeek, rollbackToVersion } from './revisions';
+import { loadPlanState, savePlanState, updatePlanState } from './state';
+import { listPlanVersions, recordPlanVersion } from './versions';
+import { testGeneratedWeek, testPlanState, testWeek } from '@/test/fixtures';
+
+describe('replaceWeek', () => {
+  it('leaves a plan alone while a change is being regenerated', async () => {
+    await savePlanState('replace-busy', testPlanState({
+      status: 'in_progress',
+      weeks: { 1: testWeek(1) }
+    }));
+
+    const { state, replaced } = await replaceWeek('replace-busy', 1, testGeneratedWeek(1, { tips: 'Rewritten' }), 'More hills');
+
+    expect(replaced).toBe(false);
+    expect(state?.weeks[1].tips).toBe('Week 1');
+    expect(state?.weekHistory[1]).toBeUndefined();
+    expect(await listPlanVersions('replace-busy')).toEqual([]);
+  });
+
+  it('refuses a week the plan no longer has', async () => {
+    await savePlanState('replace-cleared', testPlanState({ status: 'completed', weeks: {} }));
+
+    const { replaced } = await replaceWeek('replace-cleared', 2, testGeneratedWeek(2), 'More hills');
+
+    expect(replaced).toBe(false);
+    expect((await loadPlanState('replace-cleared'))?.weeks[2]).toBeUndefined();
+  });
+});
+
+describe('revertWeek', () => {
+  it('leaves a plan alone while a change is being regenerated', async () => {
+    await savePlanState('revert-busy', testPlanState({
+      status: 'in_progress',
+      weeks: { 1: testWeek(1, { tips: 'Current' }) },
+      weekHistory: { 1: [{ week: testWeek(1), validation: null, feedback: 'More hills', replacedAt: '2026-11-01T00:00:00.000Z' }] }
+    }));
+
+    const { state, reverted } = await revertWeek('revert-busy', 1);
+
+    expect(reverted).toBe(false);
+    expect(state?.weeks[1].tips).toBe('Current');
+  });
+});
+
+describe('rollbackToVersion', () => {
+  it('restores the races and constraints the version was built around', async () => {
+    const constraints = { blackouts: [], travel: [], commitments: [] };
+    await savePlanState('rollback-races', testPlanState({
+      status: 'completed',
+      constraints,
+      weeks: { 1: testWeek(1), 2: testWeek(2), 3: testWeek(3) }
+    }));
+    await recordPlanVersion('rollback-races', (await loadPlanState('rollback-races'))!, {
+      source: 'generation',
+      actor: 'system',
+      reason: 'Plan generated'
+    });
+
+    await updatePlanState('rollback-races', state => {
+      state.constraints = { blackouts: [{ startDate: '2026-12-01', endDate: '2026-12-03', reason: 'Work trip' }], travel: [], commitments: [] };
+      state.races = [{
+        date: '2026-12-13',
+        distance: { id: 'half', label: 'Half Marathon', meters: 21097.5 },
+        name: 'Tune-up Half',
+        priority: 'B',
+        goalTime: null,
+        weekNumber: 2
+      }];
+    });
+
+    const { state, rolledBack } = await rollbackToVersion('rollback-races', 1);
+
+    expect(rolledBack).toBe(true);
+    expect(state?.races).toEqual([]);
+    expect(state?.constraints).toEqual(constraints);
+  });
+});
@@ -0,0 +1,213 @@
+import { checkContext, GeneratedWeek } from './generator';
+import { renderWeekMarkdown } from './render';
+import { updatePlanState } from './state';
+import { Day, PlanSnapshot, PlanState, VersionChange, Week } from './types';
+import { findCompromises, validateWeek } from './validation';
+import { getPlanVersion, recordPlanVersion } from './versions';
+
+// Regenerated and edited weeks replace the current version and push it onto
+// the week's history, so the runner can step back through earlier versions.
+// Each change is also recorded as a version of the whole plan.
+
+// Older versions beyond this are dropped
+export const MAX_WEEK_REVISIONS = 5;
+
+// Push the current version of a week onto its history, if it has one
+export function archiveWeek(state: PlanState, weekNumber: number, feedback: string, replacedAt: string): void {
+  const current = state.weeks[weekNumber];
+  if (!current) return;
+  const history = state.weekHistory[weekNumber] ?? [];
+  state.weekHistory[weekNumber] = [
+    ...history,
+    {
+      week: current,
+      validation: state.validation[weekNumber] ?? null,
+      feedback,
+      replacedAt
+    }
+  ].slice(-MAX_WEEK_REVISIONS);
+}
+
+// Copy of everything a change to the finished plan may rewrite, taken before it starts
+export function snapshotPlan(state: PlanState): PlanSnapshot {
+  const { skeleton, paceZones, weeks, markdown, validation, weekHistory, adaptations, constraints, races } = state;
+  return structuredClone({ skeleton, paceZones, weeks, markdown, validation, weekHistory, adaptations, constraints, races });
+}
+
+// Hand the weeks a change cleared to the job worker, from `firstWeek` on
+export function beginRegeneration(state: PlanState, firstWeek: number, change: VersionChange, restorePoint: PlanSnapshot): void {
+  state.status = 'in_progress';
+  state.currentWeek = firstWeek;
+  state.pendingChange = change;
+  state.restorePoint = restorePoint;
+}
+
+// Put the plan back as it was before a change whose weeks could not be
+// regenerated; false when no change was in progress
+export function restorePlan(state: PlanState, error: string): boolean {
+  if (!state.restorePoint) return false;
+  Object.assign(state, state.restorePoint);
+  state.status = 'completed';
+  state.currentWeek = state.totalWeeks;
+  state.pendingChange = null;
+  state.restorePoint = null;
+  state.error = error;
+  return true;
+}
+
+// Runners only change a finished plan. While a change is being regenerated its
+// weeks are rewritten from a new skeleton, and a failure puts the plan back,
+// so an edit made meanwhile could be overwritten or lost.
+function isEditable(state: PlanState, weekNumber: number): boolean {
+  return state.status === 'completed' && !!state.weeks[weekNumber];
+}
+
+// Swap in a week regenerated around the runner's feedback; false when the
+// plan is no longer finished or the week is gone
+export async function replaceWeek(
+  requestId: string,
+  weekNumber: number,
+  { week, markdown, validation }: GeneratedWeek,
+  feedback: string
+): Promise<{ state: PlanState | null; replaced: boolean }> {
+  const replacedAt = new Date().toISOString();
+  let replaced = false;
+  const state = await updatePlanState(requestId, current => {
+    replaced = false;
+    if (!isEditable(current, weekNumber)) return false;
+
+    archiveWeek(current, weekNumber, feedback, replacedAt);
+    current.weeks[weekNumber] = week;
+    current.markdown[weekNumber] = markdown;
+    current.validation[weekNumber] = validation;
+    replaced = true;
+  });
+  if (state && replaced) {
+    await recordPlanVersion(requestId, state, {
+      source: 'week_regeneration',
+      actor: 'runner',
+      reason: `Regenerated week ${weekNumber}: ${feedback}`
+    });
+  }
+  return { state, replaced };
+}
+
+// Restore the most recent previous version; false when there is none or the
+// plan is not finished
+export async function revertWeek(
+  requestId: string,
+  weekNumber: number
+): Promise<{ state: PlanState | null; reverted: boolean }> {
+  let reverted = false;
+  const state = await updatePlanState(requestId, current => {
+    reverted = false;
+    if (!isEditable(current, weekNumber)) return false;
+    const history = current.weekHistory[weekNumber] ?? [];
+    const previous = history[history.length - 1];
+    if (!previous) return false;
+
+    current.weeks[weekNumber] = previous.week;
+    // Re-rendered in case the runner switched units since
+    current.markdown[weekNumber] = renderWeekMarkdown(previous.week, current.units);
+    if (previous.validation) {
+      current.validation[weekNumber] = previous.validation;
+    } else {
+      delete current.validation[weekNumber];
+    }
+    current.weekHistory[weekNumber] = history.slice(0, -1);
+    reverted = true;
+  });
+  if (state && reverted) {
+    await recordPlanVersion(requestId, state, {
+      source: 'week_revert',
+      actor: 'runner',
+      reason: `Reverted week ${weekNumber} to its previous version`
+    });
+  }
+  return { state, reverted };
+}
+
+// Replace one day's workout by hand. The week's total follows the new
+// distance, and the rule checks are re-run so the runner sees what the edit
+// breaks. False when the week has no such day or the plan is not finished.
+export async function editDay(
+  requestId: string,
+  weekNumber: number,
+  day: Day,
+  reason: string
+): Promise<{ state: PlanState | null; edited: boolean }> {
+  const editedAt = new Date().toISOString();
+  let edited = false;
+  const state = await updatePlanState(requestId, current => {
+    edited = false;
+    if (!isEditable(current, weekNumber)) return false;
+    const week = current.weeks[weekNumber];
+    if (!week.days.some(candidate => candidate.date === day.date)) return false;
+
+    archiveWeek(current, weekNumber, `Edited ${day.date}: ${reason}`, editedAt);
+    const days = week.days.map(candidate => candidate.date === day.date ? day : candidate);
+    const { compromises: _compromises, ...rest } = week;
+    const updated: Week = {
+      ...rest,
+      days,
+      totalMileage: Math.round(days.reduce((total, candidate) => total + (candidate.workout.distance ?? 0), 0) * 100) / 100
+    };
+    const context = checkContext(current, weekNumber);
+    const compromises = findCompromises(updated, context);
+    if (compromises.length > 0) updated.compromises = compromises;
+    current.weeks[weekNumber] = updated;
+    current.markdown[weekNumber] = renderWeekMarkdown(updated, current.units);
+    current.validation[weekNumber] = validateWeek(updated, context);
+    edited = true;
+  });
+  if (state && edited) {
+    await recordPlanVersion(requestId, state, {
+      source: 'manual_edit',
+      actor: 'runner',
+      reason: `Edited ${day.date} in week ${weekNumber}: ${reason}`
+    });
+  }
+  return { state, edited };
+}
+
+// Put the whole plan back as it was at an earlier version. Weeks that differ
+// are archived first, so each can still be reverted on its own. `rolledBack`
+// is false when the version does not exist or the plan is still generating.
+export async function rollbackToVersion(
+  requestId: string,
+  number: number
+): Promise<{ state: PlanState | null; rolledBack: boolean }> {
+  const version = await getPlanVersion(requestId, number);
+  const rolledBackAt = new Date().toISOString();
+  let rolledBack = false;
+  const state = await updatePlanState(requestId, current => {
+    rolledBack = false;
+    if (!version || current.status !== 'completed') return false;
+
+    // Versions are only taken of complete plans, so every week is there
+    for (const [weekNumber, restored] of Object.entries(version.weeks)) {
+      if (JSON.stringify(restored) === JSON.stringify(current.weeks[weekNumber])) continue;
+      archiveWeek(current, Number(weekNumber), `Rolled back to version ${number}`, rolledBackAt);
+      current.weeks[weekNumber] = restored;
+      current.markdown[weekNumber] = renderWeekMarkdown(restored, current.units);
+      if (version.validation[weekNumber]) {
+        current.validation[weekNumber] = version.validation[weekNumber];
+      } else {
+        delete current.validation[weekNumber];
+      }
+    }
+    current.skeleton = version.skeleton;
+    current.paceZones = version.paceZones;
+    if (version.constraints) current.constraints = version.constraints;
+    if (version.races) current.races = version.races;
+    rolledBack = true;
+  });
+  if (state && rolledBack) {
+    await recordPlanVersion(requestId, state, {
+      source: 'rollback',
+      actor: 'runner',
+      reason: `Rolled back to version ${number}`
+    });
+  }
+  return { state, rolledBack };
+}
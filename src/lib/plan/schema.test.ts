@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseGeneratedWeek, WeekValidationError } from './schema';
+import { WeekSkeleton } from './periodization';
+
+const SKELETON: WeekSkeleton = { weekNumber: 1, phase: 'base', targetMileage: 20, longRun: 8, isCutback: false, isRaceWeek: false };
+const DATES = { startDate: '2026-11-02', endDate: '2026-11-08' };
+
+function rawWeek(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    days: [{ date: '2026-11-02', type: 'easy', title: 'Easy run', description: 'Relaxed', distance: 5, pace: null, durationMinutes: null, intervals: null, notes: null }],
+    totalMileage: 5,
+    tips: 'Keep it easy',
+    raceDayTips: null,
+    ...overrides
+  });
+}
+
+describe('parseGeneratedWeek', () => {
+  it('accepts race-day tips given as text', () => {
+    expect(parseGeneratedWeek(rawWeek({ raceDayTips: 'Start slow' }), SKELETON, DATES).raceDayTips).toBe('Start slow');
+  });
+
+  it('reports race-day tips that are not text with the other issues', () => {
+    let issues: string[] = [];
+    try {
+      parseGeneratedWeek(rawWeek({ raceDayTips: 42, tips: null }), SKELETON, DATES);
+    } catch (error) {
+      if (error instanceof WeekValidationError) issues = error.issues;
+    }
+
+    expect(issues).toEqual(['tips is required', 'raceDayTips must be a string or null']);
+  });
+});
@@ -0,0 +1,240 @@
+import { Day, Interval, PaceRange, Week, Workout, WorkoutType } from './types';
+import { WeekSkeleton } from './periodization';
+import { DistanceUnit, paceToMiles, toMiles } from './units';
+
+// Validation of the JSON the LLM returns for a single week. The model writes
+// distances and "m:ss" paces in the runner's unit; they are converted to miles
+// and seconds per mile here.
+
+export const WORKOUT_TYPES: WorkoutType[] = [
+  'rest',
+  'cross_training',
+  'recovery',
+  'easy',
+  'long',
+  'tempo',
+  'intervals',
+  'race'
+];
+
+// Shape description included in the prompt so the model knows what to return
+export const WEEK_JSON_FORMAT = `{
+  "totalMileage": number,
+  "days": [
+    {
+      "date": "YYYY-MM-DD",
+      "type": ${WORKOUT_TYPES.map(type => `"${type}"`).join(' | ')},
+      "title": string,
+      "distance": number | null,
+      "pace": { "fast": "m:ss", "slow": "m:ss" } | null,
+      "durationMinutes": number | null,
+      "intervals": [{ "repeats": number, "distance": number, "pace": { "fast": "m:ss", "slow": "m:ss" } | null, "recovery": string | null }] | null,
+      "description": string,
+      "notes": string | null
+    }
+  ],
+  "tips": string,
+  "raceDayTips": string | null
+}`;
+
+export class WeekValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Generated week failed validation: ${issues.join('; ')}`);
+    this.name = 'WeekValidationError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PACE_PATTERN = /^(\d{1,2}):([0-5]\d)$/;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function optionalNumber(value: unknown, path: string, issues: string[]): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    issues.push(`${path} must be a non-negative number or null`);
+    return null;
+  }
+  return value;
+}
+
+function optionalString(value: unknown, path: string, issues: string[]): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') {
+    issues.push(`${path} must be a string or null`);
+    return null;
+  }
+  return value;
+}
+
+function parsePaceValue(value: unknown, path: string, issues: string[]): number | null {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    return value;
+  }
+  const match = typeof value === 'string' ? value.trim().match(PACE_PATTERN) : null;
+  if (!match) {
+    issues.push(`${path} must be a pace in m:ss format`);
+    return null;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function parsePace(value: unknown, path: string, issues: string[], unit: DistanceUnit): PaceRange | null {
+  if (value === null || value === undefined) return null;
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object with fast and slow paces or null`);
+    return null;
+  }
+  const fast = parsePaceValue(value.fast, `${path}.fast`, issues);
+  const slow = parsePaceValue(value.slow, `${path}.slow`, issues);
+  if (fast === null || slow === null) return null;
+  return paceToMiles({ fast: Math.min(fast, slow), slow: Math.max(fast, slow) }, unit);
+}
+
+function parseIntervals(value: unknown, path: string, issues: string[], unit: DistanceUnit): Interval[] | null {
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array or null`);
+    return null;
+  }
+  return value.map((interval, index) => {
+    const intervalPath = `${path}[${index}]`;
+    if (!isObject(interval)) {
+      issues.push(`${intervalPath} must be an object`);
+      return { repeats: 0, distance: 0, pace: null, recovery: null };
+    }
+    const repeats = optionalNumber(interval.repeats, `${intervalPath}.repeats`, issues) ?? 0;
+    const distance = optionalNumber(interval.distance, `${intervalPath}.distance`, issues) ?? 0;
+    if (repeats < 1) {
+      issues.push(`${intervalPath}.repeats must be at least 1`);
+    }
+    return {
+      repeats,
+      distance: toMiles(distance, unit),
+      pace: parsePace(interval.pace, `${intervalPath}.pace`, issues, unit),
+      recovery: optionalString(interval.recovery, `${intervalPath}.recovery`, issues)
+    };
+  });
+}
+
+function parseDay(value: unknown, path: string, issues: string[], unit: DistanceUnit): Day | null {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  if (typeof value.date !== 'string' || !DATE_PATTERN.test(value.date)) {
+    issues.push(`${path}.date must be in YYYY-MM-DD format`);
+  }
+  if (!WORKOUT_TYPES.includes(value.type)) {
+    issues.push(`${path}.type must be one of ${WORKOUT_TYPES.join(', ')}`);
+  }
+  if (typeof value.title !== 'string' || !value.title.trim()) {
+    issues.push(`${path}.title is required`);
+  }
+  if (typeof value.description !== 'string') {
+    issues.push(`${path}.description is required`);
+  }
+
+  const distance = optionalNumber(value.distance, `${path}.distance`, issues);
+  const workout: Workout = {
+    type: value.type,
+    title: value.title,
+    distance: distance === null ? null : toMiles(distance, unit),
+    pace: parsePace(value.pace, `${path}.pace`, issues, unit),
+    durationMinutes: optionalNumber(value.durationMinutes, `${path}.durationMinutes`, issues),
+    intervals: parseIntervals(value.intervals, `${path}.intervals`, issues, unit),
+    description: value.description,
+    notes: optionalString(value.notes, `${path}.notes`, issues)
+  };
+
+  return { date: value.date, workout };
+}
+
+// A day the runner edited by hand, written in the same shape as the model's days
+export function parseEditedDay(value: unknown, unit: DistanceUnit = 'mi'): Day {
+  const issues: string[] = [];
+  const day = parseDay(value, 'day', issues, unit);
+  if (!day || issues.length > 0) {
+    throw new WeekValidationError(issues);
+  }
+  return day;
+}
+
+// Parse the raw model output for one week and fill in the fields the skeleton already knows
+export function parseGeneratedWeek(
+  raw: string,
+  skeleton: WeekSkeleton,
+  dates: { startDate: string; endDate: string },
+  unit: DistanceUnit = 'mi'
+): Week {
+  // Not every provider has a JSON mode, so tolerate code fences or a sentence around the object
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  let data: unknown;
+  try {
+    data = JSON.parse(start >= 0 && end > start ? raw.slice(start, end + 1) : raw);
+  } catch {
+    throw new WeekValidationError(['response is not valid JSON']);
+  }
+
+  const issues: string[] = [];
+  if (!isObject(data)) {
+    throw new WeekValidationError(['response must be a JSON object']);
+  }
+  if (!Array.isArray(data.days) || data.days.length === 0) {
+    throw new WeekValidationError(['days must be a non-empty array']);
+  }
+
+  const days = data.days
+    .map((day: unknown, index: number) => parseDay(day, `days[${index}]`, issues, unit))
+    .filter((day: Day | null): day is Day => day !== null)
+    .sort((a: Day, b: Day) => a.date.localeCompare(b.date));
+
+  const totalMileage = optionalNumber(data.totalMileage, 'totalMileage', issues);
+  if (totalMileage === null) {
+    issues.push('totalMileage is required');
+  }
+  if (typeof data.tips !== 'string') {
+    issues.push('tips is required');
+  }
+  const raceDayTips = optionalString(data.raceDayTips, 'raceDayTips', issues);
+
+  if (issues.length > 0) {
+    throw new WeekValidationError(issues);
+  }
+
+  return {
+    weekNumber: skeleton.weekNumber,
+    phase: skeleton.phase,
+    startDate: dates.startDate,
+    endDate: dates.endDate,
+    totalMileage: toMiles(totalMileage as number, unit),
+    days,
+    tips: data.tips,
+    raceDayTips
+  };
+}
+
+export interface DraftDay {
+  date: string;
+  title: string;
+}
+
+const DRAFT_DAY_PATTERN = /"date"\s*:\s*"(\d{4}-\d{2}-\d{2})"[^{}]*?"title"\s*:\s*"((?:[^"\\]|\\.)*)"/g;
+
+// Days whose date and title have been written so far in a partially streamed
+// week, so progress can be shown before the JSON is complete
+export function extractDraftDays(partial: string): DraftDay[] {
+  return Array.from(partial.matchAll(DRAFT_DAY_PATTERN), ([, date, title]) => {
+    let decoded = title;
+    try {
+      decoded = JSON.parse(`"${title}"`);
+    } catch {
+      // Leave escapes as written
+    }
+    return { date, title: decoded };
+  });
+}
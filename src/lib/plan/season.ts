@@ -0,0 +1,105 @@
+import { GoalTime } from './types';
+import { distanceInMiles, RaceDistance, STANDARD_DISTANCES } from './distances';
+import { calculateVdot, predictRaceSeconds } from './paces';
+import { goalTimeToSeconds } from './time';
+
+// Races before the plan's final race. A races are goal races the plan peaks,
+// tapers and recovers for; B races get a mini-taper and an easier week after;
+// C races are trained through. Every result is a fitness check for re-planning.
+
+export type RacePriority = 'A' | 'B' | 'C';
+
+export const RACE_PRIORITIES: RacePriority[] = ['A', 'B', 'C'];
+
+export const RACE_PRIORITY_LABELS: Record<RacePriority, string> = {
+  A: 'A - goal race',
+  B: 'B - tune-up',
+  C: 'C - train through'
+};
+
+export interface SeasonRace {
+  date: string; // yyyy-MM-dd
+  distance: RaceDistance;
+  name: string;
+  priority: RacePriority;
+  // Predicted from the plan's pace zones when not given
+  goalTime: GoalTime | null;
+}
+
+// A season race placed in the plan's calendar
+export interface ScheduledRace extends SeasonRace {
+  weekNumber: number;
+}
+
+export const MAX_SEASON_RACES = 6;
+// Fewest weeks from an A race to the next A race, so there is room to recover and rebuild
+export const MIN_WEEKS_BETWEEN_A_RACES = 3;
+const MAX_NAME_LENGTH = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Problems with the races before the plan is built; firstDate is the first
+// day of training and raceDate the final race. Empty when they are valid.
+export function validateSeasonRaces(races: SeasonRace[], firstDate: string, raceDate: string): string[] {
+  if (!Array.isArray(races)) return ['Races must be a list'];
+  if (races.length > MAX_SEASON_RACES) return [`Add at most ${MAX_SEASON_RACES} races before your goal race`];
+
+  const issues: string[] = [];
+  races.forEach((race, index) => {
+    const label = `Race ${index + 1}`;
+    if (!race || typeof race !== 'object') {
+      issues.push(`${label} must be an object`);
+      return;
+    }
+    if (!STANDARD_DISTANCES.some(distance => distance.id === race.distance?.id && distance.meters === race.distance.meters)) {
+      issues.push(`${label} needs a race distance`);
+    }
+    if (!RACE_PRIORITIES.includes(race.priority)) issues.push(`${label} priority must be A, B or C`);
+    if (typeof race.name !== 'string' || race.name.length > MAX_NAME_LENGTH) {
+      issues.push(`${label} name must be ${MAX_NAME_LENGTH} characters or fewer`);
+    }
+    if (race.goalTime !== null && !(race.goalTime && typeof race.goalTime === 'object' && goalTimeToSeconds(race.goalTime) > 0)) {
+      issues.push(`${label} goal time must be more than zero when given`);
+    }
+    if (typeof race.date !== 'string' || !DATE_PATTERN.test(race.date)) {
+      issues.push(`${label} date must be in YYYY-MM-DD format`);
+    } else if (race.date < firstDate || race.date >= raceDate) {
+      issues.push(`${label} must be between ${firstDate} and the day before your goal race`);
+    }
+  });
+  return issues;
+}
+
+// Problems with where the races fall in the plan: one race a week, none in the
+// final race's week, and enough weeks after each A race to recover and rebuild
+export function validateRaceSchedule(races: ScheduledRace[], totalWeeks: number): string[] {
+  const issues: string[] = [];
+  const weeks = races.map(race => race.weekNumber);
+  if (new Set(weeks).size !== weeks.length) issues.push('Races must be in different weeks');
+  if (weeks.some(week => week >= totalWeeks)) issues.push('Races must be before the week of your goal race');
+
+  const aWeeks = [...races.filter(race => race.priority === 'A').map(race => race.weekNumber), totalWeeks].sort((a, b) => a - b);
+  if (aWeeks.some((week, index) => index > 0 && week - aWeeks[index - 1] < MIN_WEEKS_BETWEEN_A_RACES)) {
+    issues.push(`Leave at least ${MIN_WEEKS_BETWEEN_A_RACES} weeks between A races`);
+  }
+  return issues;
+}
+
+// Weeks of easy running after an A race, longer for longer races
+export function recoveryWeeks(distance: RaceDistance): number {
+  const miles = distanceInMiles(distance);
+  return miles >= 20 ? 3 : miles >= 10 ? 2 : 1;
+}
+
+// The race's goal time, or what the given VDOT predicts for it
+export function raceGoalSeconds(race: SeasonRace, vdot: number): number {
+  return race.goalTime ? goalTimeToSeconds(race.goalTime) : predictRaceSeconds(vdot, race.distance.meters);
+}
+
+// What a race result says about the runner's fitness
+export function raceResultVdot(race: SeasonRace, durationSeconds: number): number {
+  return Math.round(calculateVdot(race.distance.meters, durationSeconds) * 10) / 10;
+}
+
+export function describeSeasonRace(race: SeasonRace): string {
+  return race.name.trim() ? `${race.name.trim()} (${race.distance.label})` : race.distance.label;
+}
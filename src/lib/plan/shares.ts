@@ -0,0 +1,179 @@
+import type { Redis } from '@upstash/redis';
+import { getRedis } from '../redis';
+import { configuredStoreName, loadPlanState, updatePlanState } from './state';
+import { GoalTime, Plan, PlanState, ShareLink, toPlan } from './types';
+
+// Read-only public links to a plan. The links live on the plan itself, so
+// updating or revoking one is an ordinary plan update; a separate index maps
+// each slug back to its plan, kept in the same backend as the plans.
+
+export const MAX_SHARE_LINKS = 10;
+
+const SLUG_BYTES = 16;
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+const SHARES_COLLECTION = 'planShares';
+
+export type ShareSettings = Pick<ShareLink, 'showEmail' | 'showGoalTime'>;
+
+// What a public page may show: no pace zones, and email and goal time only when the owner allows
+export type SharedPlan = Omit<Plan, 'email' | 'goalTime' | 'paceZones'> & {
+  email: string | null;
+  goalTime: GoalTime | null;
+};
+
+interface ShareIndex {
+  get(slug: string): Promise<string | null>;
+  set(slug: string, requestId: string): Promise<void>;
+  delete(slug: string): Promise<void>;
+}
+
+function shareKey(slug: string): string {
+  return `share:${slug}`;
+}
+
+class RedisShareIndex implements ShareIndex {
+  constructor(private readonly redis: Redis) {}
+
+  async get(slug: string) {
+    return this.redis.get<string>(shareKey(slug));
+  }
+
+  async set(slug: string, requestId: string) {
+    await this.redis.set(shareKey(slug), requestId);
+  }
+
+  async delete(slug: string) {
+    await this.redis.del(shareKey(slug));
+  }
+}
+
+class FirestoreShareIndex implements ShareIndex {
+  async get(slug: string) {
+    const { getDocument } = await import('../firebase/serverFirestore');
+    const document = await getDocument(SHARES_COLLECTION, slug);
+    return document ? (document as { requestId?: string }).requestId ?? null : null;
+  }
+
+  async set(slug: string, requestId: string) {
+    const { setDocument } = await import('../firebase/serverFirestore');
+    await setDocument(SHARES_COLLECTION, slug, { requestId });
+  }
+
+  async delete(slug: string) {
+    const { deleteDocument } = await import('../firebase/serverFirestore');
+    await deleteDocument(SHARES_COLLECTION, slug);
+  }
+}
+
+class MemoryShareIndex implements ShareIndex {
+  private readonly slugs = new Map<string, string>();
+
+  async get(slug: string) {
+    return this.slugs.get(slug) ?? null;
+  }
+
+  async set(slug: string, requestId: string) {
+    this.slugs.set(slug, requestId);
+  }
+
+  async delete(slug: string) {
+    this.slugs.delete(slug);
+  }
+}
+
+const globalForShares = globalThis as unknown as { memoryShareIndex?: MemoryShareIndex };
+
+function getShareIndex(): ShareIndex {
+  switch (configuredStoreName()) {
+    case 'redis':
+      return new RedisShareIndex(getRedis());
+    case 'firestore':
+      return new FirestoreShareIndex();
+    case 'memory':
+      globalForShares.memoryShareIndex ??= new MemoryShareIndex();
+      return globalForShares.memoryShareIndex;
+  }
+}
+
+export function isShareSlug(value: unknown): value is string {
+  return typeof value === 'string' && SLUG_PATTERN.test(value);
+}
+
+// 128 random bits, base64url encoded
+function createSlug(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SLUG_BYTES));
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+// Plans only stop expiring once they are complete, so only those can be shared.
+// `link` is null when the plan is unfinished or already has the most links.
+export async function createShareLink(
+  requestId: string,
+  settings: ShareSettings
+): Promise<{ state: PlanState | null; link: ShareLink | null }> {
+  const link: ShareLink = { slug: createSlug(), createdAt: new Date().toISOString(), ...settings };
+  // Index first: a slug without a link on the plan just resolves to nothing
+  await getShareIndex().set(link.slug, requestId);
+
+  let added = false;
+  const state = await updatePlanState(requestId, current => {
+    added = false;
+    if (current.status !== 'completed' || current.shareLinks.length >= MAX_SHARE_LINKS) return false;
+    current.shareLinks.push(link);
+    added = true;
+  });
+  if (!added) {
+    await getShareIndex().delete(link.slug);
+  }
+  return { state, link: added ? link : null };
+}
+
+export async function updateShareLink(
+  requestId: string,
+  slug: string,
+  settings: Partial<ShareSettings>
+): Promise<{ state: PlanState | null; link: ShareLink | null }> {
+  let updated: ShareLink | null = null;
+  const state = await updatePlanState(requestId, current => {
+    updated = current.shareLinks.find(link => link.slug === slug) ?? null;
+    if (!updated) return false;
+    Object.assign(updated, settings);
+  });
+  return { state, link: updated };
+}
+
+// Removing the link from the plan is what revokes it; the index entry is tidied up after
+export async function revokeShareLink(
+  requestId: string,
+  slug: string
+): Promise<{ state: PlanState | null; revoked: boolean }> {
+  let revoked = false;
+  const state = await updatePlanState(requestId, current => {
+    const remaining = current.shareLinks.filter(link => link.slug !== slug);
+    revoked = remaining.length < current.shareLinks.length;
+    if (!revoked) return false;
+    current.shareLinks = remaining;
+  });
+  if (revoked) {
+    await getShareIndex().delete(slug);
+  }
+  return { state, revoked };
+}
+
+export async function loadSharedPlan(slug: string): Promise<SharedPlan | null> {
+  if (!isShareSlug(slug)) return null;
+  const requestId = await getShareIndex().get(slug);
+  const state = requestId ? await loadPlanState(requestId) : null;
+  const link = state?.shareLinks.find(candidate => candidate.slug === slug);
+  if (!state || !link) return null;
+
+  const { email, goalTime, paceZones: _paceZones, ...plan } = toPlan(state);
+  return {
+    ...plan,
+    email: link.showEmail ? email : null,
+    goalTime: link.showGoalTime ? goalTime : null
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getPlanStore, loadPlanState, savePlanState, updatePlanState } from './state';
+import { recordGeneratedWeek } from '../jobs/worker';
+import { testGeneratedWeek, testPlanState } from '@/test/fixtures';
+
+vi.mock('./email', () => ({ sendPlanEmail: vi.fn(async () => true) }));
+
+describe('compare-and-set', () => {
+  it('lets only one writer in at a given version', async () => {
+    await savePlanState('cas-direct', testPlanState());
+    const store = getPlanStore();
+
+    const first = await store.compareAndSet('cas-direct', testPlanState({ currentWeek: 2, version: 1 }), 0);
+    const second = await store.compareAndSet('cas-direct', testPlanState({ currentWeek: 3, version: 1 }), 0);
+
+    expect([first, second]).toEqual([true, false]);
+    expect(await loadPlanState('cas-direct')).toMatchObject({ currentWeek: 2, version: 1 });
+  });
+
+  it('retries a writer that lost the race on the fresh state', async () => {
+    await savePlanState('cas-retry', testPlanState());
+
+    await Promise.all([
+      updatePlanState('cas-retry', state => {
+        state.currentWeek = 2;
+      }),
+      updatePlanState('cas-retry', state => {
+        state.units = 'km';
+      })
+    ]);
+
+    expect(await loadPlanState('cas-retry')).toMatchObject({ currentWeek: 2, units: 'km', version: 2 });
+  });
+
+  it('keeps the first of two concurrent writes of the same week', async () => {
+    await savePlanState('cas-week', testPlanState());
+
+    const results = await Promise.all([
+      recordGeneratedWeek('cas-week', 1, testGeneratedWeek(1, { tips: 'first' })),
+      recordGeneratedWeek('cas-week', 1, testGeneratedWeek(1, { tips: 'second' }))
+    ]);
+
+    expect(results.filter(result => result.recorded)).toHaveLength(1);
+    const state = await loadPlanState('cas-week');
+    expect(state?.weeks[1].tips).toBe('first');
+    expect(state?.version).toBe(1);
+  });
+});
@@ -0,0 +1,250 @@
+import type { Redis } from '@upstash/redis';
+import { getRedis, isRedisConfigured } from '../redis';
+import { PlanState } from './types';
+import { isDistanceUnit } from './units';
+
+// Where plan state lives. Redis keeps plans in progress with an expiry and
+// plans that have ever finished forever; Firestore keeps everything and is
+// reached with a service account (FIREBASE_CLIENT_EMAIL, FIREBASE_PRIVATE_KEY);
+// the memory store is for local development without any backing service. Set
+// PLAN_STORE to choose, otherwise Redis is used when configured and memory when not.
+
+export type PlanStoreName = 'redis' | 'firestore' | 'memory';
+
+export interface PlanStore {
+  get(requestId: string): Promise<PlanState | null>;
+  save(requestId: string, state: PlanState): Promise<void>;
+  // Write only if the stored plan is still at `expectedVersion`; false on conflict
+  compareAndSet(requestId: string, state: PlanState, expectedVersion: number): Promise<boolean>;
+}
+
+// Plans that never finished expire from Redis an hour after their last update
+export const PLAN_TTL_SECONDS = 3600;
+
+const PLANS_COLLECTION = 'plans';
+
+// Attempts before updatePlanState gives up on a plan that keeps changing underneath it
+const MAX_UPDATE_ATTEMPTS = 10;
+
+export class PlanConflictError extends Error {
+  constructor(requestId: string) {
+    super(`Plan ${requestId} is being updated too often to save changes`);
+    this.name = 'PlanConflictError';
+  }
+}
+
+export function planKey(requestId: string): string {
+  return `request:${requestId}`;
+}
+
+export function isValidPlanState(state: any): state is PlanState {
+  return (
+    state &&
+    typeof state === 'object' &&
+    typeof state.status === 'string' &&
+    ['initialized', 'in_progress', 'completed', 'error'].includes(state.status) &&
+    typeof state.email === 'string' &&
+    (state.ownerId === null || typeof state.ownerId === 'string') &&
+    (state.calendarKey === null || typeof state.calendarKey === 'string') &&
+    typeof state.raceDate === 'string' &&
+    state.raceDistance &&
+    typeof state.raceDistance.meters === 'number' &&
+    state.goalTime &&
+    typeof state.goalTime === 'object' &&
+    typeof state.goalTime.hours === 'string' &&
+    typeof state.goalTime.minutes === 'string' &&
+    typeof state.goalTime.seconds === 'string' &&
+    typeof state.currentMileage === 'string' &&
+    (state.profile === null || typeof state.profile === 'object') &&
+    state.constraints &&
+    typeof state.constraints === 'object' &&
+    Array.isArray(state.races) &&
+    isDistanceUnit(state.units) &&
+    typeof state.totalWeeks === 'number' &&
+    typeof state.currentWeek === 'number' &&
+    Array.isArray(state.skeleton) &&
+    state.paceZones &&
+    Array.isArray(state.paceZones.zones) &&
+    typeof state.weeks === 'object' &&
+    typeof state.markdown === 'object' &&
+    typeof state.validation === 'object' &&
+    typeof state.weekHistory === 'object' &&
+    Array.isArray(state.adaptations) &&
+    Array.isArray(state.shareLinks) &&
+    (state.pendingChange === null || typeof state.pendingChange === 'object') &&
+    (state.restorePoint === null || typeof state.restorePoint === 'object') &&
+    (state.completedAt === null || typeof state.completedAt === 'string') &&
+    (state.error === null || typeof state.error === 'string') &&
+    typeof state.startTime === 'string' &&
+    typeof state.version === 'number'
+  );
+}
+
+// Finished plans are kept forever, so fill in fields added since they were saved
+function upgradePlanState(data: any): unknown {
+  if (data && typeof data === 'object') {
+    data.weekHistory ??= {};
+    data.adaptations ??= [];
+    data.shareLinks ??= [];
+    data.ownerId ??= null;
+    data.calendarKey ??= null;
+    data.pendingChange ??= null;
+    data.profile ??= null;
+    data.constraints ??= { blackouts: [], travel: [], commitments: [] };
+    data.races ??= [];
+    data.restorePoint ??= null;
+    // Only finished plans are changed, so any pending change but the first generation means it had finished
+    const changing = data.pendingChange && data.pendingChange.source !== 'generation';
+    data.completedAt ??= data.status === 'completed' || changing ? data.startTime : null;
+  }
+  return data;
+}
+
+function parsePlanState(raw: unknown): PlanState {
+  const data = upgradePlanState(raw);
+  if (!isValidPlanState(data)) {
+    throw new Error('Invalid state data structure');
+  }
+  return data;
+}
+
+// Compares the stored version and writes in one step; an empty TTL means keep forever
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then return 0 end
+if (cjson.decode(current).version or 0) ~= tonumber(ARGV[2]) then return 0 end
+if ARGV[3] == '' then
+  redis.call('SET', KEYS[1], ARGV[1])
+else
+  redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[3])
+end
+return 1
+`;
+
+class RedisPlanStore implements PlanStore {
+  constructor(private readonly redis: Redis) {}
+
+  async get(requestId: string) {
+    const stateStr = await this.redis.get<string>(planKey(requestId));
+    return stateStr ? parsePlanState(JSON.parse(stateStr)) : null;
+  }
+
+  async save(requestId: string, state: PlanState) {
+    // Writing without an expiry also clears the one set while the plan was in progress
+    await this.redis.set(
+      planKey(requestId),
+      JSON.stringify(state),
+      state.completedAt ? undefined : { ex: PLAN_TTL_SECONDS }
+    );
+  }
+
+  async compareAndSet(requestId: string, state: PlanState, expectedVersion: number) {
+    const ttl = state.completedAt ? '' : String(PLAN_TTL_SECONDS);
+    const result = await this.redis.eval<string[], number>(
+      COMPARE_AND_SET_SCRIPT,
+      [planKey(requestId)],
+      [JSON.stringify(state), String(expectedVersion), ttl]
+    );
+    return result === 1;
+  }
+}
+
+class FirestorePlanStore implements PlanStore {
+  async get(requestId: string) {
+    const { getDocument } = await import('../firebase/serverFirestore');
+    const document = await getDocument(PLANS_COLLECTION, requestId);
+    if (!document) return null;
+    const { id: _id, ...data } = document;
+    return parsePlanState(data);
+  }
+
+  async save(requestId: string, state: PlanState) {
+    const { setDocument } = await import('../firebase/serverFirestore');
+    await setDocument(PLANS_COLLECTION, requestId, state);
+  }
+
+  async compareAndSet(requestId: string, state: PlanState, expectedVersion: number) {
+    const { setDocumentIf } = await import('../firebase/serverFirestore');
+    return setDocumentIf(PLANS_COLLECTION, requestId, state, current => current?.version === expectedVersion);
+  }
+}
+
+// Plans are copied in and out so callers can never mutate the stored state
+class MemoryPlanStore implements PlanStore {
+  private readonly plans = new Map<string, string>();
+
+  async get(requestId: string) {
+    const stateStr = this.plans.get(requestId);
+    return stateStr ? parsePlanState(JSON.parse(stateStr)) : null;
+  }
+
+  async save(requestId: string, state: PlanState) {
+    this.plans.set(requestId, JSON.stringify(state));
+  }
+
+  // Synchronous between the check and the write, so it is atomic within the process
+  async compareAndSet(requestId: string, state: PlanState, expectedVersion: number) {
+    const stateStr = this.plans.get(requestId);
+    if (!stateStr || JSON.parse(stateStr).version !== expectedVersion) return false;
+    this.plans.set(requestId, JSON.stringify(state));
+    return true;
+  }
+}
+
+const globalForStore = globalThis as unknown as { memoryPlanStore?: MemoryPlanStore };
+
+export function configuredStoreName(): PlanStoreName {
+  const name = process.env.PLAN_STORE;
+  if (name === 'redis' || name === 'firestore' || name === 'memory') {
+    return name;
+  }
+  if (name) {
+    throw new Error(`Unknown PLAN_STORE "${name}", expected redis, firestore or memory`);
+  }
+  return isRedisConfigured() ? 'redis' : 'memory';
+}
+
+export function getPlanStore(): PlanStore {
+  switch (configuredStoreName()) {
+    case 'redis':
+      return new RedisPlanStore(getRedis());
+    case 'firestore':
+      return new FirestorePlanStore();
+    case 'memory':
+      globalForStore.memoryPlanStore ??= new MemoryPlanStore();
+      return globalForStore.memoryPlanStore;
+  }
+}
+
+export async function loadPlanState(requestId: string): Promise<PlanState | null> {
+  return getPlanStore().get(requestId);
+}
+
+// Unconditional write, for creating a plan
+export async function savePlanState(requestId: string, state: PlanState): Promise<void> {
+  await getPlanStore().save(requestId, state);
+}
+
+// Read-modify-write with compare-and-set, retried when another writer got in
+// first. `update` is re-run on the fresh state each time and may return false
+// to leave the plan unchanged. Resolves to the latest state, or null if the
+// plan does not exist.
+export async function updatePlanState(
+  requestId: string,
+  update: (state: PlanState) => boolean | void
+): Promise<PlanState | null> {
+  const store = getPlanStore();
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const state = await store.get(requestId);
+    if (!state) return null;
+
+    const expectedVersion = state.version;
+    if (update(state) === false) return state;
+
+    state.version = expectedVersion + 1;
+    if (await store.compareAndSet(requestId, state, expectedVersion)) {
+      return state;
+    }
+  }
+  throw new PlanConflictError(requestId);
+}
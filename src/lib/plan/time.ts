@@ -0,0 +1,32 @@
+import { GoalTime } from './types';
+
+// Convert the form's hours/minutes/seconds strings into a total number of seconds
+export function goalTimeToSeconds(goalTime: GoalTime): number {
+  const hours = Number(goalTime.hours) || 0;
+  const minutes = Number(goalTime.minutes) || 0;
+  const seconds = Number(goalTime.seconds) || 0;
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// Format seconds as h:mm:ss (or m:ss when under an hour)
+export function formatDuration(totalSeconds: number): string {
+  const rounded = Math.round(totalSeconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const seconds = rounded % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${minutes}:${pad(seconds)}`;
+}
+
+// Parse "h:mm:ss", "m:ss" or plain minutes back into seconds, or null if unreadable
+export function parseDuration(text: string): number | null {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+  const values = parts.map(Number);
+  if (values.length === 1) return values[0] * 60;
+  if (values.slice(1).some(value => value > 59)) return null;
+  return values.reduce((total, value) => total * 60 + value, 0);
+}
@@ -0,0 +1,227 @@
+import { TrainingPhase, WeekSkeleton } from './periodization';
+import { PaceZones } from './paces';
+import { RaceDistance } from './distances';
+import { DistanceUnit } from './units';
+import { WeekValidation } from './validation';
+import { RunnerProfile } from './profile';
+import { PlanConstraints } from './constraints';
+import { ScheduledRace } from './season';
+
+export type PlanStatus = 'initialized' | 'in_progress' | 'completed' | 'error';
+
+export interface GoalTime {
+  hours: string;
+  minutes: string;
+  seconds: string;
+}
+
+export type WorkoutType =
+  | 'rest'
+  | 'cross_training'
+  | 'recovery'
+  | 'easy'
+  | 'long'
+  | 'tempo'
+  | 'intervals'
+  | 'race';
+
+// Paces are stored in seconds per mile and distances in miles whatever the
+// runner's unit preference; `fast` is the lower bound of the range
+export interface PaceRange {
+  fast: number;
+  slow: number;
+}
+
+export interface Interval {
+  repeats: number;
+  distance: number;
+  pace: PaceRange | null;
+  recovery: string | null;
+}
+
+export interface Workout {
+  type: WorkoutType;
+  title: string;
+  distance: number | null;
+  pace: PaceRange | null;
+  durationMinutes: number | null;
+  intervals: Interval[] | null;
+  description: string;
+  notes: string | null;
+}
+
+export interface Day {
+  date: string; // yyyy-MM-dd
+  workout: Workout;
+}
+
+export interface Week {
+  weekNumber: number;
+  phase: TrainingPhase;
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+  totalMileage: number;
+  days: Day[];
+  tips: string;
+  raceDayTips: string | null;
+  // What the week gave up to fit around the runner's calendar, when it had to
+  compromises?: string[];
+}
+
+// A version of a week that was replaced by regenerating it, kept so the runner can revert
+export interface WeekRevision {
+  week: Week;
+  validation: WeekValidation | null;
+  // What the runner asked to change when this version was replaced
+  feedback: string;
+  replacedAt: string;
+}
+
+// A remaining week whose volume was changed by re-planning from the workout log
+export interface WeekAdjustment {
+  weekNumber: number;
+  previousMileage: number;
+  targetMileage: number;
+  reason: string;
+}
+
+// One re-plan of the weeks still to come, with the explanations shown to the runner
+export interface Adaptation {
+  createdAt: string;
+  // First week that was re-planned; earlier weeks were already under way
+  fromWeek: number;
+  adjustments: WeekAdjustment[];
+  // Set when pace zones were recalculated from how the runner has been running
+  paceChange: { previousVdot: number; vdot: number; reason: string } | null;
+  explanations: string[];
+}
+
+// A read-only public link to the plan; the slug is random so links cannot be guessed
+export interface ShareLink {
+  slug: string;
+  createdAt: string;
+  showEmail: boolean;
+  showGoalTime: boolean;
+}
+
+// What produced a version of the plan
+export type VersionSource =
+  | 'generation'
+  | 'week_regeneration'
+  | 'week_revert'
+  | 'replan'
+  | 'manual_edit'
+  | 'rollback'
+  | 'constraints'
+  | 'races';
+
+// Who made a change, and why, as shown in the plan's history
+export interface VersionChange {
+  source: VersionSource;
+  // The runner asked for it, or the app made it on its own (generation, re-planning from the log)
+  actor: 'runner' | 'system';
+  reason: string;
+}
+
+// The parts of a finished plan a change can rewrite
+export interface PlanSnapshot {
+  skeleton: WeekSkeleton[];
+  paceZones: PaceZones;
+  weeks: Record<string, Week>;
+  markdown: Record<string, string>;
+  validation: Record<string, WeekValidation>;
+  weekHistory: Record<string, WeekRevision[]>;
+  adaptations: Adaptation[];
+  constraints: PlanConstraints;
+  races: ScheduledRace[];
+}
+
+// An immutable snapshot of the plan taken after every change; numbered from 1
+export interface PlanVersion extends VersionChange {
+  number: number;
+  createdAt: string;
+  skeleton: WeekSkeleton[];
+  paceZones: PaceZones;
+  weeks: Record<string, Week>;
+  validation: Record<string, WeekValidation>;
+  // The skeleton is built around these, so they are restored with it; versions
+  // recorded before they were kept have neither
+  constraints?: PlanConstraints;
+  races?: ScheduledRace[];
+}
+
+// Everything a renderer (UI, PDF, email) needs, taken from the saved plan rather than form inputs
+export interface Plan {
+  email: string;
+  raceDate: string;
+  raceDistance: RaceDistance;
+  goalTime: GoalTime;
+  currentMileage: string;
+  units: DistanceUnit;
+  totalWeeks: number;
+  paceZones: PaceZones;
+  weeks: Week[];
+}
+
+export interface PlanState {
+  status: PlanStatus;
+  email: string;
+  // Firebase uid of the signed-in runner the plan belongs to; null for anonymous plans
+  ownerId: string | null;
+  // Secret that lets calendar apps read an owned plan's feed without signing in
+  calendarKey: string | null;
+  raceDate: string;
+  raceDistance: RaceDistance;
+  goalTime: GoalTime;
+  currentMileage: string; // miles
+  // What the runner told us about themselves, if anything; used for every week
+  profile: RunnerProfile | null;
+  // Blackout dates, travel and recurring commitments the weeks are planned around
+  constraints: PlanConstraints;
+  // Races before the final one, in date order
+  races: ScheduledRace[];
+  units: DistanceUnit;
+  totalWeeks: number;
+  currentWeek: number;
+  skeleton: WeekSkeleton[];
+  paceZones: PaceZones;
+  weeks: Record<string, Week>;
+  markdown: Record<string, string>;
+  // Which rule checks each generated week passed
+  validation: Record<string, WeekValidation>;
+  // Replaced versions of each week, oldest first
+  weekHistory: Record<string, WeekRevision[]>;
+  // Re-plans from the workout log, oldest first
+  adaptations: Adaptation[];
+  // Public links the owner has created and not revoked
+  shareLinks: ShareLink[];
+  // Set while a change is being generated in the background, recorded as a version once the plan completes
+  pendingChange: VersionChange | null;
+  // The finished plan as it was before pendingChange, put back if regenerating it fails
+  restorePoint: PlanSnapshot | null;
+  // When the plan first finished; it is kept for good from then on, even while a change regenerates weeks
+  completedAt: string | null;
+  error: string | null;
+  startTime: string;
+  emailSentAt: string | null;
+  // Incremented on every write so concurrent updates can compare-and-set
+  version: number;
+}
+
+export function isPlanComplete(state: Pick<PlanState, 'totalWeeks' | 'weeks'>): boolean {
+  return Object.keys(state.weeks).length >= state.totalWeeks;
+}
+
+export function toPlan(state: Pick<PlanState, 'email' | 'raceDate' | 'raceDistance' | 'goalTime' | 'currentMileage' | 'units' | 'totalWeeks' | 'paceZones' | 'weeks'>): Plan {
+  return {
+    email: state.email,
+    raceDate: state.raceDate,
+    raceDistance: state.raceDistance,
+    goalTime: state.goalTime,
+    currentMileage: state.currentMileage,
+    units: state.units,
+    totalWeeks: state.totalWeeks,
+    paceZones: state.paceZones,
+    weeks: Object.values(state.weeks).sort((a, b) => a.weekNumber - b.weekNumber)
+  };
+}
@@ -0,0 +1,62 @@
+import { PaceRange } from './types';
+import { METERS_PER_MILE } from './paces';
+
+// Plans are stored in miles and seconds per mile; these helpers convert at the
+// edges (form input, prompt, parsing and rendering) for runners who use km.
+
+export type DistanceUnit = 'mi' | 'km';
+
+export const DISTANCE_UNITS: DistanceUnit[] = ['mi', 'km'];
+
+export const KM_PER_MILE = METERS_PER_MILE / 1000;
+
+export const UNIT_NAMES: Record<DistanceUnit, { singular: string; plural: string }> = {
+  mi: { singular: 'mile', plural: 'miles' },
+  km: { singular: 'kilometer', plural: 'kilometers' }
+};
+
+export function isDistanceUnit(value: unknown): value is DistanceUnit {
+  return DISTANCE_UNITS.includes(value as DistanceUnit);
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Miles to the runner's unit, rounded for display
+export function toUnit(miles: number, unit: DistanceUnit, decimals = 1): number {
+  return roundTo(unit === 'km' ? miles * KM_PER_MILE : miles, decimals);
+}
+
+// A distance in the runner's unit back to miles for storage
+export function toMiles(value: number, unit: DistanceUnit): number {
+  return unit === 'km' ? roundTo(value / KM_PER_MILE, 2) : value;
+}
+
+export function formatDistance(miles: number, unit: DistanceUnit, decimals = 1): string {
+  return `${toUnit(miles, unit, decimals)} ${unit}`;
+}
+
+// Seconds per mile to seconds per unit
+export function paceInUnit(pacePerMile: PaceRange, unit: DistanceUnit): PaceRange {
+  if (unit === 'mi') return pacePerMile;
+  return {
+    fast: Math.round(pacePerMile.fast / KM_PER_MILE),
+    slow: Math.round(pacePerMile.slow / KM_PER_MILE)
+  };
+}
+
+// Seconds per unit back to seconds per mile for storage
+export function paceToMiles(pace: PaceRange, unit: DistanceUnit): PaceRange {
+  if (unit === 'mi') return pace;
+  return {
+    fast: Math.round(pace.fast * KM_PER_MILE),
+    slow: Math.round(pace.slow * KM_PER_MILE)
+  };
+}
+
+// Elevation is stored in metres; runners who use miles see feet
+export function formatElevation(meters: number, unit: DistanceUnit): string {
+  return unit === 'mi' ? `${Math.round(meters * 3.28084)} ft` : `${Math.round(meters)} m`;
+}
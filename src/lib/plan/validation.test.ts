@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { validateWeek, WeekCheckContext, WeekCheckName } from './validation';
+import { EMPTY_PLAN_CONSTRAINTS } from './constraints';
+import { EMPTY_RUNNER_PROFILE } from './profile';
+import { getStandardDistance } from './distances';
+import { Day, Week, WorkoutType } from './types';
+
+function day(date: string, type: WorkoutType, distance: number | null = null): Day {
+  return {
+    date,
+    workout: { type, title: type, distance, pace: null, durationMinutes: null, intervals: null, description: '', notes: null }
+  };
+}
+
+// Monday 2 November to Sunday 8 November 2026, rest on Monday and Friday
+function week(overrides: Partial<Week> = {}): Week {
+  const days = [
+    day('2026-11-02', 'rest'),
+    day('2026-11-03', 'easy', 4),
+    day('2026-11-04', 'easy', 4),
+    day('2026-11-05', 'easy', 4),
+    day('2026-11-06', 'rest'),
+    day('2026-11-07', 'easy', 3),
+    day('2026-11-08', 'long', 8)
+  ];
+  return {
+    weekNumber: 2,
+    phase: 'base',
+    startDate: '2026-11-02',
+    endDate: '2026-11-08',
+    totalMileage: 23,
+    days,
+    tips: '',
+    raceDayTips: null,
+    ...overrides
+  };
+}
+
+function context(overrides: Partial<WeekCheckContext> = {}): WeekCheckContext {
+  return {
+    skeleton: { weekNumber: 2, phase: 'base', targetMileage: 23, longRun: 8, isCutback: false, isRaceWeek: false },
+    previousMileage: 22,
+    nextMileage: null,
+    level: 'beginner',
+    profile: null,
+    constraints: EMPTY_PLAN_CONSTRAINTS,
+    units: 'mi',
+    ...overrides
+  };
+}
+
+function check(name: WeekCheckName, candidate: Week, checkContext = context()) {
+  return validateWeek(candidate, checkContext).checks.find(result => result.name === name)!;
+}
+
+function withDay(replacement: Day): Week {
+  const base = week();
+  return { ...base, days: base.days.map(existing => (existing.date === replacement.date ? replacement : existing)) };
+}
+
+describe('validateWeek', () => {
+  it('passes a week that keeps every rule', () => {
+    const validation = validateWeek(week(), context());
+    expect(validation.passed).toBe(true);
+    expect(validation.checks.map(result => result.name)).toEqual([
+      'dates', 'mileage-total', 'weekly-increase', 'rest-days', 'availability', 'constraints', 'race-day'
+    ]);
+  });
+
+  it('needs every date of the week exactly once', () => {
+    const base = week();
+    const missing = check('dates', { ...base, days: base.days.slice(1) });
+    expect(missing.passed).toBe(false);
+    expect(missing.violation).toContain('missing 2026-11-02');
+
+    const repeated = check('dates', { ...base, days: [...base.days, day('2026-11-08', 'rest')] });
+    expect(repeated.violation).toContain('listed more than once: 2026-11-08');
+
+    const outside = check('dates', { ...base, days: [...base.days, day('2026-11-09', 'rest')] });
+    expect(outside.violation).toContain('outside the week: 2026-11-09');
+  });
+
+  it('needs the daily distances to add up to the total, within rounding', () => {
+    expect(check('mileage-total', week({ totalMileage: 23.4 })).passed).toBe(true);
+    const result = check('mileage-total', week({ totalMileage: 25 }));
+    expect(result.passed).toBe(false);
+    expect(result.violation).toContain('add up to 23');
+  });
+
+  it('caps the rise over the previous week at 10% unless the skeleton plans more', () => {
+    const jump = withDay(day('2026-11-08', 'long', 12));
+    expect(check('weekly-increase', { ...jump, totalMileage: 27 }).passed).toBe(false);
+    expect(check('weekly-increase', { ...jump, totalMileage: 27 }, context({
+      skeleton: { ...context().skeleton, targetMileage: 27 }
+    })).passed).toBe(true);
+  });
+
+  it('refuses a week so low that the following week becomes a jump', () => {
+    const light = { ...withDay(day('2026-11-08', 'long', 5)), totalMileage: 20 };
+    const result = check('weekly-increase', light, context({ nextMileage: 30 }));
+    expect(result.passed).toBe(false);
+    expect(result.violation).toContain("next week's");
+    expect(check('weekly-increase', light, context({ nextMileage: 22 })).passed).toBe(true);
+  });
+
+  it('needs enough rest or cross-training days for the runner level', () => {
+    const oneRest = withDay(day('2026-11-06', 'easy', 0));
+    expect(check('rest-days', oneRest).passed).toBe(false);
+    expect(check('rest-days', oneRest, context({ level: 'intermediate' })).passed).toBe(true);
+    expect(check('rest-days', withDay(day('2026-11-06', 'cross_training'))).passed).toBe(true);
+  });
+
+  it('keeps runs on the days the runner can run and the long run on their usual day', () => {
+    const everyRunDay = check('availability', week(), context({ profile: { ...EMPTY_RUNNER_PROFILE, availableDays: ['tuesday', 'wednesday', 'thursday', 'saturday', 'sunday'] } }));
+    expect(everyRunDay.passed).toBe(true);
+
+    const noThursday = check('availability', week(), context({ profile: { ...EMPTY_RUNNER_PROFILE, availableDays: ['tuesday', 'wednesday', 'saturday', 'sunday'] } }));
+    expect(noThursday.passed).toBe(false);
+    expect(noThursday.violation).toContain('Thursday (2026-11-05) must be a rest day');
+
+    const saturdayLongRun = check('availability', week(), context({ profile: { ...EMPTY_RUNNER_PROFILE, longRunDay: 'saturday' } }));
+    expect(saturdayLongRun.violation).toContain('the long run must be on Saturday');
+  });
+
+  it('keeps blacked-out dates as rest days', () => {
+    const constraints = { ...EMPTY_PLAN_CONSTRAINTS, blackouts: [{ startDate: '2026-11-03', endDate: '2026-11-03', reason: 'Work trip' }] };
+    const result = check('constraints', week(), context({ constraints }));
+    expect(result.passed).toBe(false);
+    expect(result.violation).toContain('2026-11-03 is unavailable (Work trip)');
+    expect(check('constraints', withDay(day('2026-11-03', 'rest')), context({ constraints })).passed).toBe(true);
+  });
+
+  it('needs a season race on its date at its distance', () => {
+    const race = {
+      date: '2026-11-08',
+      distance: getStandardDistance('10k'),
+      name: 'Turkey Trot',
+      priority: 'C' as const,
+      goalTime: null,
+      weekNumber: 2
+    };
+    const raceContext = context({ skeleton: { ...context().skeleton, race } });
+
+    expect(check('race-day', week(), raceContext).violation).toContain('must be a "race" workout');
+    expect(check('race-day', withDay(day('2026-11-08', 'race', 5)), raceContext).violation).toContain('must be 6.2 mi');
+    expect(check('race-day', withDay(day('2026-11-08', 'race', 6.2)), raceContext).passed).toBe(true);
+  });
+});
@@ -0,0 +1,248 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Week, Workout } from './types';
+import { WeekSkeleton, MAX_WEEKLY_INCREASE } from './periodization';
+import { DistanceUnit, formatDistance } from './units';
+import { runningDays, RunnerProfile, WEEKDAY_LABELS, weekdayOf } from './profile';
+import { constraintsForDate, PlanConstraints } from './constraints';
+import { distanceInMiles } from './distances';
+import { describeSeasonRace } from './season';
+
+// Rule checks run on every generated week. Failures are sent back to the model
+// as a repair prompt, and the result of each check is stored with the plan.
+
+export type WeekCheckName = 'dates' | 'mileage-total' | 'weekly-increase' | 'rest-days' | 'availability' | 'constraints' | 'race-day';
+
+export interface WeekCheck {
+  name: WeekCheckName;
+  passed: boolean;
+  // Why the check failed, phrased so it can be sent back to the model
+  violation: string | null;
+}
+
+export interface WeekValidation {
+  passed: boolean;
+  checks: WeekCheck[];
+  // Model calls it took, including repairs
+  attempts: number;
+}
+
+export type RunnerLevel = 'beginner' | 'intermediate' | 'advanced';
+
+// Minimum rest or cross-training days in a full week
+export const MIN_REST_DAYS: Record<RunnerLevel, number> = {
+  beginner: 2,
+  intermediate: 1,
+  advanced: 0
+};
+
+// Slack for rounding, in miles
+const MILEAGE_TOLERANCE = 0.5;
+// Slack on the runner's time limits, in minutes
+const MINUTES_TOLERANCE = 5;
+
+// Runners in their first year are treated as beginners whatever their volume
+export function getRunnerLevel(currentMileage: number, profile: RunnerProfile | null = null): RunnerLevel {
+  if (profile && profile.yearsRunning !== null && profile.yearsRunning < 1) {
+    return 'beginner';
+  }
+  return currentMileage < 20 ? 'beginner' : currentMileage < 40 ? 'intermediate' : 'advanced';
+}
+
+export interface WeekCheckContext {
+  skeleton: WeekSkeleton;
+  // Mileage of the week before: the previous generated week, or the runner's current volume for week 1
+  previousMileage: number;
+  // Mileage of the week after, when it has already been generated (e.g. when regenerating a week)
+  nextMileage: number | null;
+  level: RunnerLevel;
+  // Days, long-run day and time limits are only checked when the runner gave them
+  profile: RunnerProfile | null;
+  constraints: PlanConstraints;
+  // Violations are reported in the unit the model writes in
+  units: DistanceUnit;
+}
+
+function expectedDates(week: Week): string[] {
+  const start = parseISO(week.startDate);
+  const length = differenceInCalendarDays(parseISO(week.endDate), start) + 1;
+  return Array.from({ length }, (_, index) => format(addDays(start, index), 'yyyy-MM-dd'));
+}
+
+function checkDates(week: Week): string | null {
+  const expected = expectedDates(week);
+  const actual = week.days.map(day => day.date);
+  const missing = expected.filter(date => !actual.includes(date));
+  const unexpected = actual.filter(date => !expected.includes(date));
+  const duplicated = actual.filter((date, index) => actual.indexOf(date) !== index);
+
+  const problems = [
+    missing.length > 0 && `missing ${missing.join(', ')}`,
+    unexpected.length > 0 && `outside the week: ${unexpected.join(', ')}`,
+    duplicated.length > 0 && `listed more than once: ${Array.from(new Set(duplicated)).join(', ')}`
+  ].filter(Boolean);
+  return problems.length > 0
+    ? `Days must cover exactly ${week.startDate} to ${week.endDate} (${problems.join('; ')})`
+    : null;
+}
+
+function checkMileageTotal(week: Week, { units }: WeekCheckContext): string | null {
+  const sum = week.days.reduce((total, day) => total + (day.workout.distance ?? 0), 0);
+  return Math.abs(sum - week.totalMileage) > MILEAGE_TOLERANCE
+    ? `Daily distances add up to ${formatDistance(sum, units)} but totalMileage is ${formatDistance(week.totalMileage, units)}`
+    : null;
+}
+
+// The skeleton already respects the cap, so its target is always allowed
+// (e.g. the first week for a runner below the minimum starting volume)
+function checkWeeklyIncrease(week: Week, { skeleton, previousMileage, nextMileage, units }: WeekCheckContext): string | null {
+  const increase = `${Math.round(MAX_WEEKLY_INCREASE * 100)}%`;
+  const limit = Math.max(previousMileage * (1 + MAX_WEEKLY_INCREASE), skeleton.targetMileage) + MILEAGE_TOLERANCE;
+  if (week.totalMileage > limit) {
+    return `totalMileage of ${formatDistance(week.totalMileage, units)} is more than ${increase} above the previous week's ${formatDistance(previousMileage, units)}; plan ${formatDistance(skeleton.targetMileage, units)}`;
+  }
+
+  // A week that drops too far would turn the following week into a jump
+  if (nextMileage !== null) {
+    const floor = Math.min(nextMileage / (1 + MAX_WEEKLY_INCREASE), skeleton.targetMileage) - MILEAGE_TOLERANCE;
+    if (week.totalMileage < floor) {
+      return `totalMileage of ${formatDistance(week.totalMileage, units)} is so low that next week's ${formatDistance(nextMileage, units)} would be more than ${increase} higher; plan ${formatDistance(skeleton.targetMileage, units)}`;
+    }
+  }
+  return null;
+}
+
+// Shorter final weeks need proportionally fewer rest days
+function checkRestDays(week: Week, { level }: WeekCheckContext): string | null {
+  const required = Math.round(MIN_REST_DAYS[level] * Math.min(week.days.length, 7) / 7);
+  const restDays = week.days.filter(day => day.workout.type === 'rest' || day.workout.type === 'cross_training').length;
+  return restDays < required
+    ? `A ${level} runner needs at least ${required} rest or cross-training days, but the week has ${restDays}`
+    : null;
+}
+
+// Planned time for a workout: its duration, or the distance at the slow end of its pace
+function estimatedMinutes(workout: Workout): number | null {
+  if (workout.durationMinutes !== null) return workout.durationMinutes;
+  return workout.distance !== null && workout.pace ? workout.distance * workout.pace.slow / 60 : null;
+}
+
+// Race day is fixed, so it is exempt; cross-training is optional and allowed on any day
+function checkAvailability(week: Week, { profile, constraints }: WeekCheckContext): string | null {
+  if (!profile) return null;
+  const available = runningDays(profile);
+  const problems: string[] = [];
+
+  for (const { date, workout } of week.days) {
+    if (workout.type === 'rest' || workout.type === 'cross_training' || workout.type === 'race') continue;
+    const weekday = weekdayOf(date);
+    if (!available.includes(weekday)) {
+      problems.push(`${WEEKDAY_LABELS[weekday]} (${date}) must be a rest day because the runner cannot run then`);
+      continue;
+    }
+    const limit = profile.maxMinutes[weekday];
+    const minutes = estimatedMinutes(workout);
+    if (limit !== undefined && minutes !== null && minutes > limit + MINUTES_TOLERANCE) {
+      problems.push(`${workout.title} on ${WEEKDAY_LABELS[weekday]} takes about ${Math.round(minutes)} minutes but the runner has ${limit}`);
+    }
+  }
+
+  // The long run has to move when its usual day is ruled out this week
+  const longRunDay = profile.longRunDay;
+  if (longRunDay && week.days.some(day => weekdayOf(day.date) === longRunDay && !constraintsForDate(constraints, day.date).blocked)) {
+    const misplaced = week.days.filter(day => day.workout.type === 'long' && weekdayOf(day.date) !== longRunDay);
+    if (misplaced.length > 0) {
+      problems.push(`the long run must be on ${WEEKDAY_LABELS[longRunDay]}, not ${misplaced.map(day => WEEKDAY_LABELS[weekdayOf(day.date)]).join(', ')}`);
+    }
+  }
+  return problems.length > 0 ? problems.join('; ') : null;
+}
+
+// Unavailable dates must be rest days and travel days must fit the time available; race day is exempt
+function checkConstraints(week: Week, { constraints }: WeekCheckContext): string | null {
+  const problems: string[] = [];
+  for (const { date, workout } of week.days) {
+    if (workout.type === 'rest' || workout.type === 'race') continue;
+    const { blocked, maxMinutes } = constraintsForDate(constraints, date);
+    if (blocked) {
+      problems.push(`${date} is unavailable (${blocked}) so it must be a rest day`);
+      continue;
+    }
+    const minutes = estimatedMinutes(workout);
+    if (maxMinutes !== null && minutes !== null && minutes > maxMinutes + MINUTES_TOLERANCE) {
+      problems.push(`${workout.title} on ${date} takes about ${Math.round(minutes)} minutes but the runner only has ${maxMinutes}`);
+    }
+  }
+  return problems.length > 0 ? problems.join('; ') : null;
+}
+
+// A race before the final one has to be on its date at its distance
+function checkRaceDay(week: Week, { skeleton, units }: WeekCheckContext): string | null {
+  const race = skeleton.race;
+  if (!race || race.date < week.startDate || race.date > week.endDate) return null;
+  const day = week.days.find(candidate => candidate.date === race.date);
+  const miles = distanceInMiles(race.distance);
+  if (day?.workout.type !== 'race') {
+    return `${race.date} is race day (${describeSeasonRace(race)}) so it must be a "race" workout`;
+  }
+  return Math.abs((day.workout.distance ?? 0) - miles) > MILEAGE_TOLERANCE
+    ? `The race on ${race.date} must be ${formatDistance(miles, units, 2)}`
+    : null;
+}
+
+const CHECKS: Record<WeekCheckName, (week: Week, context: WeekCheckContext) => string | null> = {
+  dates: checkDates,
+  'mileage-total': checkMileageTotal,
+  'weekly-increase': checkWeeklyIncrease,
+  'rest-days': checkRestDays,
+  availability: checkAvailability,
+  constraints: checkConstraints,
+  'race-day': checkRaceDay
+};
+
+export function validateWeek(week: Week, context: WeekCheckContext, attempts = 1): WeekValidation {
+  const checks = (Object.keys(CHECKS) as WeekCheckName[]).map((name): WeekCheck => {
+    const violation = CHECKS[name](week, context);
+    return { name, passed: violation === null, violation };
+  });
+  return { passed: checks.every(check => check.passed), checks, attempts };
+}
+
+export function listViolations(validation: WeekValidation): string[] {
+  return validation.checks.flatMap(check => (check.violation ? [check.violation] : []));
+}
+
+// What a week gave up to fit around the runner's calendar, for weeks with
+// constrained dates: lost volume, a shorter or missing long run, or a long run
+// moved off the runner's usual day
+export function findCompromises(week: Week, { skeleton, profile, constraints, units }: WeekCheckContext): string[] {
+  const constrained = week.days
+    .map(day => ({ day, constraint: constraintsForDate(constraints, day.date) }))
+    .filter(({ constraint }) => constraint.blocked || constraint.maxMinutes !== null);
+  if (constrained.length === 0 || skeleton.isRaceWeek) return [];
+
+  const reasons = Array.from(new Set(constrained.map(({ constraint }) =>
+    constraint.blocked ?? `${constraint.maxMinutes} minutes a day while travelling`
+  ))).join(', ');
+  const compromises: string[] = [];
+
+  if (week.totalMileage < skeleton.targetMileage - MILEAGE_TOLERANCE) {
+    compromises.push(`Weekly volume cut to ${formatDistance(week.totalMileage, units)} from the planned ${formatDistance(skeleton.targetMileage, units)} to fit around ${reasons}`);
+  }
+
+  // A long enough race stands in for the long run
+  if (skeleton.race && skeleton.longRun === distanceInMiles(skeleton.race.distance)) return compromises;
+  const longRuns = week.days.filter(day => day.workout.type === 'long');
+  const longest = Math.max(0, ...longRuns.map(day => day.workout.distance ?? 0));
+  if (longRuns.length === 0) {
+    compromises.push(`No long run fit around ${reasons}`);
+  } else if (longest < skeleton.longRun - MILEAGE_TOLERANCE) {
+    compromises.push(`Long run shortened to ${formatDistance(longest, units)} from ${formatDistance(skeleton.longRun, units)} to fit around ${reasons}`);
+  }
+
+  const usualDay = profile?.longRunDay;
+  const blockedUsualDay = usualDay && constrained.find(({ day, constraint }) => constraint.blocked && weekdayOf(day.date) === usualDay);
+  if (usualDay && blockedUsualDay && longRuns.length > 0) {
+    compromises.push(`Long run moved to ${WEEKDAY_LABELS[weekdayOf(longRuns[0].date)]} because ${WEEKDAY_LABELS[usualDay]} is unavailable (${blockedUsualDay.constraint.blocked})`);
+  }
+  return compromises;
+}
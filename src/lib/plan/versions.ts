@@ -0,0 +1,236 @@
+import type { Redis } from '@upstash/redis';
+import { getRedis } from '../redis';
+import { configuredStoreName } from './state';
+import { Day, PaceRange, PlanState, PlanVersion, VersionChange, Week, WorkoutType } from './types';
+
+// Immutable history of a plan. Every change to a finished plan appends a full
+// snapshot of its weeks, kept in the same backend as the plans; versions are
+// numbered from 1 by their position. Plans finished before history was kept
+// start theirs at their next change.
+
+interface PlanVersionStore {
+  // Resolves to the number the version was given
+  append(requestId: string, version: Omit<PlanVersion, 'number'>): Promise<number>;
+  list(requestId: string): Promise<PlanVersion[]>;
+  get(requestId: string, number: number): Promise<PlanVersion | null>;
+}
+
+// Firestore transactions that lose the race for the next number are retried
+const MAX_APPEND_ATTEMPTS = 10;
+
+function versionsKey(requestId: string): string {
+  return `versions:${requestId}`;
+}
+
+function versionsCollection(requestId: string): string {
+  return `plans/${requestId}/versions`;
+}
+
+function withNumber(version: Omit<PlanVersion, 'number'>, number: number): PlanVersion {
+  return { ...version, number };
+}
+
+class RedisPlanVersionStore implements PlanVersionStore {
+  constructor(private readonly redis: Redis) {}
+
+  async append(requestId: string, version: Omit<PlanVersion, 'number'>) {
+    return this.redis.rpush(versionsKey(requestId), JSON.stringify(version));
+  }
+
+  async list(requestId: string) {
+    const entries = await this.redis.lrange<string>(versionsKey(requestId), 0, -1);
+    return entries.map((entry, index) => withNumber(JSON.parse(entry), index + 1));
+  }
+
+  async get(requestId: string, number: number) {
+    const entry: string | null = await this.redis.lindex(versionsKey(requestId), number - 1);
+    return entry ? withNumber(JSON.parse(entry), number) : null;
+  }
+}
+
+// Document ids are the zero-padded number, so they sort in order
+class FirestorePlanVersionStore implements PlanVersionStore {
+  private documentId(number: number): string {
+    return String(number).padStart(6, '0');
+  }
+
+  async append(requestId: string, version: Omit<PlanVersion, 'number'>) {
+    const { getDocuments, setDocumentIf } = await import('../firebase/serverFirestore');
+    for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+      const number = (await getDocuments(versionsCollection(requestId))).length + 1;
+      if (await setDocumentIf(versionsCollection(requestId), this.documentId(number), version, current => current === null)) {
+        return number;
+      }
+    }
+    throw new Error(`Could not record a new version of plan ${requestId}`);
+  }
+
+  async list(requestId: string) {
+    const { getDocuments } = await import('../firebase/serverFirestore');
+    return (await getDocuments(versionsCollection(requestId)))
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(({ id, ...version }) => withNumber(version as Omit<PlanVersion, 'number'>, Number(id)));
+  }
+
+  async get(requestId: string, number: number) {
+    const { getDocument } = await import('../firebase/serverFirestore');
+    const document = await getDocument(versionsCollection(requestId), this.documentId(number));
+    if (!document) return null;
+    const { id: _id, ...version } = document;
+    return withNumber(version as Omit<PlanVersion, 'number'>, number);
+  }
+}
+
+// Versions are copied in and out so callers can never mutate the stored history
+class MemoryPlanVersionStore implements PlanVersionStore {
+  private readonly versions = new Map<string, string[]>();
+
+  async append(requestId: string, version: Omit<PlanVersion, 'number'>) {
+    const versions = this.versions.get(requestId) ?? [];
+    versions.push(JSON.stringify(version));
+    this.versions.set(requestId, versions);
+    return versions.length;
+  }
+
+  async list(requestId: string) {
+    return (this.versions.get(requestId) ?? []).map((entry, index) => withNumber(JSON.parse(entry), index + 1));
+  }
+
+  async get(requestId: string, number: number) {
+    const entry = this.versions.get(requestId)?.[number - 1];
+    return entry ? withNumber(JSON.parse(entry), number) : null;
+  }
+}
+
+const globalForVersions = globalThis as unknown as { memoryPlanVersionStore?: MemoryPlanVersionStore };
+
+function getPlanVersionStore(): PlanVersionStore {
+  switch (configuredStoreName()) {
+    case 'redis':
+      return new RedisPlanVersionStore(getRedis());
+    case 'firestore':
+      return new FirestorePlanVersionStore();
+    case 'memory':
+      globalForVersions.memoryPlanVersionStore ??= new MemoryPlanVersionStore();
+      return globalForVersions.memoryPlanVersionStore;
+  }
+}
+
+// Snapshot the plan after a change. Changes made while the plan is still
+// generating are left to the version recorded when it completes.
+export async function recordPlanVersion(
+  requestId: string,
+  state: PlanState,
+  change: VersionChange
+): Promise<PlanVersion | null> {
+  if (state.status !== 'completed') return null;
+  const version: Omit<PlanVersion, 'number'> = {
+    ...change,
+    createdAt: new Date().toISOString(),
+    skeleton: state.skeleton,
+    paceZones: state.paceZones,
+    weeks: state.weeks,
+    validation: state.validation,
+    constraints: state.constraints,
+    races: state.races
+  };
+  return withNumber(version, await getPlanVersionStore().append(requestId, version));
+}
+
+// Oldest first
+export async function listPlanVersions(requestId: string): Promise<PlanVersion[]> {
+  return getPlanVersionStore().list(requestId);
+}
+
+export async function getPlanVersion(requestId: string, number: number): Promise<PlanVersion | null> {
+  if (!Number.isInteger(number) || number < 1) return null;
+  return getPlanVersionStore().get(requestId, number);
+}
+
+export interface WorkoutSummary {
+  date: string;
+  type: WorkoutType;
+  title: string;
+  distance: number | null;
+}
+
+export interface PaceChange {
+  date: string;
+  title: string;
+  previous: PaceRange | null;
+  current: PaceRange | null;
+}
+
+// How one week differs between two versions; mileage in miles and paces in seconds per mile
+export interface WeekDiff {
+  weekNumber: number;
+  // Null when the week did not exist in that version
+  previousMileage: number | null;
+  mileage: number | null;
+  mileageDelta: number;
+  added: WorkoutSummary[];
+  removed: WorkoutSummary[];
+  paceChanges: PaceChange[];
+  // Descriptions, notes or tips were reworded without changing the workouts above
+  textChanged: boolean;
+}
+
+function summarizeDay({ date, workout }: Day): WorkoutSummary {
+  return { date, type: workout.type, title: workout.title, distance: workout.distance };
+}
+
+function samePace(a: PaceRange | null, b: PaceRange | null): boolean {
+  return a?.fast === b?.fast && a?.slow === b?.slow;
+}
+
+function weekText(week: Week | undefined): string {
+  return week
+    ? JSON.stringify([week.tips, week.raceDayTips, week.days.map(day => [day.workout.description, day.workout.notes])])
+    : '';
+}
+
+function diffWeek(weekNumber: number, previous: Week | undefined, current: Week | undefined): WeekDiff | null {
+  const previousDays = new Map((previous?.days ?? []).map(day => [day.date, day]));
+  const currentDays = new Map((current?.days ?? []).map(day => [day.date, day]));
+  const added: WorkoutSummary[] = [];
+  const removed: WorkoutSummary[] = [];
+  const paceChanges: PaceChange[] = [];
+
+  const dates = Array.from(new Set([...Array.from(previousDays.keys()), ...Array.from(currentDays.keys())])).sort();
+  for (const date of dates) {
+    const before = previousDays.get(date);
+    const after = currentDays.get(date);
+    // A day keeps its workout when the type and title are unchanged; anything else is a swap
+    if (before && after && before.workout.type === after.workout.type && before.workout.title === after.workout.title) {
+      if (!samePace(before.workout.pace, after.workout.pace)) {
+        paceChanges.push({ date, title: after.workout.title, previous: before.workout.pace, current: after.workout.pace });
+      }
+      continue;
+    }
+    if (before) removed.push(summarizeDay(before));
+    if (after) added.push(summarizeDay(after));
+  }
+
+  const previousMileage = previous?.totalMileage ?? null;
+  const mileage = current?.totalMileage ?? null;
+  const mileageDelta = Math.round(((mileage ?? 0) - (previousMileage ?? 0)) * 100) / 100;
+  const textChanged = weekText(previous) !== weekText(current);
+  if (mileageDelta === 0 && added.length === 0 && removed.length === 0 && paceChanges.length === 0 && !textChanged) {
+    return null;
+  }
+  return { weekNumber, previousMileage, mileage, mileageDelta, added, removed, paceChanges, textChanged };
+}
+
+// Weeks that changed from one version to the next; against no version, every week is new
+export function diffVersions(
+  previous: Pick<PlanVersion, 'weeks'> | null,
+  current: Pick<PlanVersion, 'weeks'>
+): WeekDiff[] {
+  const before = previous?.weeks ?? {};
+  const weekNumbers = Array.from(new Set([...Object.keys(before), ...Object.keys(current.weeks)]))
+    .map(Number)
+    .sort((a, b) => a - b);
+  return weekNumbers
+    .map(weekNumber => diffWeek(weekNumber, before[weekNumber], current.weeks[weekNumber]))
+    .filter((diff): diff is WeekDiff => diff !== null);
+}
@@ -0,0 +1,35 @@
+import { Redis } from '@upstash/redis';
+
+export function isRedisConfigured(): boolean {
+  return !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN);
+}
+
+// Initialize Redis client with explicit error handling
+function initializeRedis() {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (!url || !token) {
+    console.error('Redis credentials missing:', {
+      hasUrl: !!url,
+      hasToken: !!token
+    });
+    throw new Error('Redis credentials not configured');
+  }
+
+  console.log('Initializing Redis with URL:', url.substring(0, 20) + '...');
+  
+  return new Redis({
+    url,
+    token,
+    automaticDeserialization: false  // Handle JSON manually for better error control
+  });
+}
+
+let client: Redis | null = null;
+
+// Created on first use so modules can be imported without Redis configured
+export function getRedis(): Redis {
+  client ??= initializeRedis();
+  return client;
+}
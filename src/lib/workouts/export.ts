@@ -0,0 +1,48 @@
+import { Day, Week } from '../plan/types';
+import { PaceZones } from '../plan/paces';
+import { buildStructuredWorkout } from './steps';
+import { renderFitWorkout } from './fit';
+import { renderTcxWorkout } from './tcx';
+import { createZip } from './zip';
+import { StructuredWorkout, TargetPreference, WorkoutFileFormat } from './types';
+
+// Workout files for a single day or a whole week, named by date so they sort
+// in order when copied onto a watch.
+
+export const WORKOUT_CONTENT_TYPES: Record<WorkoutFileFormat, string> = {
+  fit: 'application/vnd.ant.fit',
+  tcx: 'application/vnd.garmin.tcx+xml'
+};
+
+export function workoutFileName(workout: StructuredWorkout, format: WorkoutFileFormat): string {
+  const slug = workout.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workout';
+  return `${workout.date}-${slug}.${format}`;
+}
+
+export function renderWorkoutFile(workout: StructuredWorkout, format: WorkoutFileFormat): Uint8Array {
+  return format === 'fit' ? renderFitWorkout(workout) : new TextEncoder().encode(renderTcxWorkout(workout));
+}
+
+export function exportDay(
+  day: Day,
+  paceZones: PaceZones,
+  format: WorkoutFileFormat,
+  preference: TargetPreference
+): { filename: string; data: Uint8Array } | null {
+  const workout = buildStructuredWorkout(day, paceZones, preference);
+  return workout ? { filename: workoutFileName(workout, format), data: renderWorkoutFile(workout, format) } : null;
+}
+
+// One file per session in the week, zipped; null when the week is all rest
+export function exportWeek(
+  week: Week,
+  paceZones: PaceZones,
+  format: WorkoutFileFormat,
+  preference: TargetPreference
+): Uint8Array | null {
+  const entries = week.days
+    .map(day => exportDay(day, paceZones, format, preference))
+    .filter((entry): entry is { filename: string; data: Uint8Array } => entry !== null)
+    .map(({ filename, data }) => ({ name: filename, data }));
+  return entries.length > 0 ? createZip(entries) : null;
+}
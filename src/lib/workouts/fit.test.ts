@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { renderFitWorkout } from './fit';
+import { StructuredWorkout } from './types';
+
+// Bit-at-a-time CRC-16 (polynomial 0xA001), written separately from the
+// nibble table the encoder uses so the two can check each other
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc;
+}
+
+interface DecodedMessage {
+  globalNumber: number;
+  fields: Record<number, number | string>;
+}
+
+// Just enough of a FIT reader to walk the encoder's own output
+function decodeMessages(bytes: Uint8Array): DecodedMessage[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const definitions = new Map<number, { globalNumber: number; fields: { number: number; size: number; baseType: number }[] }>();
+  const messages: DecodedMessage[] = [];
+  const end = bytes[0] + view.getUint32(4, true);
+  let offset = bytes[0];
+
+  while (offset < end) {
+    const header = bytes[offset++];
+    const local = header & 0x0f;
+    if (header & 0x40) {
+      const globalNumber = view.getUint16(offset + 2, true);
+      const count = bytes[offset + 4];
+      offset += 5;
+      const fields = Array.from({ length: count }, (_, index) => ({
+        number: bytes[offset + index * 3],
+        size: bytes[offset + index * 3 + 1],
+        baseType: bytes[offset + index * 3 + 2]
+      }));
+      offset += count * 3;
+      definitions.set(local, { globalNumber, fields });
+      continue;
+    }
+
+    const definition = definitions.get(local)!;
+    const fields: Record<number, number | string> = {};
+    for (const { number, size, baseType } of definition.fields) {
+      const raw = bytes.slice(offset, offset + size);
+      fields[number] = baseType === 0x07
+        ? new TextDecoder().decode(raw.slice(0, raw.indexOf(0)))
+        : raw.reduce((value, byte, index) => value + byte * 2 ** (8 * index), 0);
+      offset += size;
+    }
+    messages.push({ globalNumber: definition.globalNumber, fields });
+  }
+  return messages;
+}
+
+const INTERVALS: StructuredWorkout = {
+  name: 'Intervals',
+  date: '2026-11-04',
+  type: 'intervals',
+  notes: '',
+  steps: [
+    { kind: 'step', name: 'Warm up', intensity: 'warmup', duration: { type: 'distance', meters: 1609 }, target: { type: 'open' } },
+    {
+      kind: 'repeat',
+      count: 6,
+      steps: [
+        { kind: 'step', name: '800m', intensity: 'active', duration: { type: 'distance', meters: 800 }, target: { type: 'pace', pace: { fast: 420, slow: 440 } } },
+        { kind: 'step', name: 'Jog', intensity: 'recovery', duration: { type: 'time', seconds: 120 }, target: { type: 'heart_rate', low: 120, high: 140 } }
+      ]
+    },
+    { kind: 'step', name: 'Cool down', intensity: 'cooldown', duration: { type: 'open' }, target: { type: 'open' } }
+  ]
+};
+
+describe('renderFitWorkout', () => {
+  const bytes = renderFitWorkout(INTERVALS, new Date('2026-11-01T00:00:00Z'));
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  it('writes a 14-byte header with its own CRC', () => {
+    expect(bytes[0]).toBe(14);
+    expect(new TextDecoder().decode(bytes.slice(8, 12))).toBe('.FIT');
+    expect(view.getUint32(4, true)).toBe(bytes.length - 14 - 2);
+    expect(view.getUint16(12, true)).toBe(crc16(bytes.slice(0, 12)));
+  });
+
+  it('ends with a CRC of the header and every record', () => {
+    expect(view.getUint16(bytes.length - 2, true)).toBe(crc16(bytes.slice(0, -2)));
+    // A file's CRC over itself, trailing CRC included, comes out as zero
+    expect(crc16(bytes)).toBe(0);
+  });
+
+  it('lays a repeat out as its steps followed by a step pointing back to the first', () => {
+    const messages = decodeMessages(bytes);
+    const workout = messages.find(message => message.globalNumber === 26)!;
+    const steps = messages.filter(message => message.globalNumber === 27).map(message => message.fields);
+
+    expect(workout.fields[6]).toBe(5);
+    expect(workout.fields[8]).toBe('Intervals');
+    expect(steps.map(step => step[254])).toEqual([0, 1, 2, 3, 4]);
+    expect(steps.map(step => step[0])).toEqual(['Warm up', '800m', 'Jog', '', 'Cool down']);
+
+    // duration_type 6 repeats from the step in duration_value, target_value times
+    expect(steps[3]).toMatchObject({ 1: 6, 2: 1, 4: 6 });
+    expect(steps[1]).toMatchObject({ 1: 1, 2: 80000, 3: 0 });
+    expect(steps[2]).toMatchObject({ 1: 0, 2: 120000, 3: 1, 5: 220, 6: 240 });
+  });
+});
@@ -0,0 +1,195 @@
+import { METERS_PER_MILE } from '../plan/paces';
+import { MAX_NAME_LENGTH } from './steps';
+import { StepIntensity, StructuredWorkout, WorkoutStep } from './types';
+
+// Encoder for FIT workout files, the format Garmin and COROS watches load from
+// their NewFiles/workouts folders. Writes a file_id message, a workout message
+// and one workout_step per step, with repeats as "repeat until steps complete".
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31);
+const PROTOCOL_VERSION = 0x10;
+const PROFILE_VERSION = 2132;
+const HEADER_SIZE = 14;
+
+const MESSAGE_FILE_ID = 0;
+const MESSAGE_WORKOUT = 26;
+const MESSAGE_WORKOUT_STEP = 27;
+
+const FILE_TYPE_WORKOUT = 5;
+const MANUFACTURER_DEVELOPMENT = 255;
+const SPORT_RUNNING = 1;
+
+const DURATION_TIME = 0;
+const DURATION_DISTANCE = 1;
+const DURATION_OPEN = 5;
+const DURATION_REPEAT_UNTIL_STEPS_COMPLETE = 6;
+
+const TARGET_SPEED = 0;
+const TARGET_HEART_RATE = 1;
+const TARGET_OPEN = 2;
+
+const INTENSITIES: Record<StepIntensity, number> = {
+  active: 0,
+  recovery: 1,
+  warmup: 2,
+  cooldown: 3
+};
+
+// Base types
+const ENUM = 0x00;
+const STRING = 0x07;
+const UINT16 = 0x84;
+const UINT32 = 0x86;
+const UINT32Z = 0x8c;
+
+const INVALID: Record<number, number> = {
+  [ENUM]: 0xff,
+  [UINT16]: 0xffff,
+  [UINT32]: 0xffffffff,
+  [UINT32Z]: 0
+};
+
+// Custom heart-rate targets are offset by 100 so 1-100 can mean zones
+const HEART_RATE_OFFSET = 100;
+
+interface Field {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+type FieldValue = number | string | null;
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400
+];
+
+function crc16(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+// Little-endian writer for definition and data messages
+class FitWriter {
+  private readonly chunks: number[] = [];
+  private readonly definitions = new Map<number, Field[]>();
+
+  define(local: number, globalNumber: number, fields: Field[]) {
+    this.definitions.set(local, fields);
+    this.chunks.push(0x40 | local, 0, 0, globalNumber & 0xff, globalNumber >> 8, fields.length);
+    for (const field of fields) {
+      this.chunks.push(field.number, field.size, field.baseType);
+    }
+  }
+
+  write(local: number, values: FieldValue[]) {
+    const fields = this.definitions.get(local);
+    if (!fields) throw new Error(`FIT local message ${local} is not defined`);
+    this.chunks.push(local);
+    fields.forEach((field, index) => this.writeValue(field, values[index] ?? null));
+  }
+
+  private writeValue({ size, baseType }: Field, value: FieldValue) {
+    if (baseType === STRING) {
+      const bytes = new TextEncoder().encode(typeof value === 'string' ? value : '').slice(0, size - 1);
+      for (let i = 0; i < size; i++) this.chunks.push(bytes[i] ?? 0);
+      return;
+    }
+    const number = typeof value === 'number' ? Math.round(value) : INVALID[baseType];
+    for (let i = 0; i < size; i++) {
+      this.chunks.push(Math.floor(number / 2 ** (8 * i)) & 0xff);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    const dataSize = this.chunks.length;
+    const bytes = new Uint8Array(HEADER_SIZE + dataSize + 2);
+    const view = new DataView(bytes.buffer);
+    view.setUint8(0, HEADER_SIZE);
+    view.setUint8(1, PROTOCOL_VERSION);
+    view.setUint16(2, PROFILE_VERSION, true);
+    view.setUint32(4, dataSize, true);
+    bytes.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    view.setUint16(12, crc16(bytes, 0, 12), true);
+    bytes.set(this.chunks, HEADER_SIZE);
+    view.setUint16(HEADER_SIZE + dataSize, crc16(bytes, 0, HEADER_SIZE + dataSize), true);
+    return bytes;
+  }
+}
+
+// Field values for one workout_step, in the order defined below
+function stepValues(step: WorkoutStep, index: number): FieldValue[] {
+  const { duration, target } = step;
+  const [durationType, durationValue] = duration.type === 'distance'
+    ? [DURATION_DISTANCE, duration.meters * 100]
+    : duration.type === 'time' ? [DURATION_TIME, duration.seconds * 1000] : [DURATION_OPEN, null];
+  const [targetType, low, high] = target.type === 'pace'
+    // Speeds in mm/s, slower pace as the low end
+    ? [TARGET_SPEED, METERS_PER_MILE / target.pace.slow * 1000, METERS_PER_MILE / target.pace.fast * 1000]
+    : target.type === 'heart_rate'
+      ? [TARGET_HEART_RATE, target.low + HEART_RATE_OFFSET, target.high + HEART_RATE_OFFSET]
+      : [TARGET_OPEN, null, null];
+  return [index, step.name, durationType, durationValue, targetType, targetType === TARGET_OPEN ? null : 0, low, high, INTENSITIES[step.intensity]];
+}
+
+export function renderFitWorkout(workout: StructuredWorkout, now = new Date()): Uint8Array {
+  const writer = new FitWriter();
+  const nameSize = MAX_NAME_LENGTH + 1;
+
+  writer.define(0, MESSAGE_FILE_ID, [
+    { number: 0, size: 1, baseType: ENUM }, // type
+    { number: 1, size: 2, baseType: UINT16 }, // manufacturer
+    { number: 2, size: 2, baseType: UINT16 }, // product
+    { number: 3, size: 4, baseType: UINT32Z }, // serial_number
+    { number: 4, size: 4, baseType: UINT32 } // time_created
+  ]);
+  const created = Math.floor((now.getTime() - FIT_EPOCH_MS) / 1000);
+  writer.write(0, [FILE_TYPE_WORKOUT, MANUFACTURER_DEVELOPMENT, 0, created, created]);
+
+  // Repeat blocks become their child steps followed by a repeat step
+  const steps: FieldValue[][] = [];
+  for (const step of workout.steps) {
+    if (step.kind === 'step') {
+      steps.push(stepValues(step, steps.length));
+      continue;
+    }
+    const first = steps.length;
+    for (const child of step.steps) {
+      steps.push(stepValues(child, steps.length));
+    }
+    steps.push([steps.length, null, DURATION_REPEAT_UNTIL_STEPS_COMPLETE, first, TARGET_OPEN, step.count, null, null, null]);
+  }
+
+  writer.define(1, MESSAGE_WORKOUT, [
+    { number: 4, size: 1, baseType: ENUM }, // sport
+    { number: 6, size: 2, baseType: UINT16 }, // num_valid_steps
+    { number: 8, size: nameSize, baseType: STRING } // wkt_name
+  ]);
+  writer.write(1, [SPORT_RUNNING, steps.length, workout.name]);
+
+  writer.define(2, MESSAGE_WORKOUT_STEP, [
+    { number: 254, size: 2, baseType: UINT16 }, // message_index
+    { number: 0, size: nameSize, baseType: STRING }, // wkt_step_name
+    { number: 1, size: 1, baseType: ENUM }, // duration_type
+    { number: 2, size: 4, baseType: UINT32 }, // duration_value
+    { number: 3, size: 1, baseType: ENUM }, // target_type
+    { number: 4, size: 4, baseType: UINT32 }, // target_value
+    { number: 5, size: 4, baseType: UINT32 }, // custom_target_value_low
+    { number: 6, size: 4, baseType: UINT32 }, // custom_target_value_high
+    { number: 7, size: 1, baseType: ENUM } // intensity
+  ]);
+  for (const values of steps) {
+    writer.write(2, values);
+  }
+
+  return writer.toBytes();
+}
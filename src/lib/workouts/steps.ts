@@ -0,0 +1,182 @@
+import { Day, PaceRange, Workout, WorkoutType } from '../plan/types';
+import { getPaceZone, METERS_PER_MILE, PaceZoneName, PaceZones } from '../plan/paces';
+import { RepeatBlock, StepDuration, StepTarget, StructuredWorkout, TargetPreference, WorkoutStep } from './types';
+
+// Turns a planned day into watch steps. Interval sessions get a warmup and
+// cooldown from whatever distance the repeats leave over; tempo runs get a
+// mile either side; everything else is a single step.
+
+// Longest name TCX allows, and what fits in the FIT name fields
+export const MAX_NAME_LENGTH = 15;
+
+// Tempo runs at least this long get a mile of warmup and cooldown (miles)
+const TEMPO_WARMUP_THRESHOLD = 3;
+// Leftover distance below this goes into lap-button warmup and cooldown steps (miles)
+const MIN_WARMUP_DISTANCE = 0.5;
+
+// Fraction of max heart rate for each zone; repetitions are too short for HR to settle
+const HEART_RATE_ZONES: Record<Exclude<PaceZoneName, 'race'>, [number, number] | null> = {
+  easy: [0.65, 0.79],
+  long: [0.65, 0.79],
+  marathon: [0.8, 0.85],
+  threshold: [0.88, 0.92],
+  interval: [0.92, 0.98],
+  repetition: null
+};
+
+const DEFAULT_ZONES: Record<WorkoutType, PaceZoneName> = {
+  rest: 'easy',
+  cross_training: 'easy',
+  recovery: 'easy',
+  easy: 'easy',
+  long: 'long',
+  tempo: 'threshold',
+  intervals: 'interval',
+  race: 'race'
+};
+
+export function isExportable(workout: Workout): boolean {
+  return workout.type !== 'rest' && workout.type !== 'cross_training'
+    && (workout.distance !== null || workout.durationMinutes !== null || (workout.intervals?.length ?? 0) > 0);
+}
+
+function shortName(name: string): string {
+  return name.trim().slice(0, MAX_NAME_LENGTH).trim();
+}
+
+function zonePace(paceZones: PaceZones, name: PaceZoneName): PaceRange {
+  // Marathon plans have no separate race zone
+  const zone = name === 'race' && !paceZones.zones.some(candidate => candidate.name === 'race')
+    ? getPaceZone(paceZones, 'marathon')
+    : getPaceZone(paceZones, name);
+  return zone.perMile;
+}
+
+// The training zone a pace falls closest to, used to pick a heart-rate range
+function nearestZone(paceZones: PaceZones, pace: PaceRange): Exclude<PaceZoneName, 'race'> {
+  const middle = (range: PaceRange) => (range.fast + range.slow) / 2;
+  let best = paceZones.zones[0];
+  for (const zone of paceZones.zones) {
+    if (zone.name === 'race') continue;
+    if (best.name === 'race' || Math.abs(middle(zone.perMile) - middle(pace)) < Math.abs(middle(best.perMile) - middle(pace))) {
+      best = zone;
+    }
+  }
+  return best.name as Exclude<PaceZoneName, 'race'>;
+}
+
+function target(pace: PaceRange, paceZones: PaceZones, preference: TargetPreference): StepTarget {
+  if (preference.type === 'pace') {
+    return { type: 'pace', pace };
+  }
+  const fractions = HEART_RATE_ZONES[nearestZone(paceZones, pace)];
+  if (!fractions) return { type: 'open' };
+  return {
+    type: 'heart_rate',
+    low: Math.round(preference.maxHeartRate * fractions[0]),
+    high: Math.round(preference.maxHeartRate * fractions[1])
+  };
+}
+
+function distance(miles: number): StepDuration {
+  return { type: 'distance', meters: Math.round(miles * METERS_PER_MILE) };
+}
+
+// Recovery is free text from the plan, e.g. "400m jog", "90 sec", "2 min walk"
+export function parseRecovery(text: string | null): StepDuration {
+  if (!text) return { type: 'open' };
+  const match = (pattern: RegExp) => {
+    const result = text.match(pattern);
+    return result ? Number(result[1]) : null;
+  };
+
+  const clock = text.match(/(\d+):(\d{2})\b/);
+  if (clock) return { type: 'time', seconds: Number(clock[1]) * 60 + Number(clock[2]) };
+
+  const meters = match(/(\d+(?:\.\d+)?)\s*(?:m|meters?|metres?)\b/i);
+  if (meters !== null) return { type: 'distance', meters: Math.round(meters) };
+  const kilometers = match(/(\d+(?:\.\d+)?)\s*(?:km|kilometers?|kilometres?)\b/i);
+  if (kilometers !== null) return { type: 'distance', meters: Math.round(kilometers * 1000) };
+  const miles = match(/(\d+(?:\.\d+)?)\s*(?:mi|miles?)\b/i);
+  if (miles !== null) return distance(miles);
+  const seconds = match(/(\d+(?:\.\d+)?)\s*(?:s|secs?|seconds?)\b/i);
+  if (seconds !== null) return { type: 'time', seconds: Math.round(seconds) };
+  const minutes = match(/(\d+(?:\.\d+)?)\s*(?:min|mins|minutes?)\b/i);
+  if (minutes !== null) return { type: 'time', seconds: Math.round(minutes * 60) };
+
+  return { type: 'open' };
+}
+
+// Miles covered by a step, estimating timed steps at the given pace
+function stepMiles(duration: StepDuration, pace: PaceRange): number {
+  if (duration.type === 'distance') return duration.meters / METERS_PER_MILE;
+  if (duration.type === 'time') return duration.seconds / pace.slow;
+  return 0;
+}
+
+function intervalSteps(workout: Workout, paceZones: PaceZones, preference: TargetPreference): (WorkoutStep | RepeatBlock)[] {
+  const easy = zonePace(paceZones, 'easy');
+  const workPace = workout.pace ?? zonePace(paceZones, DEFAULT_ZONES[workout.type]);
+  let mainMiles = 0;
+
+  const blocks = (workout.intervals ?? []).map((interval): WorkoutStep | RepeatBlock => {
+    const work: WorkoutStep = {
+      kind: 'step',
+      name: shortName(interval.distance * METERS_PER_MILE < 2000
+        ? `${Math.round(interval.distance * METERS_PER_MILE)} m`
+        : `${Math.round(interval.distance * 100) / 100} mi`),
+      intensity: 'active',
+      duration: distance(interval.distance),
+      target: target(interval.pace ?? workPace, paceZones, preference)
+    };
+    const recoveryDuration = parseRecovery(interval.recovery);
+    const steps: WorkoutStep[] = [work];
+    if (interval.recovery) {
+      steps.push({ kind: 'step', name: 'Recovery', intensity: 'recovery', duration: recoveryDuration, target: { type: 'open' } });
+    }
+    mainMiles += interval.repeats * (interval.distance + stepMiles(recoveryDuration, easy));
+    return interval.repeats > 1 ? { kind: 'repeat', count: interval.repeats, steps } : work;
+  });
+
+  // Split whatever the repeats leave of the day's distance between warmup and cooldown
+  const leftover = workout.distance !== null ? workout.distance - mainMiles : 0;
+  const easyDuration: StepDuration = leftover >= MIN_WARMUP_DISTANCE * 2 ? distance(leftover / 2) : { type: 'open' };
+  return [
+    { kind: 'step', name: 'Warm Up', intensity: 'warmup', duration: easyDuration, target: target(easy, paceZones, preference) },
+    ...blocks,
+    { kind: 'step', name: 'Cool Down', intensity: 'cooldown', duration: easyDuration, target: target(easy, paceZones, preference) }
+  ];
+}
+
+function continuousSteps(workout: Workout, paceZones: PaceZones, preference: TargetPreference): WorkoutStep[] {
+  const pace = workout.pace ?? zonePace(paceZones, DEFAULT_ZONES[workout.type]);
+  const duration: StepDuration = workout.distance !== null
+    ? distance(workout.distance)
+    : workout.durationMinutes !== null ? { type: 'time', seconds: workout.durationMinutes * 60 } : { type: 'open' };
+
+  if (workout.type === 'tempo' && workout.distance !== null && workout.distance >= TEMPO_WARMUP_THRESHOLD) {
+    const easy = target(zonePace(paceZones, 'easy'), paceZones, preference);
+    return [
+      { kind: 'step', name: 'Warm Up', intensity: 'warmup', duration: distance(1), target: easy },
+      { kind: 'step', name: 'Tempo', intensity: 'active', duration: distance(workout.distance - 2), target: target(pace, paceZones, preference) },
+      { kind: 'step', name: 'Cool Down', intensity: 'cooldown', duration: distance(1), target: easy }
+    ];
+  }
+  return [{ kind: 'step', name: shortName(workout.title), intensity: 'active', duration, target: target(pace, paceZones, preference) }];
+}
+
+// Null for rest and cross-training days, which have nothing to put on a watch
+export function buildStructuredWorkout(day: Day, paceZones: PaceZones, preference: TargetPreference): StructuredWorkout | null {
+  const { workout } = day;
+  if (!isExportable(workout)) return null;
+
+  return {
+    name: shortName(workout.title),
+    date: day.date,
+    type: workout.type,
+    notes: [workout.description, workout.notes].filter(Boolean).join('\n'),
+    steps: workout.intervals && workout.intervals.length > 0
+      ? intervalSteps(workout, paceZones, preference)
+      : continuousSteps(workout, paceZones, preference)
+  };
+}
@@ -0,0 +1,80 @@
+import { METERS_PER_MILE } from '../plan/paces';
+import { StepDuration, StepTarget, StructuredWorkout, WorkoutStep, RepeatBlock } from './types';
+
+// TCX workout XML (Training Center Database v2), which Garmin Connect and
+// most watch tools import directly.
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderDuration(duration: StepDuration): string {
+  switch (duration.type) {
+    case 'distance':
+      return `<Duration xsi:type="Distance_t"><Meters>${duration.meters}</Meters></Duration>`;
+    case 'time':
+      return `<Duration xsi:type="Time_t"><Seconds>${duration.seconds}</Seconds></Duration>`;
+    case 'open':
+      return '<Duration xsi:type="UserInitiated_t"/>';
+  }
+}
+
+function renderTarget(target: StepTarget): string {
+  switch (target.type) {
+    case 'pace': {
+      // Slower pace is the lower speed
+      const low = (METERS_PER_MILE / target.pace.slow).toFixed(3);
+      const high = (METERS_PER_MILE / target.pace.fast).toFixed(3);
+      return `<Target xsi:type="Speed_t"><SpeedZone xsi:type="CustomSpeedZone_t"><ViewAs>Pace</ViewAs>`
+        + `<LowInMetersPerSecond>${low}</LowInMetersPerSecond><HighInMetersPerSecond>${high}</HighInMetersPerSecond></SpeedZone></Target>`;
+    }
+    case 'heart_rate':
+      return `<Target xsi:type="HeartRate_t"><HeartRateZone xsi:type="CustomHeartRateZone_t">`
+        + `<Low xsi:type="HeartRateInBeatsPerMinute_t"><Value>${target.low}</Value></Low>`
+        + `<High xsi:type="HeartRateInBeatsPerMinute_t"><Value>${target.high}</Value></High></HeartRateZone></Target>`;
+    case 'open':
+      return '<Target xsi:type="None_t"/>';
+  }
+}
+
+export function renderTcxWorkout(workout: StructuredWorkout): string {
+  let stepId = 0;
+
+  const renderStep = (step: WorkoutStep, element: string, indent: string) => [
+    `${indent}<${element} xsi:type="Step_t">`,
+    `${indent}  <StepId>${++stepId}</StepId>`,
+    `${indent}  <Name>${escapeXml(step.name)}</Name>`,
+    `${indent}  ${renderDuration(step.duration)}`,
+    `${indent}  <Intensity>${step.intensity === 'recovery' ? 'Resting' : 'Active'}</Intensity>`,
+    `${indent}  ${renderTarget(step.target)}`,
+    `${indent}</${element}>`
+  ];
+
+  const renderRepeat = (block: RepeatBlock, indent: string) => [
+    `${indent}<Step xsi:type="Repeat_t">`,
+    `${indent}  <StepId>${++stepId}</StepId>`,
+    `${indent}  <Repetitions>${block.count}</Repetitions>`,
+    ...block.steps.flatMap(step => renderStep(step, 'Child', `${indent}  `)),
+    `${indent}</Step>`
+  ];
+
+  const indent = '      ';
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <Workouts>',
+    '    <Workout Sport="Running">',
+    `${indent}<Name>${escapeXml(workout.name)}</Name>`,
+    ...workout.steps.flatMap(step => step.kind === 'repeat' ? renderRepeat(step, indent) : renderStep(step, 'Step', indent)),
+    `${indent}<ScheduledOn>${workout.date}</ScheduledOn>`,
+    ...(workout.notes ? [`${indent}<Notes>${escapeXml(workout.notes)}</Notes>`] : []),
+    '    </Workout>',
+    '  </Workouts>',
+    '</TrainingCenterDatabase>',
+    ''
+  ].join('\n');
+}
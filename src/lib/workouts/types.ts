@@ -0,0 +1,50 @@
+import { PaceRange, WorkoutType } from '../plan/types';
+
+// Structured workouts for GPS watches. A planned day becomes a list of steps
+// (warmup, repeats, recovery, cooldown) that the FIT and TCX writers encode.
+
+export type WorkoutFileFormat = 'fit' | 'tcx';
+
+export const WORKOUT_FILE_FORMATS: WorkoutFileFormat[] = ['fit', 'tcx'];
+
+export type StepIntensity = 'warmup' | 'active' | 'recovery' | 'cooldown';
+
+export type StepDuration =
+  | { type: 'distance'; meters: number }
+  | { type: 'time'; seconds: number }
+  // Ends when the runner presses lap
+  | { type: 'open' };
+
+export type StepTarget =
+  // Seconds per mile, like the plan
+  | { type: 'pace'; pace: PaceRange }
+  | { type: 'heart_rate'; low: number; high: number }
+  | { type: 'open' };
+
+export interface WorkoutStep {
+  kind: 'step';
+  name: string;
+  intensity: StepIntensity;
+  duration: StepDuration;
+  target: StepTarget;
+}
+
+export interface RepeatBlock {
+  kind: 'repeat';
+  count: number;
+  steps: WorkoutStep[];
+}
+
+export interface StructuredWorkout {
+  // Short enough for watch screens
+  name: string;
+  date: string; // yyyy-MM-dd
+  type: WorkoutType;
+  notes: string;
+  steps: (WorkoutStep | RepeatBlock)[];
+}
+
+// Whether steps get pace targets or heart-rate targets worked out from max HR
+export type TargetPreference =
+  | { type: 'pace' }
+  | { type: 'heart_rate'; maxHeartRate: number };
@@ -0,0 +1,97 @@
+// Minimal ZIP writer for bundling a week's workout files. Entries are stored
+// uncompressed: the files are a few hundred bytes each, and this keeps the
+// archive buildable on the edge runtime without a compression library.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields used by ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export function createZip(entries: ZipEntry[], now = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(now);
+  const files = entries.map(entry => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.nameBytes.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.nameBytes.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  // Fields shared by the local and central headers: version, flags (UTF-8 names), method, time, date, crc, sizes, name length
+  const writeCommon = (file: typeof files[number]) => {
+    view.setUint16(offset, 20, true);
+    view.setUint16(offset + 2, 0x0800, true);
+    view.setUint16(offset + 4, 0, true);
+    view.setUint16(offset + 6, stamp.time, true);
+    view.setUint16(offset + 8, stamp.date, true);
+    view.setUint32(offset + 10, file.crc, true);
+    view.setUint32(offset + 14, file.data.length, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint16(offset + 22, file.nameBytes.length, true);
+    offset += 24;
+  };
+
+  const localOffsets: number[] = [];
+  for (const file of files) {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    offset += 4;
+    writeCommon(file);
+    view.setUint16(offset, 0, true); // extra field length
+    offset += 2;
+    bytes.set(file.nameBytes, offset);
+    offset += file.nameBytes.length;
+    bytes.set(file.data, offset);
+    offset += file.data.length;
+  }
+
+  const centralOffset = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    offset += 6;
+    writeCommon(file);
+    // Extra, comment, disk, internal and external attributes are all zero
+    offset += 12;
+    view.setUint32(offset, localOffsets[index], true);
+    offset += 4;
+    bytes.set(file.nameBytes, offset);
+    offset += file.nameBytes.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  return bytes;
+}
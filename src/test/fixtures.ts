@@ -0,0 +1,61 @@
+import { GeneratedWeek } from '@/lib/plan/generator';
+import { PlanState, Week } from '@/lib/plan/types';
+
+// Shared test data: a valid plan nothing has been generated for yet, and weeks to fill it with
+
+export function testPlanState(overrides: Partial<PlanState> = {}): PlanState {
+  return {
+    status: 'in_progress',
+    email: 'runner@example.com',
+    ownerId: null,
+    calendarKey: null,
+    raceDate: '2027-03-07',
+    raceDistance: { id: 'marathon', label: 'Marathon', meters: 42195 },
+    goalTime: { hours: '3', minutes: '45', seconds: '0' },
+    currentMileage: '25',
+    profile: null,
+    constraints: { blackouts: [], travel: [], commitments: [] },
+    races: [],
+    units: 'mi',
+    totalWeeks: 3,
+    currentWeek: 1,
+    skeleton: [],
+    paceZones: { vdot: 42, zones: [] },
+    weeks: {},
+    markdown: {},
+    validation: {},
+    weekHistory: {},
+    adaptations: [],
+    shareLinks: [],
+    pendingChange: null,
+    restorePoint: null,
+    completedAt: null,
+    error: null,
+    startTime: '2026-11-01T00:00:00.000Z',
+    emailSentAt: null,
+    version: 0,
+    ...overrides
+  };
+}
+
+export function testWeek(weekNumber: number, overrides: Partial<Week> = {}): Week {
+  return {
+    weekNumber,
+    phase: 'base',
+    startDate: '2026-11-02',
+    endDate: '2026-11-08',
+    totalMileage: 25,
+    days: [],
+    tips: `Week ${weekNumber}`,
+    raceDayTips: null,
+    ...overrides
+  };
+}
+
+export function testGeneratedWeek(weekNumber: number, overrides: Partial<Week> = {}): GeneratedWeek {
+  return {
+    week: testWeek(weekNumber, overrides),
+    markdown: `## Week ${weekNumber}`,
+    validation: { passed: true, checks: [], attempts: 1 }
+  };
+}